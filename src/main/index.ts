@@ -9,7 +9,9 @@ import Store from 'electron-store';
 import { DeviceStorage } from './services/storage/DeviceStorage';
 import { CredentialStore } from './services/storage/CredentialStore';
 import { BackupManager } from './services/backup/BackupManager';
+import { SSHSessionPool } from './services/ssh/SSHSessionPool';
 import { registerIPCHandlers } from './ipc-handlers';
+import { IPCChannel, SSHConnectionStateEvent } from '@shared/types';
 
 // Configure logging
 log.transports.file.level = 'info';
@@ -21,6 +23,19 @@ const deviceStorage = new DeviceStorage();
 const credentialStore = new CredentialStore();
 const backupManager = new BackupManager();
 const settings = new Store();
+const sessionPool = new SSHSessionPool();
+
+// Forward connection state changes to the renderer
+sessionPool.on('state', (event: SSHConnectionStateEvent) => {
+  mainWindow?.webContents.send(IPCChannel.SSH_CONNECTION_STATE, event);
+});
+
+// Keep the stored version current so previews and reconnects use the right dialect
+sessionPool.on('version', (deviceId: string, vyosVersion: string) => {
+  deviceStorage.updateDeviceInfo(deviceId, { vyosVersion }).catch((error) => {
+    log.error(`Failed to store VyOS version of device ${deviceId}:`, error);
+  });
+});
 
 // ============================================================================
 // Application Lifecycle
@@ -49,6 +64,7 @@ app.on('ready', async () => {
     credentialStore,
     backupManager,
     settings,
+    sessionPool,
   });
 
   // Create main window
@@ -69,6 +85,7 @@ app.on('activate', () => {
 
 app.on('before-quit', async () => {
   log.info('Application shutting down...');
+  sessionPool.disconnectAll();
   await deviceStorage.close();
 });
 
@@ -123,4 +140,4 @@ process.on('unhandledRejection', (reason, promise) => {
 });
 
 // Export for testing
-export { mainWindow, deviceStorage, credentialStore, backupManager, settings };
+export { mainWindow, deviceStorage, credentialStore, backupManager, settings, sessionPool };
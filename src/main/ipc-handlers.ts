@@ -3,13 +3,63 @@
  */
 
 import { IpcMain } from 'electron';
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import log from 'electron-log';
 import { DeviceStorage } from './services/storage/DeviceStorage';
 import { CredentialStore } from './services/storage/CredentialStore';
+import { SSHConnectionOptions } from './services/ssh/SSHClient';
+import { KnownHosts } from './services/ssh/KnownHosts';
+import { SSHSessionPool } from './services/ssh/SSHSessionPool';
 import { BackupManager } from './services/backup/BackupManager';
 import { VyOSClient } from './services/vyos/VyOSClient';
-import { DeviceProfile, IPCChannel, IPCResponse } from '@shared/types';
+import { ConfigDiff } from './services/vyos/ConfigDiff';
+import { ConfigParser } from './services/vyos/ConfigParser';
+import { ChangeSetManager } from './services/vyos/ChangeSetManager';
+import { VrrpConflictChecker, VrrpDeviceSegments } from './services/vyos/VrrpConflicts';
+import {
+  BGPConfig,
+  RoutingPolicy,
+  DeviceProfile,
+  IPCChannel,
+  IPCResponse,
+  ConfigRestoreResult,
+  ConfigDiffResult,
+  ConfigDiffSource,
+  ChangeSet,
+  DhcpLease,
+  DhcpServer,
+  DnsConfig,
+  VrrpConfig,
+  VrrpConflictReport,
+  VrrpStatus,
+  WanLoadBalancing,
+  WanInterfaceStatus,
+  QosPolicy,
+  FirewallConfig,
+  FirewallGroup,
+  FirewallGroupType,
+  OSPFConfig,
+  OSPFNeighbor,
+  StaticRoute,
+  PolicyRoutingConfig,
+  Vrf,
+  HostKeyIdentity,
+  HostKeyPrompt,
+  HostKeyVerificationError,
+  JumpHost,
+  VyOSConfigBackup,
+  WireGuardClientConfig,
+  WireGuardClientConfigRequest,
+  OpenVpnConfig,
+  OpenVpnClientProfile,
+  OpenVpnClientProfileRequest,
+  WireGuardInterface,
+  WireGuardKeyPair,
+} from '@shared/types';
+import { DEFAULTS, KNOWN_HOSTS_PATH } from '@shared/constants';
 import type Store from 'electron-store';
 
 interface Services {
@@ -17,16 +67,125 @@ interface Services {
   credentialStore: CredentialStore;
   backupManager: BackupManager;
   settings: Store;
+  sessionPool: SSHSessionPool;
 }
 
-// Active VyOS connections
-const activeConnections = new Map<string, VyOSClient>();
+const configDiff = new ConfigDiff();
+const configParser = new ConfigParser();
+const vrrpConflictChecker = new VrrpConflictChecker();
+const changeSetManager = new ChangeSetManager();
+
+/**
+ * Build SSH connection options for a device, including its jump host chain,
+ * from its profile and stored credentials
+ */
+async function buildConnectionOptions(
+  device: DeviceProfile,
+  credentialStore: CredentialStore
+): Promise<SSHConnectionOptions> {
+  const credentials = await credentialStore.getCredentials(device.id);
+  if (!credentials) {
+    throw new Error('Credentials not found');
+  }
+
+  const jumpHosts = await Promise.all(
+    (device.jumpHosts || []).map(async (hop, index) => {
+      const hopCredentials = await credentialStore.getJumpHostCredentials(hop.id);
+      if (!hopCredentials && !hop.keyPath) {
+        throw new Error(`Credentials not found for jump host ${index + 1} (${hop.host})`);
+      }
+
+      return {
+        id: hop.id,
+        host: hop.host,
+        port: hop.port,
+        username: hop.username,
+        password: hopCredentials?.password,
+        privateKeyPath: hop.keyPath,
+        privateKey: hopCredentials?.privateKey,
+        hostKeyType: hop.hostKeyType,
+        hostKeyFingerprint: hop.hostKeyFingerprint,
+      };
+    })
+  );
+
+  return {
+    host: device.host,
+    port: device.port,
+    username: device.username,
+    password: credentials.password,
+    privateKeyPath: device.keyPath,
+    privateKey: credentials.privateKey,
+    hostKeyType: device.hostKeyType,
+    hostKeyFingerprint: device.hostKeyFingerprint,
+    jumpHosts,
+  };
+}
+
+/**
+ * Store the secrets for a device's jump hosts and give new hops an ID
+ */
+async function storeJumpHostCredentials(jumpHosts: JumpHost[], credentialStore: CredentialStore): Promise<JumpHost[]> {
+  return Promise.all(
+    jumpHosts.map(async (hop) => {
+      const stored: JumpHost = { ...hop, id: hop.id || uuidv4() };
+
+      if (hop.password || hop.privateKey) {
+        await credentialStore.storeJumpHostCredentials(stored.id, {
+          password: hop.authType === 'password' ? hop.password : undefined,
+          privateKey: hop.authType === 'key' ? hop.privateKey : undefined,
+        });
+      }
+
+      return stored;
+    })
+  );
+}
+
+/**
+ * Keep the pinned host key of each hop the edit left in place; a hop whose
+ * endpoint changed has to be trusted again
+ */
+function keepJumpHostKeys(jumpHosts: JumpHost[], previous: JumpHost[] = []): JumpHost[] {
+  return jumpHosts.map((hop) => {
+    const existing = previous.find((other) => other.id === hop.id);
+    const unchanged = existing && existing.host === hop.host && existing.port === hop.port;
+
+    return {
+      ...hop,
+      hostKeyType: unchanged ? existing.hostKeyType : undefined,
+      hostKeyFingerprint: unchanged ? existing.hostKeyFingerprint : undefined,
+    };
+  });
+}
+
+/**
+ * Turn a host key rejection into a response the renderer can prompt on
+ */
+function hostKeyFailure(error: HostKeyVerificationError, device: DeviceProfile): IPCResponse<HostKeyPrompt> {
+  const hop = error.jumpHostId ? device.jumpHosts?.find((other) => other.id === error.jumpHostId) : undefined;
+
+  return {
+    id: uuidv4(),
+    success: false,
+    error: error.message,
+    data: {
+      deviceId: device.id,
+      host: hop ? hop.host : device.host,
+      port: hop ? hop.port : device.port,
+      status: error.status,
+      presented: error.presented,
+      expected: error.expected,
+      jumpHostId: hop?.id,
+    },
+  };
+}
 
 /**
  * Register all IPC handlers
  */
 export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void {
-  const { deviceStorage, credentialStore, backupManager, settings } = services;
+  const { deviceStorage, credentialStore, backupManager, settings, sessionPool } = services;
 
   // ============================================================================
   // Device Management
@@ -50,6 +209,7 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
         createdAt: new Date(),
         updatedAt: new Date(),
         status: 'unknown',
+        jumpHosts: await storeJumpHostCredentials(data.jumpHosts || [], credentialStore),
       };
 
       await deviceStorage.addDevice(device);
@@ -74,7 +234,28 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
 
   ipcMain.handle(IPCChannel.DEVICE_UPDATE, async (_event, data: DeviceProfile): Promise<IPCResponse<void>> => {
     try {
-      await deviceStorage.updateDevice(data);
+      const existing = await deviceStorage.getDevice(data.id);
+      const jumpHosts = keepJumpHostKeys(
+        await storeJumpHostCredentials(data.jumpHosts || [], credentialStore),
+        existing?.jumpHosts
+      );
+      await deviceStorage.updateDevice({ ...data, jumpHosts });
+
+      // Hops that were removed from the chain no longer need their secrets
+      const keptHopIds = new Set(jumpHosts.map((hop) => hop.id));
+      for (const hop of existing?.jumpHosts || []) {
+        if (!keptHopIds.has(hop.id)) {
+          await credentialStore.deleteJumpHostCredentials(hop.id);
+        }
+      }
+
+      // A different endpoint means the pinned host key no longer applies
+      if (existing && (existing.host !== data.host || existing.port !== data.port)) {
+        await deviceStorage.updateHostKey(data.id, null);
+      }
+
+      // The pooled session was opened with the old settings
+      sessionPool.disconnect(data.id);
 
       // Update credentials if provided
       if (data.password || data.privateKey) {
@@ -93,15 +274,17 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
 
   ipcMain.handle(IPCChannel.DEVICE_DELETE, async (_event, deviceId: string): Promise<IPCResponse<void>> => {
     try {
+      const device = await deviceStorage.getDevice(deviceId);
+      for (const hop of device?.jumpHosts || []) {
+        await credentialStore.deleteJumpHostCredentials(hop.id);
+      }
+
       await deviceStorage.deleteDevice(deviceId);
       await credentialStore.deleteCredentials(deviceId);
       await backupManager.deleteDeviceBackups(deviceId);
 
       // Close connection if active
-      if (activeConnections.has(deviceId)) {
-        activeConnections.get(deviceId)!.disconnect();
-        activeConnections.delete(deviceId);
-      }
+      sessionPool.disconnect(deviceId);
 
       return { id: uuidv4(), success: true };
     } catch (error) {
@@ -111,31 +294,24 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
   });
 
   ipcMain.handle(IPCChannel.DEVICE_TEST, async (_event, deviceId: string): Promise<IPCResponse> => {
+    let device: DeviceProfile | null = null;
+
     try {
-      const device = await deviceStorage.getDevice(deviceId);
+      device = await deviceStorage.getDevice(deviceId);
       if (!device) {
         throw new Error('Device not found');
       }
 
-      const credentials = await credentialStore.getCredentials(deviceId);
-      if (!credentials) {
-        throw new Error('Credentials not found');
-      }
-
-      const client = new VyOSClient({
-        host: device.host,
-        port: device.port,
-        username: device.username,
-        password: credentials.password,
-        privateKey: credentials.privateKey,
-      });
+      const client = new VyOSClient(await buildConnectionOptions(device, credentialStore));
 
       const testResult = await client.testConnection();
 
       if (testResult.success) {
-        // Update device info
-        device.vyosVersion = testResult.vyosVersion;
-        device.hostname = testResult.hostname;
+        // Update device info; the version selects the command syntax for later sessions
+        await deviceStorage.updateDeviceInfo(deviceId, {
+          vyosVersion: testResult.vyosVersion,
+          hostname: testResult.hostname,
+        });
         await deviceStorage.updateLastConnected(deviceId);
       } else {
         await deviceStorage.updateDeviceStatus(deviceId, 'offline');
@@ -146,6 +322,9 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
       return { id: uuidv4(), success: true, data: testResult };
     } catch (error) {
       log.error('DEVICE_TEST error:', error);
+      if (error instanceof HostKeyVerificationError && device) {
+        return hostKeyFailure(error, device);
+      }
       return { id: uuidv4(), success: false, error: (error as Error).message };
     }
   });
@@ -155,49 +334,31 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
   // ============================================================================
 
   ipcMain.handle(IPCChannel.SSH_CONNECT, async (_event, deviceId: string): Promise<IPCResponse> => {
+    let device: DeviceProfile | null = null;
+
     try {
-      const device = await deviceStorage.getDevice(deviceId);
+      device = await deviceStorage.getDevice(deviceId);
       if (!device) {
         throw new Error('Device not found');
       }
 
-      const credentials = await credentialStore.getCredentials(deviceId);
-      if (!credentials) {
-        throw new Error('Credentials not found');
-      }
-
-      let client = activeConnections.get(deviceId);
-
-      if (!client) {
-        client = new VyOSClient({
-          host: device.host,
-          port: device.port,
-          username: device.username,
-          password: credentials.password,
-          privateKeyPath: device.keyPath,
-          privateKey: credentials.privateKey,
-        });
-
-        await client.connect();
-        activeConnections.set(deviceId, client);
-      }
-
+      // The pool stores the detected version when it differs from device.vyosVersion
+      await sessionPool.connect(deviceId, await buildConnectionOptions(device, credentialStore), device.vyosVersion);
       await deviceStorage.updateLastConnected(deviceId);
 
       return { id: uuidv4(), success: true };
     } catch (error) {
       log.error('SSH_CONNECT error:', error);
+      if (error instanceof HostKeyVerificationError && device) {
+        return hostKeyFailure(error, device);
+      }
       return { id: uuidv4(), success: false, error: (error as Error).message };
     }
   });
 
   ipcMain.handle(IPCChannel.SSH_DISCONNECT, async (_event, deviceId: string): Promise<IPCResponse> => {
     try {
-      const client = activeConnections.get(deviceId);
-      if (client) {
-        client.disconnect();
-        activeConnections.delete(deviceId);
-      }
+      sessionPool.disconnect(deviceId);
 
       return { id: uuidv4(), success: true };
     } catch (error) {
@@ -206,19 +367,88 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
     }
   });
 
+  ipcMain.handle(
+    IPCChannel.SSH_APPROVE_HOST_KEY,
+    async (
+      _event,
+      { deviceId, hostKey, jumpHostId }: { deviceId: string; hostKey: HostKeyIdentity; jumpHostId?: string }
+    ): Promise<IPCResponse> => {
+      try {
+        const device = await deviceStorage.getDevice(deviceId);
+        if (!device) {
+          throw new Error('Device not found');
+        }
+
+        if (jumpHostId) {
+          const hop = device.jumpHosts?.find((other) => other.id === jumpHostId);
+          if (!hop) {
+            throw new Error('Jump host not found');
+          }
+
+          if (hop.hostKeyFingerprint && hop.hostKeyFingerprint !== hostKey.fingerprint) {
+            log.warn(`Replacing trusted host key for jump host ${hop.host}: ${hop.hostKeyFingerprint} -> ${hostKey.fingerprint}`);
+          }
+
+          const jumpHosts = (device.jumpHosts || []).map((other) =>
+            other.id === jumpHostId
+              ? { ...other, hostKeyType: hostKey.type, hostKeyFingerprint: hostKey.fingerprint }
+              : other
+          );
+          await deviceStorage.updateDevice({ ...device, jumpHosts });
+          log.info(`Host key pinned (${hostKey.fingerprint}) for jump host ${hop.host} of device ${deviceId}`);
+
+          return { id: uuidv4(), success: true };
+        }
+
+        if (device.hostKeyFingerprint && device.hostKeyFingerprint !== hostKey.fingerprint) {
+          log.warn(`Replacing trusted host key for ${device.name}: ${device.hostKeyFingerprint} -> ${hostKey.fingerprint}`);
+        }
+
+        await deviceStorage.updateHostKey(deviceId, hostKey);
+
+        return { id: uuidv4(), success: true };
+      } catch (error) {
+        log.error('SSH_APPROVE_HOST_KEY error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPCChannel.SSH_IMPORT_KNOWN_HOSTS,
+    async (_event, { deviceId, filePath }: { deviceId: string; filePath?: string }): Promise<IPCResponse<HostKeyIdentity>> => {
+      try {
+        const device = await deviceStorage.getDevice(deviceId);
+        if (!device) {
+          throw new Error('Device not found');
+        }
+
+        const knownHostsPath = filePath || join(homedir(), KNOWN_HOSTS_PATH);
+        const knownHosts = new KnownHosts(readFileSync(knownHostsPath, 'utf8'));
+
+        const [hostKey] = knownHosts.findHostKeys(device.host, device.port);
+        if (!hostKey) {
+          throw new Error(`No host key for ${device.host} found in ${knownHostsPath}`);
+        }
+
+        await deviceStorage.updateHostKey(deviceId, hostKey);
+
+        return { id: uuidv4(), success: true, data: hostKey };
+      } catch (error) {
+        log.error('SSH_IMPORT_KNOWN_HOSTS error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
+      }
+    }
+  );
+
   // ============================================================================
   // VyOS Operations
   // ============================================================================
 
   ipcMain.handle(IPCChannel.VYOS_GET_CONFIG, async (_event, deviceId: string): Promise<IPCResponse> => {
     try {
-      const client = activeConnections.get(deviceId);
-      if (!client) {
-        throw new Error('Not connected to device');
-      }
-
-      const config = await client.getParsedConfiguration();
-      return { id: uuidv4(), success: true, data: config };
+      const config = await sessionPool.run(deviceId, (client) => client.getParsedConfiguration());
+      return { id: uuidv4(), success: true, data: config.toObject() };
     } catch (error) {
       log.error('VYOS_GET_CONFIG error:', error);
       return { id: uuidv4(), success: false, error: (error as Error).message };
@@ -227,12 +457,7 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
 
   ipcMain.handle(IPCChannel.VYOS_GET_INTERFACES, async (_event, deviceId: string): Promise<IPCResponse> => {
     try {
-      const client = activeConnections.get(deviceId);
-      if (!client) {
-        throw new Error('Not connected to device');
-      }
-
-      const interfaces = await client.getInterfaces();
+      const interfaces = await sessionPool.run(deviceId, (client) => client.getInterfaces());
       return { id: uuidv4(), success: true, data: interfaces };
     } catch (error) {
       log.error('VYOS_GET_INTERFACES error:', error);
@@ -240,26 +465,329 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
     }
   });
 
-  ipcMain.handle(IPCChannel.VYOS_EXECUTE_COMMANDS, async (_event, { deviceId, commands, options }): Promise<IPCResponse> => {
+  ipcMain.handle(IPCChannel.VYOS_GET_STATIC_ROUTES, async (_event, deviceId: string): Promise<IPCResponse<StaticRoute[]>> => {
+    try {
+      const routes = await sessionPool.run(deviceId, (client) => client.getStaticRoutes());
+      return { id: uuidv4(), success: true, data: routes };
+    } catch (error) {
+      log.error('VYOS_GET_STATIC_ROUTES error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_POLICY_ROUTING, async (_event, deviceId: string): Promise<IPCResponse<PolicyRoutingConfig>> => {
     try {
-      const client = activeConnections.get(deviceId);
-      if (!client) {
-        throw new Error('Not connected to device');
+      const policyRouting = await sessionPool.run(deviceId, (client) => client.getPolicyRouting());
+      return { id: uuidv4(), success: true, data: policyRouting };
+    } catch (error) {
+      log.error('VYOS_GET_POLICY_ROUTING error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_VRFS, async (_event, deviceId: string): Promise<IPCResponse<Vrf[]>> => {
+    try {
+      const vrfs = await sessionPool.run(deviceId, (client) => client.getVrfs());
+      return { id: uuidv4(), success: true, data: vrfs };
+    } catch (error) {
+      log.error('VYOS_GET_VRFS error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(
+    IPCChannel.VYOS_GET_OSPF,
+    async (_event, deviceId: string): Promise<IPCResponse<{ ospf: OSPFConfig | null; ospfv3: OSPFConfig | null }>> => {
+      try {
+        const data = await sessionPool.run(deviceId, async (client) => {
+          const config = await client.getParsedConfiguration();
+          return { ospf: configParser.parseOSPF(config, 'v2'), ospfv3: configParser.parseOSPF(config, 'v3') };
+        });
+        return { id: uuidv4(), success: true, data };
+      } catch (error) {
+        log.error('VYOS_GET_OSPF error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
       }
+    }
+  );
 
-      // Create backup before executing
-      const device = await deviceStorage.getDevice(deviceId);
-      if (device) {
-        const configBackup = await client.getConfiguration();
-        await backupManager.createBackup(
-          deviceId,
-          device.name,
-          configBackup,
-          'Auto-backup before command execution'
+  ipcMain.handle(IPCChannel.VYOS_GET_OSPF_NEIGHBORS, async (_event, deviceId: string): Promise<IPCResponse<OSPFNeighbor[]>> => {
+    try {
+      const neighbors = await sessionPool.run(deviceId, async (client) => [
+        ...(await client.getOSPFNeighbors('v2')),
+        ...(await client.getOSPFNeighbors('v3')),
+      ]);
+      return { id: uuidv4(), success: true, data: neighbors };
+    } catch (error) {
+      log.error('VYOS_GET_OSPF_NEIGHBORS error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_FIREWALL, async (_event, deviceId: string): Promise<IPCResponse<FirewallConfig>> => {
+    try {
+      const firewall = await sessionPool.run(deviceId, (client) => client.getFirewallConfig());
+      return { id: uuidv4(), success: true, data: firewall };
+    } catch (error) {
+      log.error('VYOS_GET_FIREWALL error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_FIREWALL_GROUPS, async (_event, deviceId: string): Promise<IPCResponse<FirewallGroup[]>> => {
+    try {
+      const groups = await sessionPool.run(deviceId, (client) => client.getFirewallGroups());
+      return { id: uuidv4(), success: true, data: groups };
+    } catch (error) {
+      log.error('VYOS_GET_FIREWALL_GROUPS error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(
+    IPCChannel.VYOS_FIREWALL_GROUP_USAGE,
+    async (
+      _event,
+      { deviceId, type, name }: { deviceId: string; type: FirewallGroupType; name: string }
+    ): Promise<IPCResponse<string[]>> => {
+      try {
+        const usage = await sessionPool.run(deviceId, (client) => client.getFirewallGroupUsage(type, name));
+        return { id: uuidv4(), success: true, data: usage };
+      } catch (error) {
+        log.error('VYOS_FIREWALL_GROUP_USAGE error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  ipcMain.handle(IPCChannel.VYOS_GET_BGP, async (_event, deviceId: string): Promise<IPCResponse<BGPConfig | null>> => {
+    try {
+      const bgp = await sessionPool.run(deviceId, (client) => client.getBGPConfig());
+      return { id: uuidv4(), success: true, data: bgp };
+    } catch (error) {
+      log.error('VYOS_GET_BGP error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_POLICY, async (_event, deviceId: string): Promise<IPCResponse<RoutingPolicy>> => {
+    try {
+      const policy = await sessionPool.run(deviceId, (client) => client.getRoutingPolicy());
+      return { id: uuidv4(), success: true, data: policy };
+    } catch (error) {
+      log.error('VYOS_GET_POLICY error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_WIREGUARD, async (_event, deviceId: string): Promise<IPCResponse<WireGuardInterface[]>> => {
+    try {
+      const interfaces = await sessionPool.run(deviceId, (client) => client.getWireGuardInterfaces());
+      return { id: uuidv4(), success: true, data: interfaces };
+    } catch (error) {
+      log.error('VYOS_GET_WIREGUARD error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(
+    IPCChannel.VYOS_WIREGUARD_GENERATE_KEYPAIR,
+    async (_event, deviceId: string): Promise<IPCResponse<WireGuardKeyPair>> => {
+      try {
+        const keyPair = await sessionPool.run(deviceId, (client) => client.generateWireGuardKeyPair());
+        return { id: uuidv4(), success: true, data: keyPair };
+      } catch (error) {
+        log.error('VYOS_WIREGUARD_GENERATE_KEYPAIR error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPCChannel.VYOS_WIREGUARD_CLIENT_CONFIG,
+    async (
+      _event,
+      { deviceId, ...request }: WireGuardClientConfigRequest & { deviceId: string }
+    ): Promise<IPCResponse<WireGuardClientConfig>> => {
+      try {
+        const device = await deviceStorage.getDevice(deviceId);
+        if (!device) {
+          throw new Error('Device not found');
+        }
+
+        const clientConfig = await sessionPool.run(deviceId, (client) =>
+          client.getWireGuardClientConfig(request, device.host)
         );
+        return { id: uuidv4(), success: true, data: clientConfig };
+      } catch (error) {
+        log.error('VYOS_WIREGUARD_CLIENT_CONFIG error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
       }
+    }
+  );
 
-      await client.executeCommands(commands, options);
+  ipcMain.handle(IPCChannel.VYOS_GET_OPENVPN, async (_event, deviceId: string): Promise<IPCResponse<OpenVpnConfig>> => {
+    try {
+      const openvpn = await sessionPool.run(deviceId, (client) => client.getOpenVpnConfig());
+      return { id: uuidv4(), success: true, data: openvpn };
+    } catch (error) {
+      log.error('VYOS_GET_OPENVPN error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(
+    IPCChannel.VYOS_OPENVPN_CLIENT_PROFILE,
+    async (
+      _event,
+      { deviceId, ...request }: OpenVpnClientProfileRequest & { deviceId: string }
+    ): Promise<IPCResponse<OpenVpnClientProfile>> => {
+      try {
+        const device = await deviceStorage.getDevice(deviceId);
+        if (!device) {
+          throw new Error('Device not found');
+        }
+
+        const profile = await sessionPool.run(deviceId, (client) => client.getOpenVpnClientProfile(request, device.host));
+        return { id: uuidv4(), success: true, data: profile };
+      } catch (error) {
+        log.error('VYOS_OPENVPN_CLIENT_PROFILE error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  ipcMain.handle(IPCChannel.VYOS_GET_DHCP, async (_event, deviceId: string): Promise<IPCResponse<DhcpServer[]>> => {
+    try {
+      const servers = await sessionPool.run(deviceId, (client) => client.getDhcpServers());
+      return { id: uuidv4(), success: true, data: servers };
+    } catch (error) {
+      log.error('VYOS_GET_DHCP error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_DHCP_LEASES, async (_event, deviceId: string): Promise<IPCResponse<DhcpLease[]>> => {
+    try {
+      const leases = await sessionPool.run(deviceId, (client) => client.getDhcpLeases());
+      return { id: uuidv4(), success: true, data: leases };
+    } catch (error) {
+      log.error('VYOS_GET_DHCP_LEASES error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_DNS, async (_event, deviceId: string): Promise<IPCResponse<DnsConfig>> => {
+    try {
+      const dns = await sessionPool.run(deviceId, (client) => client.getDnsConfig());
+      return { id: uuidv4(), success: true, data: dns };
+    } catch (error) {
+      log.error('VYOS_GET_DNS error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_VRRP, async (_event, deviceId: string): Promise<IPCResponse<VrrpConfig>> => {
+    try {
+      const vrrp = await sessionPool.run(deviceId, (client) => client.getVrrp());
+      return { id: uuidv4(), success: true, data: vrrp };
+    } catch (error) {
+      log.error('VYOS_GET_VRRP error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_VRRP_STATUS, async (_event, deviceId: string): Promise<IPCResponse<VrrpStatus[]>> => {
+    try {
+      const status = await sessionPool.run(deviceId, (client) => client.getVrrpStatus());
+      return { id: uuidv4(), success: true, data: status };
+    } catch (error) {
+      log.error('VYOS_GET_VRRP_STATUS error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  // Checks every connected device; the rest are reported rather than connected to
+  ipcMain.handle(IPCChannel.VYOS_VRRP_CONFLICTS, async (): Promise<IPCResponse<VrrpConflictReport>> => {
+    try {
+      const devices = await deviceStorage.getAllDevices();
+      const segments: VrrpDeviceSegments[] = [];
+      const unchecked: string[] = [];
+
+      await Promise.all(
+        devices.map(async (device) => {
+          if (!sessionPool.isConnected(device.id)) {
+            unchecked.push(device.name);
+            return;
+          }
+
+          try {
+            const groups = await sessionPool.run(device.id, (client) => client.getVrrpSegments());
+            segments.push({ deviceId: device.id, deviceName: device.name, groups });
+          } catch (error) {
+            log.warn(`VRRP conflict check skipped ${device.name}:`, error);
+            unchecked.push(device.name);
+          }
+        })
+      );
+
+      return { id: uuidv4(), success: true, data: { conflicts: vrrpConflictChecker.findConflicts(segments), unchecked } };
+    } catch (error) {
+      log.error('VYOS_VRRP_CONFLICTS error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(
+    IPCChannel.VYOS_GET_WAN_LOAD_BALANCING,
+    async (_event, deviceId: string): Promise<IPCResponse<WanLoadBalancing>> => {
+      try {
+        const wan = await sessionPool.run(deviceId, (client) => client.getWanLoadBalancing());
+        return { id: uuidv4(), success: true, data: wan };
+      } catch (error) {
+        log.error('VYOS_GET_WAN_LOAD_BALANCING error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  ipcMain.handle(IPCChannel.VYOS_GET_WAN_STATUS, async (_event, deviceId: string): Promise<IPCResponse<WanInterfaceStatus[]>> => {
+    try {
+      const status = await sessionPool.run(deviceId, (client) => client.getWanStatus());
+      return { id: uuidv4(), success: true, data: status };
+    } catch (error) {
+      log.error('VYOS_GET_WAN_STATUS error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_GET_QOS, async (_event, deviceId: string): Promise<IPCResponse<QosPolicy[]>> => {
+    try {
+      const policies = await sessionPool.run(deviceId, (client) => client.getQosPolicies());
+      return { id: uuidv4(), success: true, data: policies };
+    } catch (error) {
+      log.error('VYOS_GET_QOS error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.VYOS_EXECUTE_COMMANDS, async (_event, { deviceId, commands, options }): Promise<IPCResponse> => {
+    try {
+      await sessionPool.run(deviceId, async (client) => {
+        // Create backup before executing
+        const device = await deviceStorage.getDevice(deviceId);
+        if (device) {
+          const configBackup = await client.getConfiguration();
+          await backupManager.createBackup(
+            deviceId,
+            device.name,
+            configBackup,
+            'Auto-backup before command execution'
+          );
+        }
+
+        await client.executeCommands(commands, options);
+      });
 
       return { id: uuidv4(), success: true };
     } catch (error) {
@@ -268,15 +796,24 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
     }
   });
 
-  ipcMain.handle(IPCChannel.VYOS_PREVIEW_COMMANDS, async (_event, { type, data }): Promise<IPCResponse> => {
+  ipcMain.handle(IPCChannel.VYOS_PREVIEW_COMMANDS, async (_event, { deviceId, type, data }): Promise<IPCResponse> => {
     try {
-      // Create a temporary client just for command preview
+      const device = await deviceStorage.getDevice(deviceId);
+      if (!device) {
+        throw new Error('Device not found');
+      }
+      if (!device.vyosVersion) {
+        throw new Error('VyOS version of the device is not known yet; connect to it first');
+      }
+
+      // Create a temporary client just for command preview, targeting the device's syntax
       const tempClient = new VyOSClient({
         host: 'localhost',
         port: 22,
         username: 'vyos',
         password: 'vyos',
       });
+      tempClient.setVyOSVersion(device.vyosVersion);
 
       const commands = tempClient.previewCommands(type, data);
 
@@ -287,23 +824,141 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
     }
   });
 
+  ipcMain.handle(
+    IPCChannel.VYOS_DIFF_CONFIG,
+    async (_event, { left, right }: { left: ConfigDiffSource; right: ConfigDiffSource }): Promise<IPCResponse<ConfigDiffResult>> => {
+      try {
+        const resolveConfig = async (source: ConfigDiffSource): Promise<string> => {
+          if (source.type === 'live') {
+            return sessionPool.run(source.deviceId, (client) => client.getConfiguration());
+          }
+
+          const backup = await backupManager.getBackup(source.backupId);
+          if (!backup) {
+            throw new Error('Backup not found');
+          }
+          return backup.config;
+        };
+
+        const diff = configDiff.compare(await resolveConfig(left), await resolveConfig(right));
+        return { id: uuidv4(), success: true, data: diff };
+      } catch (error) {
+        log.error('VYOS_DIFF_CONFIG error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
+      }
+    }
+  );
+
   // ============================================================================
-  // Backup Operations
+  // Pending Change Sets
   // ============================================================================
 
-  ipcMain.handle(IPCChannel.BACKUP_CREATE, async (_event, deviceId: string): Promise<IPCResponse> => {
+  ipcMain.handle(IPCChannel.CHANGESET_GET, async (_event, deviceId: string): Promise<IPCResponse<ChangeSet>> => {
     try {
-      const client = activeConnections.get(deviceId);
-      if (!client) {
-        throw new Error('Not connected to device');
+      return { id: uuidv4(), success: true, data: changeSetManager.getChangeSet(deviceId) };
+    } catch (error) {
+      log.error('CHANGESET_GET error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.CHANGESET_ADD, async (_event, { deviceId, description, commands }): Promise<IPCResponse<ChangeSet>> => {
+    try {
+      const changeSet = changeSetManager.addChange(deviceId, description, commands);
+      return { id: uuidv4(), success: true, data: changeSet };
+    } catch (error) {
+      log.error('CHANGESET_ADD error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.CHANGESET_REMOVE, async (_event, { deviceId, changeId }): Promise<IPCResponse<ChangeSet>> => {
+    try {
+      const changeSet = changeSetManager.removeChange(deviceId, changeId);
+      return { id: uuidv4(), success: true, data: changeSet };
+    } catch (error) {
+      log.error('CHANGESET_REMOVE error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.CHANGESET_CLEAR, async (_event, deviceId: string): Promise<IPCResponse<ChangeSet>> => {
+    try {
+      changeSetManager.clear(deviceId);
+      return { id: uuidv4(), success: true, data: changeSetManager.getChangeSet(deviceId) };
+    } catch (error) {
+      log.error('CHANGESET_CLEAR error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.CHANGESET_APPLY, async (_event, { deviceId, confirmMinutes }): Promise<IPCResponse<ChangeSet>> => {
+    try {
+      // A second commit-confirm would race the first one's rollback timer
+      if (changeSetManager.getChangeSet(deviceId).status === 'awaiting-confirm') {
+        throw new Error('Confirm or wait out the pending commit before applying again');
       }
 
+      const commands = changeSetManager.getCommands(deviceId);
+      if (commands.length === 0) {
+        throw new Error('No pending changes to apply');
+      }
+
+      const minutes = confirmMinutes || DEFAULTS.COMMIT_CONFIRM_MINUTES;
+
+      await sessionPool.run(deviceId, async (client) => {
+        // Create backup before executing
+        const device = await deviceStorage.getDevice(deviceId);
+        if (device) {
+          const configBackup = await client.getConfiguration();
+          await backupManager.createBackup(
+            deviceId,
+            device.name,
+            configBackup,
+            'Auto-backup before commit-confirm'
+          );
+        }
+
+        await client.commitConfirm(commands, minutes);
+      });
+
+      const changeSet = changeSetManager.markAwaitingConfirm(deviceId, minutes);
+      return { id: uuidv4(), success: true, data: changeSet };
+    } catch (error) {
+      log.error('CHANGESET_APPLY error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(IPCChannel.CHANGESET_CONFIRM, async (_event, deviceId: string): Promise<IPCResponse<ChangeSet>> => {
+    try {
+      const changeSet = changeSetManager.getChangeSet(deviceId);
+      if (changeSet.status !== 'awaiting-confirm') {
+        throw new Error('No commit is awaiting confirmation');
+      }
+
+      await sessionPool.run(deviceId, (client) => client.confirmCommit());
+      changeSetManager.clear(deviceId);
+
+      return { id: uuidv4(), success: true, data: changeSetManager.getChangeSet(deviceId) };
+    } catch (error) {
+      log.error('CHANGESET_CONFIRM error:', error);
+      return { id: uuidv4(), success: false, error: (error as Error).message };
+    }
+  });
+
+  // ============================================================================
+  // Backup Operations
+  // ============================================================================
+
+  ipcMain.handle(IPCChannel.BACKUP_CREATE, async (_event, deviceId: string): Promise<IPCResponse> => {
+    try {
       const device = await deviceStorage.getDevice(deviceId);
       if (!device) {
         throw new Error('Device not found');
       }
 
-      const config = await client.getConfiguration();
+      const config = await sessionPool.run(deviceId, (client) => client.getConfiguration());
       const backup = await backupManager.createBackup(
         deviceId,
         device.name,
@@ -328,29 +983,73 @@ export function registerIPCHandlers(ipcMain: IpcMain, services: Services): void
     }
   });
 
-  ipcMain.handle(IPCChannel.BACKUP_RESTORE, async (_event, { deviceId, backupId }): Promise<IPCResponse> => {
+  ipcMain.handle(IPCChannel.BACKUP_RESTORE, async (_event, { deviceId, backupId }): Promise<IPCResponse<ConfigRestoreResult>> => {
     try {
-      const client = activeConnections.get(deviceId);
-      if (!client) {
-        throw new Error('Not connected to device');
+      const device = await deviceStorage.getDevice(deviceId);
+      if (!device) {
+        throw new Error('Device not found');
       }
 
       const backup = await backupManager.getBackup(backupId);
       if (!backup) {
         throw new Error('Backup not found');
       }
+      if (backup.deviceId !== deviceId) {
+        throw new Error(`Backup was taken from ${backup.deviceName}, not ${device.name}; it can only be restored to that device`);
+      }
 
-      // Parse backup config and restore
-      // This would involve parsing the config and executing the commands
-      // For now, we'll just indicate success
+      const { safetyBackup, commands } = await sessionPool.run(deviceId, async (client) => {
+        // Take a safety backup of the running config before touching the device
+        const liveConfig = await client.getConfiguration();
+        const safetyBackup = await backupManager.createBackup(
+          deviceId,
+          device.name,
+          liveConfig,
+          `Auto-backup before restoring backup from ${backup.timestamp.toISOString()}`
+        );
 
-      return { id: uuidv4(), success: true };
+        const commands = await client.restoreConfiguration(backup.config, liveConfig);
+        return { safetyBackup, commands };
+      });
+
+      const result: ConfigRestoreResult = {
+        safetyBackupId: safetyBackup.id,
+        commands,
+        setCount: commands.filter((cmd) => cmd.startsWith('set ')).length,
+        deleteCount: commands.filter((cmd) => cmd.startsWith('delete ')).length,
+      };
+
+      return { id: uuidv4(), success: true, data: result };
     } catch (error) {
       log.error('BACKUP_RESTORE error:', error);
       return { id: uuidv4(), success: false, error: (error as Error).message };
     }
   });
 
+  ipcMain.handle(
+    IPCChannel.BACKUP_IMPORT,
+    async (
+      _event,
+      { deviceId, configText, filePath, description }: { deviceId: string; configText?: string; filePath?: string; description?: string }
+    ): Promise<IPCResponse<VyOSConfigBackup>> => {
+      try {
+        const device = await deviceStorage.getDevice(deviceId);
+        if (!device) {
+          throw new Error('Device not found');
+        }
+
+        const backup = filePath
+          ? await backupManager.importBackup(deviceId, device.name, filePath, description)
+          : await backupManager.importBackupText(deviceId, device.name, configText || '', description);
+
+        return { id: uuidv4(), success: true, data: backup };
+      } catch (error) {
+        log.error('BACKUP_IMPORT error:', error);
+        return { id: uuidv4(), success: false, error: (error as Error).message };
+      }
+    }
+  );
+
   // ============================================================================
   // Settings
   // ============================================================================
@@ -7,10 +7,12 @@ import { writeFileSync, readFileSync, existsSync, mkdirSync, readdirSync, unlink
 import { join } from 'path';
 import { VyOSConfigBackup } from '@shared/types';
 import { MAX_BACKUPS_PER_DEVICE, BACKUP_RETENTION_DAYS } from '@shared/constants';
+import { ConfigParser } from '../vyos/ConfigParser';
 import log from 'electron-log';
 
 export class BackupManager {
   private backupDir: string;
+  private configParser = new ConfigParser();
 
   constructor() {
     const userDataPath = app.getPath('userData');
@@ -183,7 +185,7 @@ export class BackupManager {
   }
 
   /**
-   * Import backup from file
+   * Import backup from file (set commands or config.boot format)
    */
   async importBackup(
     deviceId: string,
@@ -192,14 +194,33 @@ export class BackupManager {
     description?: string
   ): Promise<VyOSConfigBackup> {
     try {
-      const config = readFileSync(filepath, 'utf8');
-      return await this.createBackup(deviceId, deviceName, config, description || 'Imported backup');
+      const configText = readFileSync(filepath, 'utf8');
+      return await this.importBackupText(deviceId, deviceName, configText, description);
     } catch (error) {
       log.error('Failed to import backup:', error);
       throw new Error(`Failed to import backup: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Import pasted configuration text. Curly-brace configs are converted to set
+   * commands so every stored backup has the 'show configuration commands' format.
+   */
+  async importBackupText(
+    deviceId: string,
+    deviceName: string,
+    configText: string,
+    description?: string
+  ): Promise<VyOSConfigBackup> {
+    const tree = this.configParser.parseAny(configText);
+    if (tree.isLeaf()) {
+      throw new Error('No configuration found in the imported text');
+    }
+
+    const config = this.configParser.serialize(tree).join('\n');
+    return this.createBackup(deviceId, deviceName, config, description || 'Imported backup');
+  }
+
   /**
    * Get backup statistics
    */
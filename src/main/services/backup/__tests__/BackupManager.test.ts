@@ -0,0 +1,55 @@
+/**
+ * BackupManager tests - Imported configurations are stored as set commands
+ * whichever format they were pasted in
+ */
+
+import { rmSync } from 'fs';
+import { afterAll, describe, expect, it, jest } from '@jest/globals';
+import { app } from 'electron';
+import { ConfigParser } from '../../vyos/ConfigParser';
+import { loadFixture } from '../../vyos/__tests__/helpers';
+import { BackupManager } from '../BackupManager';
+
+// Backups land in a temporary user data directory
+jest.mock('electron', () => {
+  const { mkdtempSync } = jest.requireActual<typeof import('fs')>('fs');
+  const { tmpdir } = jest.requireActual<typeof import('os')>('os');
+  const userData = mkdtempSync(`${tmpdir()}/vyos-manager-`);
+
+  return { app: { getPath: () => userData } };
+});
+
+const parser = new ConfigParser();
+
+describe('BackupManager.importBackupText', () => {
+  const backupManager = new BackupManager();
+
+  afterAll(() => {
+    rmSync(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  it.each(['1.3', '1.4', '1.5'])('converts a VyOS %s config.boot to set commands', async (release) => {
+    const backup = await backupManager.importBackupText(
+      'device-1',
+      'edge',
+      loadFixture(`vyos-${release}`, 'config.boot')
+    );
+
+    expect(backup.config).toBe(parser.serialize(parser.parse(loadFixture(`vyos-${release}`))).join('\n'));
+    expect(backup.description).toBe('Imported backup');
+  });
+
+  it('stores set commands as they are', async () => {
+    const commands = loadFixture('values');
+    const backup = await backupManager.importBackupText('device-1', 'edge', commands, 'Before upgrade');
+
+    expect(backup.config.split('\n')).toEqual(commands.split('\n').filter((line) => line.startsWith('set ')));
+    expect(backup.description).toBe('Before upgrade');
+  });
+
+  it('rejects text without any configuration', async () => {
+    await expect(backupManager.importBackupText('device-1', 'edge', '// nothing here\n')).rejects.toThrow(
+      'No configuration found in the imported text'
+    );
+  });
+});
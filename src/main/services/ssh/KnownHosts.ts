@@ -0,0 +1,154 @@
+/**
+ * Known Hosts - Host key fingerprints and OpenSSH known_hosts parsing
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { HostKeyIdentity } from '@shared/types';
+import log from 'electron-log';
+
+interface KnownHostEntry {
+  marker?: '@cert-authority' | '@revoked';
+  patterns: string[];
+  key: HostKeyIdentity;
+}
+
+/**
+ * Identify a raw SSH host key blob by its type and OpenSSH-style SHA256 fingerprint
+ */
+export function identifyHostKey(key: Buffer): HostKeyIdentity {
+  // The blob starts with the key type as an SSH string (uint32 length + bytes)
+  const typeLength = key.readUInt32BE(0);
+  const type = key.subarray(4, 4 + typeLength).toString('ascii');
+  const fingerprint = `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+
+  return { type, fingerprint };
+}
+
+/**
+ * Host key algorithms to offer so the server presents a key of the pinned type
+ */
+export function getHostKeyAlgorithms(type: string): string[] {
+  if (type === 'ssh-rsa') {
+    return ['rsa-sha2-512', 'rsa-sha2-256', 'ssh-rsa'];
+  }
+  return [type];
+}
+
+export class KnownHosts {
+  private entries: KnownHostEntry[] = [];
+
+  constructor(content: string) {
+    this.parse(content);
+  }
+
+  /**
+   * Find the trusted keys for a host, in the order ssh2 prefers key types
+   */
+  findHostKeys(host: string, port: number): HostKeyIdentity[] {
+    const name = port === 22 ? host : `[${host}]:${port}`;
+
+    const revoked = new Set(
+      this.entries
+        .filter((entry) => entry.marker === '@revoked')
+        .map((entry) => entry.key.fingerprint)
+    );
+
+    const keys = this.entries
+      .filter((entry) => !entry.marker && this.matches(entry.patterns, name))
+      .map((entry) => entry.key)
+      .filter((key) => !revoked.has(key.fingerprint));
+
+    const preference = ['ssh-ed25519', 'ecdsa-sha2-nistp256', 'ecdsa-sha2-nistp384', 'ecdsa-sha2-nistp521', 'ssh-rsa'];
+    const rank = (type: string) => {
+      const index = preference.indexOf(type);
+      return index === -1 ? preference.length : index;
+    };
+
+    return keys.sort((a, b) => rank(a.type) - rank(b.type));
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private parse(content: string): void {
+    content.split('\n').forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) {
+        return;
+      }
+
+      // One bad line must not make every other pinned host unusable
+      try {
+        const entry = this.parseLine(trimmed);
+        if (entry) {
+          this.entries.push(entry);
+        } else {
+          log.warn(`Skipping malformed known_hosts line ${index + 1}`);
+        }
+      } catch (error) {
+        log.warn(`Skipping malformed known_hosts line ${index + 1}:`, (error as Error).message);
+      }
+    });
+  }
+
+  private parseLine(line: string): KnownHostEntry | null {
+    const fields = line.split(/\s+/);
+    let marker: KnownHostEntry['marker'];
+
+    if (fields[0] === '@cert-authority' || fields[0] === '@revoked') {
+      marker = fields.shift() as KnownHostEntry['marker'];
+    }
+
+    const [patterns, type, encodedKey] = fields;
+    if (!patterns || !type || !encodedKey) {
+      return null;
+    }
+
+    // Hashed hostnames need both a salt and a hash: |1|salt|hash
+    const patternList = patterns.split(',');
+    if (patternList.some((pattern) => pattern.startsWith('|1|') && pattern.split('|').length !== 4)) {
+      return null;
+    }
+
+    const key = identifyHostKey(Buffer.from(encodedKey, 'base64'));
+    if (key.type !== type) {
+      return null;
+    }
+
+    return { marker, patterns: patternList, key };
+  }
+
+  private matches(patterns: string[], name: string): boolean {
+    let matched = false;
+
+    for (const pattern of patterns) {
+      const negated = pattern.startsWith('!');
+      const candidate = negated ? pattern.substring(1) : pattern;
+
+      if (this.matchesPattern(candidate, name)) {
+        if (negated) {
+          return false;
+        }
+        matched = true;
+      }
+    }
+
+    return matched;
+  }
+
+  private matchesPattern(pattern: string, name: string): boolean {
+    // Hashed hostname: |1|base64(salt)|base64(HMAC-SHA1(salt, name))
+    if (pattern.startsWith('|1|')) {
+      const [, , salt, hash] = pattern.split('|');
+      const digest = createHmac('sha1', Buffer.from(salt, 'base64')).update(name).digest('base64');
+      return digest === hash;
+    }
+
+    const regex = new RegExp(
+      '^' + pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$',
+      'i'
+    );
+    return regex.test(name);
+  }
+}
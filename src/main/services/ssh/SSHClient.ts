@@ -2,17 +2,38 @@
  * SSH Client - Handles SSH connections to VyOS devices
  */
 
-import { Client, ClientChannel, ConnectConfig } from 'ssh2';
+import { Client, ClientChannel, ConnectConfig, ServerHostKeyAlgorithm } from 'ssh2';
 import { readFileSync } from 'fs';
-import { SSHConnectionError, VyOSCommandResult } from '@shared/types';
+import { Duplex } from 'stream';
 import {
+  SSHConnectionError,
+  HostKeyVerificationError,
+  HostKeyIdentity,
+  VyOSCommandResult,
+} from '@shared/types';
+import {
+  ERROR_MESSAGES,
   SSH_CONNECTION_TIMEOUT,
   SSH_KEEPALIVE_INTERVAL,
+  SSH_KEEPALIVE_COUNT_MAX,
   SSH_MAX_RETRIES,
   VYOS_COMMAND_TIMEOUT,
 } from '@shared/constants';
+import { identifyHostKey, getHostKeyAlgorithms } from './KnownHosts';
 import log from 'electron-log';
 
+export interface SSHJumpHostOptions {
+  id?: string;
+  host: string;
+  port: number;
+  username: string;
+  password?: string;
+  privateKey?: string;
+  privateKeyPath?: string;
+  hostKeyType?: string;
+  hostKeyFingerprint?: string;
+}
+
 export interface SSHConnectionOptions {
   host: string;
   port: number;
@@ -22,6 +43,10 @@ export interface SSHConnectionOptions {
   privateKeyPath?: string;
   timeout?: number;
   keepaliveInterval?: number;
+  keepaliveCountMax?: number;
+  hostKeyType?: string;
+  hostKeyFingerprint?: string;
+  jumpHosts?: SSHJumpHostOptions[];
 }
 
 export interface SSHCommandOptions {
@@ -31,23 +56,43 @@ export interface SSHCommandOptions {
 
 export class SSHClient {
   private client: Client | null = null;
+  private jumpClients: Client[] = [];
   private connected: boolean = false;
   private connectionOptions: SSHConnectionOptions;
+  private hostKey: HostKeyIdentity | null = null;
+  private connectionLostListeners: Array<() => void> = [];
 
   constructor(options: SSHConnectionOptions) {
     this.connectionOptions = {
       ...options,
       timeout: options.timeout || SSH_CONNECTION_TIMEOUT,
       keepaliveInterval: options.keepaliveInterval || SSH_KEEPALIVE_INTERVAL,
+      keepaliveCountMax: options.keepaliveCountMax || SSH_KEEPALIVE_COUNT_MAX,
     };
   }
 
   /**
-   * Connect to the SSH server
+   * Connect to the SSH server, tunnelling through any configured jump hosts
    */
   async connect(): Promise<void> {
+    const sock = await this.openJumpChain();
+
+    try {
+      await this.connectTarget(sock);
+    } catch (error) {
+      this.closeJumpChain();
+      throw error;
+    }
+  }
+
+  /**
+   * Connect to the device itself, optionally over a tunnel from the last jump host
+   */
+  private connectTarget(sock?: Duplex): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.client = new Client();
+      const client = new Client();
+      this.client = client;
+      let ready = false;
 
       const config: ConnectConfig = {
         host: this.connectionOptions.host,
@@ -55,28 +100,38 @@ export class SSHClient {
         username: this.connectionOptions.username,
         readyTimeout: this.connectionOptions.timeout,
         keepaliveInterval: this.connectionOptions.keepaliveInterval,
+        keepaliveCountMax: this.connectionOptions.keepaliveCountMax,
+        sock,
       };
 
-      // Handle authentication
-      if (this.connectionOptions.password) {
-        config.password = this.connectionOptions.password;
-      } else if (this.connectionOptions.privateKeyPath) {
-        try {
-          config.privateKey = readFileSync(this.connectionOptions.privateKeyPath);
-        } catch (error) {
-          reject(new SSHConnectionError(`Failed to read private key: ${(error as Error).message}`));
-          return;
-        }
-      } else if (this.connectionOptions.privateKey) {
-        config.privateKey = Buffer.from(this.connectionOptions.privateKey);
-      } else {
-        reject(new SSHConnectionError('No authentication method provided'));
+      try {
+        this.applyAuthentication(config, this.connectionOptions);
+      } catch (error) {
+        reject(error);
         return;
       }
 
-      this.client
+      const getHostKeyError = this.pinHostKey(config, this.connectionOptions, (presented) => {
+        this.hostKey = presented;
+      });
+
+      // Fired once when an established connection goes away without disconnect()
+      const handleDrop = () => {
+        if (!ready || this.client !== client) {
+          return;
+        }
+
+        log.warn(`SSH connection to ${this.connectionOptions.host} lost`);
+        this.client = null;
+        this.connected = false;
+        this.closeJumpChain();
+        this.connectionLostListeners.forEach((listener) => listener());
+      };
+
+      client
         .on('ready', () => {
           log.info(`SSH connection established to ${this.connectionOptions.host}`);
+          ready = true;
           this.connected = true;
           resolve();
         })
@@ -84,26 +139,23 @@ export class SSHClient {
           log.error('SSH connection error:', err);
           this.connected = false;
 
-          let errorMessage = 'SSH connection failed';
-          if (err.message.includes('ENOTFOUND')) {
-            errorMessage = 'Host not found';
-          } else if (err.message.includes('ECONNREFUSED')) {
-            errorMessage = 'Connection refused';
-          } else if (err.message.includes('ETIMEDOUT')) {
-            errorMessage = 'Connection timeout';
-          } else if (err.level === 'client-authentication') {
-            errorMessage = 'Authentication failed';
+          const hostKeyError = getHostKeyError();
+          if (hostKeyError) {
+            reject(hostKeyError);
+            return;
           }
 
-          reject(new SSHConnectionError(errorMessage, err));
+          reject(new SSHConnectionError(this.describeConnectionError(err), err));
         })
         .on('close', () => {
           log.info('SSH connection closed');
           this.connected = false;
+          handleDrop();
         })
         .on('end', () => {
           log.info('SSH connection ended');
           this.connected = false;
+          handleDrop();
         })
         .connect(config);
     });
@@ -119,6 +171,185 @@ export class SSHClient {
       this.connected = false;
       log.info('SSH client disconnected');
     }
+    this.closeJumpChain();
+  }
+
+  // ============================================================================
+  // Jump Hosts
+  // ============================================================================
+
+  /**
+   * Connect through each jump host in turn and return a tunnel to the device
+   */
+  private async openJumpChain(): Promise<Duplex | undefined> {
+    const jumpHosts = this.connectionOptions.jumpHosts || [];
+    let sock: Duplex | undefined;
+
+    for (let i = 0; i < jumpHosts.length; i++) {
+      const hop = jumpHosts[i];
+      const next = jumpHosts[i + 1] || this.connectionOptions;
+      const label = `Jump host ${i + 1} (${hop.username}@${hop.host}:${hop.port})`;
+
+      try {
+        const client = await this.connectJumpHost(hop, sock);
+        this.jumpClients.push(client);
+        sock = await this.forwardTo(client, next.host, next.port);
+        log.info(`${label}: tunnel open to ${next.host}:${next.port}`);
+      } catch (error) {
+        this.closeJumpChain();
+
+        // Keep the host key details so the key can be approved for this hop
+        if (error instanceof HostKeyVerificationError) {
+          throw new HostKeyVerificationError(
+            `${label}: ${error.message}`,
+            error.status,
+            error.presented,
+            error.expected,
+            hop.id
+          );
+        }
+        throw new SSHConnectionError(`${label}: ${(error as Error).message}`, error);
+      }
+    }
+
+    return sock;
+  }
+
+  private connectJumpHost(hop: SSHJumpHostOptions, sock?: Duplex): Promise<Client> {
+    return new Promise((resolve, reject) => {
+      const client = new Client();
+
+      const config: ConnectConfig = {
+        host: hop.host,
+        port: hop.port,
+        username: hop.username,
+        readyTimeout: this.connectionOptions.timeout,
+        keepaliveInterval: this.connectionOptions.keepaliveInterval,
+        keepaliveCountMax: this.connectionOptions.keepaliveCountMax,
+        sock,
+      };
+
+      try {
+        this.applyAuthentication(config, hop);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      // Bastions are pinned like the device, so hop credentials never reach an impostor
+      const getHostKeyError = this.pinHostKey(config, hop);
+
+      client
+        .on('ready', () => resolve(client))
+        .on('error', (err) => reject(getHostKeyError() || new Error(this.describeConnectionError(err))))
+        .connect(config);
+    });
+  }
+
+  private forwardTo(client: Client, host: string, port: number): Promise<ClientChannel> {
+    return new Promise((resolve, reject) => {
+      client.forwardOut('127.0.0.1', 0, host, port, (err, channel) => {
+        if (err) {
+          client.end();
+          reject(new Error(`Could not open tunnel to ${host}:${port} (${err.message})`));
+          return;
+        }
+        resolve(channel);
+      });
+    });
+  }
+
+  private closeJumpChain(): void {
+    // Innermost hop first so each tunnel closes before the one carrying it
+    this.jumpClients.reverse().forEach((client) => client.end());
+    this.jumpClients = [];
+  }
+
+  // ============================================================================
+  // Connection Helpers
+  // ============================================================================
+
+  /**
+   * Host key pinning: only the trusted key is accepted, anything else is refused.
+   * Returns a getter for the rejection, to report once the handshake has failed.
+   */
+  private pinHostKey(
+    config: ConnectConfig,
+    endpoint: { host: string; hostKeyType?: string; hostKeyFingerprint?: string },
+    onPresented?: (presented: HostKeyIdentity) => void
+  ): () => HostKeyVerificationError | null {
+    let hostKeyError: HostKeyVerificationError | null = null;
+    const { hostKeyType, hostKeyFingerprint } = endpoint;
+
+    if (hostKeyType) {
+      config.algorithms = {
+        serverHostKey: getHostKeyAlgorithms(hostKeyType) as ServerHostKeyAlgorithm[],
+      };
+    }
+
+    config.hostVerifier = (key: Buffer): boolean => {
+      const presented = identifyHostKey(key);
+      onPresented?.(presented);
+
+      if (!hostKeyFingerprint) {
+        hostKeyError = new HostKeyVerificationError(ERROR_MESSAGES.SSH_HOST_KEY_UNKNOWN, 'unknown', presented);
+        return false;
+      }
+
+      if (presented.fingerprint !== hostKeyFingerprint) {
+        log.error(`Host key mismatch for ${endpoint.host}: expected ${hostKeyFingerprint}, got ${presented.fingerprint}`);
+        hostKeyError = new HostKeyVerificationError(
+          ERROR_MESSAGES.SSH_HOST_KEY_MISMATCH,
+          'mismatch',
+          presented,
+          { type: hostKeyType || presented.type, fingerprint: hostKeyFingerprint }
+        );
+        return false;
+      }
+
+      return true;
+    };
+
+    return () => hostKeyError;
+  }
+
+  private applyAuthentication(
+    config: ConnectConfig,
+    auth: { password?: string; privateKey?: string; privateKeyPath?: string }
+  ): void {
+    if (auth.password) {
+      config.password = auth.password;
+    } else if (auth.privateKeyPath) {
+      try {
+        config.privateKey = readFileSync(auth.privateKeyPath);
+      } catch (error) {
+        throw new SSHConnectionError(`Failed to read private key: ${(error as Error).message}`);
+      }
+    } else if (auth.privateKey) {
+      config.privateKey = Buffer.from(auth.privateKey);
+    } else {
+      throw new SSHConnectionError('No authentication method provided');
+    }
+  }
+
+  private describeConnectionError(err: Error & { level?: string }): string {
+    if (err.message.includes('ENOTFOUND')) {
+      return 'Host not found';
+    } else if (err.message.includes('ECONNREFUSED')) {
+      return 'Connection refused';
+    } else if (err.message.includes('ETIMEDOUT')) {
+      return 'Connection timeout';
+    } else if (err.level === 'client-authentication') {
+      return 'Authentication failed';
+    }
+    return 'SSH connection failed';
+  }
+
+  /**
+   * Register a listener for connections that drop without disconnect()
+   */
+  onConnectionLost(listener: () => void): void {
+    this.connectionLostListeners.push(listener);
   }
 
   /**
@@ -238,9 +469,9 @@ export class SSHClient {
               shellReady = true;
             }
 
-            // Send next command when we see a prompt
+            // Send next command when we see a prompt (or a yes/no confirmation)
             if (shellReady && commandIndex < commands.length) {
-              if (text.includes('$') || text.includes('#') || text.includes('[edit]')) {
+              if (text.includes('$') || text.includes('#') || text.includes('[edit]') || text.includes('[confirm]')) {
                 const command = commands[commandIndex];
                 stream.write(command + '\n');
                 commandIndex++;
@@ -277,6 +508,11 @@ export class SSHClient {
         const latency = Date.now() - startTime;
         return { success: true, latency };
       } catch (error) {
+        // Retrying will not change the host key
+        if (error instanceof HostKeyVerificationError) {
+          throw error;
+        }
+
         if (attempt === SSH_MAX_RETRIES - 1) {
           return {
             success: false,
@@ -293,6 +529,13 @@ export class SSHClient {
     return { success: false, latency: Date.now() - startTime, error: 'Max retries reached' };
   }
 
+  /**
+   * Get the host key presented during the last connection attempt
+   */
+  getHostKey(): HostKeyIdentity | null {
+    return this.hostKey;
+  }
+
   /**
    * Get connection info
    */
@@ -0,0 +1,221 @@
+/**
+ * SSH Session Pool - One long-lived, self-healing connection per device
+ */
+
+import { EventEmitter } from 'events';
+import {
+  HostKeyVerificationError,
+  SSHConnectionError,
+  SSHConnectionState,
+  SSHConnectionStateEvent,
+} from '@shared/types';
+import {
+  SSH_RECONNECT_BASE_DELAY,
+  SSH_RECONNECT_MAX_ATTEMPTS,
+  SSH_RECONNECT_MAX_DELAY,
+} from '@shared/constants';
+import { VyOSClient } from '../vyos/VyOSClient';
+import { SSHConnectionOptions } from './SSHClient';
+import log from 'electron-log';
+
+interface PooledSession {
+  deviceId: string;
+  options: SSHConnectionOptions;
+  client: VyOSClient;
+  vyosVersion?: string;         // Last known version; detected again on every (re)connect
+  state: SSHConnectionState;
+  ready: Promise<VyOSClient>;   // Settles once the current (re)connect attempt finishes
+  queue: Promise<unknown>;      // Tail of the serialized operations for this device
+  closing: boolean;
+}
+
+/**
+ * Emits 'state' with an SSHConnectionStateEvent whenever a session changes state,
+ * and 'version' with the device id and VyOS version when a (re)connect finds a
+ * different version than the one known, e.g. after an upgrade
+ */
+export class SSHSessionPool extends EventEmitter {
+  private sessions = new Map<string, PooledSession>();
+
+  /**
+   * Open a session for a device, or return the existing one. `vyosVersion` is
+   * the version stored for the device; the device itself is asked on every connect.
+   */
+  async connect(deviceId: string, options: SSHConnectionOptions, vyosVersion?: string): Promise<VyOSClient> {
+    const existing = this.sessions.get(deviceId);
+    if (existing && existing.state !== 'disconnected') {
+      return existing.ready;
+    }
+
+    const session: PooledSession = {
+      deviceId,
+      options,
+      client: new VyOSClient(options),
+      vyosVersion,
+      state: 'connecting',
+      // Opened on the next tick, once the session is registered below
+      ready: Promise.resolve()
+        .then(() => this.open(session))
+        .catch((error) => {
+          if (this.sessions.get(deviceId) === session) {
+            this.sessions.delete(deviceId);
+          }
+          this.setState(session, 'disconnected', { error: (error as Error).message });
+          throw error;
+        }),
+      queue: Promise.resolve(),
+      closing: false,
+    };
+
+    this.sessions.set(deviceId, session);
+    this.setState(session, 'connecting');
+
+    return session.ready;
+  }
+
+  /**
+   * Run an operation against a device's session, one at a time per device.
+   * Waits out a reconnect in progress instead of failing immediately.
+   */
+  async run<T>(deviceId: string, operation: (client: VyOSClient) => Promise<T>): Promise<T> {
+    const session = this.sessions.get(deviceId);
+    if (!session) {
+      throw new Error('Not connected to device');
+    }
+
+    const result = session.queue.then(async () => operation(await session.ready));
+
+    // Keep the queue going even if this operation fails
+    session.queue = result.catch(() => undefined);
+
+    return result;
+  }
+
+  /**
+   * Close a device's session and stop any reconnect attempts
+   */
+  disconnect(deviceId: string): void {
+    const session = this.sessions.get(deviceId);
+    if (!session) {
+      return;
+    }
+
+    session.closing = true;
+    this.sessions.delete(deviceId);
+    session.client.disconnect();
+    this.setState(session, 'disconnected');
+  }
+
+  /**
+   * Close every session, e.g. on application shutdown
+   */
+  disconnectAll(): void {
+    Array.from(this.sessions.keys()).forEach((deviceId) => this.disconnect(deviceId));
+  }
+
+  /**
+   * Get the connection state of a device
+   */
+  getState(deviceId: string): SSHConnectionState {
+    return this.sessions.get(deviceId)?.state || 'disconnected';
+  }
+
+  /**
+   * Check if a device has a live session
+   */
+  isConnected(deviceId: string): boolean {
+    return this.getState(deviceId) === 'connected';
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private async open(session: PooledSession): Promise<VyOSClient> {
+    const { client } = session;
+
+    await client.connect();
+
+    try {
+      // disconnect() was called while the connection was being set up
+      if (session.closing) {
+        throw new SSHConnectionError('Session closed');
+      }
+
+      // The router may have been upgraded since the last connect
+      const vyosVersion = await client.detectVyOSVersion();
+      if (vyosVersion !== session.vyosVersion) {
+        log.info(`Device ${session.deviceId} runs VyOS ${vyosVersion} (was ${session.vyosVersion || 'unknown'})`);
+        session.vyosVersion = vyosVersion;
+        this.emit('version', session.deviceId, vyosVersion);
+      }
+    } catch (error) {
+      // Don't leave a connected client behind that nothing will ever end
+      client.disconnect();
+      throw error;
+    }
+
+    client.onConnectionLost(() => this.handleConnectionLost(session));
+
+    this.setState(session, 'connected');
+    return client;
+  }
+
+  private handleConnectionLost(session: PooledSession): void {
+    if (session.closing || this.sessions.get(session.deviceId) !== session) {
+      return;
+    }
+
+    log.warn(`Session for device ${session.deviceId} dropped, reconnecting`);
+    session.ready = this.reconnect(session);
+
+    // Failures are surfaced through run() and the 'state' event
+    session.ready.catch(() => undefined);
+  }
+
+  private async reconnect(session: PooledSession): Promise<VyOSClient> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= SSH_RECONNECT_MAX_ATTEMPTS; attempt++) {
+      const delay = Math.min(SSH_RECONNECT_BASE_DELAY * 2 ** (attempt - 1), SSH_RECONNECT_MAX_DELAY);
+      this.setState(session, 'reconnecting', {
+        attempt,
+        nextRetryAt: new Date(Date.now() + delay),
+        error: lastError?.message,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      if (session.closing) {
+        throw new SSHConnectionError('Session closed');
+      }
+
+      try {
+        session.client = new VyOSClient(session.options);
+        return await this.open(session);
+      } catch (error) {
+        lastError = error as Error;
+        log.warn(`Reconnect attempt ${attempt} for device ${session.deviceId} failed:`, lastError.message);
+
+        // A different host key needs the user, not another retry
+        if (error instanceof HostKeyVerificationError) {
+          break;
+        }
+      }
+    }
+
+    this.setState(session, 'disconnected', { error: lastError?.message });
+    throw new SSHConnectionError(`Connection lost and could not be re-established: ${lastError?.message}`);
+  }
+
+  private setState(
+    session: PooledSession,
+    state: SSHConnectionState,
+    details: Omit<SSHConnectionStateEvent, 'deviceId' | 'state'> = {}
+  ): void {
+    session.state = state;
+
+    const event: SSHConnectionStateEvent = { deviceId: session.deviceId, state, ...details };
+    this.emit('state', event);
+  }
+}
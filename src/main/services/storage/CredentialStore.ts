@@ -3,7 +3,7 @@
  */
 
 import * as keytar from 'keytar';
-import { CREDENTIAL_SERVICE, CREDENTIAL_PREFIX } from '@shared/constants';
+import { CREDENTIAL_SERVICE, CREDENTIAL_PREFIX, JUMP_HOST_CREDENTIAL_PREFIX } from '@shared/constants';
 import log from 'electron-log';
 
 export interface StoredCredential {
@@ -77,13 +77,57 @@ export class CredentialStore {
     }
   }
 
+  /**
+   * Store credentials for a jump host
+   */
+  async storeJumpHostCredentials(jumpHostId: string, credential: { password?: string; privateKey?: string }): Promise<void> {
+    try {
+      const accountName = this.getAccountName(jumpHostId, JUMP_HOST_CREDENTIAL_PREFIX);
+      await keytar.setPassword(this.serviceName, accountName, JSON.stringify(credential));
+      log.info(`Credentials stored for jump host: ${jumpHostId}`);
+    } catch (error) {
+      log.error('Failed to store jump host credentials:', error);
+      throw new Error(`Failed to store jump host credentials: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Retrieve credentials for a jump host
+   */
+  async getJumpHostCredentials(jumpHostId: string): Promise<{ password?: string; privateKey?: string } | null> {
+    try {
+      const accountName = this.getAccountName(jumpHostId, JUMP_HOST_CREDENTIAL_PREFIX);
+      const credentialData = await keytar.getPassword(this.serviceName, accountName);
+
+      return credentialData ? JSON.parse(credentialData) : null;
+    } catch (error) {
+      log.error('Failed to retrieve jump host credentials:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete credentials for a jump host
+   */
+  async deleteJumpHostCredentials(jumpHostId: string): Promise<boolean> {
+    try {
+      const accountName = this.getAccountName(jumpHostId, JUMP_HOST_CREDENTIAL_PREFIX);
+      return await keytar.deletePassword(this.serviceName, accountName);
+    } catch (error) {
+      log.error('Failed to delete jump host credentials:', error);
+      return false;
+    }
+  }
+
   /**
    * List all stored credentials
    */
   async listCredentials(): Promise<string[]> {
     try {
       const credentials = await keytar.findCredentials(this.serviceName);
-      return credentials.map((cred) => this.extractDeviceId(cred.account));
+      return credentials
+        .filter((cred) => cred.account.startsWith(`${CREDENTIAL_PREFIX}:`))
+        .map((cred) => this.extractDeviceId(cred.account));
     } catch (error) {
       log.error('Failed to list credentials:', error);
       return [];
@@ -117,6 +161,13 @@ export class CredentialStore {
         await this.deleteCredentials(deviceId);
       }
 
+      const jumpHostAccounts = (await keytar.findCredentials(this.serviceName))
+        .filter((cred) => cred.account.startsWith(`${JUMP_HOST_CREDENTIAL_PREFIX}:`));
+
+      for (const cred of jumpHostAccounts) {
+        await keytar.deletePassword(this.serviceName, cred.account);
+      }
+
       log.warn('All credentials cleared');
     } catch (error) {
       log.error('Failed to clear all credentials:', error);
@@ -131,8 +182,8 @@ export class CredentialStore {
   /**
    * Generate account name for Windows Credential Manager
    */
-  private getAccountName(deviceId: string): string {
-    return `${CREDENTIAL_PREFIX}:${deviceId}`;
+  private getAccountName(id: string, prefix: string = CREDENTIAL_PREFIX): string {
+    return `${prefix}:${id}`;
   }
 
   /**
@@ -6,7 +6,7 @@ import { app } from 'electron';
 import initSqlJs, { Database } from 'sql.js';
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
-import { DeviceProfile } from '@shared/types';
+import { DeviceProfile, JumpHost } from '@shared/types';
 import { DB_NAME } from '@shared/constants';
 import log from 'electron-log';
 
@@ -72,6 +72,9 @@ export class DeviceStorage {
         credentialId TEXT NOT NULL,
         vyosVersion TEXT,
         hostname TEXT,
+        hostKeyType TEXT,
+        hostKeyFingerprint TEXT,
+        jumpHosts TEXT,
         lastConnected TEXT,
         status TEXT NOT NULL,
         createdAt TEXT NOT NULL,
@@ -80,9 +83,31 @@ export class DeviceStorage {
     `;
 
     this.db!.run(createDevicesTable);
+    this.migrateTables();
     this.save();
   }
 
+  /**
+   * Add columns introduced after the initial schema to existing databases
+   */
+  private migrateTables(): void {
+    const addedColumns: [string, string][] = [
+      ['hostKeyType', 'TEXT'],
+      ['hostKeyFingerprint', 'TEXT'],
+      ['jumpHosts', 'TEXT'],
+    ];
+
+    const result = this.db!.exec('PRAGMA table_info(devices)');
+    const existing = new Set((result[0]?.values || []).map((row) => row[1] as string));
+
+    for (const [column, type] of addedColumns) {
+      if (!existing.has(column)) {
+        this.db!.run(`ALTER TABLE devices ADD COLUMN ${column} ${type}`);
+        log.info(`Database migrated: added devices.${column}`);
+      }
+    }
+  }
+
   /**
    * Save database to disk
    */
@@ -115,8 +140,9 @@ export class DeviceStorage {
       const stmt = this.db!.prepare(`
         INSERT INTO devices (
           id, name, host, port, username, authType, keyPath, credentialId,
-          vyosVersion, hostname, lastConnected, status, createdAt, updatedAt
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          vyosVersion, hostname, hostKeyType, hostKeyFingerprint, jumpHosts, lastConnected,
+          status, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run([
@@ -130,6 +156,9 @@ export class DeviceStorage {
         device.credentialId,
         device.vyosVersion || null,
         device.hostname || null,
+        device.hostKeyType || null,
+        device.hostKeyFingerprint || null,
+        this.serializeJumpHosts(device.jumpHosts),
         device.lastConnected ? device.lastConnected.toISOString() : null,
         device.status,
         device.createdAt.toISOString(),
@@ -211,7 +240,7 @@ export class DeviceStorage {
       const stmt = this.db!.prepare(`
         UPDATE devices SET
           name = ?, host = ?, port = ?, username = ?, authType = ?, keyPath = ?,
-          credentialId = ?, vyosVersion = ?, hostname = ?, lastConnected = ?,
+          credentialId = ?, vyosVersion = ?, hostname = ?, jumpHosts = ?, lastConnected = ?,
           status = ?, updatedAt = ?
         WHERE id = ?
       `);
@@ -226,6 +255,7 @@ export class DeviceStorage {
         device.credentialId,
         device.vyosVersion || null,
         device.hostname || null,
+        this.serializeJumpHosts(device.jumpHosts),
         device.lastConnected ? device.lastConnected.toISOString() : null,
         device.status,
         device.updatedAt.toISOString(),
@@ -284,6 +314,52 @@ export class DeviceStorage {
     }
   }
 
+  /**
+   * Pin (or clear) the trusted SSH host key for a device
+   */
+  async updateHostKey(id: string, hostKey: { type: string; fingerprint: string } | null): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      const stmt = this.db!.prepare(`
+        UPDATE devices SET hostKeyType = ?, hostKeyFingerprint = ?, updatedAt = ? WHERE id = ?
+      `);
+
+      stmt.run([hostKey?.type || null, hostKey?.fingerprint || null, new Date().toISOString(), id]);
+      stmt.free();
+      this.save();
+
+      log.info(`Host key ${hostKey ? `pinned (${hostKey.fingerprint})` : 'cleared'} for device ${id}`);
+    } catch (error) {
+      log.error('Failed to update host key:', error);
+      throw new Error(`Failed to update host key: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Record what the device reported about itself
+   */
+  async updateDeviceInfo(id: string, info: { vyosVersion?: string; hostname?: string }): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      const stmt = this.db!.prepare(`
+        UPDATE devices SET vyosVersion = COALESCE(?, vyosVersion), hostname = COALESCE(?, hostname), updatedAt = ?
+        WHERE id = ?
+      `);
+
+      stmt.run([info.vyosVersion || null, info.hostname || null, new Date().toISOString(), id]);
+      stmt.free();
+      this.save();
+    } catch (error) {
+      log.error('Failed to update device info:', error);
+    }
+  }
+
   /**
    * Update last connected time
    */
@@ -325,6 +401,9 @@ export class DeviceStorage {
       credentialId: row.credentialId as string,
       vyosVersion: row.vyosVersion as string | undefined,
       hostname: row.hostname as string | undefined,
+      hostKeyType: row.hostKeyType as string | undefined,
+      hostKeyFingerprint: row.hostKeyFingerprint as string | undefined,
+      jumpHosts: row.jumpHosts ? (JSON.parse(row.jumpHosts as string) as JumpHost[]) : undefined,
       lastConnected: row.lastConnected ? new Date(row.lastConnected as string) : undefined,
       status: row.status as 'online' | 'offline' | 'unknown',
       createdAt: new Date(row.createdAt as string),
@@ -332,6 +411,17 @@ export class DeviceStorage {
     };
   }
 
+  /**
+   * Serialize a jump host chain for storage, leaving secrets to the credential store
+   */
+  private serializeJumpHosts(jumpHosts?: JumpHost[]): string | null {
+    if (!jumpHosts || jumpHosts.length === 0) {
+      return null;
+    }
+
+    return JSON.stringify(jumpHosts.map(({ password: _password, privateKey: _privateKey, ...hop }) => hop));
+  }
+
   /**
    * Close database connection
    */
@@ -0,0 +1,101 @@
+/**
+ * Change Set Manager - Per-device pending changes applied with commit-confirm
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ChangeSet, PendingChange } from '@shared/types';
+import log from 'electron-log';
+
+export class ChangeSetManager {
+  private changeSets = new Map<string, ChangeSet>();
+
+  /**
+   * Get the change set for a device, creating an empty draft if needed
+   */
+  getChangeSet(deviceId: string): ChangeSet {
+    let changeSet = this.changeSets.get(deviceId);
+
+    if (!changeSet) {
+      changeSet = { deviceId, status: 'draft', changes: [] };
+      this.changeSets.set(deviceId, changeSet);
+    }
+
+    // The router rolls back on its own once the window elapses
+    if (
+      changeSet.status === 'awaiting-confirm' &&
+      changeSet.confirmDeadline &&
+      changeSet.confirmDeadline.getTime() <= Date.now()
+    ) {
+      log.warn(`Commit-confirm window elapsed for device ${deviceId}, router has reverted`);
+      changeSet.status = 'reverted';
+    }
+
+    return changeSet;
+  }
+
+  /**
+   * Add a change to the device's pending set
+   */
+  addChange(deviceId: string, description: string, commands: string[]): ChangeSet {
+    const changeSet = this.getChangeSet(deviceId);
+
+    if (changeSet.status === 'awaiting-confirm') {
+      throw new Error('Confirm or wait out the pending commit before staging new changes');
+    }
+
+    const change: PendingChange = {
+      id: uuidv4(),
+      description,
+      commands,
+      createdAt: new Date(),
+    };
+
+    changeSet.changes.push(change);
+    changeSet.status = 'draft';
+    changeSet.confirmDeadline = undefined;
+
+    log.info(`Staged change "${description}" for device ${deviceId} (${commands.length} commands)`);
+    return changeSet;
+  }
+
+  /**
+   * Remove a single change from the pending set
+   */
+  removeChange(deviceId: string, changeId: string): ChangeSet {
+    const changeSet = this.getChangeSet(deviceId);
+
+    if (changeSet.status === 'awaiting-confirm') {
+      throw new Error('Cannot edit changes while a commit is awaiting confirmation');
+    }
+
+    changeSet.changes = changeSet.changes.filter((change) => change.id !== changeId);
+    return changeSet;
+  }
+
+  /**
+   * Drop all pending changes for a device
+   */
+  clear(deviceId: string): void {
+    this.changeSets.delete(deviceId);
+  }
+
+  /**
+   * All staged commands in the order they were added
+   */
+  getCommands(deviceId: string): string[] {
+    return this.getChangeSet(deviceId).changes.flatMap((change) => change.commands);
+  }
+
+  /**
+   * Record that the change set was applied with commit-confirm
+   */
+  markAwaitingConfirm(deviceId: string, minutes: number): ChangeSet {
+    const changeSet = this.getChangeSet(deviceId);
+
+    changeSet.status = 'awaiting-confirm';
+    changeSet.confirmMinutes = minutes;
+    changeSet.confirmDeadline = new Date(Date.now() + minutes * 60 * 1000);
+
+    return changeSet;
+  }
+}
@@ -7,15 +7,123 @@ import {
   FirewallZone,
   FirewallRuleset,
   FirewallRule,
+  FirewallSyntax,
+  FirewallFamily,
+  FirewallICMPMatch,
+  FirewallGroup,
   NATRule,
   IPSecSite,
   StaticRoute,
+  PolicyRoute,
+  PolicyRouteRule,
+  LocalRouteRule,
+  Vrf,
+  OSPFConfig,
+  OSPFDefaultInformation,
+  BGPConfig,
+  BGPNeighbor,
+  BGPPeerOptions,
+  BGPTimers,
+  RoutingPolicy,
+  PrefixList,
+  PolicyKind,
+  PolicyList,
+  RouteMap,
+  RouteMapClause,
   SystemConfig,
   SystemUser,
+  WireGuardInterface,
+  WireGuardPeer,
+  WireGuardClientConfigRequest,
+  OpenVpnInterface,
+  OpenVpnServer,
+  DhcpServer,
+  DhcpStaticMapping,
+  DnsForwarding,
+  StaticHostMapping,
+  VrrpGroup,
+  VrrpSyncGroup,
+  WanLoadBalancing,
+  WanInterfaceHealth,
+  WanRule,
+  QosPolicy,
+  QosClassSettings,
+  VyOSError,
 } from '@shared/types';
-import { sanitizeConfigValue } from '@shared/validators';
+import {
+  sanitizeConfigValue,
+  formatConfigPath,
+  formatConfigValue,
+  isValidIPAddress,
+  validateQosPolicy,
+} from '@shared/validators';
+import { FIREWALL_GROUP_MEMBER_KEYS } from '@shared/constants';
+import { ConfigNode } from './ConfigTree';
+import { ConfigParser } from './ConfigParser';
+import { OPENVPN_KEY_NODES, VyOSDialect, getDialect } from './Dialect';
+
+// Interface type node for each interface name prefix
+const INTERFACE_TYPES_BY_PREFIX: Record<string, string> = {
+  eth: 'ethernet',
+  bond: 'bonding',
+  br: 'bridge',
+  lo: 'loopback',
+  dum: 'dummy',
+  tun: 'tunnel',
+  vti: 'vti',
+  vtun: 'openvpn',
+  wg: 'wireguard',
+  pppoe: 'pppoe',
+};
+
+// VyOS cipher names as the OpenVPN client spells them
+const OPENVPN_CIPHER_NAMES: Record<string, string> = {
+  aes256gcm: 'AES-256-GCM',
+  aes192gcm: 'AES-192-GCM',
+  aes128gcm: 'AES-128-GCM',
+  aes256: 'AES-256-CBC',
+  aes192: 'AES-192-CBC',
+  aes128: 'AES-128-CBC',
+  bf256: 'BF-CBC',
+  bf128: 'BF-CBC',
+  '3des': 'DES-EDE3-CBC',
+  des: 'DES-CBC',
+};
 
 export class CommandBuilder {
+  private configParser = new ConfigParser();
+  private dialect: VyOSDialect;
+
+  constructor(vyosVersion?: string) {
+    this.dialect = getDialect(vyosVersion);
+  }
+
+  /**
+   * Target a different VyOS version, e.g. once the device has been identified
+   */
+  setVyOSVersion(vyosVersion?: string): void {
+    this.dialect = getDialect(vyosVersion);
+  }
+
+  getDialect(): VyOSDialect {
+    return this.dialect;
+  }
+
+  /**
+   * `interfaces` path of an interface from its name, e.g. `ethernet eth0 vif 10` for eth0.10
+   */
+  private getInterfacePath(name: string): string {
+    const [parent, vif] = name.split('.');
+    const prefix = parent.replace(/\d+$/, '');
+    const type = INTERFACE_TYPES_BY_PREFIX[prefix];
+
+    if (!type) {
+      throw new VyOSError(`Unknown interface type for ${name}`, 'VALIDATION_ERROR');
+    }
+
+    return vif ? `interfaces ${type} ${parent} vif ${vif}` : `interfaces ${type} ${parent}`;
+  }
+
   // ============================================================================
   // Interface Commands
   // ============================================================================
@@ -106,6 +214,13 @@ export class CommandBuilder {
       }
     }
 
+    // VRF membership
+    if (iface.vrf) {
+      commands.push(`set ${basePath} vrf ${iface.vrf}`);
+    } else {
+      commands.push(`delete ${basePath} vrf`);
+    }
+
     // Enable/disable
     if (iface.enabled) {
       commands.push(`delete ${basePath} disable`);
@@ -120,9 +235,18 @@ export class CommandBuilder {
   // Static Route Commands
   // ============================================================================
 
+  /**
+   * Path of a static route in the main table, a numbered one or a VRF
+   */
+  getStaticRoutePath(route: Pick<StaticRoute, 'network' | 'table' | 'vrf'>): string {
+    const staticPath = route.vrf ? `vrf name ${route.vrf} protocols static` : 'protocols static';
+    const tablePath = route.table ? `${staticPath} table ${route.table}` : staticPath;
+    return `${tablePath} route ${route.network}`;
+  }
+
   buildStaticRouteCommands(route: StaticRoute): string[] {
     const commands: string[] = [];
-    const basePath = `protocols static route ${route.network}`;
+    const basePath = this.getStaticRoutePath(route);
 
     if (route.nextHop) {
       const hopPath = `${basePath} next-hop ${route.nextHop}`;
@@ -148,330 +272,1769 @@ export class CommandBuilder {
   }
 
   // ============================================================================
-  // Firewall Zone Commands
+  // Policy Routing Commands
   // ============================================================================
 
-  buildFirewallZoneCommands(zone: FirewallZone): string[] {
+  getPolicyRoutePath(route: Pick<PolicyRoute, 'name' | 'family'>): string {
+    return `policy ${route.family === 'ipv6' ? 'route6' : 'route'} ${route.name}`;
+  }
+
+  buildPolicyRouteCommands(route: PolicyRoute): string[] {
     const commands: string[] = [];
-    const basePath = `zone-policy zone ${zone.name}`;
+    const basePath = this.getPolicyRoutePath(route);
 
-    // Description
-    if (zone.description) {
-      commands.push(`set ${basePath} description ${sanitizeConfigValue(zone.description)}`);
+    if (route.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(route.description)}`);
     }
 
-    // Default action
-    commands.push(`set ${basePath} default-action ${zone.defaultAction}`);
-
-    // Interfaces
-    zone.interfaces.forEach((iface) => {
-      commands.push(`set ${basePath} interface ${iface}`);
+    route.rules.forEach((rule) => {
+      commands.push(...this.buildPolicyRouteRuleCommands(`${basePath} rule ${rule.number}`, rule));
     });
 
-    // From zones
-    Object.entries(zone.from).forEach(([fromZone, config]) => {
-      const fromPath = `${basePath} from ${fromZone}`;
-
-      if (config.firewall.name) {
-        commands.push(`set ${fromPath} firewall name ${config.firewall.name}`);
-      }
-
-      if (config.firewall.ipv6Name) {
-        commands.push(`set ${fromPath} firewall ipv6-name ${config.firewall.ipv6Name}`);
-      }
+    route.interfaces.forEach((name) => {
+      commands.push(
+        this.dialect.policyRouteInterfaces
+          ? `set ${basePath} interface ${name}`
+          : `set ${this.getInterfacePath(name)} policy ${route.family === 'ipv6' ? 'route6' : 'route'} ${route.name}`
+      );
     });
 
     return commands;
   }
 
-  // ============================================================================
-  // Firewall Ruleset Commands
-  // ============================================================================
-
-  buildFirewallRulesetCommands(ruleset: FirewallRuleset): string[] {
+  /**
+   * Delete a policy route; on 1.3 the interfaces pointing at it are detached first
+   */
+  buildPolicyRouteDeleteCommands(route: PolicyRoute): string[] {
     const commands: string[] = [];
-    const basePath = `firewall name ${ruleset.name}`;
-
-    // Description
-    if (ruleset.description) {
-      commands.push(`set ${basePath} description ${sanitizeConfigValue(ruleset.description)}`);
-    }
 
-    // Default action
-    commands.push(`set ${basePath} default-action ${ruleset.defaultAction}`);
-
-    // Enable default log
-    if (ruleset.enableDefaultLog) {
-      commands.push(`set ${basePath} enable-default-log`);
+    if (!this.dialect.policyRouteInterfaces) {
+      route.interfaces.forEach((name) => {
+        commands.push(`delete ${this.getInterfacePath(name)} policy ${route.family === 'ipv6' ? 'route6' : 'route'}`);
+      });
     }
 
-    // Rules
-    ruleset.rules.forEach((rule) => {
-      commands.push(...this.buildFirewallRuleCommands(ruleset.name, rule));
-    });
-
+    commands.push(`delete ${this.getPolicyRoutePath(route)}`);
     return commands;
   }
 
-  buildFirewallRuleCommands(rulesetName: string, rule: FirewallRule): string[] {
+  private buildPolicyRouteRuleCommands(rulePath: string, rule: PolicyRouteRule): string[] {
     const commands: string[] = [];
-    const basePath = `firewall name ${rulesetName} rule ${rule.number}`;
-
-    // Action
-    commands.push(`set ${basePath} action ${rule.action}`);
 
-    // Description
     if (rule.description) {
-      commands.push(`set ${basePath} description ${sanitizeConfigValue(rule.description)}`);
+      commands.push(`set ${rulePath} description ${sanitizeConfigValue(rule.description)}`);
     }
 
-    // Protocol
-    if (rule.protocol) {
-      commands.push(`set ${basePath} protocol ${rule.protocol}`);
+    if (rule.disabled) {
+      commands.push(`set ${rulePath} disable`);
     }
 
-    // Source
-    if (rule.source) {
-      if (rule.source.address) {
-        commands.push(`set ${basePath} source address ${rule.source.address}`);
-      }
-      if (rule.source.port) {
-        commands.push(`set ${basePath} source port ${rule.source.port}`);
-      }
-      if (rule.source.group?.addressGroup) {
-        commands.push(`set ${basePath} source group address-group ${rule.source.group.addressGroup}`);
-      }
-      if (rule.source.group?.networkGroup) {
-        commands.push(`set ${basePath} source group network-group ${rule.source.group.networkGroup}`);
-      }
+    if (rule.protocol) {
+      commands.push(`set ${rulePath} protocol ${rule.protocol}`);
     }
 
-    // Destination
-    if (rule.destination) {
-      if (rule.destination.address) {
-        commands.push(`set ${basePath} destination address ${rule.destination.address}`);
-      }
-      if (rule.destination.port) {
-        commands.push(`set ${basePath} destination port ${rule.destination.port}`);
-      }
-      if (rule.destination.group?.addressGroup) {
-        commands.push(`set ${basePath} destination group address-group ${rule.destination.group.addressGroup}`);
+    (['source', 'destination'] as const).forEach((side) => {
+      const match = rule[side];
+      if (match?.address) {
+        commands.push(`set ${rulePath} ${side} address ${match.address}`);
       }
-      if (rule.destination.group?.portGroup) {
-        commands.push(`set ${basePath} destination group port-group ${rule.destination.group.portGroup}`);
+      if (match?.port) {
+        commands.push(`set ${rulePath} ${side} port ${match.port}`);
       }
-    }
+    });
 
-    // State
-    if (rule.state) {
-      if (rule.state.established) {
-        commands.push(`set ${basePath} state established enable`);
-      }
-      if (rule.state.related) {
-        commands.push(`set ${basePath} state related enable`);
-      }
-      if (rule.state.new) {
-        commands.push(`set ${basePath} state new enable`);
-      }
-      if (rule.state.invalid) {
-        commands.push(`set ${basePath} state invalid enable`);
-      }
+    if (rule.dscp) {
+      commands.push(`set ${rulePath} dscp ${rule.dscp}`);
     }
 
-    // Log
-    if (rule.log) {
-      commands.push(`set ${basePath} log enable`);
+    if (rule.setTable !== undefined) {
+      commands.push(`set ${rulePath} set table ${rule.setTable}`);
     }
 
-    // Disabled
-    if (rule.disabled) {
-      commands.push(`set ${basePath} disable`);
+    if (rule.setMark !== undefined) {
+      commands.push(`set ${rulePath} set mark ${rule.setMark}`);
     }
 
     return commands;
   }
 
-  // ============================================================================
-  // NAT Commands
-  // ============================================================================
+  getLocalRoutePath(rule: Pick<LocalRouteRule, 'number' | 'family'>): string {
+    return `policy ${rule.family === 'ipv6' ? 'local-route6' : 'local-route'} rule ${rule.number}`;
+  }
 
-  buildNATRuleCommands(rule: NATRule): string[] {
+  buildLocalRouteCommands(rule: LocalRouteRule): string[] {
     const commands: string[] = [];
-    const basePath = `nat ${rule.type} rule ${rule.number}`;
-
-    // Description
-    if (rule.description) {
-      commands.push(`set ${basePath} description ${sanitizeConfigValue(rule.description)}`);
-    }
-
-    // Outbound/Inbound interface
-    if (rule.type === 'source' && rule.outboundInterface) {
-      commands.push(`set ${basePath} outbound-interface ${rule.outboundInterface}`);
-    }
-    if (rule.type === 'destination' && rule.inboundInterface) {
-      commands.push(`set ${basePath} inbound-interface ${rule.inboundInterface}`);
-    }
+    const rulePath = this.getLocalRoutePath(rule);
 
-    // Protocol
-    if (rule.protocol) {
-      commands.push(`set ${basePath} protocol ${rule.protocol}`);
+    if (!this.dialect.extendedLocalRoute && (rule.destination || rule.inboundInterface || rule.fwmark !== undefined)) {
+      throw new VyOSError(
+        `Local route rule ${rule.number}: destination, inbound interface and fwmark matches need VyOS 1.4 or later`,
+        'VALIDATION_ERROR'
+      );
     }
 
-    // Source
     if (rule.source) {
-      if (rule.source.address) {
-        commands.push(`set ${basePath} source address ${rule.source.address}`);
-      }
-      if (rule.source.port) {
-        commands.push(`set ${basePath} source port ${rule.source.port}`);
-      }
+      commands.push(`set ${rulePath} source ${this.dialect.extendedLocalRoute ? 'address ' : ''}${rule.source}`);
     }
 
-    // Destination
     if (rule.destination) {
-      if (rule.destination.address) {
-        commands.push(`set ${basePath} destination address ${rule.destination.address}`);
-      }
-      if (rule.destination.port) {
-        commands.push(`set ${basePath} destination port ${rule.destination.port}`);
-      }
+      commands.push(`set ${rulePath} destination address ${rule.destination}`);
     }
 
-    // Translation
-    if (rule.translation) {
-      if (rule.translation.address) {
-        commands.push(`set ${basePath} translation address ${rule.translation.address}`);
-      }
-      if (rule.translation.port) {
-        commands.push(`set ${basePath} translation port ${rule.translation.port}`);
-      }
+    if (rule.inboundInterface) {
+      commands.push(`set ${rulePath} inbound-interface ${rule.inboundInterface}`);
     }
 
-    // Disabled
-    if (rule.disabled) {
-      commands.push(`set ${basePath} disable`);
+    if (rule.fwmark !== undefined) {
+      commands.push(`set ${rulePath} fwmark ${rule.fwmark}`);
     }
 
+    commands.push(`set ${rulePath} set table ${rule.table}`);
     return commands;
   }
 
   // ============================================================================
-  // IPsec VPN Commands
+  // VRF Commands
   // ============================================================================
 
-  buildIPSecCommands(site: IPSecSite): string[] {
+  /**
+   * Commands for a VRF and its members. When updating, pass the current VRF so
+   * interfaces that left are detached; the VRF node itself is kept so its
+   * static routes and BGP survive.
+   */
+  buildVrfCommands(vrf: Vrf, previous?: Vrf): string[] {
     const commands: string[] = [];
+    const basePath = `vrf name ${vrf.name}`;
 
-    // IKE Group
-    const ikeGroupName = site.ikeGroup.name;
-    const ikeBasePath = `vpn ipsec ike-group ${ikeGroupName}`;
+    previous?.interfaces
+      .filter((name) => !vrf.interfaces.includes(name))
+      .forEach((name) => {
+        commands.push(`delete ${this.getInterfacePath(name)} vrf`);
+      });
 
-    site.ikeGroup.proposal.forEach((proposal, index) => {
-      const propPath = `${ikeBasePath} proposal ${index + 1}`;
-      commands.push(`set ${propPath} encryption ${proposal.encryption}`);
-      commands.push(`set ${propPath} hash ${proposal.hash}`);
-      commands.push(`set ${propPath} dh-group ${proposal.dhGroup}`);
+    commands.push(`set ${basePath} table ${vrf.table}`);
+
+    if (vrf.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(vrf.description)}`);
+    } else if (previous?.description) {
+      commands.push(`delete ${basePath} description`);
+    }
+
+    vrf.interfaces.forEach((name) => {
+      commands.push(`set ${this.getInterfacePath(name)} vrf ${vrf.name}`);
     });
 
-    if (site.ikeGroup.lifeTime) {
-      commands.push(`set ${ikeBasePath} lifetime ${site.ikeGroup.lifeTime}`);
+    return commands;
+  }
+
+  /**
+   * Detach the members first; VyOS refuses to delete a VRF that is still in use
+   */
+  buildVrfDeleteCommands(vrf: Pick<Vrf, 'name' | 'interfaces'>): string[] {
+    return [
+      ...vrf.interfaces.map((name) => `delete ${this.getInterfacePath(name)} vrf`),
+      `delete vrf name ${vrf.name}`,
+    ];
+  }
+
+  // ============================================================================
+  // OSPF Commands
+  // ============================================================================
+
+  buildOSPFCommands(ospf: OSPFConfig): string[] {
+    const commands: string[] = [];
+    const basePath = ospf.version === 'v2' ? 'protocols ospf' : 'protocols ospfv3';
+
+    if (ospf.routerId) {
+      commands.push(`set ${basePath} parameters router-id ${ospf.routerId}`);
     }
 
-    // ESP Group
-    const espGroupName = site.espGroup.name;
-    const espBasePath = `vpn ipsec esp-group ${espGroupName}`;
+    ospf.areas.forEach((area) => {
+      const areaPath = `${basePath} area ${area.id}`;
+      commands.push(`set ${areaPath}`);
 
-    site.espGroup.proposal.forEach((proposal, index) => {
-      const propPath = `${espBasePath} proposal ${index + 1}`;
-      commands.push(`set ${propPath} encryption ${proposal.encryption}`);
-      commands.push(`set ${propPath} hash ${proposal.hash}`);
+      if (area.type !== 'normal') {
+        commands.push(`set ${areaPath} area-type ${area.type}`);
+
+        if (area.noSummary) {
+          commands.push(`set ${areaPath} area-type ${area.type} no-summary`);
+        }
+      }
+
+      area.networks.forEach((network) => {
+        commands.push(`set ${areaPath} network ${network}`);
+      });
+
+      if (area.authentication) {
+        commands.push(`set ${areaPath} authentication ${area.authentication}`);
+      }
     });
 
-    if (site.espGroup.lifeTime) {
-      commands.push(`set ${espBasePath} lifetime ${site.espGroup.lifeTime}`);
-    }
+    ospf.interfaces.forEach((iface) => {
+      const ifPath = this.getOSPFInterfacePath(ospf, iface.name);
+      commands.push(`set ${ifPath}`);
 
-    if (site.espGroup.pfs) {
-      commands.push(`set ${espBasePath} pfs ${site.espGroup.pfs}`);
-    }
+      if (iface.area) {
+        if (this.dialect.ospfInterfaceNode) {
+          commands.push(`set ${ifPath} area ${iface.area}`);
+        } else if (ospf.version === 'v3') {
+          commands.push(`set ${basePath} area ${iface.area} interface ${iface.name}`);
+        }
+        // 1.3 OSPFv2 only assigns areas through `network` statements
+      }
 
-    // Site-to-Site Peer
-    const peerPath = `vpn ipsec site-to-site peer ${site.remoteAddress}`;
+      if (iface.cost) {
+        commands.push(`set ${ifPath} cost ${iface.cost}`);
+      }
+
+      if (iface.passive) {
+        commands.push(
+          this.dialect.ospfInterfaceNode || ospf.version === 'v3'
+            ? `set ${ifPath} passive`
+            : `set ${basePath} passive-interface ${iface.name}`
+        );
+      } else if (iface.passive === false && ospf.passiveDefault) {
+        // Exempt from `passive-interface default`
+        commands.push(
+          this.dialect.ospfInterfaceNode
+            ? `set ${ifPath} passive disable`
+            : `set ${basePath} passive-interface-exclude ${iface.name}`
+        );
+      }
 
-    commands.push(`set ${peerPath} authentication mode ${site.authentication.mode}`);
+      // OSPFv3 has no per-interface authentication of its own
+      if (ospf.version === 'v2' && iface.authentication) {
+        const authPath = `${ifPath} authentication`;
+
+        if (iface.authentication.type === 'md5' && iface.authentication.md5Key) {
+          commands.push(
+            `set ${authPath} md5 key-id ${iface.authentication.keyId || 1} md5-key ${sanitizeConfigValue(iface.authentication.md5Key)}`
+          );
+        } else if (iface.authentication.type === 'plaintext-password' && iface.authentication.password) {
+          commands.push(`set ${authPath} plaintext-password ${sanitizeConfigValue(iface.authentication.password)}`);
+        }
+      }
+    });
 
-    if (site.authentication.mode === 'pre-shared-secret' && site.authentication.preSharedSecret) {
-      commands.push(`set ${peerPath} authentication pre-shared-secret ${sanitizeConfigValue(site.authentication.preSharedSecret)}`);
+    if (ospf.version === 'v2' && ospf.passiveDefault) {
+      commands.push(`set ${basePath} passive-interface default`);
     }
 
-    if (site.authentication.remoteId) {
-      commands.push(`set ${peerPath} authentication remote-id ${sanitizeConfigValue(site.authentication.remoteId)}`);
+    ospf.redistribute.forEach((redistribution) => {
+      const redistPath = `${basePath} redistribute ${redistribution.protocol}`;
+      commands.push(`set ${redistPath}`);
+      commands.push(...this.buildOSPFRouteOptionCommands(redistPath, redistribution));
+    });
+
+    if (ospf.defaultInformation) {
+      const originatePath = `${basePath} default-information originate`;
+      commands.push(`set ${originatePath}`);
+
+      if (ospf.defaultInformation.always) {
+        commands.push(`set ${originatePath} always`);
+      }
+
+      commands.push(...this.buildOSPFRouteOptionCommands(originatePath, ospf.defaultInformation));
     }
 
-    if (site.authentication.localId) {
-      commands.push(`set ${peerPath} authentication local-id ${sanitizeConfigValue(site.authentication.localId)}`);
+    return commands;
+  }
+
+  /**
+   * Per-interface OSPF settings live under `protocols ospf interface` on 1.4+
+   * and under the interface itself (`ip ospf` / `ipv6 ospfv3`) before
+   */
+  private getOSPFInterfacePath(ospf: OSPFConfig, name: string): string {
+    if (this.dialect.ospfInterfaceNode) {
+      return `${ospf.version === 'v2' ? 'protocols ospf' : 'protocols ospfv3'} interface ${name}`;
     }
 
-    commands.push(`set ${peerPath} ike-group ${ikeGroupName}`);
-    commands.push(`set ${peerPath} local-address ${site.localAddress}`);
+    return `${this.getInterfacePath(name)} ${ospf.version === 'v2' ? 'ip ospf' : 'ipv6 ospfv3'}`;
+  }
 
-    if (site.description) {
-      commands.push(`set ${peerPath} description ${sanitizeConfigValue(site.description)}`);
+  private buildOSPFRouteOptionCommands(path: string, options: OSPFDefaultInformation): string[] {
+    const commands: string[] = [];
+
+    if (options.metric !== undefined) {
+      commands.push(`set ${path} metric ${options.metric}`);
     }
 
-    // Tunnels
-    site.tunnels.forEach((tunnel) => {
-      const tunnelPath = `${peerPath} tunnel ${tunnel.id}`;
-      commands.push(`set ${tunnelPath} local prefix ${tunnel.localSubnet}`);
-      commands.push(`set ${tunnelPath} remote prefix ${tunnel.remoteSubnet}`);
-      commands.push(`set ${tunnelPath} esp-group ${espGroupName}`);
+    if (options.metricType) {
+      commands.push(`set ${path} metric-type ${options.metricType}`);
+    }
 
-      if (tunnel.protocol) {
-        commands.push(`set ${tunnelPath} protocol ${tunnel.protocol}`);
-      }
-    });
+    if (options.routeMap) {
+      commands.push(`set ${path} route-map ${options.routeMap}`);
+    }
 
     return commands;
   }
 
   // ============================================================================
-  // System Commands
+  // BGP Commands
   // ============================================================================
 
-  buildSystemCommands(system: Partial<SystemConfig>): string[] {
+  buildBGPCommands(bgp: BGPConfig): string[] {
     const commands: string[] = [];
+    const basePath = this.getBGPPath(bgp.localAs, bgp.vrf);
 
-    // Hostname
-    if (system.hostName) {
-      commands.push(`set system host-name ${sanitizeConfigValue(system.hostName)}`);
+    if (this.dialect.bgpSystemAs) {
+      commands.push(`set ${basePath} system-as ${bgp.localAs}`);
     }
 
-    // Domain name
-    if (system.domainName) {
-      commands.push(`set system domain-name ${sanitizeConfigValue(system.domainName)}`);
+    if (bgp.routerId) {
+      commands.push(`set ${basePath} parameters router-id ${bgp.routerId}`);
     }
 
-    // Time zone
-    if (system.timeZone) {
-      commands.push(`set system time-zone ${sanitizeConfigValue(system.timeZone)}`);
+    if (bgp.timers) {
+      commands.push(...this.buildBGPTimerCommands(`${basePath} timers`, bgp.timers));
     }
 
-    // Name servers
-    if (system.nameServer) {
-      system.nameServer.forEach((ns) => {
-        commands.push(`set system name-server ${ns}`);
+    Object.entries(bgp.addressFamilies).forEach(([family, af]) => {
+      const afPath = `${basePath} address-family ${family}`;
+
+      af.networks.forEach((network) => {
+        commands.push(`set ${afPath} network ${network}`);
       });
-    }
 
-    // NTP
-    if (system.ntp) {
-      system.ntp.servers.forEach((server) => {
-        commands.push(`set system ntp server ${server}`);
+      af.redistribute.forEach((redistribution) => {
+        const redistPath = `${afPath} redistribute ${redistribution.protocol}`;
+        commands.push(`set ${redistPath}`);
+
+        if (redistribution.routeMap) {
+          commands.push(`set ${redistPath} route-map ${redistribution.routeMap}`);
+        }
+
+        if (redistribution.metric !== undefined) {
+          commands.push(`set ${redistPath} metric ${redistribution.metric}`);
+        }
       });
+    });
 
-      if (system.ntp.allowClients) {
+    // Peer-groups first so neighbors can reference them
+    bgp.peerGroups.forEach((group) => {
+      commands.push(...this.buildBGPPeerCommands(`${basePath} peer-group ${group.name}`, group));
+    });
+
+    bgp.neighbors.forEach((neighbor) => {
+      commands.push(...this.buildBGPNeighborCommands(neighbor, bgp.localAs, bgp.vrf));
+    });
+
+    return commands;
+  }
+
+  /**
+   * Config path of the BGP process: `protocols bgp` on 1.4+, `protocols bgp <asn>` before,
+   * below `vrf name X` for a VRF instance. The local AS is only needed for the older layout.
+   */
+  getBGPPath(localAs?: number, vrf?: string): string {
+    const bgpPath = vrf ? `vrf name ${vrf} protocols bgp` : 'protocols bgp';
+
+    if (this.dialect.bgpSystemAs) {
+      return bgpPath;
+    }
+
+    if (localAs === undefined) {
+      throw new VyOSError('The local AS is required to configure BGP on VyOS 1.3', 'VALIDATION_ERROR');
+    }
+
+    return `${bgpPath} ${localAs}`;
+  }
+
+  buildBGPNeighborCommands(neighbor: BGPNeighbor, localAs?: number, vrf?: string): string[] {
+    const neighborPath = `${this.getBGPPath(localAs, vrf)} neighbor ${neighbor.address}`;
+    const commands = this.buildBGPPeerCommands(neighborPath, neighbor);
+
+    if (neighbor.peerGroup) {
+      commands.push(`set ${neighborPath} peer-group ${neighbor.peerGroup}`);
+    }
+
+    return commands;
+  }
+
+  /**
+   * Settings shared by `neighbor` and `peer-group` nodes
+   */
+  private buildBGPPeerCommands(peerPath: string, peer: BGPPeerOptions): string[] {
+    const commands: string[] = [];
+
+    if (peer.remoteAs !== undefined) {
+      commands.push(`set ${peerPath} remote-as ${peer.remoteAs}`);
+    }
+
+    if (peer.description) {
+      commands.push(`set ${peerPath} description ${sanitizeConfigValue(peer.description)}`);
+    }
+
+    if (peer.password) {
+      commands.push(`set ${peerPath} password ${sanitizeConfigValue(peer.password)}`);
+    }
+
+    if (peer.updateSource) {
+      commands.push(`set ${peerPath} update-source ${peer.updateSource}`);
+    }
+
+    if (peer.ebgpMultihop) {
+      commands.push(`set ${peerPath} ebgp-multihop ${peer.ebgpMultihop}`);
+    }
+
+    if (peer.timers) {
+      commands.push(...this.buildBGPTimerCommands(`${peerPath} timers`, peer.timers));
+    }
+
+    Object.entries(peer.addressFamilies).forEach(([family, af]) => {
+      const afPath = `${peerPath} address-family ${family}`;
+      commands.push(`set ${afPath}`);
+
+      if (af.routeMapImport) {
+        commands.push(`set ${afPath} route-map import ${af.routeMapImport}`);
+      }
+
+      if (af.routeMapExport) {
+        commands.push(`set ${afPath} route-map export ${af.routeMapExport}`);
+      }
+
+      if (af.prefixListImport) {
+        commands.push(`set ${afPath} prefix-list import ${af.prefixListImport}`);
+      }
+
+      if (af.prefixListExport) {
+        commands.push(`set ${afPath} prefix-list export ${af.prefixListExport}`);
+      }
+
+      if (af.nextHopSelf) {
+        commands.push(`set ${afPath} nexthop-self`);
+      }
+
+      if (af.softReconfigurationInbound) {
+        commands.push(`set ${afPath} soft-reconfiguration inbound`);
+      }
+
+      if (af.defaultOriginate) {
+        commands.push(`set ${afPath} default-originate`);
+      }
+    });
+
+    if (peer.shutdown) {
+      commands.push(`set ${peerPath} shutdown`);
+    } else {
+      commands.push(`delete ${peerPath} shutdown`);
+    }
+
+    return commands;
+  }
+
+  private buildBGPTimerCommands(timersPath: string, timers: BGPTimers): string[] {
+    const commands: string[] = [];
+
+    if (timers.keepalive !== undefined) {
+      commands.push(`set ${timersPath} keepalive ${timers.keepalive}`);
+    }
+
+    if (timers.holdtime !== undefined) {
+      commands.push(`set ${timersPath} holdtime ${timers.holdtime}`);
+    }
+
+    return commands;
+  }
+
+  // ============================================================================
+  // Routing Policy Commands
+  // ============================================================================
+
+  /**
+   * Lists first so the route-maps that reference them commit cleanly
+   */
+  buildRoutingPolicyCommands(policy: RoutingPolicy): string[] {
+    return [
+      ...policy.prefixLists.flatMap((list) => this.buildPrefixListCommands(list)),
+      ...policy.communityLists.flatMap((list) => this.buildPolicyListCommands('community-list', list)),
+      ...policy.asPathLists.flatMap((list) => this.buildPolicyListCommands('as-path-list', list)),
+      ...policy.routeMaps.flatMap((routeMap) => this.buildRouteMapCommands(routeMap)),
+    ];
+  }
+
+  getPolicyPath(kind: PolicyKind, name: string): string {
+    return `policy ${kind} ${sanitizeConfigValue(name)}`;
+  }
+
+  buildPrefixListCommands(list: PrefixList): string[] {
+    const commands: string[] = [];
+    const basePath = this.getPolicyPath(list.family === 'ipv6' ? 'prefix-list6' : 'prefix-list', list.name);
+
+    if (list.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(list.description)}`);
+    }
+
+    list.rules.forEach((rule) => {
+      const rulePath = `${basePath} rule ${rule.number}`;
+      commands.push(`set ${rulePath} action ${rule.action}`);
+      commands.push(`set ${rulePath} prefix ${rule.prefix}`);
+
+      if (rule.ge !== undefined) {
+        commands.push(`set ${rulePath} ge ${rule.ge}`);
+      }
+
+      if (rule.le !== undefined) {
+        commands.push(`set ${rulePath} le ${rule.le}`);
+      }
+
+      if (rule.description) {
+        commands.push(`set ${rulePath} description ${sanitizeConfigValue(rule.description)}`);
+      }
+    });
+
+    return commands;
+  }
+
+  buildPolicyListCommands(kind: 'community-list' | 'as-path-list', list: PolicyList): string[] {
+    const commands: string[] = [];
+    const basePath = this.getPolicyPath(kind, list.name);
+
+    if (list.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(list.description)}`);
+    }
+
+    list.rules.forEach((rule) => {
+      const rulePath = `${basePath} rule ${rule.number}`;
+      commands.push(`set ${rulePath} action ${rule.action}`);
+      // Regexes are full of shell-ish characters, always quote them
+      commands.push(`set ${rulePath} regex ${formatConfigValue(rule.regex)}`);
+
+      if (rule.description) {
+        commands.push(`set ${rulePath} description ${sanitizeConfigValue(rule.description)}`);
+      }
+    });
+
+    return commands;
+  }
+
+  buildRouteMapCommands(routeMap: RouteMap): string[] {
+    const commands: string[] = [];
+    const basePath = this.getPolicyPath('route-map', routeMap.name);
+
+    if (routeMap.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(routeMap.description)}`);
+    }
+
+    routeMap.rules.forEach((rule) => {
+      const rulePath = `${basePath} rule ${rule.number}`;
+      commands.push(`set ${rulePath} action ${rule.action}`);
+
+      if (rule.description) {
+        commands.push(`set ${rulePath} description ${sanitizeConfigValue(rule.description)}`);
+      }
+
+      rule.match.forEach((clause) => {
+        commands.push(this.buildRouteMapClauseCommand(`${rulePath} match`, clause));
+      });
+
+      rule.set.forEach((clause) => {
+        commands.push(this.buildRouteMapClauseCommand(`${rulePath} set`, clause));
+      });
+
+      if (rule.continue !== undefined) {
+        commands.push(`set ${rulePath} continue ${rule.continue}`);
+      }
+
+      if (rule.onMatch) {
+        commands.push(`set ${rulePath} on-match ${rule.onMatch}`);
+      }
+    });
+
+    return commands;
+  }
+
+  private buildRouteMapClauseCommand(clausePath: string, clause: RouteMapClause): string {
+    return clause.value === undefined
+      ? `set ${clausePath} ${clause.path}`
+      : `set ${clausePath} ${clause.path} ${sanitizeConfigValue(clause.value)}`;
+  }
+
+  // ============================================================================
+  // Firewall Zone Commands
+  // ============================================================================
+
+  buildFirewallZoneCommands(zone: FirewallZone): string[] {
+    const commands: string[] = [];
+    const basePath = this.getFirewallZonePath(zone.name);
+
+    // Description
+    if (zone.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(zone.description)}`);
+    }
+
+    // Default action
+    commands.push(`set ${basePath} default-action ${zone.defaultAction}`);
+
+    // Interfaces; 1.5 moved them below `member`
+    zone.interfaces.forEach((iface) => {
+      commands.push(`set ${basePath} ${this.dialect.zoneInterfacePath} ${iface}`);
+    });
+
+    // From zones
+    Object.entries(zone.from).forEach(([fromZone, config]) => {
+      const fromPath = `${basePath} from ${fromZone}`;
+
+      if (config.firewall.name) {
+        commands.push(`set ${fromPath} firewall name ${config.firewall.name}`);
+      }
+
+      if (config.firewall.ipv6Name) {
+        commands.push(`set ${fromPath} firewall ipv6-name ${config.firewall.ipv6Name}`);
+      }
+    });
+
+    return commands;
+  }
+
+  /**
+   * Config path of a zone: `zone-policy zone` before 1.4, `firewall zone` after
+   */
+  getFirewallZonePath(name: string): string {
+    return `${this.dialect.zonePath} ${name}`;
+  }
+
+  // ============================================================================
+  // Firewall Ruleset Commands
+  // ============================================================================
+
+  /**
+   * Firewall syntax of the device version this builder targets
+   */
+  getFirewallSyntax(): FirewallSyntax {
+    return this.dialect.firewallSyntax;
+  }
+
+  /**
+   * Config path of a ruleset: `firewall name X` / `firewall ipv6-name X` before 1.4,
+   * `firewall <family> name X` or `firewall <family> <chain> filter` after
+   */
+  getFirewallRulesetPath(ruleset: Pick<FirewallRuleset, 'name' | 'baseChain' | 'family'>): string {
+    const family = ruleset.family || 'ipv4';
+
+    if (this.getFirewallSyntax() === 'legacy') {
+      if (ruleset.baseChain) {
+        throw new VyOSError('Base chains require VyOS 1.4 or later', 'VALIDATION_ERROR');
+      }
+      return family === 'ipv6' ? `firewall ipv6-name ${ruleset.name}` : `firewall name ${ruleset.name}`;
+    }
+
+    return ruleset.baseChain
+      ? `firewall ${family} ${ruleset.baseChain} filter`
+      : `firewall ${family} name ${ruleset.name}`;
+  }
+
+  buildFirewallRulesetCommands(ruleset: FirewallRuleset): string[] {
+    const commands: string[] = [];
+    const basePath = this.getFirewallRulesetPath(ruleset);
+    const modern = this.getFirewallSyntax() === 'modern';
+
+    // Description
+    if (ruleset.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(ruleset.description)}`);
+    }
+
+    // Default action
+    commands.push(`set ${basePath} default-action ${ruleset.defaultAction}`);
+
+    if (ruleset.defaultAction === 'jump' && ruleset.defaultJumpTarget) {
+      commands.push(`set ${basePath} default-jump-target ${ruleset.defaultJumpTarget}`);
+    }
+
+    // Enable default log
+    if (ruleset.enableDefaultLog) {
+      commands.push(`set ${basePath} ${modern ? 'default-log' : 'enable-default-log'}`);
+    }
+
+    // Rules
+    ruleset.rules.forEach((rule) => {
+      commands.push(...this.buildFirewallRuleCommands(ruleset, rule));
+    });
+
+    return commands;
+  }
+
+  buildFirewallRuleCommands(ruleset: Pick<FirewallRuleset, 'name' | 'baseChain' | 'family'>, rule: FirewallRule): string[] {
+    const commands: string[] = [];
+    const basePath = `${this.getFirewallRulesetPath(ruleset)} rule ${rule.number}`;
+    const modern = this.getFirewallSyntax() === 'modern';
+
+    // Action
+    commands.push(`set ${basePath} action ${rule.action}`);
+
+    if (rule.action === 'jump' && rule.jumpTarget) {
+      commands.push(`set ${basePath} jump-target ${rule.jumpTarget}`);
+    }
+
+    // Description
+    if (rule.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(rule.description)}`);
+    }
+
+    // Protocol
+    if (rule.protocol) {
+      commands.push(`set ${basePath} protocol ${rule.protocol}`);
+    }
+
+    // ICMP type
+    if (rule.icmp) {
+      const icmpPath = `${basePath} ${ruleset.family === 'ipv6' ? 'icmpv6' : 'icmp'}`;
+      commands.push(...this.buildFirewallICMPCommands(icmpPath, ruleset.family, rule.icmp));
+    }
+
+    // Source
+    if (rule.source) {
+      if (rule.source.address) {
+        commands.push(`set ${basePath} source address ${rule.source.address}`);
+      }
+      if (rule.source.port) {
+        commands.push(`set ${basePath} source port ${rule.source.port}`);
+      }
+      if (rule.source.group?.addressGroup) {
+        commands.push(`set ${basePath} source group address-group ${rule.source.group.addressGroup}`);
+      }
+      if (rule.source.group?.networkGroup) {
+        commands.push(`set ${basePath} source group network-group ${rule.source.group.networkGroup}`);
+      }
+      if (rule.source.group?.portGroup) {
+        commands.push(`set ${basePath} source group port-group ${rule.source.group.portGroup}`);
+      }
+    }
+
+    // Destination
+    if (rule.destination) {
+      if (rule.destination.address) {
+        commands.push(`set ${basePath} destination address ${rule.destination.address}`);
+      }
+      if (rule.destination.port) {
+        commands.push(`set ${basePath} destination port ${rule.destination.port}`);
+      }
+      if (rule.destination.group?.addressGroup) {
+        commands.push(`set ${basePath} destination group address-group ${rule.destination.group.addressGroup}`);
+      }
+      if (rule.destination.group?.networkGroup) {
+        commands.push(`set ${basePath} destination group network-group ${rule.destination.group.networkGroup}`);
+      }
+      if (rule.destination.group?.portGroup) {
+        commands.push(`set ${basePath} destination group port-group ${rule.destination.group.portGroup}`);
+      }
+    }
+
+    // State: `state established enable` before 1.4, `state established` after
+    if (rule.state) {
+      (['established', 'related', 'new', 'invalid'] as const).forEach((state) => {
+        if (rule.state![state]) {
+          commands.push(modern ? `set ${basePath} state ${state}` : `set ${basePath} state ${state} enable`);
+        }
+      });
+    }
+
+    // Log
+    if (rule.log) {
+      commands.push(modern ? `set ${basePath} log` : `set ${basePath} log enable`);
+    }
+
+    // Disabled
+    if (rule.disabled) {
+      commands.push(`set ${basePath} disable`);
+    }
+
+    return commands;
+  }
+
+  private buildFirewallICMPCommands(icmpPath: string, family: FirewallFamily | undefined, icmp: FirewallICMPMatch): string[] {
+    // 1.3 folds ICMPv6 names and type/code into a single `type` value
+    if (family === 'ipv6' && this.dialect.combinedICMPv6Type) {
+      const type = icmp.typeName || (icmp.code !== undefined ? `${icmp.type}/${icmp.code}` : icmp.type);
+      return type !== undefined ? [`set ${icmpPath} type ${type}`] : [];
+    }
+
+    if (icmp.typeName) {
+      return [`set ${icmpPath} type-name ${icmp.typeName}`];
+    }
+
+    const commands: string[] = [];
+
+    if (icmp.type !== undefined) {
+      commands.push(`set ${icmpPath} type ${icmp.type}`);
+    }
+
+    if (icmp.code !== undefined) {
+      commands.push(`set ${icmpPath} code ${icmp.code}`);
+    }
+
+    return commands;
+  }
+
+  // ============================================================================
+  // Firewall Group Commands
+  // ============================================================================
+
+  getFirewallGroupPath(group: Pick<FirewallGroup, 'type' | 'name'>): string {
+    return `firewall group ${group.type} ${sanitizeConfigValue(group.name)}`;
+  }
+
+  buildFirewallGroupCommands(group: FirewallGroup): string[] {
+    const commands: string[] = [];
+    const basePath = this.getFirewallGroupPath(group);
+    const memberKey = FIREWALL_GROUP_MEMBER_KEYS[group.type];
+
+    if (group.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(group.description)}`);
+    }
+
+    group.members.forEach((member) => {
+      commands.push(`set ${basePath} ${memberKey} ${sanitizeConfigValue(member)}`);
+    });
+
+    group.include?.forEach((included) => {
+      commands.push(`set ${basePath} include ${included}`);
+    });
+
+    return commands;
+  }
+
+  // ============================================================================
+  // NAT Commands
+  // ============================================================================
+
+  buildNATRuleCommands(rule: NATRule): string[] {
+    const commands: string[] = [];
+    const basePath = `nat ${rule.type} rule ${rule.number}`;
+
+    // Description
+    if (rule.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(rule.description)}`);
+    }
+
+    // Outbound/Inbound interface; 1.4+ puts the interface below `name`
+    const interfaceNode = this.dialect.natInterfaceName ? ' name' : '';
+    if (rule.type === 'source' && rule.outboundInterface) {
+      commands.push(`set ${basePath} outbound-interface${interfaceNode} ${rule.outboundInterface}`);
+    }
+    if (rule.type === 'destination' && rule.inboundInterface) {
+      commands.push(`set ${basePath} inbound-interface${interfaceNode} ${rule.inboundInterface}`);
+    }
+
+    // Protocol
+    if (rule.protocol) {
+      commands.push(`set ${basePath} protocol ${rule.protocol}`);
+    }
+
+    // Source
+    if (rule.source) {
+      if (rule.source.address) {
+        commands.push(`set ${basePath} source address ${rule.source.address}`);
+      }
+      if (rule.source.port) {
+        commands.push(`set ${basePath} source port ${rule.source.port}`);
+      }
+    }
+
+    // Destination
+    if (rule.destination) {
+      if (rule.destination.address) {
+        commands.push(`set ${basePath} destination address ${rule.destination.address}`);
+      }
+      if (rule.destination.port) {
+        commands.push(`set ${basePath} destination port ${rule.destination.port}`);
+      }
+    }
+
+    // Translation
+    if (rule.translation) {
+      if (rule.translation.address) {
+        commands.push(`set ${basePath} translation address ${rule.translation.address}`);
+      }
+      if (rule.translation.port) {
+        commands.push(`set ${basePath} translation port ${rule.translation.port}`);
+      }
+    }
+
+    // Disabled
+    if (rule.disabled) {
+      commands.push(`set ${basePath} disable`);
+    }
+
+    return commands;
+  }
+
+  // ============================================================================
+  // IPsec VPN Commands
+  // ============================================================================
+
+  buildIPSecCommands(site: IPSecSite): string[] {
+    const commands: string[] = [];
+
+    // IKE Group
+    const ikeGroupName = site.ikeGroup.name;
+    const ikeBasePath = `vpn ipsec ike-group ${ikeGroupName}`;
+
+    site.ikeGroup.proposal.forEach((proposal, index) => {
+      const propPath = `${ikeBasePath} proposal ${index + 1}`;
+      commands.push(`set ${propPath} encryption ${proposal.encryption}`);
+      commands.push(`set ${propPath} hash ${proposal.hash}`);
+      commands.push(`set ${propPath} dh-group ${proposal.dhGroup}`);
+    });
+
+    if (site.ikeGroup.lifeTime) {
+      commands.push(`set ${ikeBasePath} lifetime ${site.ikeGroup.lifeTime}`);
+    }
+
+    // ESP Group
+    const espGroupName = site.espGroup.name;
+    const espBasePath = `vpn ipsec esp-group ${espGroupName}`;
+
+    site.espGroup.proposal.forEach((proposal, index) => {
+      const propPath = `${espBasePath} proposal ${index + 1}`;
+      commands.push(`set ${propPath} encryption ${proposal.encryption}`);
+      commands.push(`set ${propPath} hash ${proposal.hash}`);
+    });
+
+    if (site.espGroup.lifeTime) {
+      commands.push(`set ${espBasePath} lifetime ${site.espGroup.lifeTime}`);
+    }
+
+    if (site.espGroup.pfs) {
+      commands.push(`set ${espBasePath} pfs ${site.espGroup.pfs}`);
+    }
+
+    // Site-to-Site Peer
+    const peerPath = this.getIPSecPeerPath(site);
+    const { mode, preSharedSecret, remoteId, localId } = site.authentication;
+
+    commands.push(`set ${peerPath} authentication mode ${mode}`);
+
+    if (this.dialect.ipsecNamedPeers) {
+      commands.push(`set ${peerPath} remote-address ${site.remoteAddress}`);
+
+      // Secrets are shared objects matched on the peer ids
+      if (mode === 'pre-shared-secret' && preSharedSecret) {
+        const pskPath = `vpn ipsec authentication psk ${site.name}`;
+        commands.push(`set ${pskPath} id ${sanitizeConfigValue(localId || site.localAddress)}`);
+        commands.push(`set ${pskPath} id ${sanitizeConfigValue(remoteId || site.remoteAddress)}`);
+        commands.push(`set ${pskPath} secret ${sanitizeConfigValue(preSharedSecret)}`);
+      }
+    } else if (mode === 'pre-shared-secret' && preSharedSecret) {
+      commands.push(`set ${peerPath} authentication pre-shared-secret ${sanitizeConfigValue(preSharedSecret)}`);
+    }
+
+    if (remoteId) {
+      commands.push(`set ${peerPath} authentication remote-id ${sanitizeConfigValue(remoteId)}`);
+    }
+
+    if (localId) {
+      const localIdNode = this.dialect.ipsecNamedPeers ? 'local-id' : 'id';
+      commands.push(`set ${peerPath} authentication ${localIdNode} ${sanitizeConfigValue(localId)}`);
+    }
+
+    commands.push(`set ${peerPath} ike-group ${ikeGroupName}`);
+    commands.push(`set ${peerPath} local-address ${site.localAddress}`);
+
+    if (site.description) {
+      commands.push(`set ${peerPath} description ${sanitizeConfigValue(site.description)}`);
+    }
+
+    // Tunnels
+    site.tunnels.forEach((tunnel) => {
+      const tunnelPath = `${peerPath} tunnel ${tunnel.id}`;
+      commands.push(`set ${tunnelPath} local prefix ${tunnel.localSubnet}`);
+      commands.push(`set ${tunnelPath} remote prefix ${tunnel.remoteSubnet}`);
+      commands.push(`set ${tunnelPath} esp-group ${espGroupName}`);
+
+      if (tunnel.protocol) {
+        commands.push(`set ${tunnelPath} protocol ${tunnel.protocol}`);
+      }
+    });
+
+    return commands;
+  }
+
+  /**
+   * Config path of a site-to-site peer: named on 1.4+, keyed by remote address before
+   */
+  getIPSecPeerPath(site: Pick<IPSecSite, 'name' | 'remoteAddress'>): string {
+    return `vpn ipsec site-to-site peer ${this.dialect.ipsecNamedPeers ? site.name : site.remoteAddress}`;
+  }
+
+  // ============================================================================
+  // WireGuard Commands
+  // ============================================================================
+
+  getWireGuardInterfacePath(name: string): string {
+    return `interfaces wireguard ${sanitizeConfigValue(name)}`;
+  }
+
+  buildWireGuardCommands(iface: WireGuardInterface): string[] {
+    const commands: string[] = [];
+    const basePath = this.getWireGuardInterfacePath(iface.name);
+
+    if (iface.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(iface.description)}`);
+    }
+
+    iface.addresses.forEach((addr) => {
+      commands.push(`set ${basePath} address ${sanitizeConfigValue(addr)}`);
+    });
+
+    if (iface.listenPort) {
+      commands.push(`set ${basePath} port ${iface.listenPort}`);
+    }
+
+    if (iface.privateKey) {
+      commands.push(`set ${basePath} private-key ${iface.privateKey}`);
+    }
+
+    if (iface.mtu) {
+      commands.push(`set ${basePath} mtu ${iface.mtu}`);
+    }
+
+    iface.peers.forEach((peer) => {
+      commands.push(...this.buildWireGuardPeerCommands(iface.name, peer));
+    });
+
+    if (iface.disabled) {
+      commands.push(`set ${basePath} disable`);
+    } else {
+      commands.push(`delete ${basePath} disable`);
+    }
+
+    return commands;
+  }
+
+  getWireGuardPeerPath(interfaceName: string, peerName: string): string {
+    return `${this.getWireGuardInterfacePath(interfaceName)} peer ${sanitizeConfigValue(peerName)}`;
+  }
+
+  buildWireGuardPeerCommands(interfaceName: string, peer: WireGuardPeer): string[] {
+    const commands: string[] = [];
+    const peerPath = this.getWireGuardPeerPath(interfaceName, peer.name);
+
+    if (peer.description) {
+      commands.push(`set ${peerPath} description ${sanitizeConfigValue(peer.description)}`);
+    }
+
+    commands.push(`set ${peerPath} ${this.dialect.wireguardPublicKey} ${peer.publicKey}`);
+
+    if (peer.presharedKey) {
+      commands.push(`set ${peerPath} preshared-key ${peer.presharedKey}`);
+    }
+
+    peer.allowedIps.forEach((prefix) => {
+      commands.push(`set ${peerPath} allowed-ips ${prefix}`);
+    });
+
+    // Road-warrior peers have no fixed endpoint
+    if (peer.endpointAddress) {
+      commands.push(`set ${peerPath} address ${peer.endpointAddress}`);
+    }
+
+    if (peer.endpointPort) {
+      commands.push(`set ${peerPath} port ${peer.endpointPort}`);
+    }
+
+    if (peer.persistentKeepalive) {
+      commands.push(`set ${peerPath} persistent-keepalive ${peer.persistentKeepalive}`);
+    }
+
+    if (peer.disabled) {
+      commands.push(`set ${peerPath} disable`);
+    }
+
+    return commands;
+  }
+
+  /**
+   * Build a wg-quick style config file for a client of this device
+   */
+  buildWireGuardClientConfig(
+    request: WireGuardClientConfigRequest,
+    server: { publicKey: string; endpoint: string; presharedKey?: string }
+  ): string {
+    const lines = [
+      '[Interface]',
+      `PrivateKey = ${request.clientPrivateKey}`,
+      `Address = ${request.clientAddresses.join(', ')}`,
+    ];
+
+    if (request.dns && request.dns.length > 0) {
+      lines.push(`DNS = ${request.dns.join(', ')}`);
+    }
+
+    lines.push('', '[Peer]', `PublicKey = ${server.publicKey}`);
+
+    if (server.presharedKey) {
+      lines.push(`PresharedKey = ${server.presharedKey}`);
+    }
+
+    lines.push(`Endpoint = ${server.endpoint}`, `AllowedIPs = ${request.allowedIps.join(', ')}`);
+
+    if (request.persistentKeepalive) {
+      lines.push(`PersistentKeepalive = ${request.persistentKeepalive}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  // ============================================================================
+  // OpenVPN Commands
+  // ============================================================================
+
+  getOpenVpnInterfacePath(name: string): string {
+    return `interfaces openvpn ${sanitizeConfigValue(name)}`;
+  }
+
+  buildOpenVpnCommands(iface: OpenVpnInterface): string[] {
+    const commands: string[] = [];
+    const basePath = this.getOpenVpnInterfacePath(iface.name);
+    const keyNodes = OPENVPN_KEY_NODES[this.dialect.openvpnKeyStorage];
+
+    commands.push(`set ${basePath} mode ${iface.mode}`);
+
+    if (iface.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(iface.description)}`);
+    }
+
+    if (iface.protocol) {
+      commands.push(`set ${basePath} protocol ${iface.protocol}`);
+    }
+
+    if (iface.deviceType) {
+      commands.push(`set ${basePath} device-type ${iface.deviceType}`);
+    }
+
+    if (iface.localHost) {
+      commands.push(`set ${basePath} local-host ${iface.localHost}`);
+    }
+
+    if (iface.localPort) {
+      commands.push(`set ${basePath} local-port ${iface.localPort}`);
+    }
+
+    iface.remoteHosts.forEach((host) => {
+      commands.push(`set ${basePath} remote-host ${host}`);
+    });
+
+    if (iface.remotePort) {
+      commands.push(`set ${basePath} remote-port ${iface.remotePort}`);
+    }
+
+    if (iface.localAddress) {
+      commands.push(`set ${basePath} local-address ${iface.localAddress}`);
+    }
+
+    if (iface.remoteAddress) {
+      commands.push(`set ${basePath} remote-address ${iface.remoteAddress}`);
+    }
+
+    if (iface.cipher) {
+      commands.push(`set ${basePath} encryption cipher ${iface.cipher}`);
+    }
+
+    iface.dataCiphers.forEach((cipher) => {
+      commands.push(`set ${basePath} encryption ${this.dialect.openvpnDataCiphers} ${cipher}`);
+    });
+
+    if (iface.hash) {
+      commands.push(`set ${basePath} hash ${iface.hash}`);
+    }
+
+    if (iface.tls) {
+      const { role, ...references } = iface.tls;
+
+      (Object.entries(references) as [keyof typeof references, string | undefined][]).forEach(([field, reference]) => {
+        if (!reference) {
+          return;
+        }
+
+        // Only file storage has a separate key node
+        const node = keyNodes[field];
+        if (!node) {
+          throw new VyOSError(`OpenVPN TLS ${field} cannot be set on VyOS ${this.dialect.release}`, 'VALIDATION_ERROR');
+        }
+        commands.push(`set ${basePath} tls ${node} ${reference}`);
+      });
+
+      if (role) {
+        commands.push(`set ${basePath} tls role ${role}`);
+      }
+    }
+
+    if (iface.sharedSecretKey) {
+      commands.push(`set ${basePath} ${keyNodes.sharedSecretKey} ${iface.sharedSecretKey}`);
+    }
+
+    if (iface.server) {
+      commands.push(...this.buildOpenVpnServerCommands(`${basePath} server`, iface.server));
+    }
+
+    if (iface.disabled) {
+      commands.push(`set ${basePath} disable`);
+    }
+
+    return commands;
+  }
+
+  private buildOpenVpnServerCommands(serverPath: string, server: OpenVpnServer): string[] {
+    const commands = [`set ${serverPath} subnet ${server.subnet}`];
+
+    if (server.topology) {
+      commands.push(`set ${serverPath} topology ${server.topology}`);
+    }
+
+    server.pushRoutes.forEach((route) => {
+      commands.push(`set ${serverPath} push-route ${route}`);
+    });
+
+    server.nameServers.forEach((nameServer) => {
+      commands.push(`set ${serverPath} name-server ${nameServer}`);
+    });
+
+    if (server.domainName) {
+      commands.push(`set ${serverPath} domain-name ${server.domainName}`);
+    }
+
+    if (server.maxConnections) {
+      commands.push(`set ${serverPath} max-connections ${server.maxConnections}`);
+    }
+
+    server.clients.forEach((client) => {
+      const clientPath = `${serverPath} client ${client.name}`;
+
+      if (client.ip) {
+        commands.push(`set ${clientPath} ip ${client.ip}`);
+      }
+
+      client.subnets.forEach((subnet) => {
+        commands.push(`set ${clientPath} subnet ${subnet}`);
+      });
+
+      client.pushRoutes.forEach((route) => {
+        commands.push(`set ${clientPath} push-route ${route}`);
+      });
+
+      if (client.disabled) {
+        commands.push(`set ${clientPath} disable`);
+      }
+    });
+
+    return commands;
+  }
+
+  /**
+   * Build an .ovpn profile for a client of a server-mode interface. Key
+   * material is PEM text, embedded inline so the profile is a single file.
+   */
+  buildOpenVpnClientProfile(
+    server: OpenVpnInterface,
+    profile: { remoteHost: string; remotePort: number; ca: string; certificate?: string; key?: string; cryptKey?: string }
+  ): string {
+    const lines = [
+      'client',
+      `dev ${server.deviceType || 'tun'}`,
+      `proto ${server.protocol === 'tcp-passive' ? 'tcp-client' : 'udp'}`,
+      `remote ${profile.remoteHost} ${profile.remotePort}`,
+      'resolv-retry infinite',
+      'nobind',
+      'persist-key',
+      'persist-tun',
+      'remote-cert-tls server',
+    ];
+
+    if (server.cipher) {
+      lines.push(`cipher ${OPENVPN_CIPHER_NAMES[server.cipher] || server.cipher}`);
+    }
+
+    if (server.dataCiphers.length > 0) {
+      lines.push(`data-ciphers ${server.dataCiphers.map((cipher) => OPENVPN_CIPHER_NAMES[cipher] || cipher).join(':')}`);
+    }
+
+    if (server.hash) {
+      lines.push(`auth ${server.hash.toUpperCase()}`);
+    }
+
+    lines.push('verb 3');
+
+    const inline = (tag: string, pem?: string) => {
+      if (pem) {
+        lines.push(`<${tag}>`, pem.trim(), `</${tag}>`);
+      }
+    };
+
+    inline('ca', profile.ca);
+    inline('cert', profile.certificate);
+    inline('key', profile.key);
+    inline('tls-crypt', profile.cryptKey);
+
+    return lines.join('\n') + '\n';
+  }
+
+  // ============================================================================
+  // DHCP Server Commands
+  // ============================================================================
+
+  getDhcpServerPath(name: string): string {
+    return `service dhcp-server shared-network-name ${sanitizeConfigValue(name)}`;
+  }
+
+  buildDhcpServerCommands(server: DhcpServer): string[] {
+    const commands: string[] = [];
+    const basePath = this.getDhcpServerPath(server.name);
+
+    if (server.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(server.description)}`);
+    }
+
+    if (server.authoritative) {
+      commands.push(`set ${basePath} authoritative`);
+    }
+
+    server.subnets.forEach((subnet) => {
+      const subnetPath = `${basePath} subnet ${subnet.subnet}`;
+      const optionPath = this.dialect.dhcpOptionNode ? `${subnetPath} option` : subnetPath;
+
+      if (this.dialect.dhcpSubnetId) {
+        if (subnet.subnetId === undefined) {
+          throw new VyOSError(`Subnet ${subnet.subnet} needs a subnet ID on VyOS 1.4 and later`, 'VALIDATION_ERROR');
+        }
+        commands.push(`set ${subnetPath} subnet-id ${subnet.subnetId}`);
+      }
+
+      if (subnet.defaultRouter) {
+        commands.push(`set ${optionPath} default-router ${subnet.defaultRouter}`);
+      }
+
+      subnet.nameServers.forEach((nameServer) => {
+        commands.push(`set ${optionPath} name-server ${nameServer}`);
+      });
+
+      if (subnet.domainName) {
+        commands.push(`set ${optionPath} domain-name ${sanitizeConfigValue(subnet.domainName)}`);
+      }
+
+      if (subnet.lease) {
+        commands.push(`set ${subnetPath} lease ${subnet.lease}`);
+      }
+
+      subnet.ranges.forEach((range) => {
+        commands.push(`set ${subnetPath} range ${range.id} start ${range.start}`);
+        commands.push(`set ${subnetPath} range ${range.id} stop ${range.stop}`);
+      });
+
+      subnet.staticMappings.forEach((mapping) => {
+        commands.push(...this.buildDhcpStaticMappingCommands(server.name, subnet.subnet, mapping));
+      });
+    });
+
+    return commands;
+  }
+
+  buildDhcpStaticMappingCommands(serverName: string, subnet: string, mapping: DhcpStaticMapping): string[] {
+    const mappingPath = `${this.getDhcpServerPath(serverName)} subnet ${subnet} static-mapping ${mapping.name}`;
+    const commands = [
+      `set ${mappingPath} ip-address ${mapping.ipAddress}`,
+      `set ${mappingPath} ${this.dialect.dhcpStaticMappingMac} ${mapping.macAddress.toLowerCase().replace(/-/g, ':')}`,
+    ];
+
+    if (mapping.description) {
+      commands.push(`set ${mappingPath} description ${sanitizeConfigValue(mapping.description)}`);
+    }
+
+    return commands;
+  }
+
+  // ============================================================================
+  // DNS Forwarding Commands
+  // ============================================================================
+
+  buildDnsForwardingCommands(forwarding: DnsForwarding): string[] {
+    const commands: string[] = [];
+    const basePath = 'service dns forwarding';
+
+    forwarding.listenAddresses.forEach((address) => {
+      commands.push(`set ${basePath} listen-address ${address}`);
+    });
+
+    forwarding.allowFrom.forEach((network) => {
+      commands.push(`set ${basePath} allow-from ${network}`);
+    });
+
+    if (forwarding.cacheSize !== undefined) {
+      commands.push(`set ${basePath} cache-size ${forwarding.cacheSize}`);
+    }
+
+    if (forwarding.useSystemNameServers) {
+      commands.push(`set ${basePath} system`);
+    }
+
+    forwarding.nameServers.forEach((upstream) => {
+      if (upstream.port === undefined) {
+        commands.push(`set ${basePath} name-server ${upstream.address}`);
+        return;
+      }
+
+      if (!this.dialect.dnsNameServerPort) {
+        throw new VyOSError(`Name server ${upstream.address}: custom ports need VyOS 1.4 or later`, 'VALIDATION_ERROR');
+      }
+      commands.push(`set ${basePath} name-server ${upstream.address} port ${upstream.port}`);
+    });
+
+    forwarding.domainOverrides.forEach((override) => {
+      override.servers.forEach((server) => {
+        commands.push(`set ${basePath} domain ${override.domain} ${this.dialect.dnsDomainServerNode} ${server}`);
+      });
+    });
+
+    return commands;
+  }
+
+  /**
+   * Remove DNS forwarding altogether, e.g. before re-setting it on an edit
+   */
+  buildDeleteDnsForwardingCommands(): string[] {
+    return ['delete service dns forwarding'];
+  }
+
+  getStaticHostMappingPath(hostName: string): string {
+    return `system static-host-mapping host-name ${sanitizeConfigValue(hostName)}`;
+  }
+
+  buildStaticHostMappingCommands(host: StaticHostMapping): string[] {
+    const hostPath = this.getStaticHostMappingPath(host.hostName);
+    const commands = [`set ${hostPath} inet ${host.address}`];
+
+    host.aliases.forEach((alias) => {
+      commands.push(`set ${hostPath} alias ${alias}`);
+    });
+
+    return commands;
+  }
+
+  // ============================================================================
+  // VRRP Commands
+  // ============================================================================
+
+  getVrrpGroupPath(name: string): string {
+    return `high-availability vrrp group ${sanitizeConfigValue(name)}`;
+  }
+
+  getVrrpSyncGroupPath(name: string): string {
+    return `high-availability vrrp sync-group ${sanitizeConfigValue(name)}`;
+  }
+
+  buildVrrpGroupCommands(group: VrrpGroup): string[] {
+    const groupPath = this.getVrrpGroupPath(group.name);
+    const commands = [`set ${groupPath} vrid ${group.vrid}`, `set ${groupPath} interface ${group.interface}`];
+
+    group.virtualAddresses.forEach((address) => {
+      commands.push(`set ${groupPath} ${this.dialect.vrrpAddressNode} ${address}`);
+    });
+
+    if (group.description) {
+      commands.push(`set ${groupPath} description ${sanitizeConfigValue(group.description)}`);
+    }
+
+    if (group.priority !== undefined) {
+      commands.push(`set ${groupPath} priority ${group.priority}`);
+    }
+
+    if (!group.preempt) {
+      commands.push(`set ${groupPath} no-preempt`);
+    } else if (group.preemptDelay !== undefined) {
+      commands.push(`set ${groupPath} preempt-delay ${group.preemptDelay}`);
+    }
+
+    if (group.advertiseInterval !== undefined) {
+      commands.push(`set ${groupPath} advertise-interval ${group.advertiseInterval}`);
+    }
+
+    if (group.authentication) {
+      commands.push(`set ${groupPath} authentication type ${group.authentication.type}`);
+      commands.push(`set ${groupPath} authentication password ${sanitizeConfigValue(group.authentication.password)}`);
+    }
+
+    return commands;
+  }
+
+  buildVrrpSyncGroupCommands(syncGroup: VrrpSyncGroup): string[] {
+    return syncGroup.members.map((member) => `set ${this.getVrrpSyncGroupPath(syncGroup.name)} member ${member}`);
+  }
+
+  /**
+   * Delete a group and its sync-group memberships, dropping sync groups it leaves empty
+   */
+  buildVrrpGroupDeleteCommands(name: string, syncGroups: VrrpSyncGroup[]): string[] {
+    const commands: string[] = [];
+
+    syncGroups
+      .filter((syncGroup) => syncGroup.members.includes(name))
+      .forEach((syncGroup) => {
+        commands.push(
+          syncGroup.members.length === 1
+            ? `delete ${this.getVrrpSyncGroupPath(syncGroup.name)}`
+            : `delete ${this.getVrrpSyncGroupPath(syncGroup.name)} member ${sanitizeConfigValue(name)}`
+        );
+      });
+
+    commands.push(`delete ${this.getVrrpGroupPath(name)}`);
+    return commands;
+  }
+
+  // ============================================================================
+  // WAN Load Balancing Commands
+  // ============================================================================
+
+  /**
+   * Global switches; unset ones are deleted so the device matches the settings
+   */
+  buildWanSettingsCommands(
+    settings: Pick<WanLoadBalancing, 'stickyInbound' | 'enableLocalTraffic' | 'flushConnections' | 'disableSourceNat'>
+  ): string[] {
+    const flags: [string, boolean][] = [
+      ['sticky-connections inbound', settings.stickyInbound],
+      ['enable-local-traffic', settings.enableLocalTraffic],
+      ['flush-connections', settings.flushConnections],
+      ['disable-source-nat', settings.disableSourceNat],
+    ];
+
+    return flags.map(([flag, enabled]) => `${enabled ? 'set' : 'delete'} load-balancing wan ${flag}`);
+  }
+
+  getWanInterfaceHealthPath(name: string): string {
+    return `load-balancing wan interface-health ${sanitizeConfigValue(name)}`;
+  }
+
+  getWanRulePath(number: number): string {
+    return `load-balancing wan rule ${number}`;
+  }
+
+  buildWanInterfaceHealthCommands(health: WanInterfaceHealth): string[] {
+    const healthPath = this.getWanInterfaceHealthPath(health.interface);
+    const commands = [`set ${healthPath} nexthop ${health.nexthop}`];
+
+    if (health.failureCount !== undefined) {
+      commands.push(`set ${healthPath} failure-count ${health.failureCount}`);
+    }
+
+    if (health.successCount !== undefined) {
+      commands.push(`set ${healthPath} success-count ${health.successCount}`);
+    }
+
+    health.tests.forEach((test) => {
+      const testPath = `${healthPath} test ${test.number}`;
+      commands.push(`set ${testPath} type ${test.type}`);
+
+      if (test.target) {
+        commands.push(`set ${testPath} target ${test.target}`);
+      }
+
+      if (test.respTime !== undefined) {
+        commands.push(`set ${testPath} resp-time ${test.respTime}`);
+      }
+
+      if (test.ttlLimit !== undefined) {
+        commands.push(`set ${testPath} ttl-limit ${test.ttlLimit}`);
+      }
+
+      if (test.testScript) {
+        commands.push(`set ${testPath} test-script ${sanitizeConfigValue(test.testScript)}`);
+      }
+    });
+
+    return commands;
+  }
+
+  buildWanRuleCommands(rule: WanRule): string[] {
+    const rulePath = this.getWanRulePath(rule.number);
+    const commands = [`set ${rulePath} inbound-interface ${rule.inboundInterface}`];
+
+    if (rule.description) {
+      commands.push(`set ${rulePath} description ${sanitizeConfigValue(rule.description)}`);
+    }
+
+    rule.interfaces.forEach((iface) => {
+      commands.push(
+        iface.weight !== undefined
+          ? `set ${rulePath} interface ${iface.name} weight ${iface.weight}`
+          : `set ${rulePath} interface ${iface.name}`
+      );
+    });
+
+    if (rule.failover) {
+      commands.push(`set ${rulePath} failover`);
+    }
+
+    if (rule.exclude) {
+      commands.push(`set ${rulePath} exclude`);
+    }
+
+    if (rule.perPacketBalancing) {
+      commands.push(`set ${rulePath} per-packet-balancing`);
+    }
+
+    if (rule.protocol) {
+      commands.push(`set ${rulePath} protocol ${rule.protocol}`);
+    }
+
+    (['source', 'destination'] as const).forEach((side) => {
+      const match = rule[side];
+
+      if (match?.address) {
+        commands.push(`set ${rulePath} ${side} address ${match.address}`);
+      }
+
+      if (match?.port) {
+        commands.push(`set ${rulePath} ${side} port ${match.port}`);
+      }
+    });
+
+    return commands;
+  }
+
+  // ============================================================================
+  // QoS Commands
+  // ============================================================================
+
+  getQosPolicyPath(name: string): string {
+    return `${this.dialect.qosPolicyRoot} shaper ${name}`;
+  }
+
+  /**
+   * Validated up front so an over-subscribed policy never produces commands
+   */
+  buildQosPolicyCommands(policy: QosPolicy): string[] {
+    const validation = validateQosPolicy(policy);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const basePath = this.getQosPolicyPath(policy.name);
+    const commands = [`set ${basePath} bandwidth ${policy.bandwidth}`];
+
+    if (policy.description) {
+      commands.push(`set ${basePath} description ${sanitizeConfigValue(policy.description)}`);
+    }
+
+    policy.classes.forEach((qosClass) => {
+      const classPath = `${basePath} class ${qosClass.id}`;
+      commands.push(...this.buildQosClassSettingsCommands(classPath, qosClass));
+
+      if (qosClass.description) {
+        commands.push(`set ${classPath} description ${sanitizeConfigValue(qosClass.description)}`);
+      }
+
+      qosClass.matches.forEach((match) => {
+        const matchPath = `${classPath} match ${match.name} ${match.family === 'ipv6' ? 'ipv6' : 'ip'}`;
+
+        if (match.protocol) {
+          commands.push(`set ${matchPath} protocol ${match.protocol}`);
+        }
+
+        if (match.dscp) {
+          commands.push(`set ${matchPath} dscp ${match.dscp}`);
+        }
+
+        (['source', 'destination'] as const).forEach((side) => {
+          const endpoint = match[side];
+
+          if (endpoint?.address) {
+            commands.push(`set ${matchPath} ${side} address ${endpoint.address}`);
+          }
+
+          if (endpoint?.port) {
+            commands.push(`set ${matchPath} ${side} port ${endpoint.port}`);
+          }
+        });
+      });
+    });
+
+    commands.push(...this.buildQosClassSettingsCommands(`${basePath} default`, policy.defaultClass));
+
+    policy.interfaces.forEach((name) => {
+      commands.push(
+        this.dialect.qosInterfaceNode
+          ? `set qos interface ${name} egress ${policy.name}`
+          : `set ${this.getInterfacePath(name)} traffic-policy out ${policy.name}`
+      );
+    });
+
+    return commands;
+  }
+
+  /**
+   * Detach the interfaces first; VyOS refuses to delete a policy still in use
+   */
+  buildQosPolicyDeleteCommands(policy: Pick<QosPolicy, 'name' | 'interfaces'>): string[] {
+    return [
+      ...policy.interfaces.map((name) =>
+        this.dialect.qosInterfaceNode
+          ? `delete qos interface ${name} egress`
+          : `delete ${this.getInterfacePath(name)} traffic-policy out`
+      ),
+      `delete ${this.getQosPolicyPath(policy.name)}`,
+    ];
+  }
+
+  private buildQosClassSettingsCommands(classPath: string, settings: QosClassSettings): string[] {
+    const commands = [`set ${classPath} bandwidth ${settings.bandwidth}`];
+
+    if (settings.ceiling) {
+      commands.push(`set ${classPath} ceiling ${settings.ceiling}`);
+    }
+
+    if (settings.priority !== undefined) {
+      commands.push(`set ${classPath} priority ${settings.priority}`);
+    }
+
+    if (settings.queueType) {
+      commands.push(`set ${classPath} queue-type ${settings.queueType}`);
+    }
+
+    return commands;
+  }
+
+  // ============================================================================
+  // System Commands
+  // ============================================================================
+
+  buildSystemCommands(system: Partial<SystemConfig>): string[] {
+    const commands: string[] = [];
+
+    // Hostname
+    if (system.hostName) {
+      commands.push(`set system host-name ${sanitizeConfigValue(system.hostName)}`);
+    }
+
+    // Domain name
+    if (system.domainName) {
+      commands.push(`set system domain-name ${sanitizeConfigValue(system.domainName)}`);
+    }
+
+    // Time zone
+    if (system.timeZone) {
+      commands.push(`set system time-zone ${sanitizeConfigValue(system.timeZone)}`);
+    }
+
+    // Name servers; an interface name uses the servers learned over DHCP on it
+    if (system.nameServer) {
+      system.nameServer.forEach((ns) => {
+        const path = isValidIPAddress(ns) ? 'system name-server' : this.dialect.dhcpNameServerPath;
+        commands.push(`set ${path} ${ns}`);
+      });
+    }
+
+    // NTP
+    if (system.ntp) {
+      const ntpPath = this.dialect.ntpPath;
+
+      system.ntp.servers.forEach((server) => {
+        commands.push(`set ${ntpPath} server ${server}`);
+      });
+
+      if (system.ntp.allowClients) {
         system.ntp.allowClients.forEach((client) => {
-          commands.push(`set system ntp allow-clients address ${client}`);
+          commands.push(`set ${ntpPath} ${this.dialect.ntpAllowClientPath} ${client}`);
         });
       }
     }
@@ -515,4 +2078,48 @@ export class CommandBuilder {
 
     return commands;
   }
+
+  // ============================================================================
+  // Restore Commands
+  // ============================================================================
+
+  /**
+   * Build the minimal delete/set sequence that turns the current configuration
+   * into the target one. Both arguments are trees from ConfigParser.parse().
+   */
+  buildRestoreCommands(current: ConfigNode, target: ConfigNode): string[] {
+    const deletes: string[] = [];
+    const sets: string[] = [];
+
+    // Delete the highest node (or leaf value) on the device that the target lacks
+    const collectDeletes = (live: ConfigNode, wanted: ConfigNode, path: string[]): void => {
+      live.children.forEach((child, key) => {
+        const childPath = [...path, key];
+        const wantedChild = wanted.children.get(key);
+
+        if (!wantedChild) {
+          deletes.push(`delete ${formatConfigPath(childPath)}`);
+          return;
+        }
+
+        collectDeletes(child, wantedChild, childPath);
+      });
+
+      live.values
+        .filter((value) => !wanted.values.includes(value))
+        .forEach((value) => deletes.push(`delete ${formatConfigPath(path)} ${formatConfigValue(value)}`));
+    };
+
+    collectDeletes(current, target, []);
+
+    // Set every target leaf the device does not already have
+    const existing = new Set(this.configParser.serialize(current));
+    this.configParser.serialize(target).forEach((command) => {
+      if (!existing.has(command)) {
+        sets.push(command);
+      }
+    });
+
+    return [...deletes, ...sets];
+  }
 }
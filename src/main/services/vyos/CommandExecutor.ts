@@ -121,20 +121,35 @@ export class CommandExecutor {
   }
 
   /**
-   * Commit with automatic confirmation (rollback if not confirmed)
+   * Apply commands with commit-confirm. The router reverts to the previous
+   * configuration unless confirmCommit() is called within the given window,
+   * so an edit that cuts off our own SSH session undoes itself.
    */
-  async commitConfirm(minutes: number = 10): Promise<void> {
+  async commitConfirm(commands: string[], minutes: number = 10): Promise<void> {
     log.info(`Committing with ${minutes} minute confirmation window`);
 
-    const command = `${VYOS_COMMANDS.COMMIT_CONFIRM} ${minutes}`;
+    const fullCommands: string[] = [
+      VYOS_COMMANDS.ENTER_CONFIG,
+      ...commands,
+      `${VYOS_COMMANDS.COMMIT_CONFIRM} ${minutes}`,
+      'y', // Answer the "Proceed? [confirm]" prompt
+      VYOS_COMMANDS.EXIT_CONFIG,
+    ];
 
     try {
-      const result = await this.sshClient.exec(command, {
-        timeout: VYOS_COMMIT_TIMEOUT,
-      });
+      const output = await this.sshClient.shell(fullCommands, VYOS_COMMIT_TIMEOUT);
 
-      if (this.hasCommitFailed(result.output)) {
-        throw new VyOSCommitError('Commit-confirm failed', result.output);
+      const errors = this.parseErrors(output);
+      if (errors.length > 0) {
+        throw new VyOSCommandError(
+          `Command execution failed: ${errors.join(', ')}`,
+          commands.join('\n'),
+          output
+        );
+      }
+
+      if (this.hasCommitFailed(output)) {
+        throw new VyOSCommitError('Commit-confirm failed', output);
       }
 
       log.info('Configuration committed with confirmation window');
@@ -145,16 +160,23 @@ export class CommandExecutor {
   }
 
   /**
-   * Confirm a pending commit
+   * Confirm a pending commit-confirm and save the now permanent configuration
    */
   async confirmCommit(): Promise<void> {
     log.info('Confirming pending commit');
 
     try {
-      const result = await this.sshClient.exec('confirm');
+      const commands = [
+        VYOS_COMMANDS.ENTER_CONFIG,
+        VYOS_COMMANDS.CONFIRM,
+        VYOS_COMMANDS.SAVE,
+        VYOS_COMMANDS.EXIT_CONFIG,
+      ];
+
+      const output = await this.sshClient.shell(commands);
 
-      if (result.output.includes('No commit confirmation pending')) {
-        throw new VyOSCommandError('No pending commit to confirm', 'confirm', result.output);
+      if (output.includes('No commit confirmation pending') || output.includes('No confirm pending')) {
+        throw new VyOSCommandError('No pending commit to confirm', VYOS_COMMANDS.CONFIRM, output);
       }
 
       log.info('Commit confirmed successfully');
@@ -350,6 +372,7 @@ export class CommandExecutor {
         !command.startsWith('delete') &&
         !command.startsWith('show') &&
         !command.startsWith('commit') &&
+        !command.startsWith('confirm') &&
         !command.startsWith('save') &&
         !command.startsWith('rollback') &&
         !command.startsWith('configure') &&
@@ -0,0 +1,120 @@
+/**
+ * Config Diff - Semantic comparison of two VyOS configuration trees
+ */
+
+import { ConfigParser } from './ConfigParser';
+import { ConfigNode } from './ConfigTree';
+import {
+  ConfigDiffEntry,
+  ConfigDiffResult,
+  ConfigDiffSection,
+} from '@shared/types';
+
+interface FlatLeaf {
+  path: string[];
+  values: string[];
+}
+
+export class ConfigDiff {
+  private configParser: ConfigParser;
+
+  constructor(configParser: ConfigParser = new ConfigParser()) {
+    this.configParser = configParser;
+  }
+
+  /**
+   * Compare two raw configurations ('show configuration commands' output)
+   */
+  compare(leftConfig: string, rightConfig: string): ConfigDiffResult {
+    return this.compareTrees(
+      this.configParser.parse(leftConfig),
+      this.configParser.parse(rightConfig)
+    );
+  }
+
+  /**
+   * Compare two parsed configuration trees
+   */
+  compareTrees(left: ConfigNode, right: ConfigNode): ConfigDiffResult {
+    const entries: ConfigDiffEntry[] = [];
+    this.diffNode(left, right, [], entries);
+
+    // Group by top-level section, keeping the order sections were first seen
+    const sections = new Map<string, ConfigDiffSection>();
+    entries.forEach((entry) => {
+      const name = entry.path[0];
+      if (!sections.has(name)) {
+        sections.set(name, { name, entries: [] });
+      }
+      sections.get(name)!.entries.push(entry);
+    });
+
+    return {
+      sections: Array.from(sections.values()),
+      summary: {
+        added: entries.filter((e) => e.type === 'added').length,
+        removed: entries.filter((e) => e.type === 'removed').length,
+        changed: entries.filter((e) => e.type === 'changed').length,
+      },
+    };
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private diffNode(left: ConfigNode, right: ConfigNode, path: string[], entries: ConfigDiffEntry[]): void {
+    const keys = new Set([...left.children.keys(), ...right.children.keys()]);
+
+    keys.forEach((key) => {
+      const childPath = [...path, key];
+      const leftChild = left.children.get(key);
+      const rightChild = right.children.get(key);
+
+      if (!rightChild) {
+        this.flatten(leftChild!, childPath).forEach((leaf) => {
+          entries.push({ path: leaf.path, type: 'removed', oldValue: leaf.values });
+        });
+        return;
+      }
+
+      if (!leftChild) {
+        this.flatten(rightChild, childPath).forEach((leaf) => {
+          entries.push({ path: leaf.path, type: 'added', newValue: leaf.values });
+        });
+        return;
+      }
+
+      if (leftChild.isLeaf() && rightChild.isLeaf()) {
+        const oldValue = leftChild.values;
+        const newValue = rightChild.values;
+
+        if (oldValue.length !== newValue.length || oldValue.some((value) => !newValue.includes(value))) {
+          entries.push({ path: childPath, type: 'changed', oldValue: [...oldValue], newValue: [...newValue] });
+        }
+        return;
+      }
+
+      if (!leftChild.isLeaf() && !rightChild.isLeaf()) {
+        this.diffNode(leftChild, rightChild, childPath, entries);
+        return;
+      }
+
+      // One side is a leaf, the other a subtree
+      this.flatten(leftChild, childPath).forEach((leaf) => {
+        entries.push({ path: leaf.path, type: 'removed', oldValue: leaf.values });
+      });
+      this.flatten(rightChild, childPath).forEach((leaf) => {
+        entries.push({ path: leaf.path, type: 'added', newValue: leaf.values });
+      });
+    });
+  }
+
+  private flatten(node: ConfigNode, path: string[]): FlatLeaf[] {
+    if (node.isLeaf()) {
+      return [{ path, values: [...node.values] }];
+    }
+
+    return Array.from(node.children.entries()).flatMap(([key, child]) => this.flatten(child, [...path, key]));
+  }
+}
@@ -7,20 +7,100 @@ import {
   FirewallZone,
   FirewallRuleset,
   FirewallRule,
+  FirewallBaseChain,
+  FirewallFamily,
+  FirewallICMPMatch,
+  FirewallAddress,
+  FirewallGroup,
+  FirewallGroupType,
   NATRule,
+  DhcpServer,
+  DhcpSubnet,
+  DhcpStaticMapping,
+  DnsForwarding,
+  DnsUpstream,
+  StaticHostMapping,
+  VrrpConfig,
+  VrrpGroup,
   IPSecSite,
+  IPSecTunnel,
+  IPSecEncryption,
+  IPSecHash,
+  IPSecDhGroup,
+  IPSecPfs,
   StaticRoute,
+  PolicyRoute,
+  PolicyRouteRule,
+  PolicyRoutingConfig,
+  LocalRouteRule,
+  Vrf,
+  RoutingTable,
+  OSPFConfig,
+  OSPFArea,
+  OSPFInterface,
+  OSPFRedistribution,
+  BGPConfig,
+  BGPAddressFamily,
+  BGPNeighbor,
+  BGPNeighborAddressFamily,
+  BGPPeerOptions,
+  BGPRedistribution,
+  BGPRemoteAs,
+  BGPTimers,
+  RoutingPolicy,
+  PrefixList,
+  PrefixListRule,
+  PolicyList,
+  PolicyListRule,
+  RouteMap,
+  RouteMapRule,
+  RouteMapClause,
   SystemConfig,
   InterfaceType,
+  WireGuardInterface,
+  WireGuardPeer,
+  WanLoadBalancing,
+  WanInterfaceHealth,
+  WanHealthTest,
+  WanHealthTestType,
+  WanRule,
+  QosPolicy,
+  QosClassSettings,
+  QosQueueType,
+  QosMatch,
+  OpenVpnInterface,
+  OpenVpnMode,
+  OpenVpnProtocol,
+  OpenVpnTls,
+  OpenVpnServer,
+  OpenVpnPkiNames,
+  VyOSError,
 } from '@shared/types';
+import { FIREWALL_GROUP_MEMBER_KEYS, VYOS_FEATURES } from '@shared/constants';
+import { formatConfigPath, formatConfigValue } from '@shared/validators';
+import { ConfigNode } from './ConfigTree';
+import { OPENVPN_KEY_NODES } from './Dialect';
 import log from 'electron-log';
 
+interface ConfigToken {
+  text: string;
+  quoted: boolean;
+}
+
+interface BootToken {
+  type: 'word' | 'open' | 'close' | 'newline';
+  text: string;
+  line: number;
+}
+
 export class ConfigParser {
   /**
-   * Parse raw configuration commands into a tree structure
+   * Parse raw configuration commands ('show configuration commands' output)
+   * into a configuration tree. A quoted final token is a leaf value; an
+   * unquoted one is a node name, e.g. a valueless leaf like `disable`.
    */
-  parse(configText: string): any {
-    const tree: any = {};
+  parse(configText: string): ConfigNode {
+    const tree = new ConfigNode();
     const lines = configText.split('\n');
 
     for (const line of lines) {
@@ -30,74 +110,254 @@ export class ConfigParser {
       }
 
       // Remove 'set ' prefix
-      const path = trimmed.substring(4);
-      this.addToTree(tree, path);
+      this.addToTree(tree, this.tokenize(trimmed.substring(4)));
+    }
+
+    return tree;
+  }
+
+  /**
+   * Parse the hierarchical curly-brace format ('show configuration' output or
+   * /config/config.boot) into the same tree parse() produces
+   */
+  parseHierarchical(configText: string): ConfigNode {
+    const tree = new ConfigNode();
+    const stack: string[][] = [];
+    let path: string[] = [];
+    let statement: BootToken[] = [];
+
+    for (const token of this.tokenizeHierarchical(configText)) {
+      if (token.type === 'word') {
+        statement.push(token);
+        continue;
+      }
+
+      if (token.type === 'open') {
+        // `ethernet eth0 {` opens a node, `interfaces {` a container
+        if (statement.length === 0) {
+          throw new VyOSError(`Unexpected '{' on line ${token.line}`, 'INVALID_CONFIG');
+        }
+        stack.push(path);
+        path = [...path, ...statement.map((t) => t.text)];
+        tree.ensure(path);
+        statement = [];
+        continue;
+      }
+
+      this.addHierarchicalStatement(tree, path, statement);
+      statement = [];
+
+      if (token.type === 'close') {
+        if (stack.length === 0) {
+          throw new VyOSError(`Unbalanced '}' on line ${token.line}`, 'INVALID_CONFIG');
+        }
+        path = stack.pop()!;
+      }
+    }
+
+    this.addHierarchicalStatement(tree, path, statement);
+
+    if (stack.length > 0) {
+      throw new VyOSError(`Missing '}' for ${path.join(' ')}`, 'INVALID_CONFIG');
     }
 
     return tree;
   }
 
   /**
-   * Add a configuration path to the tree
+   * Parse either format, detected from the presence of set commands
+   */
+  parseAny(configText: string): ConfigNode {
+    return /^\s*set\s/m.test(configText) ? this.parse(configText) : this.parseHierarchical(configText);
+  }
+
+  /**
+   * Split a set/delete command into its verb and path, with quotes removed
+   */
+  splitCommand(command: string): { verb: string; path: string[] } {
+    const [verb, ...path] = this.tokenize(command.trim()).map((token) => token.text);
+    return { verb: verb || '', path };
+  }
+
+  /**
+   * Serialize a configuration tree back to set commands, in tree order
    */
-  private addToTree(tree: any, path: string): void {
-    // Parse the path, handling quoted values
-    const parts: string[] = [];
+  serialize(tree: ConfigNode): string[] {
+    const commands: string[] = [];
+
+    const walk = (node: ConfigNode, path: string[]): void => {
+      if (node.isLeaf()) {
+        if (path.length === 0) {
+          return;
+        }
+
+        if (node.values.length === 0) {
+          commands.push(`set ${formatConfigPath(path)}`);
+        } else {
+          node.values.forEach((value) => {
+            commands.push(`set ${formatConfigPath(path)} ${formatConfigValue(value)}`);
+          });
+        }
+        return;
+      }
+
+      node.children.forEach((child, name) => walk(child, [...path, name]));
+    };
+
+    walk(tree, []);
+    return commands;
+  }
+
+  /**
+   * Add a tokenized set command to the tree
+   */
+  private addToTree(tree: ConfigNode, tokens: ConfigToken[]): void {
+    if (tokens.length === 0) {
+      return;
+    }
+
+    const last = tokens[tokens.length - 1];
+
+    if (last.quoted && tokens.length > 1) {
+      tree.ensure(tokens.slice(0, -1).map((token) => token.text)).addValue(last.text);
+    } else {
+      tree.ensure(tokens.map((token) => token.text));
+    }
+  }
+
+  /**
+   * Split a configuration path into tokens. Handles single and double quotes,
+   * `\'` escapes inside quotes and shell-style `'it'\''s'` concatenation.
+   */
+  private tokenize(path: string): ConfigToken[] {
+    const tokens: ConfigToken[] = [];
     let current = '';
-    let inQuotes = false;
+    let quoted = false;
+    let inToken = false;
+    let quoteChar: string | null = null;
 
     for (let i = 0; i < path.length; i++) {
       const char = path[i];
 
-      if (char === "'" || char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ' ' && !inQuotes) {
-        if (current.length > 0) {
-          parts.push(current);
+      if (quoteChar) {
+        if (char === '\\' && (path[i + 1] === quoteChar || path[i + 1] === '\\')) {
+          current += path[++i];
+        } else if (char === quoteChar) {
+          quoteChar = null;
+        } else {
+          current += char;
+        }
+      } else if (char === "'" || char === '"') {
+        quoteChar = char;
+        quoted = true;
+        inToken = true;
+      } else if (char === '\\' && i + 1 < path.length) {
+        current += path[++i];
+        inToken = true;
+      } else if (char === ' ' || char === '\t') {
+        if (inToken) {
+          tokens.push({ text: current, quoted });
           current = '';
+          quoted = false;
+          inToken = false;
         }
       } else {
         current += char;
+        inToken = true;
       }
     }
 
-    if (current.length > 0) {
-      parts.push(current);
+    if (inToken) {
+      tokens.push({ text: current, quoted });
     }
 
-    // Build the tree
-    let node = tree;
-    for (let i = 0; i < parts.length - 1; i++) {
-      const part = parts[i];
-      if (!node[part]) {
-        node[part] = {};
-      }
-      node = node[part];
+    return tokens;
+  }
+
+  /**
+   * A statement inside braces: `disable` is a valueless leaf, `address 10.0.0.1/24`
+   * a leaf value (repeated lines make a multi-value leaf)
+   */
+  private addHierarchicalStatement(tree: ConfigNode, path: string[], statement: BootToken[]): void {
+    if (statement.length === 0) {
+      return;
+    }
+
+    const parts = statement.map((t) => t.text);
+
+    if (parts.length === 1) {
+      tree.ensure([...path, parts[0]]);
+    } else {
+      tree.ensure([...path, ...parts.slice(0, -1)]).addValue(parts[parts.length - 1]);
     }
+  }
 
-    // Set the final value
-    const lastPart = parts[parts.length - 1];
-    if (typeof node === 'object') {
-      node[lastPart] = true;
+  /**
+   * Split curly-brace configuration into words, braces and line breaks,
+   * dropping comments and the version footer
+   */
+  private tokenizeHierarchical(configText: string): BootToken[] {
+    const tokens: BootToken[] = [];
+    let line = 1;
+    let i = 0;
+
+    while (i < configText.length) {
+      const char = configText[i];
+
+      if (char === '\n') {
+        tokens.push({ type: 'newline', text: char, line });
+        line++;
+        i++;
+      } else if (char === ' ' || char === '\t' || char === '\r') {
+        i++;
+      } else if (char === '{' || char === '}') {
+        tokens.push({ type: char === '{' ? 'open' : 'close', text: char, line });
+        i++;
+      } else if (configText.startsWith('/*', i)) {
+        const end = configText.indexOf('*/', i + 2);
+        const comment = configText.substring(i, end === -1 ? configText.length : end + 2);
+        line += comment.split('\n').length - 1;
+        i += comment.length;
+      } else if (configText.startsWith('//', i) && tokens[tokens.length - 1]?.type !== 'word') {
+        while (i < configText.length && configText[i] !== '\n') {
+          i++;
+        }
+      } else if (char === '"' || char === "'") {
+        let text = '';
+        i++;
+        while (i < configText.length && configText[i] !== char) {
+          if (configText[i] === '\\' && i + 1 < configText.length) {
+            i++;
+          }
+          if (configText[i] === '\n') {
+            line++;
+          }
+          text += configText[i++];
+        }
+        i++;
+        tokens.push({ type: 'word', text, line });
+      } else {
+        let text = '';
+        while (i < configText.length && !/[\s{}]/.test(configText[i])) {
+          text += configText[i++];
+        }
+        tokens.push({ type: 'word', text, line });
+      }
     }
+
+    return tokens;
   }
 
   // ============================================================================
   // Interface Parsing
   // ============================================================================
 
-  parseInterfaces(config: any): NetworkInterface[] {
+  parseInterfaces(config: ConfigNode): NetworkInterface[] {
     const interfaces: NetworkInterface[] = [];
 
-    if (!config.interfaces) {
-      return interfaces;
-    }
-
     // Parse each interface type
-    Object.entries(config.interfaces).forEach(([type, ifaces]: [string, any]) => {
-      if (typeof ifaces !== 'object') return;
-
-      Object.entries(ifaces).forEach(([name, ifaceConfig]: [string, any]) => {
+    config.entries('interfaces').forEach(([type, ifaces]) => {
+      ifaces.children.forEach((ifaceConfig, name) => {
         try {
           const iface = this.parseInterface(name, type as InterfaceType, ifaceConfig);
           interfaces.push(iface);
@@ -110,11 +370,11 @@ export class ConfigParser {
     return interfaces;
   }
 
-  private parseInterface(name: string, type: InterfaceType, config: any): NetworkInterface {
+  private parseInterface(name: string, type: InterfaceType, config: ConfigNode): NetworkInterface {
     const iface: NetworkInterface = {
       name,
       type,
-      enabled: !config.disable,
+      enabled: !config.has('disable'),
       addresses: {
         ipv4: [],
         ipv6: [],
@@ -124,39 +384,41 @@ export class ConfigParser {
     };
 
     // Description
-    if (config.description) {
-      iface.description = Object.keys(config.description)[0] || '';
+    if (config.has('description')) {
+      iface.description = config.getValue('description') || '';
     }
 
     // MTU
-    if (config.mtu) {
-      iface.mtu = parseInt(Object.keys(config.mtu)[0], 10);
+    if (config.has('mtu')) {
+      iface.mtu = parseInt(config.getValue('mtu')!, 10);
     }
 
     // MAC
-    if (config.mac) {
-      iface.mac = Object.keys(config.mac)[0];
+    if (config.has('mac')) {
+      iface.mac = config.getValue('mac');
     }
 
     // Addresses
-    if (config.address) {
-      Object.keys(config.address).forEach((addr) => {
-        if (addr === 'dhcp') {
-          iface.addresses.dhcp = true;
-        } else if (addr === 'dhcpv6') {
-          iface.addresses.dhcpv6 = true;
-        } else if (addr.includes(':')) {
-          iface.addresses.ipv6.push(addr);
-        } else {
-          iface.addresses.ipv4.push(addr);
-        }
-      });
+    config.getValues('address').forEach((addr) => {
+      if (addr === 'dhcp') {
+        iface.addresses.dhcp = true;
+      } else if (addr === 'dhcpv6') {
+        iface.addresses.dhcpv6 = true;
+      } else if (addr.includes(':')) {
+        iface.addresses.ipv6.push(addr);
+      } else {
+        iface.addresses.ipv4.push(addr);
+      }
+    });
+
+    if (config.has('vrf')) {
+      iface.vrf = config.getValue('vrf');
     }
 
     // VLAN specific
-    if (type === 'vlan' && config.vlan) {
+    if (type === 'vlan' && config.has('vlan')) {
       iface.vlan = {
-        id: parseInt(Object.keys(config.vlan.id || {})[0], 10),
+        id: parseInt(config.getValue('vlan', 'id')!, 10),
         parentInterface: name.split('.')[0], // Extract from interface name
       };
     }
@@ -164,363 +426,1947 @@ export class ConfigParser {
     // Bond specific
     if (type === 'bond') {
       iface.bond = {
-        mode: Object.keys(config.mode || {})[0] as any || '802.3ad',
-        members: [],
+        mode: config.getValue('mode') as any || '802.3ad',
+        members: this.getNames(config, 'member', 'interface'),
       };
 
-      if (config.member?.interface) {
-        iface.bond.members = Object.keys(config.member.interface);
-      }
-
-      if (config.primary) {
-        iface.bond.primaryInterface = Object.keys(config.primary)[0];
+      if (config.has('primary')) {
+        iface.bond.primaryInterface = config.getValue('primary');
       }
 
-      if (config['hash-policy']) {
-        iface.bond.hashPolicy = Object.keys(config['hash-policy'])[0] as any;
+      if (config.has('hash-policy')) {
+        iface.bond.hashPolicy = config.getValue('hash-policy') as any;
       }
     }
 
     // Bridge specific
     if (type === 'bridge') {
       iface.bridge = {
-        members: [],
-        stp: !!config.stp,
+        members: this.getNames(config, 'member', 'interface'),
+        stp: config.has('stp'),
       };
 
-      if (config.member?.interface) {
-        iface.bridge.members = Object.keys(config.member.interface);
-      }
-
-      if (config.aging) {
-        iface.bridge.aging = parseInt(Object.keys(config.aging)[0], 10);
+      if (config.has('aging')) {
+        iface.bridge.aging = parseInt(config.getValue('aging')!, 10);
       }
 
-      if (config['max-age']) {
-        iface.bridge.maxAge = parseInt(Object.keys(config['max-age'])[0], 10);
+      if (config.has('max-age')) {
+        iface.bridge.maxAge = parseInt(config.getValue('max-age')!, 10);
       }
     }
 
     return iface;
   }
 
+  /**
+   * Names listed at a path, whether written as leaf values or as tag nodes
+   * (bond members are values, bridge members are tag nodes)
+   */
+  private getNames(config: ConfigNode, ...path: string[]): string[] {
+    return [...config.getValues(...path), ...config.keys(...path)];
+  }
+
   // ============================================================================
   // Static Routes Parsing
   // ============================================================================
 
-  parseStaticRoutes(config: any): StaticRoute[] {
+  parseStaticRoutes(config: ConfigNode): StaticRoute[] {
     const routes: StaticRoute[] = [];
 
-    if (!config.protocols?.static?.route) {
-      return routes;
-    }
-
-    Object.entries(config.protocols.static.route).forEach(([network, routeConfig]: [string, any]) => {
-      try {
-        const route: StaticRoute = { network };
-
-        if (routeConfig.description) {
-          route.description = Object.keys(routeConfig.description)[0];
-        }
-
-        // Next-hop
-        if (routeConfig['next-hop']) {
-          const nextHops = Object.keys(routeConfig['next-hop']);
-          if (nextHops.length > 0) {
-            route.nextHop = nextHops[0];
-
-            const hopConfig = routeConfig['next-hop'][nextHops[0]];
-            if (hopConfig?.distance) {
-              route.distance = parseInt(Object.keys(hopConfig.distance)[0], 10);
-            }
-          }
+    const parseTable = (tableConfig: ConfigNode, table?: number, vrf?: string) => {
+      tableConfig.entries('route').forEach(([network, routeConfig]) => {
+        try {
+          routes.push(this.parseStaticRoute(network, routeConfig, table, vrf));
+        } catch (error) {
+          log.error(`Failed to parse route ${network}:`, error);
         }
+      });
+    };
 
-        // Interface
-        if (routeConfig.interface) {
-          const interfaces = Object.keys(routeConfig.interface);
-          if (interfaces.length > 0) {
-            route.interface = interfaces[0];
-
-            const ifConfig = routeConfig.interface[interfaces[0]];
-            if (ifConfig?.distance) {
-              route.distance = parseInt(Object.keys(ifConfig.distance)[0], 10);
-            }
-          }
-        }
+    const staticConfig = config.get('protocols', 'static');
+    if (staticConfig) {
+      parseTable(staticConfig);
+      staticConfig.entries('table').forEach(([table, tableConfig]) => parseTable(tableConfig, parseInt(table, 10)));
+    }
 
-        routes.push(route);
-      } catch (error) {
-        log.error(`Failed to parse route ${network}:`, error);
+    config.entries('vrf', 'name').forEach(([vrf, vrfConfig]) => {
+      const vrfStatic = vrfConfig.get('protocols', 'static');
+      if (vrfStatic) {
+        parseTable(vrfStatic, undefined, vrf);
       }
     });
 
     return routes;
   }
 
-  // ============================================================================
-  // Firewall Parsing
-  // ============================================================================
+  private parseStaticRoute(network: string, routeConfig: ConfigNode, table?: number, vrf?: string): StaticRoute {
+    const route: StaticRoute = { network };
 
-  parseFirewallZones(config: any): FirewallZone[] {
-    const zones: FirewallZone[] = [];
+    if (table !== undefined) {
+      route.table = table;
+    }
 
-    if (!config['zone-policy']?.zone) {
-      return zones;
+    if (vrf) {
+      route.vrf = vrf;
     }
 
-    Object.entries(config['zone-policy'].zone).forEach(([name, zoneConfig]: [string, any]) => {
-      try {
-        const zone: FirewallZone = {
-          name,
-          defaultAction: Object.keys(zoneConfig['default-action'] || {})[0] as any || 'drop',
-          interfaces: Object.keys(zoneConfig.interface || {}),
-          from: {},
-        };
+    if (routeConfig.has('description')) {
+      route.description = routeConfig.getValue('description');
+    }
 
-        if (zoneConfig.description) {
-          zone.description = Object.keys(zoneConfig.description)[0];
-        }
+    // Next-hop
+    const [nextHop] = routeConfig.entries('next-hop');
+    if (nextHop) {
+      const [address, hopConfig] = nextHop;
+      route.nextHop = address;
 
-        // From zones
-        if (zoneConfig.from) {
-          Object.entries(zoneConfig.from).forEach(([fromZone, fromConfig]: [string, any]) => {
-            zone.from[fromZone] = {
-              firewall: {
-                name: Object.keys(fromConfig.firewall?.name || {})[0],
-                ipv6Name: Object.keys(fromConfig.firewall?.['ipv6-name'] || {})[0],
-              },
-            };
-          });
-        }
+      if (hopConfig.has('distance')) {
+        route.distance = parseInt(hopConfig.getValue('distance')!, 10);
+      }
+    }
 
-        zones.push(zone);
-      } catch (error) {
-        log.error(`Failed to parse zone ${name}:`, error);
+    // Interface
+    const [routeInterface] = routeConfig.entries('interface');
+    if (routeInterface) {
+      const [ifName, ifConfig] = routeInterface;
+      route.interface = ifName;
+
+      if (ifConfig.has('distance')) {
+        route.distance = parseInt(ifConfig.getValue('distance')!, 10);
       }
-    });
+    }
 
-    return zones;
+    return route;
   }
 
-  parseFirewallRulesets(config: any): FirewallRuleset[] {
-    const rulesets: FirewallRuleset[] = [];
+  // ============================================================================
+  // Policy Routing Parsing
+  // ============================================================================
 
-    if (!config.firewall?.name) {
-      return rulesets;
-    }
+  /**
+   * Parse `policy route`/`route6` and `policy local-route`/`local-route6`.
+   * Interfaces come from the policy on 1.4+ and from each interface's
+   * `policy route` on 1.3.
+   */
+  parsePolicyRouting(config: ConfigNode): PolicyRoutingConfig {
+    const policyRouting: PolicyRoutingConfig = { routes: [], localRoutes: [] };
+
+    // 1.3: interfaces name the policy they use
+    const attached = new Map<string, string[]>();
+    const collectAttachments = (name: string, ifaceConfig: ConfigNode) => {
+      (['route', 'route6'] as const).forEach((kind) => {
+        const policy = ifaceConfig.getValue('policy', kind);
+        if (policy) {
+          const key = `${kind} ${policy}`;
+          attached.set(key, [...(attached.get(key) || []), name]);
+        }
+      });
+    };
 
-    Object.entries(config.firewall.name).forEach(([name, rulesetConfig]: [string, any]) => {
-      try {
-        const ruleset: FirewallRuleset = {
-          name,
-          defaultAction: Object.keys(rulesetConfig['default-action'] || {})[0] as any || 'drop',
-          enableDefaultLog: !!rulesetConfig['enable-default-log'],
-          rules: [],
+    config.entries('interfaces').forEach(([, ifaces]) => {
+      ifaces.children.forEach((ifaceConfig, name) => {
+        collectAttachments(name, ifaceConfig);
+        ifaceConfig.entries('vif').forEach(([vlan, vifConfig]) => collectAttachments(`${name}.${vlan}`, vifConfig));
+      });
+    });
+
+    (['route', 'route6'] as const).forEach((kind) => {
+      config.entries('policy', kind).forEach(([name, routeConfig]) => {
+        try {
+          const route: PolicyRoute = {
+            name,
+            family: kind === 'route6' ? 'ipv6' : 'ipv4',
+            interfaces: [...routeConfig.getValues('interface'), ...(attached.get(`${kind} ${name}`) || [])],
+            rules: routeConfig.entries('rule').map(([number, ruleConfig]) => this.parsePolicyRouteRule(number, ruleConfig)),
+          };
+
+          if (routeConfig.has('description')) {
+            route.description = routeConfig.getValue('description');
+          }
+
+          policyRouting.routes.push(route);
+        } catch (error) {
+          log.error(`Failed to parse policy ${kind} ${name}:`, error);
+        }
+      });
+    });
+
+    (['local-route', 'local-route6'] as const).forEach((kind) => {
+      config.entries('policy', kind, 'rule').forEach(([number, ruleConfig]) => {
+        const rule: LocalRouteRule = {
+          number: parseInt(number, 10),
+          family: kind === 'local-route6' ? 'ipv6' : 'ipv4',
+          table: this.parseRoutingTable(ruleConfig.getValue('set', 'table') || 'main'),
         };
 
-        if (rulesetConfig.description) {
-          ruleset.description = Object.keys(rulesetConfig.description)[0];
+        const source = ruleConfig.getValue('source') || ruleConfig.getValue('source', 'address');
+        if (source) {
+          rule.source = source;
         }
 
-        // Parse rules
-        if (rulesetConfig.rule) {
-          Object.entries(rulesetConfig.rule).forEach(([number, ruleConfig]: [string, any]) => {
-            try {
-              const rule = this.parseFirewallRule(parseInt(number, 10), ruleConfig);
-              ruleset.rules.push(rule);
-            } catch (error) {
-              log.error(`Failed to parse rule ${number}:`, error);
-            }
-          });
+        if (ruleConfig.has('destination', 'address')) {
+          rule.destination = ruleConfig.getValue('destination', 'address');
         }
 
-        rulesets.push(ruleset);
-      } catch (error) {
-        log.error(`Failed to parse ruleset ${name}:`, error);
-      }
+        if (ruleConfig.has('inbound-interface')) {
+          rule.inboundInterface = ruleConfig.getValue('inbound-interface');
+        }
+
+        if (ruleConfig.has('fwmark')) {
+          rule.fwmark = parseInt(ruleConfig.getValue('fwmark')!, 10);
+        }
+
+        policyRouting.localRoutes.push(rule);
+      });
     });
 
-    return rulesets;
+    return policyRouting;
   }
 
-  private parseFirewallRule(number: number, config: any): FirewallRule {
-    const rule: FirewallRule = {
-      number,
-      action: Object.keys(config.action || {})[0] as any || 'drop',
-    };
+  private parsePolicyRouteRule(number: string, config: ConfigNode): PolicyRouteRule {
+    const rule: PolicyRouteRule = { number: parseInt(number, 10) };
 
-    if (config.description) {
-      rule.description = Object.keys(config.description)[0];
+    if (config.has('description')) {
+      rule.description = config.getValue('description');
     }
 
-    if (config.protocol) {
-      rule.protocol = Object.keys(config.protocol)[0] as any;
+    if (config.has('disable')) {
+      rule.disabled = true;
     }
 
-    if (config.source) {
-      rule.source = {};
-      if (config.source.address) {
-        rule.source.address = Object.keys(config.source.address)[0];
-      }
-      if (config.source.port) {
-        rule.source.port = Object.keys(config.source.port)[0];
-      }
+    if (config.has('protocol')) {
+      rule.protocol = config.getValue('protocol');
     }
 
-    if (config.destination) {
-      rule.destination = {};
-      if (config.destination.address) {
-        rule.destination.address = Object.keys(config.destination.address)[0];
-      }
-      if (config.destination.port) {
-        rule.destination.port = Object.keys(config.destination.port)[0];
+    (['source', 'destination'] as const).forEach((side) => {
+      const address = config.getValue(side, 'address');
+      const port = config.getValue(side, 'port');
+      if (address || port) {
+        rule[side] = { address, port };
       }
+    });
+
+    if (config.has('dscp')) {
+      rule.dscp = config.getValue('dscp');
     }
 
-    if (config.state) {
-      rule.state = {
-        established: !!config.state.established,
-        related: !!config.state.related,
-        new: !!config.state.new,
-        invalid: !!config.state.invalid,
-      };
+    if (config.has('set', 'table')) {
+      rule.setTable = this.parseRoutingTable(config.getValue('set', 'table')!);
     }
 
-    rule.log = !!config.log;
-    rule.disabled = !!config.disable;
+    if (config.has('set', 'mark')) {
+      rule.setMark = parseInt(config.getValue('set', 'mark')!, 10);
+    }
 
     return rule;
   }
 
+  private parseRoutingTable(table: string): RoutingTable {
+    return table === 'main' ? 'main' : parseInt(table, 10);
+  }
+
   // ============================================================================
-  // NAT Parsing
+  // VRF Parsing
   // ============================================================================
 
-  parseNATRules(config: any): { source: NATRule[]; destination: NATRule[] } {
-    const result = {
-      source: [] as NATRule[],
-      destination: [] as NATRule[],
+  /**
+   * Parse `vrf name`. Membership lives on the interfaces (`vrf X`), so it is
+   * collected by walking interfaces and their vifs.
+   */
+  parseVrfs(config: ConfigNode): Vrf[] {
+    const members = new Map<string, string[]>();
+    const collectMember = (name: string, ifaceConfig: ConfigNode) => {
+      const vrf = ifaceConfig.getValue('vrf');
+      if (vrf) {
+        members.set(vrf, [...(members.get(vrf) || []), name]);
+      }
     };
 
-    if (!config.nat) {
-      return result;
-    }
-
-    // Source NAT
-    if (config.nat.source?.rule) {
-      Object.entries(config.nat.source.rule).forEach(([number, ruleConfig]: [string, any]) => {
-        try {
-          const rule = this.parseNATRule('source', parseInt(number, 10), ruleConfig);
-          result.source.push(rule);
-        } catch (error) {
-          log.error(`Failed to parse source NAT rule ${number}:`, error);
-        }
+    config.entries('interfaces').forEach(([, ifaces]) => {
+      ifaces.children.forEach((ifaceConfig, name) => {
+        collectMember(name, ifaceConfig);
+        ifaceConfig.entries('vif').forEach(([vlan, vifConfig]) => collectMember(`${name}.${vlan}`, vifConfig));
       });
-    }
+    });
 
-    // Destination NAT
-    if (config.nat.destination?.rule) {
-      Object.entries(config.nat.destination.rule).forEach(([number, ruleConfig]: [string, any]) => {
-        try {
-          const rule = this.parseNATRule('destination', parseInt(number, 10), ruleConfig);
-          result.destination.push(rule);
-        } catch (error) {
-          log.error(`Failed to parse destination NAT rule ${number}:`, error);
-        }
-      });
-    }
+    return config.entries('vrf', 'name').map(([name, vrfConfig]) => {
+      const vrf: Vrf = {
+        name,
+        table: parseInt(vrfConfig.getValue('table') || '0', 10),
+        interfaces: members.get(name) || [],
+      };
 
-    return result;
+      if (vrfConfig.has('description')) {
+        vrf.description = vrfConfig.getValue('description');
+      }
+
+      return vrf;
+    });
   }
 
-  private parseNATRule(type: 'source' | 'destination', number: number, config: any): NATRule {
-    const rule: NATRule = {
-      number,
-      type,
-    };
+  // ============================================================================
+  // OSPF Parsing
+  // ============================================================================
 
-    if (config.description) {
-      rule.description = Object.keys(config.description)[0];
+  /**
+   * Parse `protocols ospf` (v2) or `protocols ospfv3` (v3). Interface settings
+   * are merged from the 1.4+ `interface` node and from the 1.3 locations:
+   * `passive-interface`, `area N interface` (v3) and `interfaces ... ip ospf` /
+   * `ipv6 ospfv3` on the interface itself.
+   */
+  parseOSPF(config: ConfigNode, version: 'v2' | 'v3' = 'v2'): OSPFConfig | null {
+    const ospfConfig = config.get('protocols', version === 'v2' ? 'ospf' : 'ospfv3');
+    if (!ospfConfig) {
+      return null;
     }
 
-    if (config['outbound-interface']) {
-      rule.outboundInterface = Object.keys(config['outbound-interface'])[0];
-    }
+    const ospf: OSPFConfig = {
+      version,
+      areas: [],
+      interfaces: [],
+      redistribute: [],
+    };
 
-    if (config['inbound-interface']) {
-      rule.inboundInterface = Object.keys(config['inbound-interface'])[0];
-    }
+    const interfaces = new Map<string, OSPFInterface>();
+    const getInterface = (name: string): OSPFInterface => {
+      if (!interfaces.has(name)) {
+        interfaces.set(name, { name });
+      }
+      return interfaces.get(name)!;
+    };
 
-    if (config.protocol) {
-      rule.protocol = Object.keys(config.protocol)[0] as any;
+    if (ospfConfig.has('parameters', 'router-id')) {
+      ospf.routerId = ospfConfig.getValue('parameters', 'router-id');
     }
 
-    if (config.source) {
-      rule.source = {};
-      if (config.source.address) {
-        rule.source.address = Object.keys(config.source.address)[0];
-      }
-      if (config.source.port) {
-        rule.source.port = Object.keys(config.source.port)[0];
-      }
-    }
+    ospfConfig.entries('area').forEach(([id, areaConfig]) => {
+      const area: OSPFArea = {
+        id,
+        type: 'normal',
+        networks: areaConfig.getValues('network'),
+      };
 
-    if (config.destination) {
-      rule.destination = {};
-      if (config.destination.address) {
-        rule.destination.address = Object.keys(config.destination.address)[0];
-      }
-      if (config.destination.port) {
-        rule.destination.port = Object.keys(config.destination.port)[0];
-      }
-    }
+      (['stub', 'nssa'] as const).forEach((type) => {
+        if (areaConfig.has('area-type', type)) {
+          area.type = type;
+          area.noSummary = areaConfig.has('area-type', type, 'no-summary');
+        }
+      });
 
-    if (config.translation) {
-      rule.translation = {};
-      if (config.translation.address) {
-        rule.translation.address = Object.keys(config.translation.address)[0];
-      }
-      if (config.translation.port) {
-        rule.translation.port = Object.keys(config.translation.port)[0];
+      if (areaConfig.has('authentication')) {
+        area.authentication = areaConfig.getValue('authentication') as OSPFArea['authentication'];
       }
-    }
-
-    rule.disabled = !!config.disable;
 
-    return rule;
-  }
+      areaConfig.getValues('interface').forEach((name) => {
+        getInterface(name).area = id;
+      });
 
-  // ============================================================================
-  // IPsec Parsing
-  // ============================================================================
+      ospf.areas.push(area);
+    });
 
-  parseIPSecSites(config: any): IPSecSite[] {
-    const sites: IPSecSite[] = [];
+    ospfConfig.getValues('passive-interface').forEach((name) => {
+      if (name === 'default') {
+        ospf.passiveDefault = true;
+      } else {
+        getInterface(name).passive = true;
+      }
+    });
 
-    // This is a simplified parser - full IPsec config is complex
-    if (!config.vpn?.ipsec?.['site-to-site']?.peer) {
-      return sites;
-    }
+    ospfConfig.getValues('passive-interface-exclude').forEach((name) => {
+      getInterface(name).passive = false;
+    });
 
-    Object.entries(config.vpn.ipsec['site-to-site'].peer).forEach(([remoteAddr, _peerConfig]: [string, any]) => {
-      try {
-        // Parse basic site configuration
-        // In a production system, this would be more comprehensive
-        log.warn('IPsec parsing is simplified - implement full parser for production');
-      } catch (error) {
-        log.error(`Failed to parse IPsec site ${remoteAddr}:`, error);
+    const applyLegacyConfig = (name: string, ifaceConfig: ConfigNode) => {
+      const legacyConfig = version === 'v2' ? ifaceConfig.get('ip', 'ospf') : ifaceConfig.get('ipv6', 'ospfv3');
+      if (legacyConfig) {
+        this.applyOSPFInterfaceConfig(getInterface(name), legacyConfig);
       }
+    };
+
+    config.entries('interfaces').forEach(([, ifaces]) => {
+      ifaces.children.forEach((ifaceConfig, name) => {
+        applyLegacyConfig(name, ifaceConfig);
+        ifaceConfig.entries('vif').forEach(([vlan, vifConfig]) => applyLegacyConfig(`${name}.${vlan}`, vifConfig));
+      });
     });
 
-    return sites;
-  }
+    ospfConfig.entries('interface').forEach(([name, ifaceConfig]) => {
+      this.applyOSPFInterfaceConfig(getInterface(name), ifaceConfig);
+    });
 
-  // ============================================================================
+    ospf.interfaces = Array.from(interfaces.values());
+
+    ospfConfig.entries('redistribute').forEach(([protocol, redistConfig]) => {
+      ospf.redistribute.push({
+        protocol: protocol as OSPFRedistribution['protocol'],
+        ...this.parseOSPFRouteOptions(redistConfig),
+      });
+    });
+
+    const originate = ospfConfig.get('default-information', 'originate');
+    if (originate) {
+      ospf.defaultInformation = {
+        always: originate.has('always'),
+        ...this.parseOSPFRouteOptions(originate),
+      };
+    }
+
+    return ospf;
+  }
+
+  private applyOSPFInterfaceConfig(iface: OSPFInterface, config: ConfigNode): void {
+    if (config.has('area')) {
+      iface.area = config.getValue('area');
+    }
+
+    if (config.has('cost')) {
+      iface.cost = parseInt(config.getValue('cost')!, 10);
+    }
+
+    if (config.has('passive')) {
+      iface.passive = !config.has('passive', 'disable');
+    }
+
+    if (config.has('authentication', 'plaintext-password')) {
+      iface.authentication = {
+        type: 'plaintext-password',
+        password: config.getValue('authentication', 'plaintext-password'),
+      };
+    }
+
+    const [md5Key] = config.entries('authentication', 'md5', 'key-id');
+    if (md5Key) {
+      const [keyId, keyConfig] = md5Key;
+      iface.authentication = {
+        type: 'md5',
+        keyId: parseInt(keyId, 10),
+        md5Key: keyConfig.getValue('md5-key'),
+      };
+    }
+  }
+
+  /**
+   * Metric, metric-type and route-map shared by redistribution and default-information
+   */
+  private parseOSPFRouteOptions(config: ConfigNode): Pick<OSPFRedistribution, 'metric' | 'metricType' | 'routeMap'> {
+    const options: Pick<OSPFRedistribution, 'metric' | 'metricType' | 'routeMap'> = {};
+
+    if (config.has('metric')) {
+      options.metric = parseInt(config.getValue('metric')!, 10);
+    }
+
+    if (config.has('metric-type')) {
+      options.metricType = parseInt(config.getValue('metric-type')!, 10) as 1 | 2;
+    }
+
+    if (config.has('route-map')) {
+      options.routeMap = config.getValue('route-map');
+    }
+
+    return options;
+  }
+
+  // ============================================================================
+  // BGP Parsing
+  // ============================================================================
+
+  /**
+   * Parse `protocols bgp`, or `vrf name X protocols bgp` for a VRF instance.
+   * 1.4+ sets the local AS with `system-as`; earlier releases nest the whole
+   * process under the AS number (`protocols bgp 65001`).
+   */
+  parseBGP(config: ConfigNode, vrf?: string): BGPConfig | null {
+    const bgpConfig = vrf ? config.get('vrf', 'name', vrf, 'protocols', 'bgp') : config.get('protocols', 'bgp');
+    if (!bgpConfig) {
+      return null;
+    }
+
+    let localAs = bgpConfig.getValue('system-as');
+    let processConfig = bgpConfig;
+
+    if (!localAs) {
+      const legacy = bgpConfig.entries().find(([name]) => /^\d+$/.test(name));
+      if (!legacy) {
+        return null;
+      }
+      [localAs, processConfig] = legacy;
+    }
+
+    const bgp: BGPConfig = {
+      localAs: parseInt(localAs, 10),
+      addressFamilies: {},
+      peerGroups: [],
+      neighbors: [],
+    };
+
+    if (vrf) {
+      bgp.vrf = vrf;
+    }
+
+    if (processConfig.has('parameters', 'router-id')) {
+      bgp.routerId = processConfig.getValue('parameters', 'router-id');
+    }
+
+    if (processConfig.has('timers')) {
+      bgp.timers = this.parseBGPTimers(processConfig.get('timers')!);
+    }
+
+    processConfig.entries('address-family').forEach(([family, familyConfig]) => {
+      bgp.addressFamilies[family as BGPAddressFamily] = {
+        networks: familyConfig.keys('network'),
+        redistribute: familyConfig.entries('redistribute').map(([protocol, redistConfig]) => {
+          const redistribution: BGPRedistribution = { protocol: protocol as BGPRedistribution['protocol'] };
+
+          if (redistConfig.has('route-map')) {
+            redistribution.routeMap = redistConfig.getValue('route-map');
+          }
+
+          if (redistConfig.has('metric')) {
+            redistribution.metric = parseInt(redistConfig.getValue('metric')!, 10);
+          }
+
+          return redistribution;
+        }),
+      };
+    });
+
+    processConfig.entries('peer-group').forEach(([name, groupConfig]) => {
+      try {
+        bgp.peerGroups.push({ name, ...this.parseBGPPeerOptions(groupConfig) });
+      } catch (error) {
+        log.error(`Failed to parse BGP peer-group ${name}:`, error);
+      }
+    });
+
+    processConfig.entries('neighbor').forEach(([address, neighborConfig]) => {
+      try {
+        const neighbor: BGPNeighbor = { address, ...this.parseBGPPeerOptions(neighborConfig) };
+
+        if (neighborConfig.has('peer-group')) {
+          neighbor.peerGroup = neighborConfig.getValue('peer-group');
+        }
+
+        bgp.neighbors.push(neighbor);
+      } catch (error) {
+        log.error(`Failed to parse BGP neighbor ${address}:`, error);
+      }
+    });
+
+    return bgp;
+  }
+
+  private parseBGPPeerOptions(config: ConfigNode): BGPPeerOptions {
+    const options: BGPPeerOptions = {
+      addressFamilies: {},
+    };
+
+    if (config.has('remote-as')) {
+      const remoteAs = config.getValue('remote-as')!;
+      options.remoteAs = /^\d+$/.test(remoteAs) ? parseInt(remoteAs, 10) : (remoteAs as BGPRemoteAs);
+    }
+
+    if (config.has('description')) {
+      options.description = config.getValue('description');
+    }
+
+    if (config.has('password')) {
+      options.password = config.getValue('password');
+    }
+
+    if (config.has('update-source')) {
+      options.updateSource = config.getValue('update-source');
+    }
+
+    if (config.has('ebgp-multihop')) {
+      options.ebgpMultihop = parseInt(config.getValue('ebgp-multihop')!, 10);
+    }
+
+    if (config.has('shutdown')) {
+      options.shutdown = true;
+    }
+
+    if (config.has('timers')) {
+      options.timers = this.parseBGPTimers(config.get('timers')!);
+    }
+
+    config.entries('address-family').forEach(([family, familyConfig]) => {
+      const af: BGPNeighborAddressFamily = {};
+
+      if (familyConfig.has('route-map', 'import')) {
+        af.routeMapImport = familyConfig.getValue('route-map', 'import');
+      }
+
+      if (familyConfig.has('route-map', 'export')) {
+        af.routeMapExport = familyConfig.getValue('route-map', 'export');
+      }
+
+      if (familyConfig.has('prefix-list', 'import')) {
+        af.prefixListImport = familyConfig.getValue('prefix-list', 'import');
+      }
+
+      if (familyConfig.has('prefix-list', 'export')) {
+        af.prefixListExport = familyConfig.getValue('prefix-list', 'export');
+      }
+
+      af.nextHopSelf = familyConfig.has('nexthop-self');
+      af.softReconfigurationInbound = familyConfig.has('soft-reconfiguration', 'inbound');
+      af.defaultOriginate = familyConfig.has('default-originate');
+
+      options.addressFamilies[family as BGPAddressFamily] = af;
+    });
+
+    return options;
+  }
+
+  private parseBGPTimers(config: ConfigNode): BGPTimers {
+    const timers: BGPTimers = {};
+
+    if (config.has('keepalive')) {
+      timers.keepalive = parseInt(config.getValue('keepalive')!, 10);
+    }
+
+    if (config.has('holdtime')) {
+      timers.holdtime = parseInt(config.getValue('holdtime')!, 10);
+    }
+
+    return timers;
+  }
+
+  // ============================================================================
+  // Routing Policy Parsing
+  // ============================================================================
+
+  parseRoutingPolicy(config: ConfigNode): RoutingPolicy {
+    const policy: RoutingPolicy = {
+      prefixLists: [],
+      communityLists: [],
+      asPathLists: [],
+      routeMaps: [],
+    };
+
+    (['prefix-list', 'prefix-list6'] as const).forEach((kind) => {
+      config.entries('policy', kind).forEach(([name, listConfig]) => {
+        try {
+          policy.prefixLists.push(this.parsePrefixList(name, kind === 'prefix-list' ? 'ipv4' : 'ipv6', listConfig));
+        } catch (error) {
+          log.error(`Failed to parse ${kind} ${name}:`, error);
+        }
+      });
+    });
+
+    config.entries('policy', 'community-list').forEach(([name, listConfig]) => {
+      policy.communityLists.push(this.parsePolicyList(name, listConfig));
+    });
+
+    config.entries('policy', 'as-path-list').forEach(([name, listConfig]) => {
+      policy.asPathLists.push(this.parsePolicyList(name, listConfig));
+    });
+
+    config.entries('policy', 'route-map').forEach(([name, mapConfig]) => {
+      try {
+        policy.routeMaps.push(this.parseRouteMap(name, mapConfig));
+      } catch (error) {
+        log.error(`Failed to parse route-map ${name}:`, error);
+      }
+    });
+
+    return policy;
+  }
+
+  private parsePrefixList(name: string, family: PrefixList['family'], config: ConfigNode): PrefixList {
+    const list: PrefixList = {
+      name,
+      family,
+      description: config.getValue('description'),
+      rules: [],
+    };
+
+    this.getRules(config).forEach(([number, ruleConfig]) => {
+      const rule: PrefixListRule = {
+        number,
+        action: ruleConfig.getValue('action') as PrefixListRule['action'],
+        prefix: ruleConfig.getValue('prefix') || '',
+      };
+
+      if (ruleConfig.has('ge')) {
+        rule.ge = parseInt(ruleConfig.getValue('ge')!, 10);
+      }
+
+      if (ruleConfig.has('le')) {
+        rule.le = parseInt(ruleConfig.getValue('le')!, 10);
+      }
+
+      if (ruleConfig.has('description')) {
+        rule.description = ruleConfig.getValue('description');
+      }
+
+      list.rules.push(rule);
+    });
+
+    return list;
+  }
+
+  private parsePolicyList(name: string, config: ConfigNode): PolicyList {
+    return {
+      name,
+      description: config.getValue('description'),
+      rules: this.getRules(config).map(([number, ruleConfig]) => ({
+        number,
+        action: ruleConfig.getValue('action') as PolicyListRule['action'],
+        regex: ruleConfig.getValue('regex') || '',
+        description: ruleConfig.getValue('description'),
+      })),
+    };
+  }
+
+  private parseRouteMap(name: string, config: ConfigNode): RouteMap {
+    const routeMap: RouteMap = {
+      name,
+      description: config.getValue('description'),
+      rules: [],
+    };
+
+    this.getRules(config).forEach(([number, ruleConfig]) => {
+      const rule: RouteMapRule = {
+        number,
+        action: ruleConfig.getValue('action') as RouteMapRule['action'],
+        match: this.getClauses(ruleConfig.get('match')),
+        set: this.getClauses(ruleConfig.get('set')),
+      };
+
+      if (ruleConfig.has('description')) {
+        rule.description = ruleConfig.getValue('description');
+      }
+
+      if (ruleConfig.has('continue')) {
+        rule.continue = parseInt(ruleConfig.getValue('continue')!, 10);
+      }
+
+      if (ruleConfig.has('on-match', 'next')) {
+        rule.onMatch = 'next';
+      } else if (ruleConfig.has('on-match', 'goto')) {
+        rule.onMatch = `goto ${parseInt(ruleConfig.getValue('on-match', 'goto')!, 10)}`;
+      }
+
+      routeMap.rules.push(rule);
+    });
+
+    return routeMap;
+  }
+
+  /**
+   * Numbered `rule` children in rule order
+   */
+  private getRules(config: ConfigNode): [number, ConfigNode][] {
+    return config
+      .entries('rule')
+      .map(([number, ruleConfig]): [number, ConfigNode] => [parseInt(number, 10), ruleConfig])
+      .sort(([a], [b]) => a - b);
+  }
+
+  /**
+   * Flatten a `match` or `set` subtree into ordered clauses, one per leaf value
+   */
+  private getClauses(config: ConfigNode | undefined): RouteMapClause[] {
+    const clauses: RouteMapClause[] = [];
+
+    const walk = (node: ConfigNode, path: string[]): void => {
+      if (node.isLeaf()) {
+        if (node.values.length === 0) {
+          clauses.push({ path: path.join(' ') });
+        } else {
+          node.values.forEach((value) => clauses.push({ path: path.join(' '), value }));
+        }
+        return;
+      }
+
+      node.children.forEach((child, name) => walk(child, [...path, name]));
+    };
+
+    if (config) {
+      walk(config, []);
+    }
+
+    return clauses;
+  }
+
+  // ============================================================================
+  // Firewall Parsing
+  // ============================================================================
+
+  /**
+   * Zones from `zone-policy zone` (1.3) and `firewall zone` (1.4+)
+   */
+  parseFirewallZones(config: ConfigNode): FirewallZone[] {
+    const zones: FirewallZone[] = [];
+    const zoneEntries = [...config.entries('zone-policy', 'zone'), ...config.entries('firewall', 'zone')];
+
+    zoneEntries.forEach(([name, zoneConfig]) => {
+      try {
+        const zone: FirewallZone = {
+          name,
+          defaultAction: zoneConfig.getValue('default-action') as any || 'drop',
+          // 1.5 lists interfaces below `member`
+          interfaces: [...zoneConfig.getValues('interface'), ...zoneConfig.getValues('member', 'interface')],
+          from: {},
+        };
+
+        if (zoneConfig.has('description')) {
+          zone.description = zoneConfig.getValue('description');
+        }
+
+        // From zones
+        zoneConfig.entries('from').forEach(([fromZone, fromConfig]) => {
+          zone.from[fromZone] = {
+            firewall: {
+              name: fromConfig.getValue('firewall', 'name'),
+              ipv6Name: fromConfig.getValue('firewall', 'ipv6-name'),
+            },
+          };
+        });
+
+        zones.push(zone);
+      } catch (error) {
+        log.error(`Failed to parse zone ${name}:`, error);
+      }
+    });
+
+    return zones;
+  }
+
+  /**
+   * IPv4 rulesets from `firewall name` (1.3) and `firewall ipv4 name`
+   * plus the `firewall ipv4 <chain> filter` base chains (1.4+)
+   */
+  parseFirewallRulesets(config: ConfigNode): FirewallRuleset[] {
+    const rulesets: FirewallRuleset[] = [];
+
+    VYOS_FEATURES.FIREWALL_FAMILIES.forEach((family) => {
+      VYOS_FEATURES.FIREWALL_BASE_CHAINS.forEach((chain) => {
+        const chainConfig = config.get('firewall', family, chain, 'filter');
+        if (chainConfig) {
+          rulesets.push(this.parseFirewallRuleset(chain, family, chainConfig, chain));
+        }
+      });
+
+      const legacyPath = family === 'ipv4' ? ['firewall', 'name'] : ['firewall', 'ipv6-name'];
+      [...config.entries(...legacyPath), ...config.entries('firewall', family, 'name')].forEach(([name, rulesetConfig]) => {
+        try {
+          rulesets.push(this.parseFirewallRuleset(name, family, rulesetConfig));
+        } catch (error) {
+          log.error(`Failed to parse ${family} ruleset ${name}:`, error);
+        }
+      });
+    });
+
+    return rulesets;
+  }
+
+  private parseFirewallRuleset(
+    name: string,
+    family: FirewallFamily,
+    config: ConfigNode,
+    baseChain?: FirewallBaseChain
+  ): FirewallRuleset {
+    const ruleset: FirewallRuleset = {
+      name,
+      defaultAction: config.getValue('default-action') as any || (baseChain ? 'accept' : 'drop'),
+      enableDefaultLog: config.has('enable-default-log') || config.has('default-log'),
+      rules: [],
+    };
+
+    if (family === 'ipv6') {
+      ruleset.family = family;
+    }
+
+    if (baseChain) {
+      ruleset.baseChain = baseChain;
+    }
+
+    if (config.has('description')) {
+      ruleset.description = config.getValue('description');
+    }
+
+    if (config.has('default-jump-target')) {
+      ruleset.defaultJumpTarget = config.getValue('default-jump-target');
+    }
+
+    // Parse rules
+    config.entries('rule').forEach(([number, ruleConfig]) => {
+      try {
+        const rule = this.parseFirewallRule(parseInt(number, 10), ruleConfig);
+        ruleset.rules.push(rule);
+      } catch (error) {
+        log.error(`Failed to parse rule ${number}:`, error);
+      }
+    });
+
+    return ruleset;
+  }
+
+  private parseFirewallRule(number: number, config: ConfigNode): FirewallRule {
+    const rule: FirewallRule = {
+      number,
+      action: config.getValue('action') as any || 'drop',
+    };
+
+    if (config.has('jump-target')) {
+      rule.jumpTarget = config.getValue('jump-target');
+    }
+
+    if (config.has('description')) {
+      rule.description = config.getValue('description');
+    }
+
+    if (config.has('protocol')) {
+      // Older configs use the `icmpv6` alias of ipv6-icmp
+      const protocol = config.getValue('protocol');
+      rule.protocol = (protocol === 'icmpv6' ? 'ipv6-icmp' : protocol) as any;
+    }
+
+    const icmpConfig = config.get('icmp') || config.get('icmpv6');
+    if (icmpConfig) {
+      rule.icmp = this.parseFirewallICMP(icmpConfig);
+    }
+
+    if (config.has('source')) {
+      rule.source = this.parseFirewallAddress(config.get('source')!);
+    }
+
+    if (config.has('destination')) {
+      rule.destination = this.parseFirewallAddress(config.get('destination')!);
+    }
+
+    if (config.has('state')) {
+      rule.state = {
+        established: this.isStateEnabled(config, 'established'),
+        related: this.isStateEnabled(config, 'related'),
+        new: this.isStateEnabled(config, 'new'),
+        invalid: this.isStateEnabled(config, 'invalid'),
+      };
+    }
+
+    rule.log = config.has('log');
+    rule.disabled = config.has('disable');
+
+    return rule;
+  }
+
+  private parseFirewallAddress(config: ConfigNode): FirewallAddress {
+    const address: FirewallAddress = {};
+
+    if (config.has('address')) {
+      address.address = config.getValue('address');
+    }
+    if (config.has('port')) {
+      address.port = config.getValue('port');
+    }
+
+    if (config.has('group')) {
+      address.group = {};
+      if (config.has('group', 'address-group')) {
+        address.group.addressGroup = config.getValue('group', 'address-group');
+      }
+      if (config.has('group', 'network-group')) {
+        address.group.networkGroup = config.getValue('group', 'network-group');
+      }
+      if (config.has('group', 'port-group')) {
+        address.group.portGroup = config.getValue('group', 'port-group');
+      }
+    }
+
+    return address;
+  }
+
+  /**
+   * ICMP matches use `type-name`, `type` and `code`; 1.3 ICMPv6 puts a name
+   * or `type/code` in `type` alone
+   */
+  private parseFirewallICMP(config: ConfigNode): FirewallICMPMatch {
+    const icmp: FirewallICMPMatch = {};
+    const type = config.getValue('type');
+
+    if (config.has('type-name')) {
+      icmp.typeName = config.getValue('type-name');
+    } else if (type && !/^\d+(\/\d+)?$/.test(type)) {
+      icmp.typeName = type;
+    } else if (type) {
+      const [icmpType, code] = type.split('/');
+      icmp.type = parseInt(icmpType, 10);
+      if (code !== undefined) {
+        icmp.code = parseInt(code, 10);
+      }
+    }
+
+    if (config.has('code')) {
+      icmp.code = parseInt(config.getValue('code')!, 10);
+    }
+
+    return icmp;
+  }
+
+  /**
+   * Connection states are written as `state established 'enable'` (1.3)
+   * or `state 'established'` (1.4+)
+   */
+  private isStateEnabled(config: ConfigNode, state: string): boolean {
+    return config.getValue('state', state) === 'enable' || config.getValues('state').includes(state);
+  }
+
+  parseFirewallGroups(config: ConfigNode): FirewallGroup[] {
+    const groups: FirewallGroup[] = [];
+
+    VYOS_FEATURES.FIREWALL_GROUP_TYPES.forEach((type) => {
+      config.entries('firewall', 'group', type).forEach(([name, groupConfig]) => {
+        const group: FirewallGroup = {
+          name,
+          type,
+          members: groupConfig.getValues(FIREWALL_GROUP_MEMBER_KEYS[type]),
+        };
+
+        if (groupConfig.has('description')) {
+          group.description = groupConfig.getValue('description');
+        }
+
+        if (groupConfig.has('include')) {
+          group.include = groupConfig.getValues('include');
+        }
+
+        groups.push(group);
+      });
+    });
+
+    return groups;
+  }
+
+  /**
+   * Config paths that reference a firewall group, e.g.
+   * `firewall name WAN_IN rule 10 source group address-group`,
+   * `nat source rule 100 outbound-interface group` or another group's `include`
+   */
+  findFirewallGroupUsage(config: ConfigNode, type: FirewallGroupType, name: string): string[] {
+    const usage: string[] = [];
+
+    this.serialize(config).forEach((command) => {
+      const { path } = this.splitCommand(command);
+      if (path.length < 3 || path[path.length - 1] !== name) {
+        return;
+      }
+
+      const keyword = path[path.length - 2];
+      const parent = path[path.length - 3];
+      const isDefinition = path[0] === 'firewall' && path[1] === 'group';
+
+      const referenced =
+        (keyword === type && !isDefinition) ||
+        (keyword === 'include' && isDefinition && path[2] === type) ||
+        (type === 'interface-group' && keyword === 'group' && parent.endsWith('-interface'));
+
+      if (referenced) {
+        usage.push(path.slice(0, -1).join(' '));
+      }
+    });
+
+    return usage;
+  }
+
+  // ============================================================================
+  // NAT Parsing
+  // ============================================================================
+
+  parseNATRules(config: ConfigNode): { source: NATRule[]; destination: NATRule[] } {
+    const result = {
+      source: [] as NATRule[],
+      destination: [] as NATRule[],
+    };
+
+    // Source NAT
+    config.entries('nat', 'source', 'rule').forEach(([number, ruleConfig]) => {
+      try {
+        const rule = this.parseNATRule('source', parseInt(number, 10), ruleConfig);
+        result.source.push(rule);
+      } catch (error) {
+        log.error(`Failed to parse source NAT rule ${number}:`, error);
+      }
+    });
+
+    // Destination NAT
+    config.entries('nat', 'destination', 'rule').forEach(([number, ruleConfig]) => {
+      try {
+        const rule = this.parseNATRule('destination', parseInt(number, 10), ruleConfig);
+        result.destination.push(rule);
+      } catch (error) {
+        log.error(`Failed to parse destination NAT rule ${number}:`, error);
+      }
+    });
+
+    return result;
+  }
+
+  private parseNATRule(type: 'source' | 'destination', number: number, config: ConfigNode): NATRule {
+    const rule: NATRule = {
+      number,
+      type,
+    };
+
+    if (config.has('description')) {
+      rule.description = config.getValue('description');
+    }
+
+    // 1.4+ nests the interface under `name`
+    if (config.has('outbound-interface')) {
+      rule.outboundInterface = config.getValue('outbound-interface') || config.getValue('outbound-interface', 'name');
+    }
+
+    if (config.has('inbound-interface')) {
+      rule.inboundInterface = config.getValue('inbound-interface') || config.getValue('inbound-interface', 'name');
+    }
+
+    if (config.has('protocol')) {
+      rule.protocol = config.getValue('protocol') as any;
+    }
+
+    if (config.has('source')) {
+      rule.source = {};
+      if (config.has('source', 'address')) {
+        rule.source.address = config.getValue('source', 'address');
+      }
+      if (config.has('source', 'port')) {
+        rule.source.port = config.getValue('source', 'port');
+      }
+    }
+
+    if (config.has('destination')) {
+      rule.destination = {};
+      if (config.has('destination', 'address')) {
+        rule.destination.address = config.getValue('destination', 'address');
+      }
+      if (config.has('destination', 'port')) {
+        rule.destination.port = config.getValue('destination', 'port');
+      }
+    }
+
+    if (config.has('translation')) {
+      rule.translation = {};
+      if (config.has('translation', 'address')) {
+        rule.translation.address = config.getValue('translation', 'address');
+      }
+      if (config.has('translation', 'port')) {
+        rule.translation.port = config.getValue('translation', 'port');
+      }
+    }
+
+    rule.disabled = config.has('disable');
+
+    return rule;
+  }
+
+  // ============================================================================
+  // IPsec Parsing
+  // ============================================================================
+
+  /**
+   * Parse site-to-site peers. IKE and ESP groups are parsed once and shared by
+   * every peer that references them. Handles both the 1.3 layout (peer named by
+   * its address, inline pre-shared-secret) and 1.4+ (named peer with
+   * `remote-address`, secret under `vpn ipsec authentication psk`).
+   */
+  parseIPSecSites(config: ConfigNode): IPSecSite[] {
+    const sites: IPSecSite[] = [];
+
+    const ikeGroups = new Map<string, IPSecSite['ikeGroup']>();
+    config.entries('vpn', 'ipsec', 'ike-group').forEach(([name, groupConfig]) => {
+      ikeGroups.set(name, this.parseIKEGroup(name, groupConfig));
+    });
+
+    const espGroups = new Map<string, IPSecSite['espGroup']>();
+    config.entries('vpn', 'ipsec', 'esp-group').forEach(([name, groupConfig]) => {
+      espGroups.set(name, this.parseESPGroup(name, groupConfig));
+    });
+
+    config.entries('vpn', 'ipsec', 'site-to-site', 'peer').forEach(([peerName, peerConfig]) => {
+      try {
+        const site = this.parseIPSecPeer(peerName, peerConfig, config, ikeGroups, espGroups);
+        sites.push(site);
+      } catch (error) {
+        log.error(`Failed to parse IPsec site ${peerName}:`, error);
+      }
+    });
+
+    return sites;
+  }
+
+  private parseIPSecPeer(
+    name: string,
+    config: ConfigNode,
+    root: ConfigNode,
+    ikeGroups: Map<string, IPSecSite['ikeGroup']>,
+    espGroups: Map<string, IPSecSite['espGroup']>
+  ): IPSecSite {
+    const remoteAddress = config.getValue('remote-address') || name;
+    const mode = (config.getValue('authentication', 'mode') || 'pre-shared-secret') as IPSecSite['authMode'];
+
+    const authentication: IPSecSite['authentication'] = { mode };
+
+    // 1.3 uses `authentication id` for the local id
+    const localId = config.getValue('authentication', 'local-id') || config.getValue('authentication', 'id');
+    if (localId) {
+      authentication.localId = localId;
+    }
+
+    if (config.has('authentication', 'remote-id')) {
+      authentication.remoteId = config.getValue('authentication', 'remote-id');
+    }
+
+    if (mode === 'pre-shared-secret') {
+      authentication.preSharedSecret =
+        config.getValue('authentication', 'pre-shared-secret') ||
+        this.findPreSharedSecret(root, [authentication.remoteId, remoteAddress, name]);
+    }
+
+    const ikeGroupName = config.getValue('ike-group') || '';
+    const ikeGroup = ikeGroups.get(ikeGroupName) || { name: ikeGroupName, proposal: [] };
+
+    // Tunnels may override the peer's default ESP group; the site model holds one
+    const tunnelEspGroup = config.entries('tunnel').map(([, tunnel]) => tunnel.getValue('esp-group')).find(Boolean);
+    const espGroupName = config.getValue('default-esp-group') || tunnelEspGroup || '';
+    const espGroup = espGroups.get(espGroupName) || { name: espGroupName, proposal: [] };
+
+    const site: IPSecSite = {
+      name,
+      authMode: mode,
+      localAddress: config.getValue('local-address') || '',
+      remoteAddress,
+      authentication,
+      ikeGroup: { ...ikeGroup, proposal: ikeGroup.proposal.map((p) => ({ ...p })) },
+      espGroup: { ...espGroup, proposal: espGroup.proposal.map((p) => ({ ...p })) },
+      tunnels: [],
+    };
+
+    if (config.has('description')) {
+      site.description = config.getValue('description');
+    }
+
+    config.entries('tunnel').forEach(([id, tunnelConfig]) => {
+      const tunnel: IPSecTunnel = {
+        id: parseInt(id, 10),
+        localSubnet: tunnelConfig.getValue('local', 'prefix') || '',
+        remoteSubnet: tunnelConfig.getValue('remote', 'prefix') || '',
+      };
+
+      if (tunnelConfig.has('protocol')) {
+        tunnel.protocol = tunnelConfig.getValue('protocol') as IPSecTunnel['protocol'];
+      }
+
+      site.tunnels.push(tunnel);
+    });
+
+    return site;
+  }
+
+  private parseIKEGroup(name: string, config: ConfigNode): IPSecSite['ikeGroup'] {
+    const group: IPSecSite['ikeGroup'] = {
+      name,
+      proposal: this.getProposals(config).map((proposal) => ({
+        encryption: proposal.getValue('encryption') as IPSecEncryption,
+        hash: proposal.getValue('hash') as IPSecHash,
+        dhGroup: proposal.getValue('dh-group') as IPSecDhGroup,
+      })),
+    };
+
+    if (config.has('lifetime')) {
+      group.lifeTime = parseInt(config.getValue('lifetime')!, 10);
+    }
+
+    return group;
+  }
+
+  private parseESPGroup(name: string, config: ConfigNode): IPSecSite['espGroup'] {
+    const group: IPSecSite['espGroup'] = {
+      name,
+      proposal: this.getProposals(config).map((proposal) => ({
+        encryption: proposal.getValue('encryption') as IPSecEncryption,
+        hash: proposal.getValue('hash') as IPSecHash,
+      })),
+    };
+
+    if (config.has('lifetime')) {
+      group.lifeTime = parseInt(config.getValue('lifetime')!, 10);
+    }
+
+    if (config.has('pfs')) {
+      group.pfs = config.getValue('pfs') as IPSecPfs;
+    }
+
+    return group;
+  }
+
+  /**
+   * Proposals of an IKE/ESP group in proposal-number order
+   */
+  private getProposals(config: ConfigNode): ConfigNode[] {
+    return config
+      .entries('proposal')
+      .sort(([a], [b]) => parseInt(a, 10) - parseInt(b, 10))
+      .map(([, proposal]) => proposal);
+  }
+
+  /**
+   * Find a 1.4+ `vpn ipsec authentication psk` secret whose ids match the peer
+   */
+  private findPreSharedSecret(config: ConfigNode, ids: (string | undefined)[]): string | undefined {
+    const match = config
+      .entries('vpn', 'ipsec', 'authentication', 'psk')
+      .find(([, psk]) => psk.getValues('id').some((id) => ids.includes(id)));
+
+    return match?.[1].getValue('secret');
+  }
+
+  // ============================================================================
+  // WireGuard Parsing
+  // ============================================================================
+
+  parseWireGuardInterfaces(config: ConfigNode): WireGuardInterface[] {
+    const interfaces: WireGuardInterface[] = [];
+
+    config.entries('interfaces', 'wireguard').forEach(([name, ifaceConfig]) => {
+      try {
+        interfaces.push(this.parseWireGuardInterface(name, ifaceConfig));
+      } catch (error) {
+        log.error(`Failed to parse WireGuard interface ${name}:`, error);
+      }
+    });
+
+    return interfaces;
+  }
+
+  private parseWireGuardInterface(name: string, config: ConfigNode): WireGuardInterface {
+    const iface: WireGuardInterface = {
+      name,
+      addresses: config.getValues('address'),
+      disabled: config.has('disable'),
+      peers: [],
+    };
+
+    if (config.has('description')) {
+      iface.description = config.getValue('description');
+    }
+
+    if (config.has('port')) {
+      iface.listenPort = parseInt(config.getValue('port')!, 10);
+    }
+
+    if (config.has('private-key')) {
+      iface.privateKey = config.getValue('private-key');
+    }
+
+    if (config.has('mtu')) {
+      iface.mtu = parseInt(config.getValue('mtu')!, 10);
+    }
+
+    config.entries('peer').forEach(([peerName, peerConfig]) => {
+      // Older releases call the peer key `pubkey`
+      const peer: WireGuardPeer = {
+        name: peerName,
+        publicKey: peerConfig.getValue('public-key') || peerConfig.getValue('pubkey') || '',
+        allowedIps: peerConfig.getValues('allowed-ips'),
+        disabled: peerConfig.has('disable'),
+      };
+
+      if (peerConfig.has('description')) {
+        peer.description = peerConfig.getValue('description');
+      }
+
+      if (peerConfig.has('preshared-key')) {
+        peer.presharedKey = peerConfig.getValue('preshared-key');
+      }
+
+      if (peerConfig.has('address')) {
+        peer.endpointAddress = peerConfig.getValue('address');
+      }
+
+      if (peerConfig.has('port')) {
+        peer.endpointPort = parseInt(peerConfig.getValue('port')!, 10);
+      }
+
+      if (peerConfig.has('persistent-keepalive')) {
+        peer.persistentKeepalive = parseInt(peerConfig.getValue('persistent-keepalive')!, 10);
+      }
+
+      iface.peers.push(peer);
+    });
+
+    return iface;
+  }
+
+  // ============================================================================
+  // OpenVPN Parsing
+  // ============================================================================
+
+  /**
+   * Parse `interfaces openvpn`. Certificates and keys are read from the 1.3
+   * file nodes (`ca-cert-file`, ...) and the 1.4+ PKI nodes (`ca-certificate`, ...).
+   */
+  parseOpenVpnInterfaces(config: ConfigNode): OpenVpnInterface[] {
+    const interfaces: OpenVpnInterface[] = [];
+
+    config.entries('interfaces', 'openvpn').forEach(([name, ifaceConfig]) => {
+      try {
+        interfaces.push(this.parseOpenVpnInterface(name, ifaceConfig));
+      } catch (error) {
+        log.error(`Failed to parse OpenVPN interface ${name}:`, error);
+      }
+    });
+
+    return interfaces;
+  }
+
+  private parseOpenVpnInterface(name: string, config: ConfigNode): OpenVpnInterface {
+    const keyReference = (node: ConfigNode | undefined, field: keyof typeof OPENVPN_KEY_NODES.file) =>
+      Object.values(OPENVPN_KEY_NODES)
+        .map((nodes) => nodes[field] && node?.getValue(nodes[field]!))
+        .find(Boolean);
+
+    const iface: OpenVpnInterface = {
+      name,
+      mode: (config.getValue('mode') || 'site-to-site') as OpenVpnMode,
+      remoteHosts: config.getValues('remote-host'),
+      dataCiphers: [
+        ...config.getValues('encryption', 'ncp-ciphers'),
+        ...config.getValues('encryption', 'data-ciphers'),
+      ],
+      disabled: config.has('disable'),
+    };
+
+    if (config.has('description')) {
+      iface.description = config.getValue('description');
+    }
+
+    if (config.has('protocol')) {
+      iface.protocol = config.getValue('protocol') as OpenVpnProtocol;
+    }
+
+    if (config.has('device-type')) {
+      iface.deviceType = config.getValue('device-type') as 'tun' | 'tap';
+    }
+
+    if (config.has('local-host')) {
+      iface.localHost = config.getValue('local-host');
+    }
+
+    if (config.has('local-port')) {
+      iface.localPort = parseInt(config.getValue('local-port')!, 10);
+    }
+
+    if (config.has('remote-port')) {
+      iface.remotePort = parseInt(config.getValue('remote-port')!, 10);
+    }
+
+    // `local-address` is a tag node (it may carry a subnet-mask)
+    const [localAddress] = this.getNames(config, 'local-address');
+    if (localAddress) {
+      iface.localAddress = localAddress;
+    }
+
+    if (config.has('remote-address')) {
+      iface.remoteAddress = config.getValue('remote-address');
+    }
+
+    if (config.has('encryption', 'cipher')) {
+      iface.cipher = config.getValue('encryption', 'cipher');
+    }
+
+    if (config.has('hash')) {
+      iface.hash = config.getValue('hash');
+    }
+
+    const tlsConfig = config.get('tls');
+    if (tlsConfig) {
+      const tls: OpenVpnTls = { caCertificate: keyReference(tlsConfig, 'caCertificate') || '' };
+
+      (['certificate', 'key', 'dhParams', 'cryptKey'] as const).forEach((field) => {
+        const reference = keyReference(tlsConfig, field);
+        if (reference) {
+          tls[field] = reference;
+        }
+      });
+
+      if (tlsConfig.has('role')) {
+        tls.role = tlsConfig.getValue('role') as 'active' | 'passive';
+      }
+
+      iface.tls = tls;
+    }
+
+    const sharedSecretKey = keyReference(config, 'sharedSecretKey');
+    if (sharedSecretKey) {
+      iface.sharedSecretKey = sharedSecretKey;
+    }
+
+    const serverConfig = config.get('server');
+    if (serverConfig) {
+      const server: OpenVpnServer = {
+        subnet: serverConfig.getValue('subnet') || '',
+        // push-route is a leaf on 1.3 and a tag node (taking a metric) on 1.4+
+        pushRoutes: this.getNames(serverConfig, 'push-route'),
+        nameServers: serverConfig.getValues('name-server'),
+        clients: serverConfig.entries('client').map(([clientName, clientConfig]) => ({
+          name: clientName,
+          ip: clientConfig.getValue('ip'),
+          subnets: clientConfig.getValues('subnet'),
+          pushRoutes: this.getNames(clientConfig, 'push-route'),
+          disabled: clientConfig.has('disable'),
+        })),
+      };
+
+      if (serverConfig.has('topology')) {
+        server.topology = serverConfig.getValue('topology') as OpenVpnServer['topology'];
+      }
+
+      if (serverConfig.has('domain-name')) {
+        server.domainName = serverConfig.getValue('domain-name');
+      }
+
+      if (serverConfig.has('max-connections')) {
+        server.maxConnections = parseInt(serverConfig.getValue('max-connections')!, 10);
+      }
+
+      iface.server = server;
+    }
+
+    return iface;
+  }
+
+  /**
+   * Names of the `pki` entries an OpenVPN interface can reference (1.4+)
+   */
+  parseOpenVpnPkiNames(config: ConfigNode): OpenVpnPkiNames {
+    return {
+      caCertificates: config.keys('pki', 'ca'),
+      certificates: config.keys('pki', 'certificate'),
+      dhParams: config.keys('pki', 'dh'),
+      sharedSecrets: config.keys('pki', 'openvpn', 'shared-secret'),
+    };
+  }
+
+  // ============================================================================
+  // DHCP Server Parsing
+  // ============================================================================
+
+  /**
+   * Parse `service dhcp-server shared-network-name`. Reads both the 1.3 layout
+   * (`default-router`, `name-server` or older `dns-server`, `mac-address`) and
+   * the 1.4+ one (`option ...`, `subnet-id`, `mac`).
+   */
+  parseDhcpServers(config: ConfigNode): DhcpServer[] {
+    const servers: DhcpServer[] = [];
+
+    config.entries('service', 'dhcp-server', 'shared-network-name').forEach(([name, serverConfig]) => {
+      try {
+        const server: DhcpServer = {
+          name,
+          subnets: serverConfig.entries('subnet').map(([subnet, subnetConfig]) => this.parseDhcpSubnet(subnet, subnetConfig)),
+        };
+
+        if (serverConfig.has('description')) {
+          server.description = serverConfig.getValue('description');
+        }
+
+        if (serverConfig.has('authoritative')) {
+          server.authoritative = true;
+        }
+
+        servers.push(server);
+      } catch (error) {
+        log.error(`Failed to parse DHCP server ${name}:`, error);
+      }
+    });
+
+    return servers;
+  }
+
+  private parseDhcpSubnet(subnet: string, config: ConfigNode): DhcpSubnet {
+    const options = config.get('option') || config;
+
+    const dhcpSubnet: DhcpSubnet = {
+      subnet,
+      nameServers: [...options.getValues('name-server'), ...config.getValues('dns-server')],
+      ranges: config.entries('range').map(([id, rangeConfig]) => ({
+        id,
+        start: rangeConfig.getValue('start') || '',
+        stop: rangeConfig.getValue('stop') || '',
+      })),
+      staticMappings: config.entries('static-mapping').map(([name, mappingConfig]) => {
+        const mapping: DhcpStaticMapping = {
+          name,
+          ipAddress: mappingConfig.getValue('ip-address') || '',
+          macAddress: mappingConfig.getValue('mac') || mappingConfig.getValue('mac-address') || '',
+        };
+
+        if (mappingConfig.has('description')) {
+          mapping.description = mappingConfig.getValue('description');
+        }
+
+        return mapping;
+      }),
+    };
+
+    if (config.has('subnet-id')) {
+      dhcpSubnet.subnetId = parseInt(config.getValue('subnet-id')!, 10);
+    }
+
+    if (options.has('default-router')) {
+      dhcpSubnet.defaultRouter = options.getValue('default-router');
+    }
+
+    if (options.has('domain-name')) {
+      dhcpSubnet.domainName = options.getValue('domain-name');
+    }
+
+    if (config.has('lease')) {
+      dhcpSubnet.lease = parseInt(config.getValue('lease')!, 10);
+    }
+
+    return dhcpSubnet;
+  }
+
+  // ============================================================================
+  // DNS Forwarding Parsing
+  // ============================================================================
+
+  /**
+   * Parse `service dns forwarding`. Upstreams are leaf values on 1.3 and tag
+   * nodes with an optional `port` on 1.4+; domain overrides use `server` on
+   * 1.3 and `name-server` on 1.4+.
+   */
+  parseDnsForwarding(config: ConfigNode): DnsForwarding | null {
+    const dnsConfig = config.get('service', 'dns', 'forwarding');
+    if (!dnsConfig) {
+      return null;
+    }
+
+    const forwarding: DnsForwarding = {
+      listenAddresses: dnsConfig.getValues('listen-address'),
+      allowFrom: dnsConfig.getValues('allow-from'),
+      nameServers: this.parseDnsUpstreams(dnsConfig),
+      domainOverrides: dnsConfig.entries('domain').map(([domain, domainConfig]) => ({
+        domain,
+        servers: [...domainConfig.getValues('server'), ...this.parseDnsUpstreams(domainConfig).map((upstream) => upstream.address)],
+      })),
+    };
+
+    if (dnsConfig.has('cache-size')) {
+      forwarding.cacheSize = parseInt(dnsConfig.getValue('cache-size')!, 10);
+    }
+
+    if (dnsConfig.has('system')) {
+      forwarding.useSystemNameServers = true;
+    }
+
+    return forwarding;
+  }
+
+  private parseDnsUpstreams(config: ConfigNode): DnsUpstream[] {
+    const node = config.get('name-server');
+    if (!node) {
+      return [];
+    }
+
+    const upstreams: DnsUpstream[] = node.values.map((address) => ({ address }));
+
+    node.entries().forEach(([address, upstreamConfig]) => {
+      const upstream: DnsUpstream = { address };
+      if (upstreamConfig.has('port')) {
+        upstream.port = parseInt(upstreamConfig.getValue('port')!, 10);
+      }
+      upstreams.push(upstream);
+    });
+
+    return upstreams;
+  }
+
+  /**
+   * Parse `system static-host-mapping host-name`
+   */
+  parseStaticHostMappings(config: ConfigNode): StaticHostMapping[] {
+    return config.entries('system', 'static-host-mapping', 'host-name').map(([hostName, hostConfig]) => ({
+      hostName,
+      address: hostConfig.getValue('inet') || '',
+      aliases: hostConfig.getValues('alias'),
+    }));
+  }
+
+  // ============================================================================
+  // VRRP Parsing
+  // ============================================================================
+
+  /**
+   * Parse `high-availability vrrp`. Virtual addresses are `virtual-address`
+   * values on 1.3 and `address` tag nodes on 1.4+.
+   */
+  parseVrrp(config: ConfigNode): VrrpConfig {
+    const vrrp: VrrpConfig = { groups: [], syncGroups: [] };
+
+    config.entries('high-availability', 'vrrp', 'group').forEach(([name, groupConfig]) => {
+      try {
+        const group: VrrpGroup = {
+          name,
+          vrid: parseInt(groupConfig.getValue('vrid') || '0', 10),
+          interface: groupConfig.getValue('interface') || '',
+          virtualAddresses: [
+            ...groupConfig.getValues('virtual-address'),
+            ...groupConfig.getValues('address'),
+            ...groupConfig.keys('address'),
+          ],
+          preempt: !groupConfig.has('no-preempt'),
+        };
+
+        if (groupConfig.has('description')) {
+          group.description = groupConfig.getValue('description');
+        }
+
+        if (groupConfig.has('priority')) {
+          group.priority = parseInt(groupConfig.getValue('priority')!, 10);
+        }
+
+        if (groupConfig.has('preempt-delay')) {
+          group.preemptDelay = parseInt(groupConfig.getValue('preempt-delay')!, 10);
+        }
+
+        if (groupConfig.has('advertise-interval')) {
+          group.advertiseInterval = parseInt(groupConfig.getValue('advertise-interval')!, 10);
+        }
+
+        if (groupConfig.has('authentication', 'type')) {
+          group.authentication = {
+            type: groupConfig.getValue('authentication', 'type') as 'plaintext-password' | 'ah',
+            password: groupConfig.getValue('authentication', 'password') || '',
+          };
+        }
+
+        vrrp.groups.push(group);
+      } catch (error) {
+        log.error(`Failed to parse VRRP group ${name}:`, error);
+      }
+    });
+
+    vrrp.syncGroups = config.entries('high-availability', 'vrrp', 'sync-group').map(([name, syncConfig]) => ({
+      name,
+      members: syncConfig.getValues('member'),
+    }));
+
+    return vrrp;
+  }
+
+  // ============================================================================
+  // WAN Load Balancing Parsing
+  // ============================================================================
+
+  parseWanLoadBalancing(config: ConfigNode): WanLoadBalancing {
+    const wanConfig = config.get('load-balancing', 'wan');
+    const wan: WanLoadBalancing = {
+      interfaces: [],
+      rules: [],
+      stickyInbound: !!wanConfig?.has('sticky-connections', 'inbound'),
+      enableLocalTraffic: !!wanConfig?.has('enable-local-traffic'),
+      flushConnections: !!wanConfig?.has('flush-connections'),
+      disableSourceNat: !!wanConfig?.has('disable-source-nat'),
+    };
+
+    if (!wanConfig) {
+      return wan;
+    }
+
+    wanConfig.entries('interface-health').forEach(([name, healthConfig]) => {
+      const health: WanInterfaceHealth = {
+        interface: name,
+        nexthop: healthConfig.getValue('nexthop') || '',
+        tests: healthConfig.entries('test').map(([number, testConfig]) => this.parseWanHealthTest(number, testConfig)),
+      };
+
+      if (healthConfig.has('failure-count')) {
+        health.failureCount = parseInt(healthConfig.getValue('failure-count')!, 10);
+      }
+
+      if (healthConfig.has('success-count')) {
+        health.successCount = parseInt(healthConfig.getValue('success-count')!, 10);
+      }
+
+      wan.interfaces.push(health);
+    });
+
+    wanConfig.entries('rule').forEach(([number, ruleConfig]) => {
+      try {
+        wan.rules.push(this.parseWanRule(number, ruleConfig));
+      } catch (error) {
+        log.error(`Failed to parse WAN load-balancing rule ${number}:`, error);
+      }
+    });
+
+    return wan;
+  }
+
+  private parseWanHealthTest(number: string, testConfig: ConfigNode): WanHealthTest {
+    const test: WanHealthTest = {
+      number: parseInt(number, 10),
+      type: (testConfig.getValue('type') as WanHealthTestType) || 'ping',
+    };
+
+    if (testConfig.has('target')) {
+      test.target = testConfig.getValue('target');
+    }
+
+    if (testConfig.has('resp-time')) {
+      test.respTime = parseInt(testConfig.getValue('resp-time')!, 10);
+    }
+
+    if (testConfig.has('ttl-limit')) {
+      test.ttlLimit = parseInt(testConfig.getValue('ttl-limit')!, 10);
+    }
+
+    if (testConfig.has('test-script')) {
+      test.testScript = testConfig.getValue('test-script');
+    }
+
+    return test;
+  }
+
+  private parseWanRule(number: string, ruleConfig: ConfigNode): WanRule {
+    const rule: WanRule = {
+      number: parseInt(number, 10),
+      inboundInterface: ruleConfig.getValue('inbound-interface') || '',
+      interfaces: ruleConfig.entries('interface').map(([name, ifaceConfig]) => {
+        const weight = ifaceConfig.getValue('weight');
+        return weight ? { name, weight: parseInt(weight, 10) } : { name };
+      }),
+      failover: ruleConfig.has('failover'),
+    };
+
+    if (ruleConfig.has('description')) {
+      rule.description = ruleConfig.getValue('description');
+    }
+
+    if (ruleConfig.has('exclude')) {
+      rule.exclude = true;
+    }
+
+    if (ruleConfig.has('per-packet-balancing')) {
+      rule.perPacketBalancing = true;
+    }
+
+    if (ruleConfig.has('protocol')) {
+      rule.protocol = ruleConfig.getValue('protocol');
+    }
+
+    (['source', 'destination'] as const).forEach((side) => {
+      const address = ruleConfig.getValue(side, 'address');
+      const port = ruleConfig.getValue(side, 'port');
+      if (address || port) {
+        rule[side] = { address, port };
+      }
+    });
+
+    return rule;
+  }
+
+  // ============================================================================
+  // QoS Parsing
+  // ============================================================================
+
+  /**
+   * Parse shapers from `qos policy shaper` (1.4+) or `traffic-policy shaper`
+   * (1.3). Egress attachments come from `qos interface X egress` or from each
+   * interface's `traffic-policy out`.
+   */
+  parseQosPolicies(config: ConfigNode): QosPolicy[] {
+    const attached = new Map<string, string[]>();
+    const attach = (name: string, policy?: string) => {
+      if (policy) {
+        attached.set(policy, [...(attached.get(policy) || []), name]);
+      }
+    };
+
+    config.entries('qos', 'interface').forEach(([name, ifaceConfig]) => attach(name, ifaceConfig.getValue('egress')));
+    config.entries('interfaces').forEach(([, ifaces]) => {
+      ifaces.children.forEach((ifaceConfig, name) => {
+        attach(name, ifaceConfig.getValue('traffic-policy', 'out'));
+        ifaceConfig.entries('vif').forEach(([vlan, vifConfig]) =>
+          attach(`${name}.${vlan}`, vifConfig.getValue('traffic-policy', 'out'))
+        );
+      });
+    });
+
+    const shapers = [...config.entries('qos', 'policy', 'shaper'), ...config.entries('traffic-policy', 'shaper')];
+
+    return shapers.map(([name, policyConfig]) => {
+      const policy: QosPolicy = {
+        name,
+        bandwidth: policyConfig.getValue('bandwidth') || 'auto',
+        classes: policyConfig.entries('class').map(([id, classConfig]) => ({
+          id: parseInt(id, 10),
+          ...this.parseQosClassSettings(classConfig),
+          ...(classConfig.has('description') && { description: classConfig.getValue('description') }),
+          matches: classConfig.entries('match').map(([matchName, matchConfig]) => this.parseQosMatch(matchName, matchConfig)),
+        })),
+        defaultClass: this.parseQosClassSettings(policyConfig.get('default')),
+        interfaces: attached.get(name) || [],
+      };
+
+      if (policyConfig.has('description')) {
+        policy.description = policyConfig.getValue('description');
+      }
+
+      return policy;
+    });
+  }
+
+  private parseQosClassSettings(config?: ConfigNode): QosClassSettings {
+    const settings: QosClassSettings = { bandwidth: config?.getValue('bandwidth') || '100%' };
+
+    if (config?.has('ceiling')) {
+      settings.ceiling = config.getValue('ceiling');
+    }
+
+    if (config?.has('priority')) {
+      settings.priority = parseInt(config.getValue('priority')!, 10);
+    }
+
+    if (config?.has('queue-type')) {
+      settings.queueType = config.getValue('queue-type') as QosQueueType;
+    }
+
+    return settings;
+  }
+
+  private parseQosMatch(name: string, config: ConfigNode): QosMatch {
+    const family = config.has('ipv6') ? 'ipv6' : 'ipv4';
+    const criteria = config.get(family === 'ipv6' ? 'ipv6' : 'ip');
+    const match: QosMatch = { name, family };
+
+    if (criteria?.has('protocol')) {
+      match.protocol = criteria.getValue('protocol');
+    }
+
+    if (criteria?.has('dscp')) {
+      match.dscp = criteria.getValue('dscp');
+    }
+
+    (['source', 'destination'] as const).forEach((side) => {
+      const address = criteria?.getValue(side, 'address');
+      const port = criteria?.getValue(side, 'port');
+      if (address || port) {
+        match[side] = { address, port };
+      }
+    });
+
+    return match;
+  }
+
+  // ============================================================================
   // System Config Parsing
   // ============================================================================
 
-  parseSystemConfig(config: any): SystemConfig {
+  parseSystemConfig(config: ConfigNode): SystemConfig {
     const system: SystemConfig = {
       nameServer: [],
       ntp: {
@@ -531,46 +2377,47 @@ export class ConfigParser {
       },
     };
 
-    if (!config.system) {
+    const sysConfig = config.get('system');
+    if (!sysConfig) {
       return system;
     }
 
-    const sysConfig = config.system;
-
     // Hostname
-    if (sysConfig['host-name']) {
-      system.hostName = Object.keys(sysConfig['host-name'])[0];
+    if (sysConfig.has('host-name')) {
+      system.hostName = sysConfig.getValue('host-name');
     }
 
     // Domain name
-    if (sysConfig['domain-name']) {
-      system.domainName = Object.keys(sysConfig['domain-name'])[0];
+    if (sysConfig.has('domain-name')) {
+      system.domainName = sysConfig.getValue('domain-name');
     }
 
     // Time zone
-    if (sysConfig['time-zone']) {
-      system.timeZone = Object.keys(sysConfig['time-zone'])[0];
+    if (sysConfig.has('time-zone')) {
+      system.timeZone = sysConfig.getValue('time-zone');
     }
 
-    // Name servers
-    if (sysConfig['name-server']) {
-      system.nameServer = Object.keys(sysConfig['name-server']);
-    }
+    // Name servers; 1.3 lists interfaces whose DHCP servers are used separately
+    system.nameServer = [...sysConfig.getValues('name-server'), ...sysConfig.getValues('name-servers-dhcp')];
+
+    // NTP (1.4+ moved it under `service ntp` and renamed allow-clients)
+    const ntpConfig = sysConfig.get('ntp') || config.get('service', 'ntp');
+    if (ntpConfig) {
+      system.ntp.servers = ntpConfig.keys('server');
 
-    // NTP
-    if (sysConfig.ntp?.server) {
-      system.ntp.servers = Object.keys(sysConfig.ntp.server);
+      const allowClients = [...ntpConfig.getValues('allow-clients', 'address'), ...ntpConfig.getValues('allow-client', 'address')];
+      if (allowClients.length > 0) {
+        system.ntp.allowClients = allowClients;
+      }
     }
 
     // Users
-    if (sysConfig.login?.user) {
-      Object.entries(sysConfig.login.user).forEach(([username, _userConfig]: [string, any]) => {
-        system.login.users.push({
-          name: username,
-          authentication: {},
-        });
+    sysConfig.keys('login', 'user').forEach((username) => {
+      system.login.users.push({
+        name: username,
+        authentication: {},
       });
-    }
+    });
 
     return system;
   }
@@ -0,0 +1,111 @@
+/**
+ * Config Tree - Typed, ordered representation of a VyOS configuration
+ */
+
+/**
+ * A node in the configuration tree. Containers and tag nodes (e.g. `ethernet eth0`,
+ * `rule 10`) have children; leaves hold zero or more values. A valueless leaf
+ * (e.g. `disable`) is a node with neither. Children keep the order they were
+ * first seen and multi-value leaves keep every value in order.
+ */
+export class ConfigNode {
+  readonly children = new Map<string, ConfigNode>();
+  readonly values: string[] = [];
+
+  /**
+   * Get the node at a path below this one
+   */
+  get(...path: string[]): ConfigNode | undefined {
+    let node: ConfigNode | undefined = this;
+    for (const part of path) {
+      node = node.children.get(part);
+      if (!node) {
+        return undefined;
+      }
+    }
+    return node;
+  }
+
+  /**
+   * Check whether a path exists, e.g. a valueless leaf like `disable`
+   */
+  has(...path: string[]): boolean {
+    return this.get(...path) !== undefined;
+  }
+
+  /**
+   * First value of the leaf at a path
+   */
+  getValue(...path: string[]): string | undefined {
+    return this.get(...path)?.values[0];
+  }
+
+  /**
+   * All values of the (multi-value) leaf at a path
+   */
+  getValues(...path: string[]): string[] {
+    return [...(this.get(...path)?.values || [])];
+  }
+
+  /**
+   * Child names at a path, e.g. the interface names under `interfaces ethernet`
+   */
+  keys(...path: string[]): string[] {
+    return Array.from(this.get(...path)?.children.keys() || []);
+  }
+
+  /**
+   * Child nodes at a path as [name, node] pairs
+   */
+  entries(...path: string[]): [string, ConfigNode][] {
+    return Array.from(this.get(...path)?.children.entries() || []);
+  }
+
+  /**
+   * Get the node at a path, creating any missing nodes
+   */
+  ensure(path: string[]): ConfigNode {
+    let node: ConfigNode = this;
+    for (const part of path) {
+      let child = node.children.get(part);
+      if (!child) {
+        child = new ConfigNode();
+        node.children.set(part, child);
+      }
+      node = child;
+    }
+    return node;
+  }
+
+  /**
+   * Add a value to this leaf, ignoring duplicates
+   */
+  addValue(value: string): void {
+    if (!this.values.includes(value)) {
+      this.values.push(value);
+    }
+  }
+
+  isLeaf(): boolean {
+    return this.children.size === 0;
+  }
+
+  /**
+   * Plain object form for IPC: single values as strings, multi-values as arrays,
+   * valueless leaves as true
+   */
+  toObject(): any {
+    if (this.isLeaf()) {
+      if (this.values.length === 0) {
+        return true;
+      }
+      return this.values.length === 1 ? this.values[0] : [...this.values];
+    }
+
+    const result: Record<string, any> = {};
+    this.children.forEach((child, name) => {
+      result[name] = child.toObject();
+    });
+    return result;
+  }
+}
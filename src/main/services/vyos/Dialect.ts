@@ -0,0 +1,177 @@
+/**
+ * Dialect - Config syntax that differs between VyOS releases
+ */
+
+import { FirewallSyntax, OpenVpnKeyStorage, OpenVpnTls } from '@shared/types';
+import { isVyOSVersionAtLeast } from '@shared/validators';
+
+export type VyOSRelease = '1.3' | '1.4' | '1.5';
+
+export interface VyOSDialect {
+  release: VyOSRelease;
+
+  // `firewall name`/`zone-policy zone` (1.3) or `firewall ipv4 name`/`firewall zone` (1.4+)
+  firewallSyntax: FirewallSyntax;
+  zonePath: 'zone-policy zone' | 'firewall zone';
+  zoneInterfacePath: 'interface' | 'member interface';
+
+  // ICMPv6 matches are a single `icmpv6 type <name|type/code>` (1.3) or `type-name`/`type`/`code` (1.4+)
+  combinedICMPv6Type: boolean;
+
+  // `outbound-interface eth0` (1.3) or `outbound-interface name eth0` (1.4+)
+  natInterfaceName: boolean;
+
+  // NTP moved from `system ntp` to `service ntp` in 1.4, renaming allow-clients
+  ntpPath: 'system ntp' | 'service ntp';
+  ntpAllowClientPath: 'allow-clients address' | 'allow-client address';
+
+  // Name servers learned over DHCP: `system name-servers-dhcp eth0` (1.3) or `system name-server eth0` (1.4+)
+  dhcpNameServerPath: 'system name-servers-dhcp' | 'system name-server';
+
+  // `protocols bgp 65000 ...` (1.3) or `protocols bgp system-as 65000` (1.4+)
+  bgpSystemAs: boolean;
+
+  // Per-interface OSPF under `protocols ospf interface` (1.4+) or `interfaces ... ip ospf` (1.3)
+  ospfInterfaceNode: boolean;
+
+  // Peers named by remote address with inline secrets (1.3), or named peers
+  // with `remote-address` and secrets under `vpn ipsec authentication psk` (1.4+)
+  ipsecNamedPeers: boolean;
+
+  wireguardPublicKey: 'pubkey' | 'public-key';
+
+  // The Kea-based DHCP server (1.4+) moves router/DNS/domain below `option`,
+  // needs a `subnet-id` per subnet and calls the static-mapping MAC `mac`
+  dhcpOptionNode: boolean;
+  dhcpSubnetId: boolean;
+  dhcpStaticMappingMac: 'mac-address' | 'mac';
+
+  // DNS forwarding upstreams are plain `name-server` values (1.3) or tag nodes
+  // taking a `port` (1.4+); per-domain upstreams moved from `server` to `name-server`
+  dnsNameServerPort: boolean;
+  dnsDomainServerNode: 'server' | 'name-server';
+
+  // VRRP virtual addresses: `virtual-address` (1.3) or `address` (1.4+)
+  vrrpAddressNode: 'virtual-address' | 'address';
+
+  // Each interface names its `policy route` (1.3), or the policy lists its
+  // interfaces (1.4+)
+  policyRouteInterfaces: boolean;
+
+  // local-route matches only `source <addr>` (1.3), or `source address`,
+  // `destination address`, `inbound-interface` and `fwmark` (1.4+)
+  extendedLocalRoute: boolean;
+
+  // Shapers live under `traffic-policy` and each interface names its
+  // `traffic-policy out` (1.3), or under `qos policy` with `qos interface X egress` (1.4+)
+  qosPolicyRoot: 'traffic-policy' | 'qos policy';
+  qosInterfaceNode: boolean;
+
+  // OpenVPN certificates and keys are files (1.3) or `pki` names (1.4+), and
+  // `encryption ncp-ciphers` became `encryption data-ciphers`
+  openvpnKeyStorage: OpenVpnKeyStorage;
+  openvpnDataCiphers: 'ncp-ciphers' | 'data-ciphers';
+}
+
+type OpenVpnKeyNodes = Record<Exclude<keyof OpenVpnTls, 'role'>, string> & { sharedSecretKey: string };
+
+/**
+ * Config nodes naming the OpenVPN certificates and keys under each key storage.
+ * A PKI certificate carries its private key, so there is no separate key node.
+ */
+export const OPENVPN_KEY_NODES: Record<OpenVpnKeyStorage, Partial<OpenVpnKeyNodes>> = {
+  file: {
+    caCertificate: 'ca-cert-file',
+    certificate: 'cert-file',
+    key: 'key-file',
+    dhParams: 'dh-file',
+    cryptKey: 'crypt-file',
+    sharedSecretKey: 'shared-secret-key-file',
+  },
+  pki: {
+    caCertificate: 'ca-certificate',
+    certificate: 'certificate',
+    dhParams: 'dh-params',
+    cryptKey: 'crypt-key',
+    sharedSecretKey: 'shared-secret-key',
+  },
+};
+
+const VYOS_1_3: VyOSDialect = {
+  release: '1.3',
+  firewallSyntax: 'legacy',
+  zonePath: 'zone-policy zone',
+  zoneInterfacePath: 'interface',
+  combinedICMPv6Type: true,
+  natInterfaceName: false,
+  ntpPath: 'system ntp',
+  ntpAllowClientPath: 'allow-clients address',
+  dhcpNameServerPath: 'system name-servers-dhcp',
+  bgpSystemAs: false,
+  ospfInterfaceNode: false,
+  ipsecNamedPeers: false,
+  wireguardPublicKey: 'pubkey',
+  dhcpOptionNode: false,
+  dhcpSubnetId: false,
+  dhcpStaticMappingMac: 'mac-address',
+  dnsNameServerPort: false,
+  dnsDomainServerNode: 'server',
+  vrrpAddressNode: 'virtual-address',
+  policyRouteInterfaces: false,
+  extendedLocalRoute: false,
+  qosPolicyRoot: 'traffic-policy',
+  qosInterfaceNode: false,
+  openvpnKeyStorage: 'file',
+  openvpnDataCiphers: 'ncp-ciphers',
+};
+
+const VYOS_1_4: VyOSDialect = {
+  release: '1.4',
+  firewallSyntax: 'modern',
+  zonePath: 'firewall zone',
+  zoneInterfacePath: 'interface',
+  combinedICMPv6Type: false,
+  natInterfaceName: true,
+  ntpPath: 'service ntp',
+  ntpAllowClientPath: 'allow-client address',
+  dhcpNameServerPath: 'system name-server',
+  bgpSystemAs: true,
+  ospfInterfaceNode: true,
+  ipsecNamedPeers: true,
+  wireguardPublicKey: 'public-key',
+  dhcpOptionNode: true,
+  dhcpSubnetId: true,
+  dhcpStaticMappingMac: 'mac',
+  dnsNameServerPort: true,
+  dnsDomainServerNode: 'name-server',
+  vrrpAddressNode: 'address',
+  policyRouteInterfaces: true,
+  extendedLocalRoute: true,
+  qosPolicyRoot: 'qos policy',
+  qosInterfaceNode: true,
+  openvpnKeyStorage: 'pki',
+  openvpnDataCiphers: 'data-ciphers',
+};
+
+const VYOS_1_5: VyOSDialect = {
+  ...VYOS_1_4,
+  release: '1.5',
+  zoneInterfacePath: 'member interface',
+};
+
+export const DIALECTS: Record<VyOSRelease, VyOSDialect> = {
+  '1.3': VYOS_1_3,
+  '1.4': VYOS_1_4,
+  '1.5': VYOS_1_5,
+};
+
+/**
+ * Dialect for a version from `show version`. Unknown and newer versions get
+ * the latest dialect; anything before 1.4 is treated as 1.3.
+ */
+export function getDialect(vyosVersion?: string): VyOSDialect {
+  if (isVyOSVersionAtLeast(vyosVersion, '1.5')) {
+    return VYOS_1_5;
+  }
+  return isVyOSVersionAtLeast(vyosVersion, '1.4') ? VYOS_1_4 : VYOS_1_3;
+}
@@ -0,0 +1,137 @@
+/**
+ * Policy References - Find route-maps and lists that are used but not defined
+ */
+
+import { PolicyKind } from '@shared/types';
+import { ConfigNode } from './ConfigTree';
+import { ConfigParser } from './ConfigParser';
+
+const POLICY_KINDS: PolicyKind[] = ['prefix-list', 'prefix-list6', 'route-map', 'community-list', 'as-path-list'];
+
+interface PolicyReference {
+  kind: PolicyKind;
+  name: string;
+  usedBy: string;
+}
+
+export class PolicyReferenceChecker {
+  private configParser = new ConfigParser();
+
+  /**
+   * References left dangling by applying commands on top of a configuration.
+   * References that already dangle in that configuration are not reported.
+   */
+  findNewMissingReferences(config: ConfigNode, commands: string[]): string[] {
+    const current = this.configParser.serialize(config);
+    const existing = new Set(this.findMissingReferences(current));
+
+    return this.findMissingReferences([...current, ...commands]).filter((error) => !existing.has(error));
+  }
+
+  /**
+   * Replay set/delete commands in order and report references to policies
+   * that are not defined at the end
+   */
+  findMissingReferences(commands: string[]): string[] {
+    const defined = new Map<PolicyKind, Set<string>>(POLICY_KINDS.map((kind) => [kind, new Set<string>()]));
+    const references = new Map<string, PolicyReference>();
+
+    for (const command of commands) {
+      const { verb, path } = this.configParser.splitCommand(command);
+
+      if (verb === 'set') {
+        if (path[0] === 'policy' && path.length >= 3 && this.isPolicyKind(path[1])) {
+          defined.get(path[1])!.add(path[2]);
+        }
+
+        const reference = this.getReference(path);
+        if (reference) {
+          references.set(reference.usedBy, reference);
+        }
+      } else if (verb === 'delete') {
+        this.applyDelete(path, defined, references);
+      }
+    }
+
+    const errors: string[] = [];
+    references.forEach((reference) => {
+      if (!defined.get(reference.kind)!.has(reference.name)) {
+        errors.push(`${reference.kind} ${reference.name} is not defined (used by ${reference.usedBy})`);
+      }
+    });
+
+    return errors;
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  /**
+   * Policy named by a set command, i.e. `... route-map NAME`,
+   * `... prefix-list import NAME`, `match community community-list NAME`
+   * or `match as-path NAME`
+   */
+  private getReference(path: string[]): PolicyReference | null {
+    if (path.length < 3) {
+      return null;
+    }
+
+    const name = path[path.length - 1];
+    const keywordIndex = ['import', 'export'].includes(path[path.length - 2]) ? path.length - 3 : path.length - 2;
+    const keyword = path[keywordIndex];
+    const usedBy = path.slice(0, -1).join(' ');
+
+    // `policy route-map NAME` is the definition itself
+    if (path[0] === 'policy' && keywordIndex === 1) {
+      return null;
+    }
+
+    switch (keyword) {
+      case 'route-map':
+        return { kind: 'route-map', name, usedBy };
+      case 'prefix-list': {
+        const ipv6 = path.includes('ipv6') || path.includes('ipv6-unicast');
+        return { kind: ipv6 ? 'prefix-list6' : 'prefix-list', name, usedBy };
+      }
+      case 'community-list':
+        return { kind: 'community-list', name, usedBy };
+      case 'as-path':
+        return path[keywordIndex - 1] === 'match' ? { kind: 'as-path-list', name, usedBy } : null;
+      default:
+        return null;
+    }
+  }
+
+  private applyDelete(
+    path: string[],
+    defined: Map<PolicyKind, Set<string>>,
+    references: Map<string, PolicyReference>
+  ): void {
+    const deleted = path.join(' ');
+
+    references.forEach((reference, usedBy) => {
+      if (usedBy === deleted || usedBy.startsWith(`${deleted} `) || `${usedBy} ${reference.name}` === deleted) {
+        references.delete(usedBy);
+      }
+    });
+
+    if (path[0] !== 'policy') {
+      return;
+    }
+
+    if (path.length === 1) {
+      defined.forEach((names) => names.clear());
+    } else if (this.isPolicyKind(path[1])) {
+      if (path.length === 2) {
+        defined.get(path[1])!.clear();
+      } else if (path.length === 3) {
+        defined.get(path[1])!.delete(path[2]);
+      }
+    }
+  }
+
+  private isPolicyKind(kind: string): kind is PolicyKind {
+    return (POLICY_KINDS as string[]).includes(kind);
+  }
+}
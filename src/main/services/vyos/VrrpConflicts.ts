@@ -0,0 +1,106 @@
+/**
+ * VRRP Conflicts - Find VRIDs reused by different groups on one network across devices
+ */
+
+import { VrrpConflict, VrrpConflictMember } from '@shared/types';
+import { getIPv4Network } from '@shared/validators';
+import { ConfigNode } from './ConfigTree';
+import { ConfigParser } from './ConfigParser';
+
+// A group and the IPv4 networks of its interface and virtual addresses
+export interface VrrpGroupSegment {
+  group: string;
+  vrid: number;
+  interface: string;
+  virtualAddresses: string[];
+  networks: string[];
+}
+
+export interface VrrpDeviceSegments {
+  deviceId: string;
+  deviceName: string;
+  groups: VrrpGroupSegment[];
+}
+
+export class VrrpConflictChecker {
+  private configParser = new ConfigParser();
+
+  /**
+   * VRRP groups of one device with the networks they advertise on
+   */
+  describeGroups(config: ConfigNode): VrrpGroupSegment[] {
+    return this.configParser.parseVrrp(config).groups.map((group) => {
+      const addresses = [...(this.findInterface(config, group.interface)?.getValues('address') || []), ...group.virtualAddresses];
+      const networks = new Set(addresses.map(getIPv4Network).filter((network): network is string => network !== null));
+
+      return {
+        group: group.name,
+        vrid: group.vrid,
+        interface: group.interface,
+        virtualAddresses: group.virtualAddresses,
+        networks: Array.from(networks),
+      };
+    });
+  }
+
+  /**
+   * Both routers of an HA pair run a group with the same VRID and virtual
+   * addresses; any other group on that network with the same VRID collides
+   */
+  findConflicts(devices: VrrpDeviceSegments[]): VrrpConflict[] {
+    const segments = new Map<string, VrrpConflict>();
+
+    devices.forEach((device) => {
+      device.groups.forEach((group) => {
+        group.networks.forEach((network) => {
+          const key = `${network} ${group.vrid}`;
+          if (!segments.has(key)) {
+            segments.set(key, { vrid: group.vrid, network, groups: [] });
+          }
+
+          segments.get(key)!.groups.push({
+            deviceId: device.deviceId,
+            deviceName: device.deviceName,
+            group: group.group,
+            interface: group.interface,
+            virtualAddresses: group.virtualAddresses,
+          });
+        });
+      });
+    });
+
+    return Array.from(segments.values()).filter((segment) => this.isConflict(segment.groups));
+  }
+
+  private isConflict(members: VrrpConflictMember[]): boolean {
+    if (new Set(members.map((member) => member.deviceId)).size < members.length) {
+      return true;
+    }
+
+    const addressSets = new Set(
+      members.map((member) =>
+        member.virtualAddresses
+          .map((address) => address.split('/')[0])
+          .sort()
+          .join(',')
+      )
+    );
+    return addressSets.size > 1;
+  }
+
+  /**
+   * Interface node for a name such as eth1 or eth1.20, whatever its type
+   */
+  private findInterface(config: ConfigNode, name: string): ConfigNode | undefined {
+    const [base, vif] = name.split('.');
+
+    for (const [, typeConfig] of config.entries('interfaces')) {
+      const iface = typeConfig.get(base);
+      if (iface) {
+        return vif ? iface.get('vif', vif) : iface;
+      }
+    }
+
+    return undefined;
+  }
+}
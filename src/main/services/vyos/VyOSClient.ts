@@ -5,32 +5,102 @@
 import { SSHClient, SSHConnectionOptions } from '../ssh/SSHClient';
 import { CommandBuilder } from './CommandBuilder';
 import { ConfigParser } from './ConfigParser';
+import { ConfigNode } from './ConfigTree';
 import { CommandExecutor } from './CommandExecutor';
+import { PolicyReferenceChecker } from './PolicyReferences';
+import { VrrpConflictChecker, VrrpGroupSegment } from './VrrpConflicts';
 import {
   NetworkInterface,
   FirewallZone,
   FirewallRuleset,
+  FirewallGroup,
+  FirewallGroupType,
+  FirewallConfig,
   NATRule,
   IPSecSite,
   StaticRoute,
+  PolicyRoute,
+  PolicyRoutingConfig,
+  LocalRouteRule,
+  Vrf,
+  FirewallFamily,
+  OSPFConfig,
+  OSPFNeighbor,
+  BGPConfig,
+  RoutingPolicy,
+  PolicyKind,
   SystemConfig,
   ConnectionTestResult,
+  VyOSError,
+  HostKeyVerificationError,
+  WireGuardInterface,
+  WireGuardKeyPair,
+  WireGuardClientConfig,
+  WireGuardClientConfigRequest,
+  DhcpServer,
+  DhcpLease,
+  DnsConfig,
+  DnsForwarding,
+  StaticHostMapping,
+  VrrpConfig,
+  VrrpGroup,
+  VrrpStatus,
+  VrrpSyncGroup,
+  WanLoadBalancing,
+  WanInterfaceHealth,
+  WanInterfaceStatus,
+  WanRule,
+  QosPolicy,
+  OpenVpnConfig,
+  OpenVpnInterface,
+  OpenVpnClientProfile,
+  OpenVpnClientProfileRequest,
 } from '@shared/types';
-import { VYOS_COMMANDS } from '@shared/constants';
+import { DEFAULTS, VYOS_COMMANDS, VYOS_CONFIG_TIMEOUT } from '@shared/constants';
+import {
+  isValidIPv6,
+  isValidWireGuardKey,
+  validateBGPConfig,
+  validateDhcpServer,
+  validateDnsForwarding,
+  validateLocalRouteRule,
+  validateVrf,
+  validatePolicyRoute,
+  validateFirewallGroup,
+  validateFirewallRuleset,
+  validateOSPFConfig,
+  validateStaticHostMapping,
+  validateVrrpGroup,
+  validateVrrpSyncGroup,
+  validateWanInterfaceHealth,
+  validateWanRule,
+  validateOpenVpnInterface,
+} from '@shared/validators';
 import log from 'electron-log';
 
+// Certificates and keys an OpenVPN client profile embeds
+type OpenVpnKeyMaterial = 'ca' | 'certificate' | 'key' | 'cryptKey';
+
+// Commands that can define or reference routing policy
+const POLICY_COMMAND_PATTERN = /\b(policy|route-map|prefix-list|community-list|as-path)\b/;
+
 export class VyOSClient {
   private sshClient: SSHClient;
   private commandBuilder: CommandBuilder;
   private configParser: ConfigParser;
   private commandExecutor: CommandExecutor;
+  private policyReferenceChecker: PolicyReferenceChecker;
+  private vrrpConflictChecker: VrrpConflictChecker;
   private connected: boolean = false;
+  private vyosVersion?: string;
 
   constructor(connectionOptions: SSHConnectionOptions) {
     this.sshClient = new SSHClient(connectionOptions);
     this.commandBuilder = new CommandBuilder();
     this.configParser = new ConfigParser();
     this.commandExecutor = new CommandExecutor(this.sshClient);
+    this.policyReferenceChecker = new PolicyReferenceChecker();
+    this.vrrpConflictChecker = new VrrpConflictChecker();
   }
 
   /**
@@ -51,6 +121,38 @@ export class VyOSClient {
     log.info('Disconnected from VyOS device');
   }
 
+  /**
+   * Set the device's VyOS version, which selects the command syntax
+   */
+  setVyOSVersion(vyosVersion?: string): void {
+    this.vyosVersion = vyosVersion;
+    this.commandBuilder.setVyOSVersion(vyosVersion);
+  }
+
+  getVyOSVersion(): string | undefined {
+    return this.vyosVersion;
+  }
+
+  /**
+   * Read the version from the device and target its syntax
+   */
+  async detectVyOSVersion(): Promise<string> {
+    const versionResult = await this.sshClient.exec(VYOS_COMMANDS.SHOW_VERSION);
+    const version = this.parseVyOSVersion(versionResult.output);
+    this.setVyOSVersion(version);
+    return version;
+  }
+
+  /**
+   * Register a listener for an unexpected loss of the SSH connection
+   */
+  onConnectionLost(listener: () => void): void {
+    this.sshClient.onConnectionLost(() => {
+      this.connected = false;
+      listener();
+    });
+  }
+
   /**
    * Test connection and get device info
    */
@@ -67,8 +169,7 @@ export class VyOSClient {
       }
 
       // Get VyOS version and hostname
-      const versionResult = await this.sshClient.exec(VYOS_COMMANDS.SHOW_VERSION);
-      const version = this.parseVyOSVersion(versionResult.output);
+      const version = await this.detectVyOSVersion();
 
       const hostnameResult = await this.sshClient.exec('hostname');
       const hostname = hostnameResult.output.trim();
@@ -80,6 +181,11 @@ export class VyOSClient {
         latency: testResult.latency,
       };
     } catch (error) {
+      // Host key problems need a user decision, not just a failed test
+      if (error instanceof HostKeyVerificationError) {
+        throw error;
+      }
+
       return {
         success: false,
         error: (error as Error).message,
@@ -98,11 +204,35 @@ export class VyOSClient {
   /**
    * Get parsed configuration tree
    */
-  async getParsedConfiguration(): Promise<any> {
+  async getParsedConfiguration(): Promise<ConfigNode> {
     const configText = await this.getConfiguration();
     return this.configParser.parse(configText);
   }
 
+  /**
+   * Restore a saved configuration by applying the minimal set/delete diff
+   * against the running configuration. Returns the commands that were applied.
+   */
+  async restoreConfiguration(configText: string, currentConfig?: string): Promise<string[]> {
+    const target = this.configParser.parse(configText);
+    if (target.isLeaf()) {
+      throw new VyOSError('Backup does not contain any configuration commands', 'INVALID_CONFIG');
+    }
+
+    const current = this.configParser.parse(currentConfig ?? await this.getConfiguration());
+    const commands = this.commandBuilder.buildRestoreCommands(current, target);
+
+    if (commands.length === 0) {
+      log.info('Running configuration already matches backup, nothing to restore');
+      return commands;
+    }
+
+    log.info(`Restoring configuration with ${commands.length} commands`);
+    await this.commandExecutor.executeWithRollback(commands, { timeout: VYOS_CONFIG_TIMEOUT });
+
+    return commands;
+  }
+
   // ============================================================================
   // Interface Operations
   // ============================================================================
@@ -160,10 +290,218 @@ export class VyOSClient {
   }
 
   /**
-   * Delete static route
+   * Delete static route from the main table, a numbered one or a VRF
+   */
+  async deleteStaticRoute(network: string, table?: number, vrf?: string): Promise<void> {
+    const commands = [`delete ${this.commandBuilder.getStaticRoutePath({ network, table, vrf })}`];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  // ============================================================================
+  // Policy Routing Operations
+  // ============================================================================
+
+  /**
+   * Get policy routes and local-route rules
+   */
+  async getPolicyRouting(): Promise<PolicyRoutingConfig> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parsePolicyRouting(config);
+  }
+
+  /**
+   * Set policy route; replaces it, detaching interfaces it no longer applies to
+   */
+  async setPolicyRoute(route: PolicyRoute): Promise<void> {
+    const validation = validatePolicyRoute(route);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const { routes } = await this.getPolicyRouting();
+    const existing = routes.find((other) => other.family === route.family && other.name === route.name);
+
+    const commands = [
+      ...(existing ? this.commandBuilder.buildPolicyRouteDeleteCommands(existing) : []),
+      ...this.commandBuilder.buildPolicyRouteCommands(route),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete policy route and detach it from its interfaces
+   */
+  async deletePolicyRoute(family: FirewallFamily, name: string): Promise<void> {
+    const { routes } = await this.getPolicyRouting();
+    const route = routes.find((other) => other.family === family && other.name === name);
+    if (!route) {
+      throw new VyOSError(`Policy route ${name} does not exist`, 'VALIDATION_ERROR');
+    }
+
+    await this.commandExecutor.executeWithRollback(this.commandBuilder.buildPolicyRouteDeleteCommands(route));
+  }
+
+  /**
+   * Set local-route rule
+   */
+  async setLocalRouteRule(rule: LocalRouteRule): Promise<void> {
+    const validation = validateLocalRouteRule(rule);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      `delete ${this.commandBuilder.getLocalRoutePath(rule)}`,
+      ...this.commandBuilder.buildLocalRouteCommands(rule),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete local-route rule
+   */
+  async deleteLocalRouteRule(family: FirewallFamily, number: number): Promise<void> {
+    await this.commandExecutor.executeWithRollback([`delete ${this.commandBuilder.getLocalRoutePath({ family, number })}`]);
+  }
+
+  // ============================================================================
+  // OSPF Operations
+  // ============================================================================
+
+  /**
+   * Get OSPF (v2) or OSPFv3 configuration, or null if not configured
+   */
+  async getOSPFConfig(version: 'v2' | 'v3' = 'v2'): Promise<OSPFConfig | null> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseOSPF(config, version);
+  }
+
+  /**
+   * Set OSPF configuration
+   */
+  async setOSPFConfig(ospf: OSPFConfig): Promise<void> {
+    const validation = validateOSPFConfig(ospf);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = this.commandBuilder.buildOSPFCommands(ospf);
+    await this.assertPolicyReferences(commands);
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Get live OSPF adjacencies
+   */
+  async getOSPFNeighbors(version: 'v2' | 'v3' = 'v2'): Promise<OSPFNeighbor[]> {
+    const command = version === 'v2' ? VYOS_COMMANDS.SHOW_OSPF_NEIGHBORS : VYOS_COMMANDS.SHOW_OSPFV3_NEIGHBORS;
+    const result = await this.sshClient.exec(command);
+    return this.parseOSPFNeighbors(result.output, version);
+  }
+
+  // ============================================================================
+  // Routing Policy Operations
+  // ============================================================================
+
+  /**
+   * Get prefix-lists, community-lists, as-path-lists and route-maps
+   */
+  async getRoutingPolicy(): Promise<RoutingPolicy> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseRoutingPolicy(config);
+  }
+
+  /**
+   * Set routing policy
+   */
+  async setRoutingPolicy(policy: RoutingPolicy): Promise<void> {
+    const commands = this.commandBuilder.buildRoutingPolicyCommands(policy);
+    await this.assertPolicyReferences(commands);
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete a route-map or list; refused while something still references it
+   */
+  async deletePolicy(kind: PolicyKind, name: string): Promise<void> {
+    const commands = [`delete ${this.commandBuilder.getPolicyPath(kind, name)}`];
+    await this.assertPolicyReferences(commands);
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  // ============================================================================
+  // VRF Operations
+  // ============================================================================
+
+  /**
+   * Get VRFs along with their member interfaces
+   */
+  async getVrfs(): Promise<Vrf[]> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseVrfs(config);
+  }
+
+  /**
+   * Create or update a VRF. Updates keep the VRF node, so its routes and BGP stay.
+   */
+  async setVrf(vrf: Vrf): Promise<void> {
+    const existing = await this.getVrfs();
+    const validation = validateVrf(vrf, existing);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const previous = existing.find((other) => other.name === vrf.name);
+    if (previous && previous.table !== vrf.table) {
+      throw new VyOSError(`The table of VRF ${vrf.name} cannot be changed once created`, 'VALIDATION_ERROR');
+    }
+
+    const commands = this.commandBuilder.buildVrfCommands(vrf, previous);
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete a VRF, its static routes and BGP instance, detaching its interfaces
+   */
+  async deleteVrf(name: string): Promise<void> {
+    const vrf = (await this.getVrfs()).find((other) => other.name === name);
+    const commands = this.commandBuilder.buildVrfDeleteCommands(vrf || { name, interfaces: [] });
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  // ============================================================================
+  // BGP Operations
+  // ============================================================================
+
+  /**
+   * Get BGP configuration of the default VRF or a named one, or null if BGP is not configured
+   */
+  async getBGPConfig(vrf?: string): Promise<BGPConfig | null> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseBGP(config, vrf);
+  }
+
+  /**
+   * Set BGP configuration
+   */
+  async setBGPConfig(bgp: BGPConfig): Promise<void> {
+    const validation = validateBGPConfig(bgp);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = this.commandBuilder.buildBGPCommands(bgp);
+    await this.assertPolicyReferences(commands);
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete BGP neighbor
    */
-  async deleteStaticRoute(network: string): Promise<void> {
-    const commands = [`delete protocols static route ${network}`];
+  async deleteBGPNeighbor(address: string, vrf?: string): Promise<void> {
+    // 1.3 nests neighbors below the local AS
+    const localAs = this.commandBuilder.getDialect().bgpSystemAs ? undefined : (await this.getBGPConfig(vrf))?.localAs;
+    const commands = [`delete ${this.commandBuilder.getBGPPath(localAs, vrf)} neighbor ${address}`];
     await this.commandExecutor.executeWithRollback(commands);
   }
 
@@ -171,6 +509,19 @@ export class VyOSClient {
   // Firewall Operations
   // ============================================================================
 
+  /**
+   * Get rulesets, zones and groups along with the syntax commands are built in
+   */
+  async getFirewallConfig(): Promise<FirewallConfig> {
+    const config = await this.getParsedConfiguration();
+    return {
+      syntax: this.commandBuilder.getFirewallSyntax(),
+      rulesets: this.configParser.parseFirewallRulesets(config),
+      zones: this.configParser.parseFirewallZones(config),
+      groups: this.configParser.parseFirewallGroups(config),
+    };
+  }
+
   /**
    * Get firewall zones
    */
@@ -199,10 +550,56 @@ export class VyOSClient {
    * Set firewall ruleset
    */
   async setFirewallRuleset(ruleset: FirewallRuleset): Promise<void> {
+    const validation = validateFirewallRuleset(ruleset, this.commandBuilder.getFirewallSyntax());
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
     const commands = this.commandBuilder.buildFirewallRulesetCommands(ruleset);
     await this.commandExecutor.executeWithRollback(commands);
   }
 
+  /**
+   * Get firewall address, network, port and interface groups
+   */
+  async getFirewallGroups(): Promise<FirewallGroup[]> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseFirewallGroups(config);
+  }
+
+  /**
+   * Config paths that reference a firewall group
+   */
+  async getFirewallGroupUsage(type: FirewallGroupType, name: string): Promise<string[]> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.findFirewallGroupUsage(config, type, name);
+  }
+
+  /**
+   * Set firewall group, replacing its previous members
+   */
+  async setFirewallGroup(group: FirewallGroup): Promise<void> {
+    const validation = validateFirewallGroup(group);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      `delete ${this.commandBuilder.getFirewallGroupPath(group)}`,
+      ...this.commandBuilder.buildFirewallGroupCommands(group),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete firewall group; refused while a rule or another group references it
+   */
+  async deleteFirewallGroup(type: FirewallGroupType, name: string): Promise<void> {
+    const commands = [`delete ${this.commandBuilder.getFirewallGroupPath({ type, name })}`];
+    await this.assertFirewallGroupsUnused(commands);
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
   // ============================================================================
   // NAT Operations
   // ============================================================================
@@ -256,6 +653,486 @@ export class VyOSClient {
    */
   async deleteIPSecSite(name: string): Promise<void> {
     const commands = [`delete vpn ipsec site-to-site peer ${name}`];
+
+    // 1.4+ keeps the secret outside the peer, under the name it was created with
+    const config = await this.getParsedConfiguration();
+    if (config.has('vpn', 'ipsec', 'authentication', 'psk', name)) {
+      commands.push(`delete vpn ipsec authentication psk ${name}`);
+    }
+
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  // ============================================================================
+  // WireGuard Operations
+  // ============================================================================
+
+  /**
+   * Get WireGuard interfaces and their peers
+   */
+  async getWireGuardInterfaces(): Promise<WireGuardInterface[]> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseWireGuardInterfaces(config);
+  }
+
+  /**
+   * Set WireGuard interface
+   */
+  async setWireGuardInterface(iface: WireGuardInterface): Promise<void> {
+    const commands = [
+      `delete ${this.commandBuilder.getWireGuardInterfacePath(iface.name)}`,
+      ...this.commandBuilder.buildWireGuardCommands(iface),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete WireGuard peer
+   */
+  async deleteWireGuardPeer(interfaceName: string, peerName: string): Promise<void> {
+    const commands = [`delete ${this.commandBuilder.getWireGuardPeerPath(interfaceName, peerName)}`];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Generate a WireGuard key pair on the device. Nothing is written to the config.
+   */
+  async generateWireGuardKeyPair(): Promise<WireGuardKeyPair> {
+    const result = await this.sshClient.exec(VYOS_COMMANDS.GENERATE_WIREGUARD_KEYPAIR);
+    const privateKey = result.output.match(/Private key:\s*(\S+)/i)?.[1];
+    const publicKey = result.output.match(/Public key:\s*(\S+)/i)?.[1];
+
+    if (!privateKey || !publicKey || !isValidWireGuardKey(privateKey) || !isValidWireGuardKey(publicKey)) {
+      throw new VyOSError('Device did not return a WireGuard key pair', 'WIREGUARD_KEY_ERROR', result.output);
+    }
+
+    return { privateKey, publicKey };
+  }
+
+  /**
+   * Public key of a WireGuard interface
+   */
+  async getWireGuardPublicKey(interfaceName: string): Promise<string> {
+    const result = await this.sshClient.exec(`show interfaces wireguard ${interfaceName} public-key`);
+    const publicKey = result.output.trim();
+
+    if (!isValidWireGuardKey(publicKey)) {
+      throw new VyOSError(`Could not read the public key of ${interfaceName}`, 'WIREGUARD_KEY_ERROR', result.output);
+    }
+
+    return publicKey;
+  }
+
+  /**
+   * Build the client config file for a road-warrior peer of a WireGuard interface.
+   * `defaultHost` is used as the endpoint when the request does not name one.
+   */
+  async getWireGuardClientConfig(request: WireGuardClientConfigRequest, defaultHost: string): Promise<WireGuardClientConfig> {
+    const interfaces = await this.getWireGuardInterfaces();
+    const iface = interfaces.find((i) => i.name === request.interfaceName);
+    if (!iface) {
+      throw new VyOSError(`WireGuard interface ${request.interfaceName} not found`, 'NOT_FOUND');
+    }
+
+    const peer = iface.peers.find((p) => p.name === request.peerName);
+    const publicKey = await this.getWireGuardPublicKey(iface.name);
+    const endpoint = this.formatWireGuardEndpoint(request.endpoint || defaultHost, iface.listenPort || DEFAULTS.WIREGUARD_PORT);
+
+    const config = this.commandBuilder.buildWireGuardClientConfig(request, {
+      publicKey,
+      endpoint,
+      presharedKey: peer?.presharedKey,
+    });
+
+    return {
+      // wg-quick takes the interface name from the file name, max 15 characters
+      filename: `${request.peerName.replace(/[^a-zA-Z0-9_=+.-]/g, '_').slice(0, 15)}.conf`,
+      config,
+      qrText: config.split('\n').filter((line) => line.trim().length > 0).join('\n'),
+    };
+  }
+
+  // ============================================================================
+  // OpenVPN Operations
+  // ============================================================================
+
+  /**
+   * Get OpenVPN interfaces, how this release stores their keys, and the PKI
+   * entries they can reference
+   */
+  async getOpenVpnConfig(): Promise<OpenVpnConfig> {
+    const config = await this.getParsedConfiguration();
+    return {
+      keyStorage: this.commandBuilder.getDialect().openvpnKeyStorage,
+      interfaces: this.configParser.parseOpenVpnInterfaces(config),
+      pki: this.configParser.parseOpenVpnPkiNames(config),
+    };
+  }
+
+  /**
+   * Set an OpenVPN interface; replaces it so removed hosts, routes and clients go away
+   */
+  async setOpenVpnInterface(iface: OpenVpnInterface): Promise<void> {
+    const validation = validateOpenVpnInterface(iface, this.commandBuilder.getDialect().openvpnKeyStorage);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      `delete ${this.commandBuilder.getOpenVpnInterfacePath(iface.name)}`,
+      ...this.commandBuilder.buildOpenVpnCommands(iface),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete an OpenVPN interface
+   */
+  async deleteOpenVpnInterface(name: string): Promise<void> {
+    await this.commandExecutor.executeWithRollback([`delete ${this.commandBuilder.getOpenVpnInterfacePath(name)}`]);
+  }
+
+  /**
+   * Build an .ovpn profile for a client of a server-mode interface, embedding
+   * the server CA, the client certificate and key if given, and the tls-crypt key.
+   * `defaultHost` is the remote when neither the request nor `local-host` names one.
+   */
+  async getOpenVpnClientProfile(request: OpenVpnClientProfileRequest, defaultHost: string): Promise<OpenVpnClientProfile> {
+    const config = await this.getParsedConfiguration();
+    const iface = this.configParser.parseOpenVpnInterfaces(config).find((i) => i.name === request.interfaceName);
+    if (!iface) {
+      throw new VyOSError(`OpenVPN interface ${request.interfaceName} not found`, 'NOT_FOUND');
+    }
+
+    if (iface.mode !== 'server' || !iface.tls) {
+      throw new VyOSError(`${iface.name} is not a TLS server; client profiles need one`, 'VALIDATION_ERROR');
+    }
+
+    const pki = this.commandBuilder.getDialect().openvpnKeyStorage === 'pki';
+    if (!pki && !!request.certificate !== !!request.key) {
+      throw new VyOSError('Client certificate and key files must be given together', 'VALIDATION_ERROR');
+    }
+
+    // A PKI certificate carries its own key
+    const keyReference = pki ? request.certificate : request.key;
+    const read = (kind: OpenVpnKeyMaterial, reference?: string) =>
+      reference ? this.readOpenVpnKeyMaterial(config, kind, reference) : Promise.resolve(undefined);
+
+    const profile = this.commandBuilder.buildOpenVpnClientProfile(iface, {
+      remoteHost: request.remoteHost || iface.localHost || defaultHost,
+      remotePort: iface.localPort || DEFAULTS.OPENVPN_PORT,
+      ca: (await read('ca', iface.tls.caCertificate))!,
+      certificate: await read('certificate', request.certificate),
+      key: await read('key', keyReference),
+      cryptKey: await read('cryptKey', iface.tls.cryptKey),
+    });
+
+    return {
+      filename: `${request.clientName.replace(/[^a-zA-Z0-9_=+.@-]/g, '_')}.ovpn`,
+      config: profile,
+    };
+  }
+
+  // ============================================================================
+  // DHCP Server Operations
+  // ============================================================================
+
+  /**
+   * Get DHCP shared networks, their subnets and static mappings
+   */
+  async getDhcpServers(): Promise<DhcpServer[]> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseDhcpServers(config);
+  }
+
+  /**
+   * Set DHCP shared network; replaces it so removed subnets and mappings go away
+   */
+  async setDhcpServer(server: DhcpServer): Promise<void> {
+    const validation = validateDhcpServer(server);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      `delete ${this.commandBuilder.getDhcpServerPath(server.name)}`,
+      ...this.commandBuilder.buildDhcpServerCommands(server),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete DHCP shared network
+   */
+  async deleteDhcpServer(name: string): Promise<void> {
+    const commands = [`delete ${this.commandBuilder.getDhcpServerPath(name)}`];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Get current leases from `show dhcp server leases`
+   */
+  async getDhcpLeases(): Promise<DhcpLease[]> {
+    const result = await this.sshClient.exec(VYOS_COMMANDS.SHOW_DHCP_LEASES);
+    return this.parseDhcpLeases(result.output);
+  }
+
+  // ============================================================================
+  // DNS Forwarding Operations
+  // ============================================================================
+
+  /**
+   * Get DNS forwarding settings and static host mappings
+   */
+  async getDnsConfig(): Promise<DnsConfig> {
+    const config = await this.getParsedConfiguration();
+    return {
+      forwarding: this.configParser.parseDnsForwarding(config),
+      staticHosts: this.configParser.parseStaticHostMappings(config),
+    };
+  }
+
+  /**
+   * Set DNS forwarding; replaces it so removed upstreams and overrides go away
+   */
+  async setDnsForwarding(forwarding: DnsForwarding): Promise<void> {
+    const validation = validateDnsForwarding(forwarding);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      ...this.commandBuilder.buildDeleteDnsForwardingCommands(),
+      ...this.commandBuilder.buildDnsForwardingCommands(forwarding),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Disable DNS forwarding
+   */
+  async deleteDnsForwarding(): Promise<void> {
+    await this.commandExecutor.executeWithRollback(this.commandBuilder.buildDeleteDnsForwardingCommands());
+  }
+
+  /**
+   * Set static host mapping
+   */
+  async setStaticHostMapping(host: StaticHostMapping): Promise<void> {
+    const config = await this.getParsedConfiguration();
+    const validation = validateStaticHostMapping(host, this.configParser.parseStaticHostMappings(config));
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      `delete ${this.commandBuilder.getStaticHostMappingPath(host.hostName)}`,
+      ...this.commandBuilder.buildStaticHostMappingCommands(host),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete static host mapping
+   */
+  async deleteStaticHostMapping(hostName: string): Promise<void> {
+    await this.commandExecutor.executeWithRollback([`delete ${this.commandBuilder.getStaticHostMappingPath(hostName)}`]);
+  }
+
+  // ============================================================================
+  // VRRP Operations
+  // ============================================================================
+
+  /**
+   * Get VRRP groups and sync groups
+   */
+  async getVrrp(): Promise<VrrpConfig> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseVrrp(config);
+  }
+
+  /**
+   * Set VRRP group; replaces it so removed addresses and options go away
+   */
+  async setVrrpGroup(group: VrrpGroup): Promise<void> {
+    const vrrp = await this.getVrrp();
+    const validation = validateVrrpGroup(group, vrrp.groups);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      `delete ${this.commandBuilder.getVrrpGroupPath(group.name)}`,
+      ...this.commandBuilder.buildVrrpGroupCommands(group),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete VRRP group, removing it from any sync group
+   */
+  async deleteVrrpGroup(name: string): Promise<void> {
+    const vrrp = await this.getVrrp();
+    await this.commandExecutor.executeWithRollback(this.commandBuilder.buildVrrpGroupDeleteCommands(name, vrrp.syncGroups));
+  }
+
+  /**
+   * Set VRRP sync group
+   */
+  async setVrrpSyncGroup(syncGroup: VrrpSyncGroup): Promise<void> {
+    const validation = validateVrrpSyncGroup(syncGroup, await this.getVrrp());
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      `delete ${this.commandBuilder.getVrrpSyncGroupPath(syncGroup.name)}`,
+      ...this.commandBuilder.buildVrrpSyncGroupCommands(syncGroup),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete VRRP sync group; its member groups stay
+   */
+  async deleteVrrpSyncGroup(name: string): Promise<void> {
+    await this.commandExecutor.executeWithRollback([`delete ${this.commandBuilder.getVrrpSyncGroupPath(name)}`]);
+  }
+
+  /**
+   * Get live group state from `show vrrp`
+   */
+  async getVrrpStatus(): Promise<VrrpStatus[]> {
+    const result = await this.sshClient.exec(VYOS_COMMANDS.SHOW_VRRP);
+    return this.parseVrrpStatus(result.output);
+  }
+
+  /**
+   * VRRP groups with the networks they run on, for VRID conflict checks across devices
+   */
+  async getVrrpSegments(): Promise<VrrpGroupSegment[]> {
+    const config = await this.getParsedConfiguration();
+    return this.vrrpConflictChecker.describeGroups(config);
+  }
+
+  // ============================================================================
+  // WAN Load Balancing Operations
+  // ============================================================================
+
+  /**
+   * Get health-checked uplinks, rules and global switches
+   */
+  async getWanLoadBalancing(): Promise<WanLoadBalancing> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseWanLoadBalancing(config);
+  }
+
+  /**
+   * Set the global sticky-connection, local-traffic, flush and source NAT switches
+   */
+  async setWanSettings(
+    settings: Pick<WanLoadBalancing, 'stickyInbound' | 'enableLocalTraffic' | 'flushConnections' | 'disableSourceNat'>
+  ): Promise<void> {
+    await this.commandExecutor.executeWithRollback(this.commandBuilder.buildWanSettingsCommands(settings));
+  }
+
+  /**
+   * Set an uplink health check; replaces it so removed tests go away
+   */
+  async setWanInterfaceHealth(health: WanInterfaceHealth): Promise<void> {
+    const wan = await this.getWanLoadBalancing();
+    const others = wan.interfaces.filter((other) => other.interface !== health.interface);
+    const validation = validateWanInterfaceHealth(health, others);
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      `delete ${this.commandBuilder.getWanInterfaceHealthPath(health.interface)}`,
+      ...this.commandBuilder.buildWanInterfaceHealthCommands(health),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete an uplink health check; refused while a rule still balances over the uplink
+   */
+  async deleteWanInterfaceHealth(name: string): Promise<void> {
+    const wan = await this.getWanLoadBalancing();
+    const users = wan.rules.filter((rule) => rule.interfaces.some((iface) => iface.name === name));
+    if (users.length > 0) {
+      throw new VyOSError(
+        `${name} is used by rule ${users.map((rule) => rule.number).join(', ')}`,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    await this.commandExecutor.executeWithRollback([`delete ${this.commandBuilder.getWanInterfaceHealthPath(name)}`]);
+  }
+
+  /**
+   * Set a load-balancing rule; replaces it so removed uplinks and matches go away
+   */
+  async setWanRule(rule: WanRule): Promise<void> {
+    const wan = await this.getWanLoadBalancing();
+    const validation = validateWanRule(rule, { ...wan, rules: wan.rules.filter((other) => other.number !== rule.number) });
+    if (!validation.valid) {
+      throw new VyOSError(validation.errors.join('; '), 'VALIDATION_ERROR', validation.errors);
+    }
+
+    const commands = [
+      `delete ${this.commandBuilder.getWanRulePath(rule.number)}`,
+      ...this.commandBuilder.buildWanRuleCommands(rule),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Delete a load-balancing rule
+   */
+  async deleteWanRule(number: number): Promise<void> {
+    await this.commandExecutor.executeWithRollback([`delete ${this.commandBuilder.getWanRulePath(number)}`]);
+  }
+
+  /**
+   * Get live uplink state and health-check results from `show wan-load-balance`
+   */
+  async getWanStatus(): Promise<WanInterfaceStatus[]> {
+    const result = await this.sshClient.exec(VYOS_COMMANDS.SHOW_WAN_LOAD_BALANCE);
+    return this.parseWanStatus(result.output);
+  }
+
+  // ============================================================================
+  // QoS Operations
+  // ============================================================================
+
+  /**
+   * Get shaper policies along with the interfaces they are attached to
+   */
+  async getQosPolicies(): Promise<QosPolicy[]> {
+    const config = await this.getParsedConfiguration();
+    return this.configParser.parseQosPolicies(config);
+  }
+
+  /**
+   * Create or replace a shaper policy; the old policy is detached and removed
+   * first so dropped classes and interfaces go away
+   */
+  async setQosPolicy(policy: QosPolicy): Promise<void> {
+    const previous = (await this.getQosPolicies()).find((other) => other.name === policy.name);
+    const commands = [
+      ...(previous ? this.commandBuilder.buildQosPolicyDeleteCommands(previous) : []),
+      ...this.commandBuilder.buildQosPolicyCommands(policy),
+    ];
+    await this.commandExecutor.executeWithRollback(commands);
+  }
+
+  /**
+   * Detach a shaper policy from its interfaces and delete it
+   */
+  async deleteQosPolicy(name: string): Promise<void> {
+    const policy = (await this.getQosPolicies()).find((other) => other.name === name);
+    const commands = this.commandBuilder.buildQosPolicyDeleteCommands(policy || { name, interfaces: [] });
     await this.commandExecutor.executeWithRollback(commands);
   }
 
@@ -292,14 +1169,101 @@ export class VyOSClient {
         return this.commandBuilder.buildInterfaceCommands(data);
       case 'route':
         return this.commandBuilder.buildStaticRouteCommands(data);
+      case 'delete-static-route':
+        return [`delete ${this.commandBuilder.getStaticRoutePath(data)}`];
+      case 'policy-route':
+        return this.commandBuilder.buildPolicyRouteCommands(data);
+      case 'delete-policy-route':
+        return this.commandBuilder.buildPolicyRouteDeleteCommands(data);
+      case 'local-route':
+        return this.commandBuilder.buildLocalRouteCommands(data);
+      case 'delete-local-route':
+        return [`delete ${this.commandBuilder.getLocalRoutePath(data)}`];
+      case 'vrf':
+        return this.commandBuilder.buildVrfCommands(data.vrf, data.previous);
+      case 'delete-vrf':
+        return this.commandBuilder.buildVrfDeleteCommands(data);
+      case 'ospf':
+        return this.commandBuilder.buildOSPFCommands(data);
+      case 'routing-policy':
+        return this.commandBuilder.buildRoutingPolicyCommands(data);
+      case 'prefix-list':
+        return this.commandBuilder.buildPrefixListCommands(data);
+      case 'community-list':
+      case 'as-path-list':
+        return this.commandBuilder.buildPolicyListCommands(type, data);
+      case 'route-map':
+        return this.commandBuilder.buildRouteMapCommands(data);
+      case 'delete-policy':
+        return [`delete ${this.commandBuilder.getPolicyPath(data.kind, data.name)}`];
+      case 'bgp':
+        return this.commandBuilder.buildBGPCommands(data);
+      case 'bgp-neighbor':
+        return this.commandBuilder.buildBGPNeighborCommands(data.neighbor, data.localAs, data.vrf);
       case 'firewall-zone':
         return this.commandBuilder.buildFirewallZoneCommands(data);
       case 'firewall-ruleset':
         return this.commandBuilder.buildFirewallRulesetCommands(data);
+      case 'firewall-group':
+        return this.commandBuilder.buildFirewallGroupCommands(data);
+      case 'delete-firewall-ruleset':
+        return [`delete ${this.commandBuilder.getFirewallRulesetPath(data)}`];
+      case 'delete-firewall-group':
+        return [`delete ${this.commandBuilder.getFirewallGroupPath(data)}`];
+      case 'delete-firewall-zone':
+        return [`delete ${this.commandBuilder.getFirewallZonePath(data.name)}`];
       case 'nat':
         return this.commandBuilder.buildNATRuleCommands(data);
       case 'ipsec':
         return this.commandBuilder.buildIPSecCommands(data);
+      case 'wireguard':
+        return this.commandBuilder.buildWireGuardCommands(data);
+      case 'delete-wireguard-interface':
+        return [`delete ${this.commandBuilder.getWireGuardInterfacePath(data.name)}`];
+      case 'wireguard-peer':
+        return this.commandBuilder.buildWireGuardPeerCommands(data.interfaceName, data.peer);
+      case 'delete-wireguard-peer':
+        return [`delete ${this.commandBuilder.getWireGuardPeerPath(data.interfaceName, data.peer.name)}`];
+      case 'openvpn':
+        return this.commandBuilder.buildOpenVpnCommands(data);
+      case 'delete-openvpn':
+        return [`delete ${this.commandBuilder.getOpenVpnInterfacePath(data.name)}`];
+      case 'dhcp-server':
+        return this.commandBuilder.buildDhcpServerCommands(data);
+      case 'delete-dhcp-server':
+        return [`delete ${this.commandBuilder.getDhcpServerPath(data.name)}`];
+      case 'dhcp-static-mapping':
+        return this.commandBuilder.buildDhcpStaticMappingCommands(data.server, data.subnet, data.mapping);
+      case 'dns-forwarding':
+        return this.commandBuilder.buildDnsForwardingCommands(data);
+      case 'delete-dns-forwarding':
+        return this.commandBuilder.buildDeleteDnsForwardingCommands();
+      case 'static-host-mapping':
+        return this.commandBuilder.buildStaticHostMappingCommands(data);
+      case 'delete-static-host-mapping':
+        return [`delete ${this.commandBuilder.getStaticHostMappingPath(data.hostName)}`];
+      case 'vrrp-group':
+        return this.commandBuilder.buildVrrpGroupCommands(data);
+      case 'vrrp-sync-group':
+        return this.commandBuilder.buildVrrpSyncGroupCommands(data);
+      case 'delete-vrrp-group':
+        return this.commandBuilder.buildVrrpGroupDeleteCommands(data.name, data.syncGroups);
+      case 'delete-vrrp-sync-group':
+        return [`delete ${this.commandBuilder.getVrrpSyncGroupPath(data.name)}`];
+      case 'wan-settings':
+        return this.commandBuilder.buildWanSettingsCommands(data);
+      case 'wan-interface-health':
+        return this.commandBuilder.buildWanInterfaceHealthCommands(data);
+      case 'delete-wan-interface-health':
+        return [`delete ${this.commandBuilder.getWanInterfaceHealthPath(data.interface)}`];
+      case 'wan-rule':
+        return this.commandBuilder.buildWanRuleCommands(data);
+      case 'delete-wan-rule':
+        return [`delete ${this.commandBuilder.getWanRulePath(data.number)}`];
+      case 'qos-policy':
+        return this.commandBuilder.buildQosPolicyCommands(data);
+      case 'delete-qos-policy':
+        return this.commandBuilder.buildQosPolicyDeleteCommands(data);
       case 'system':
         return this.commandBuilder.buildSystemCommands(data);
       default:
@@ -325,6 +1289,9 @@ export class VyOSClient {
       ...options,
     };
 
+    await this.assertPolicyReferences(commands);
+    await this.assertFirewallGroupsUnused(commands);
+
     if (opts.rollbackOnError) {
       await this.commandExecutor.executeWithRollback(commands, {
         commit: opts.autoCommit,
@@ -344,6 +1311,22 @@ export class VyOSClient {
     await this.commandExecutor.commit();
   }
 
+  /**
+   * Apply commands with commit-confirm, leaving them to revert unless confirmed
+   */
+  async commitConfirm(commands: string[], minutes: number): Promise<void> {
+    await this.assertPolicyReferences(commands);
+    await this.assertFirewallGroupsUnused(commands);
+    await this.commandExecutor.commitConfirm(commands, minutes);
+  }
+
+  /**
+   * Confirm a pending commit-confirm
+   */
+  async confirmCommit(): Promise<void> {
+    await this.commandExecutor.confirmCommit();
+  }
+
   /**
    * Save configuration
    */
@@ -371,13 +1354,305 @@ export class VyOSClient {
   // ============================================================================
 
   /**
-   * Parse VyOS version from show version output
+   * Split a tabulated op-mode table into rows keyed by lowercased header.
+   * Columns are taken from the dashed rule under the header, so right-aligned
+   * and empty cells line up regardless of the release's column set.
+   */
+  private parseTable(output: string): Record<string, string>[] {
+    const lines = output.split('\n');
+    const ruleIndex = lines.findIndex((line) => /^-{2,}(\s+-{2,})*\s*$/.test(line));
+    if (ruleIndex < 1) {
+      return [];
+    }
+
+    const columns = Array.from(lines[ruleIndex].matchAll(/-+/g)).map((match) => match.index!);
+    const cells = (line: string) =>
+      columns.map((start, i) => line.slice(start, i + 1 < columns.length ? columns[i + 1] : undefined).trim());
+    const header = cells(lines[ruleIndex - 1]).map((name) => name.toLowerCase());
+
+    return lines
+      .slice(ruleIndex + 1)
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const row: Record<string, string> = {};
+        cells(line).forEach((value, i) => {
+          if (header[i] && value) {
+            row[header[i]] = value;
+          }
+        });
+        return row;
+      });
+  }
+
+  /**
+   * Parse the `show dhcp server leases` table; 1.4 adds Origin and renames
+   * Hardware address to MAC address
    */
+  private parseDhcpLeases(output: string): DhcpLease[] {
+    const fields: Record<string, keyof DhcpLease> = {
+      'ip address': 'ipAddress',
+      'hardware address': 'macAddress',
+      'mac address': 'macAddress',
+      state: 'state',
+      'lease start': 'leaseStart',
+      'lease expiration': 'leaseExpiration',
+      remaining: 'remaining',
+      pool: 'pool',
+      hostname: 'hostname',
+    };
+
+    return this.parseTable(output)
+      .map((row) => {
+        const lease: Partial<DhcpLease> = {};
+        Object.entries(row).forEach(([column, value]) => {
+          if (fields[column]) {
+            lease[fields[column]] = value;
+          }
+        });
+        return lease;
+      })
+      .filter((lease): lease is DhcpLease => !!lease.ipAddress && !!lease.macAddress);
+  }
+
+  /**
+   * Parse the `show vrrp` table
+   */
+  private parseVrrpStatus(output: string): VrrpStatus[] {
+    return this.parseTable(output)
+      .filter((row) => row.name && row.vrid && row.state)
+      .map((row) => {
+        const status: VrrpStatus = {
+          name: row.name,
+          interface: row.interface || '',
+          vrid: parseInt(row.vrid, 10),
+          state: row.state,
+        };
+
+        if (row.priority) {
+          status.priority = parseInt(row.priority, 10);
+        }
+
+        if (row['last transition']) {
+          status.lastTransition = row['last transition'];
+        }
+
+        return status;
+      });
+  }
+
+  /**
+   * Parse `show wan-load-balance`: an `Interface:` block per uplink, with a
+   * `+Test:` (passing) or `-Test:` (failing) line per health check
+   */
+  private parseWanStatus(output: string): WanInterfaceStatus[] {
+    const statuses: WanInterfaceStatus[] = [];
+    let current: WanInterfaceStatus | undefined;
+
+    output.split('\n').forEach((rawLine) => {
+      const line = rawLine.trim();
+      const iface = line.match(/^Interface:\s+(\S+)/);
+
+      if (iface) {
+        current = { interface: iface[1], status: 'unknown', failures: 0, tests: [] };
+        statuses.push(current);
+        return;
+      }
+
+      if (!current) {
+        return;
+      }
+
+      const test = line.match(/^([+-])Test:\s+(\S+)(?:\s+Target:\s+(\S+))?/);
+      const field = line.match(/^([^:]+):\s+(.+)$/);
+
+      if (test) {
+        current.tests.push({ type: test[2], target: test[3], passing: test[1] === '+' });
+      } else if (field) {
+        const [, key, value] = field;
+
+        switch (key) {
+          case 'Status':
+            current.status = value.trim();
+            break;
+          case 'Last Status Change':
+            current.lastStatusChange = value.trim();
+            break;
+          case 'Last Interface Success':
+            current.lastSuccess = value.trim();
+            break;
+          case 'Last Interface Failure':
+            current.lastFailure = value.trim();
+            break;
+          case '# Interface Failure(s)':
+            current.failures = parseInt(value, 10) || 0;
+            break;
+        }
+      }
+    });
+
+    return statuses;
+  }
+
   private parseVyOSVersion(output: string): string {
     const match = output.match(/Version:\s+VyOS\s+([\d.]+)/i);
     return match ? match[1] : 'Unknown';
   }
 
+  /**
+   * Refuse commands that would leave a route-map or list referenced but undefined
+   */
+  private async assertPolicyReferences(commands: string[]): Promise<void> {
+    if (!commands.some((command) => POLICY_COMMAND_PATTERN.test(command))) {
+      return;
+    }
+
+    const config = await this.getParsedConfiguration();
+    const missing = this.policyReferenceChecker.findNewMissingReferences(config, commands);
+
+    if (missing.length > 0) {
+      throw new VyOSError(`Undefined routing policy: ${missing.join('; ')}`, 'VALIDATION_ERROR', missing);
+    }
+  }
+
+  /**
+   * Refuse commands that delete a firewall group something still references.
+   * Groups re-created later in the same batch are being replaced, not deleted,
+   * and references deleted in the same batch no longer count.
+   */
+  private async assertFirewallGroupsUnused(commands: string[]): Promise<void> {
+    const deletes = commands
+      .map((command) => this.configParser.splitCommand(command))
+      .filter(({ verb }) => verb === 'delete')
+      .map(({ path }) => path.join(' '));
+
+    const deletedGroups = deletes
+      .map((path) => path.split(' '))
+      .filter((path) => path[0] === 'firewall' && path[1] === 'group' && path.length === 4)
+      .filter(([, , type, name]) => !commands.some((command) => command.startsWith(`set firewall group ${type} ${name} `)));
+
+    if (deletedGroups.length === 0) {
+      return;
+    }
+
+    const config = await this.getParsedConfiguration();
+    const inUse: string[] = [];
+
+    deletedGroups.forEach(([, , type, name]) => {
+      this.configParser
+        .findFirewallGroupUsage(config, type as FirewallGroupType, name)
+        .filter((usedBy) => !deletes.some((deleted) => usedBy === deleted || usedBy.startsWith(`${deleted} `)))
+        .forEach((usedBy) => inUse.push(`${type} ${name} is used by ${usedBy}`));
+    });
+
+    if (inUse.length > 0) {
+      throw new VyOSError(`Firewall group in use: ${inUse.join('; ')}`, 'VALIDATION_ERROR', inUse);
+    }
+  }
+
+  /**
+   * Parse the neighbor table. OSPFv2 rows are
+   * `ID Pri State [UpTime] DeadTime Address Interface:IP RXmtL RqstL DBsmL`
+   * (older FRR has no up time column); OSPFv3 rows are
+   * `ID Pri DeadTime State/IfState Duration I/F[State]`.
+   */
+  private parseOSPFNeighbors(output: string, version: 'v2' | 'v3'): OSPFNeighbor[] {
+    const neighbors: OSPFNeighbor[] = [];
+
+    for (const line of output.split('\n')) {
+      const tokens = line.trim().split(/\s+/);
+      if (!/^\d+\.\d+\.\d+\.\d+$/.test(tokens[0]) || tokens.length < 6) {
+        continue;
+      }
+
+      if (version === 'v2') {
+        const end = tokens.length;
+        neighbors.push({
+          version,
+          neighborId: tokens[0],
+          priority: parseInt(tokens[1], 10),
+          state: tokens[2],
+          upTime: end >= 10 ? tokens[3] : undefined,
+          deadTime: tokens[end - 6],
+          address: tokens[end - 5],
+          interface: tokens[end - 4].split(':')[0],
+        });
+      } else {
+        neighbors.push({
+          version,
+          neighborId: tokens[0],
+          priority: parseInt(tokens[1], 10),
+          deadTime: tokens[2],
+          state: tokens[3],
+          upTime: tokens[4],
+          interface: tokens[5].replace(/\[.*\]$/, ''),
+        });
+      }
+    }
+
+    return neighbors;
+  }
+
+  /**
+   * PEM text of a certificate or key an OpenVPN profile embeds: rebuilt from
+   * the `pki` tree on 1.4+, or read from the file under /config/auth on 1.3
+   */
+  private async readOpenVpnKeyMaterial(config: ConfigNode, kind: OpenVpnKeyMaterial, reference: string): Promise<string> {
+    if (this.commandBuilder.getDialect().openvpnKeyStorage === 'file') {
+      if (!/^\/[\w./-]+$/.test(reference)) {
+        throw new VyOSError(`Invalid file path ${reference}`, 'VALIDATION_ERROR');
+      }
+
+      // Key files are readable by root only
+      const result = await this.sshClient.exec(`sudo cat ${reference}`);
+      if (!result.output.includes('-----BEGIN')) {
+        throw new VyOSError(`Could not read ${reference}`, 'OPENVPN_KEY_ERROR', result.output);
+      }
+      return result.output.trim();
+    }
+
+    // The PKI tree holds the base64 body without PEM armor, and static keys as bare hex
+    const armor = (label: string, body: string | undefined, width: number) =>
+      body && [`-----BEGIN ${label}-----`, ...(body.match(new RegExp(`.{1,${width}}`, 'g')) || []), `-----END ${label}-----`].join('\n');
+
+    let pem: string | undefined;
+    switch (kind) {
+      case 'ca':
+        pem = armor('CERTIFICATE', config.getValue('pki', 'ca', reference, 'certificate'), 64);
+        break;
+      case 'certificate':
+        pem = armor('CERTIFICATE', config.getValue('pki', 'certificate', reference, 'certificate'), 64);
+        break;
+      case 'key': {
+        const encrypted = config.has('pki', 'certificate', reference, 'private', 'password-protected');
+        pem = armor(
+          encrypted ? 'ENCRYPTED PRIVATE KEY' : 'PRIVATE KEY',
+          config.getValue('pki', 'certificate', reference, 'private', 'key'),
+          64
+        );
+        break;
+      }
+      case 'cryptKey':
+        pem = armor('OpenVPN Static key V1', config.getValue('pki', 'openvpn', 'shared-secret', reference, 'key'), 32);
+        break;
+    }
+
+    if (!pem) {
+      throw new VyOSError(`PKI entry ${reference} has no ${kind === 'cryptKey' ? 'static key' : kind}`, 'NOT_FOUND');
+    }
+    return pem;
+  }
+
+  /**
+   * Endpoint as host:port, bracketing IPv6 addresses and adding the listen port if missing
+   */
+  private formatWireGuardEndpoint(endpoint: string, listenPort: number): string {
+    if (isValidIPv6(endpoint)) {
+      return `[${endpoint}]:${listenPort}`;
+    }
+
+    return /:\d+$/.test(endpoint) ? endpoint : `${endpoint}:${listenPort}`;
+  }
+
   /**
    * Check if connected
    */
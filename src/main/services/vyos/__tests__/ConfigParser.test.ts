@@ -0,0 +1,119 @@
+/**
+ * ConfigParser tests - Set commands parse into a tree that serializes back
+ * without losing values, order or quoting, and config.boot gives the same tree
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { ConfigParser } from '../ConfigParser';
+import { loadFixture } from './helpers';
+
+const FIXTURES = ['vyos-1.3', 'vyos-1.4', 'vyos-1.5', 'ipsec-1.3', 'ipsec-1.4', 'values'];
+
+const parser = new ConfigParser();
+
+describe.each(FIXTURES)('round trip of %s', (name) => {
+  const tree = parser.parse(loadFixture(name));
+
+  it('re-parses the serialized commands to the identical tree', () => {
+    const commands = parser.serialize(tree);
+    const reparsed = parser.parse(commands.join('\n'));
+
+    expect(reparsed).toEqual(tree);
+    expect(parser.serialize(reparsed)).toEqual(commands);
+  });
+
+  it('writes back the commands the device printed', () => {
+    const lines = loadFixture(name)
+      .split('\n')
+      .filter((line) => line.startsWith('set '));
+
+    expect(parser.serialize(tree)).toEqual(lines);
+  });
+});
+
+describe('multi-value leaves', () => {
+  const tree = parser.parse(loadFixture('values'));
+
+  it('keeps every value in order', () => {
+    expect(tree.getValues('interfaces', 'ethernet', 'eth0', 'address')).toEqual([
+      '192.0.2.1/24',
+      '2001:db8::1/64',
+      'dhcpv6',
+    ]);
+    expect(tree.getValues('firewall', 'group', 'address-group', 'ADMINS', 'address')).toEqual(['10.0.0.1', '10.0.0.2']);
+  });
+
+  it('serializes one command per value', () => {
+    expect(parser.serialize(tree).filter((command) => command.startsWith('set interfaces ethernet eth0 address'))).toEqual([
+      "set interfaces ethernet eth0 address '192.0.2.1/24'",
+      "set interfaces ethernet eth0 address '2001:db8::1/64'",
+      "set interfaces ethernet eth0 address 'dhcpv6'",
+    ]);
+  });
+
+  it('keeps a valueless leaf apart from a leaf value', () => {
+    const eth1 = tree.get('interfaces', 'ethernet', 'eth1')!;
+
+    expect(eth1.has('disable')).toBe(true);
+    expect(eth1.getValues('disable')).toEqual([]);
+    expect(parser.serialize(tree)).toContain('set interfaces ethernet eth1 disable');
+  });
+});
+
+describe('quoted values', () => {
+  const tree = parser.parse(loadFixture('values'));
+
+  it("reads shell-style '\\'' escapes", () => {
+    expect(tree.getValue('interfaces', 'ethernet', 'eth1', 'description')).toBe('Bob\'s "lab" switch');
+  });
+
+  it('reads backslash-escaped quotes and writes them back shell-style', () => {
+    const escaped = parser.parse("set firewall group address-group ADMINS description 'It\\'s the admins'");
+
+    expect(escaped.getValue('firewall', 'group', 'address-group', 'ADMINS', 'description')).toBe("It's the admins");
+    expect(parser.serialize(escaped)).toEqual([
+      "set firewall group address-group ADMINS description 'It'\\''s the admins'",
+    ]);
+  });
+
+  it('writes quotes back in shell-safe form', () => {
+    const commands = parser.serialize(tree);
+
+    expect(commands).toContain(`set interfaces ethernet eth1 description 'Bob'\\''s "lab" switch'`);
+  });
+
+  it('keeps values with spaces as one value', () => {
+    expect(tree.getValue('system', 'login', 'banner', 'pre-login')).toBe('Authorized use only');
+  });
+});
+
+describe.each(['1.3', '1.4', '1.5'])('config.boot of VyOS %s', (release) => {
+  const boot = loadFixture(`vyos-${release}`, 'config.boot');
+  const commands = loadFixture(`vyos-${release}`);
+
+  it('parses to the same tree as the matching set commands', () => {
+    const tree = parser.parseHierarchical(boot);
+
+    expect(tree).toEqual(parser.parse(commands));
+    expect(parser.serialize(tree)).toEqual(parser.serialize(parser.parse(commands)));
+  });
+
+  it('is detected by parseAny', () => {
+    expect(parser.parseAny(boot)).toEqual(parser.parse(commands));
+    expect(parser.parseAny(commands)).toEqual(parser.parse(commands));
+  });
+});
+
+describe('config.boot syntax', () => {
+  it('keeps empty tag nodes as nodes, not values', () => {
+    const tree = parser.parseHierarchical('service {\n    ntp {\n        server time1.vyos.net {\n        }\n    }\n}\n');
+
+    expect(tree.keys('service', 'ntp', 'server')).toEqual(['time1.vyos.net']);
+    expect(tree.getValues('service', 'ntp', 'server')).toEqual([]);
+  });
+
+  it('reports unbalanced braces', () => {
+    expect(() => parser.parseHierarchical('system {\n    host-name vyos\n')).toThrow("Missing '}' for system");
+    expect(() => parser.parseHierarchical('system {\n}\n}\n')).toThrow("Unbalanced '}' on line 3");
+  });
+});
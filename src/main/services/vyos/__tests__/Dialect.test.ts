@@ -0,0 +1,127 @@
+/**
+ * Dialect tests - Each release's configuration parses to the same model and
+ * the CommandBuilder writes it back in that release's syntax
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { ConfigParser } from '../ConfigParser';
+import { CommandBuilder } from '../CommandBuilder';
+import { getDialect } from '../Dialect';
+import { loadFixture, toPaths } from './helpers';
+
+const RELEASES = [
+  { release: '1.3', version: '1.3.8' },
+  { release: '1.4', version: '1.4.0' },
+  { release: '1.5', version: '1.5-rolling-202501010018' },
+] as const;
+
+const parser = new ConfigParser();
+
+describe.each(RELEASES)('VyOS $release', ({ release, version }) => {
+  const fixture = loadFixture(`vyos-${release}`);
+  const config = parser.parse(fixture);
+  const builder = new CommandBuilder(version);
+
+  it('picks the dialect from the detected version', () => {
+    expect(getDialect(version).release).toBe(release);
+  });
+
+  it('parses the release syntax into the common model', () => {
+    const wanIn = parser.parseFirewallRulesets(config).find((ruleset) => ruleset.name === 'WAN-IN');
+    expect(wanIn?.enableDefaultLog).toBe(true);
+    expect(wanIn?.rules[0].state).toEqual({ established: true, related: true, new: false, invalid: false });
+    expect(wanIn?.rules[1].log).toBe(true);
+
+    const wan6In = parser.parseFirewallRulesets(config).find((ruleset) => ruleset.name === 'WAN6-IN');
+    expect(wan6In?.rules.map((rule) => rule.icmp)).toEqual([{ typeName: 'echo-request' }, { type: 1, code: 4 }]);
+
+    const zones = parser.parseFirewallZones(config);
+    expect(zones.map((zone) => [zone.name, zone.interfaces])).toEqual([
+      ['LAN', ['eth1']],
+      ['WAN', ['eth0']],
+    ]);
+
+    const nat = parser.parseNATRules(config);
+    expect(nat.source[0].outboundInterface).toBe('eth0');
+    expect(nat.destination[0].inboundInterface).toBe('eth0');
+
+    const [lan] = parser.parseDhcpServers(config);
+    expect(lan.subnets[0]).toMatchObject({
+      defaultRouter: '192.168.1.1',
+      nameServers: ['192.168.1.1'],
+      domainName: 'lan.example',
+      staticMappings: [{ name: 'printer', ipAddress: '192.168.1.20', macAddress: '00:11:22:33:44:55' }],
+    });
+
+    const dns = parser.parseDnsForwarding(config);
+    expect(dns?.domainOverrides).toEqual([{ domain: 'corp.example', servers: ['10.0.0.53'] }]);
+    expect(dns?.nameServers.map((upstream) => upstream.address)).toEqual(['1.1.1.1', '9.9.9.9']);
+
+    expect(parser.parseVrrp(config).groups[0].virtualAddresses).toEqual(['192.168.1.1/24']);
+
+    const system = parser.parseSystemConfig(config);
+    expect(system.nameServer).toEqual(['1.1.1.1', 'eth0']);
+    expect(system.ntp).toEqual({
+      servers: ['0.pool.ntp.org', '1.pool.ntp.org'],
+      allowClients: ['192.168.1.0/24'],
+    });
+  });
+
+  it('rebuilds the parsed configuration in the release syntax', () => {
+    const nat = parser.parseNATRules(config);
+    const vrrp = parser.parseVrrp(config);
+
+    const commands = [
+      ...parser.parseFirewallRulesets(config).flatMap((ruleset) => builder.buildFirewallRulesetCommands(ruleset)),
+      ...parser.parseFirewallZones(config).flatMap((zone) => builder.buildFirewallZoneCommands(zone)),
+      ...[...nat.source, ...nat.destination].flatMap((rule) => builder.buildNATRuleCommands(rule)),
+      ...parser.parseDhcpServers(config).flatMap((server) => builder.buildDhcpServerCommands(server)),
+      ...builder.buildDnsForwardingCommands(parser.parseDnsForwarding(config)!),
+      ...vrrp.groups.flatMap((group) => builder.buildVrrpGroupCommands(group)),
+      ...vrrp.syncGroups.flatMap((syncGroup) => builder.buildVrrpSyncGroupCommands(syncGroup)),
+      ...builder.buildSystemCommands(parser.parseSystemConfig(config)),
+    ];
+
+    expect(toPaths(commands)).toEqual(toPaths(fixture.split('\n')));
+  });
+});
+
+describe('VyOS 1.3 limits', () => {
+  const builder = new CommandBuilder('1.3.8');
+
+  it('refuses base chains', () => {
+    expect(() =>
+      builder.buildFirewallRulesetCommands({ name: 'input', baseChain: 'input', defaultAction: 'accept', rules: [] })
+    ).toThrow('Base chains require VyOS 1.4 or later');
+  });
+
+  it('refuses DNS upstream ports', () => {
+    expect(() =>
+      builder.buildDnsForwardingCommands({
+        listenAddresses: [],
+        allowFrom: [],
+        nameServers: [{ address: '9.9.9.9', port: 5353 }],
+        domainOverrides: [],
+      })
+    ).toThrow('custom ports need VyOS 1.4 or later');
+  });
+});
+
+describe('interface paths', () => {
+  const builder = new CommandBuilder('1.4.0');
+
+  it('places each interface under its type node', () => {
+    expect(builder.buildVrfDeleteCommands({ name: 'MGMT', interfaces: ['eth0.10', 'wg0', 'dum1'] })).toEqual([
+      'delete interfaces ethernet eth0 vif 10 vrf',
+      'delete interfaces wireguard wg0 vrf',
+      'delete interfaces dummy dum1 vrf',
+      'delete vrf name MGMT',
+    ]);
+  });
+
+  it('refuses interfaces of an unknown type', () => {
+    expect(() => builder.buildVrfDeleteCommands({ name: 'MGMT', interfaces: ['veth0'] })).toThrow(
+      'Unknown interface type for veth0'
+    );
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * IPsec tests - Site-to-site peers parse with their shared IKE/ESP groups and
+ * round-trip through CommandBuilder.buildIPSecCommands
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { IPSecSite } from '@shared/types';
+import { ConfigParser } from '../ConfigParser';
+import { CommandBuilder } from '../CommandBuilder';
+import { loadFixture, toPaths } from './helpers';
+
+const RELEASES = [
+  { release: '1.3', version: '1.3.8', names: ['192.0.2.20', '203.0.113.10'] },
+  { release: '1.4', version: '1.4.0', names: ['BRANCH-A', 'BRANCH-B'] },
+] as const;
+
+const IKE_GROUP: IPSecSite['ikeGroup'] = {
+  name: 'IKE-DEFAULT',
+  proposal: [
+    { encryption: 'aes256', hash: 'sha256', dhGroup: '14' },
+    { encryption: 'aes128', hash: 'sha1', dhGroup: '2' },
+  ],
+  lifeTime: 28800,
+};
+
+const ESP_GROUP: IPSecSite['espGroup'] = {
+  name: 'ESP-DEFAULT',
+  proposal: [
+    { encryption: 'aes256gcm128', hash: 'sha256' },
+    { encryption: 'aes128', hash: 'sha1' },
+  ],
+  lifeTime: 3600,
+  pfs: 'dh-group14',
+};
+
+const parser = new ConfigParser();
+
+describe.each(RELEASES)('IPsec on VyOS $release', ({ release, version, names }) => {
+  const fixture = loadFixture(`ipsec-${release}`);
+  const sites = parser.parseIPSecSites(parser.parse(fixture));
+
+  const site = (remoteAddress: string): IPSecSite | undefined =>
+    sites.find((candidate) => candidate.remoteAddress === remoteAddress);
+
+  it('parses every peer', () => {
+    expect(sites.map((candidate) => candidate.name).sort()).toEqual(names);
+  });
+
+  it('parses authentication ids and pre-shared secrets', () => {
+    expect(site('203.0.113.10')?.authentication).toEqual({
+      mode: 'pre-shared-secret',
+      localId: 'hq',
+      remoteId: 'branch-a',
+      preSharedSecret: 's3cret-a',
+    });
+    expect(site('192.0.2.20')?.authentication).toEqual({ mode: 'pre-shared-secret', preSharedSecret: 's3cret-b' });
+  });
+
+  it('resolves the shared IKE and ESP groups on each peer', () => {
+    sites.forEach((candidate) => {
+      expect(candidate.ikeGroup).toEqual(IKE_GROUP);
+      expect(candidate.espGroup).toEqual(ESP_GROUP);
+    });
+
+    // Each peer gets its own copy, so editing one site leaves the others alone
+    expect(sites[0].ikeGroup).not.toBe(sites[1].ikeGroup);
+    expect(sites[0].espGroup.proposal[0]).not.toBe(sites[1].espGroup.proposal[0]);
+  });
+
+  it('parses tunnels and peer settings', () => {
+    expect(site('203.0.113.10')).toMatchObject({
+      localAddress: '198.51.100.1',
+      description: 'Branch A office',
+      tunnels: [
+        { id: 0, localSubnet: '192.168.1.0/24', remoteSubnet: '10.10.0.0/16' },
+        { id: 1, localSubnet: '192.168.2.0/24', remoteSubnet: '10.11.0.0/16' },
+      ],
+    });
+  });
+
+  it('rebuilds the parsed peers', () => {
+    const builder = new CommandBuilder(version);
+    const commands = sites.flatMap((candidate) => builder.buildIPSecCommands(candidate));
+
+    expect(toPaths(commands)).toEqual(toPaths(fixture.split('\n')));
+  });
+});
+
+describe('IPsec across releases', () => {
+  it('parses both layouts to the same sites apart from the peer name', () => {
+    const [legacy, named] = RELEASES.map(({ release }) =>
+      parser
+        .parseIPSecSites(parser.parse(loadFixture(`ipsec-${release}`)))
+        .map(({ name: _name, ...site }) => site)
+        .sort((a, b) => a.remoteAddress.localeCompare(b.remoteAddress))
+    );
+
+    expect(named).toEqual(legacy);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Test helpers - Load captured device configurations and compare them with built commands
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ConfigParser } from '../ConfigParser';
+
+const parser = new ConfigParser();
+
+/**
+ * Configuration captured from a device: `show configuration commands` output
+ * (.commands) or the curly-brace /config/config.boot (.config.boot)
+ */
+export function loadFixture(name: string, format: 'commands' | 'config.boot' = 'commands'): string {
+  return readFileSync(join(__dirname, 'fixtures', `${name}.${format}`), 'utf8');
+}
+
+/**
+ * Set commands as sorted token paths, so the device quoting every value and
+ * the builder quoting only where needed compare equal
+ */
+export function toPaths(commands: string[]): string[] {
+  const paths = commands
+    .map((command) => parser.splitCommand(command))
+    .filter(({ verb }) => verb === 'set')
+    .map(({ path }) => path.join(' '));
+
+  return [...new Set(paths)].sort();
+}
@@ -0,0 +1,32 @@
+/**
+ * Preload Script - Exposes a minimal IPC bridge to the renderer process
+ */
+
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+
+// Only channels in these namespaces may be used from the renderer
+const ALLOWED_CHANNEL_PREFIXES = ['device:', 'ssh:', 'vyos:', 'backup:', 'changeset:', 'settings:', 'log:'];
+
+function assertChannelAllowed(channel: string): void {
+  if (!ALLOWED_CHANNEL_PREFIXES.some((prefix) => channel.startsWith(prefix))) {
+    throw new Error(`IPC channel not allowed: ${channel}`);
+  }
+}
+
+contextBridge.exposeInMainWorld('electronAPI', {
+  invoke: (channel: string, data?: unknown) => {
+    assertChannelAllowed(channel);
+    return ipcRenderer.invoke(channel, data);
+  },
+
+  on: (channel: string, listener: (data: unknown) => void) => {
+    assertChannelAllowed(channel);
+
+    const subscription = (_event: IpcRendererEvent, data: unknown) => listener(data);
+    ipcRenderer.on(channel, subscription);
+
+    return () => {
+      ipcRenderer.removeListener(channel, subscription);
+    };
+  },
+});
@@ -0,0 +1,279 @@
+/**
+ * Backup List - Device backups with create, restore and compare actions
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Input, Modal, Select, Space, Table, Upload, message } from 'antd';
+import { DatabaseOutlined, DiffOutlined, ImportOutlined, RollbackOutlined, UploadOutlined } from '@ant-design/icons';
+import {
+  ConfigDiffResult,
+  ConfigDiffSource,
+  ConfigRestoreResult,
+  IPCChannel,
+  VyOSConfigBackup,
+} from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { ConfigDiffView } from './ConfigDiffView';
+
+interface DiffState {
+  result: ConfigDiffResult;
+  leftLabel: string;
+  rightLabel: string;
+}
+
+function formatBackupLabel(backup: VyOSConfigBackup): string {
+  return `Backup ${new Date(backup.timestamp).toLocaleString()}`;
+}
+
+export const BackupList: React.FC = () => {
+  const { selectedDeviceId, devices } = useDeviceStore();
+  const [backups, setBackups] = useState<VyOSConfigBackup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedRowKeys, setSelectedRowKeys] = useState<React.Key[]>([]);
+  const [compareDeviceId, setCompareDeviceId] = useState<string | undefined>();
+  const [diff, setDiff] = useState<DiffState | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importDescription, setImportDescription] = useState('');
+
+  const selectedDevice = devices.find((d) => d.id === selectedDeviceId);
+  const selectedBackups = backups.filter((b) => selectedRowKeys.includes(b.id));
+
+  const loadBackups = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setBackups(await invoke<VyOSConfigBackup[]>(IPCChannel.BACKUP_LIST, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const createBackup = async () => {
+    try {
+      await invoke(IPCChannel.BACKUP_CREATE, selectedDeviceId);
+      message.success('Backup created successfully.');
+      await loadBackups();
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const importBackup = async () => {
+    try {
+      await invoke<VyOSConfigBackup>(IPCChannel.BACKUP_IMPORT, {
+        deviceId: selectedDeviceId,
+        configText: importText,
+        description: importDescription || undefined,
+      });
+      message.success('Backup imported successfully.');
+      setImportOpen(false);
+      setImportText('');
+      setImportDescription('');
+      await loadBackups();
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const restoreBackup = (backup: VyOSConfigBackup) => {
+    Modal.confirm({
+      title: 'Restore configuration?',
+      content: `The running configuration will be changed to match ${formatBackupLabel(backup)}. A safety backup is taken first.`,
+      okText: 'Restore',
+      okButtonProps: { danger: true },
+      onOk: async () => {
+        try {
+          const result = await invoke<ConfigRestoreResult>(IPCChannel.BACKUP_RESTORE, {
+            deviceId: selectedDeviceId,
+            backupId: backup.id,
+          });
+
+          Modal.success({
+            title: 'Configuration restored',
+            width: 720,
+            content: result.commands.length === 0
+              ? 'The running configuration already matched the backup.'
+              : (
+                <div>
+                  <p>{result.setCount} set and {result.deleteCount} delete commands applied.</p>
+                  <pre style={{ maxHeight: 300, overflow: 'auto' }}>{result.commands.join('\n')}</pre>
+                </div>
+              ),
+          });
+          await loadBackups();
+        } catch (error) {
+          message.error((error as Error).message);
+        }
+      },
+    });
+  };
+
+  const compare = async (left: ConfigDiffSource, right: ConfigDiffSource, leftLabel: string, rightLabel: string) => {
+    try {
+      const result = await invoke<ConfigDiffResult>(IPCChannel.VYOS_DIFF_CONFIG, { left, right });
+      setDiff({ result, leftLabel, rightLabel });
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const compareWithLive = () => {
+    const [backup] = selectedBackups;
+    compare(
+      { type: 'backup', backupId: backup.id },
+      { type: 'live', deviceId: selectedDeviceId! },
+      formatBackupLabel(backup),
+      `Live (${selectedDevice?.name})`
+    );
+  };
+
+  const compareSelected = () => {
+    // Oldest on the left so additions read forward in time
+    const [newer, older] = selectedBackups;
+    compare(
+      { type: 'backup', backupId: older.id },
+      { type: 'backup', backupId: newer.id },
+      formatBackupLabel(older),
+      formatBackupLabel(newer)
+    );
+  };
+
+  const compareWithDevice = () => {
+    const other = devices.find((d) => d.id === compareDeviceId);
+    compare(
+      { type: 'live', deviceId: selectedDeviceId! },
+      { type: 'live', deviceId: compareDeviceId! },
+      `Live (${selectedDevice?.name})`,
+      `Live (${other?.name})`
+    );
+  };
+
+  const columns = [
+    {
+      title: 'Created',
+      dataIndex: 'timestamp',
+      key: 'timestamp',
+      render: (timestamp: Date) => new Date(timestamp).toLocaleString(),
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+    },
+    {
+      title: 'Size',
+      dataIndex: 'size',
+      key: 'size',
+      render: (size: number) => `${(size / 1024).toFixed(1)} KB`,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_: unknown, backup: VyOSConfigBackup) => (
+        <Button size="small" icon={<RollbackOutlined />} onClick={() => restoreBackup(backup)}>
+          Restore
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }} size="large">
+      <Card
+        title="Configuration Backups"
+        extra={
+          <Space>
+            <Button type="primary" icon={<DatabaseOutlined />} onClick={createBackup}>
+              Create Backup
+            </Button>
+            <Button icon={<ImportOutlined />} onClick={() => setImportOpen(true)}>
+              Import
+            </Button>
+            <Button icon={<DiffOutlined />} disabled={selectedBackups.length !== 1} onClick={compareWithLive}>
+              Compare with Live
+            </Button>
+            <Button icon={<DiffOutlined />} disabled={selectedBackups.length !== 2} onClick={compareSelected}>
+              Compare Selected
+            </Button>
+            <Select
+              placeholder="Other device"
+              style={{ width: 180 }}
+              value={compareDeviceId}
+              onChange={setCompareDeviceId}
+              options={devices
+                .filter((d) => d.id !== selectedDeviceId)
+                .map((d) => ({ value: d.id, label: d.name }))}
+            />
+            <Button icon={<DiffOutlined />} disabled={!compareDeviceId} onClick={compareWithDevice}>
+              Compare with Device
+            </Button>
+          </Space>
+        }
+      >
+        <Table
+          rowKey="id"
+          size="small"
+          loading={loading}
+          dataSource={backups}
+          columns={columns}
+          rowSelection={{
+            selectedRowKeys,
+            onChange: (keys) => setSelectedRowKeys(keys.slice(-2)),
+          }}
+        />
+      </Card>
+
+      <Modal
+        open={importOpen}
+        title="Import Configuration"
+        okText="Import"
+        okButtonProps={{ disabled: !importText.trim() }}
+        onOk={importBackup}
+        onCancel={() => setImportOpen(false)}
+        width={720}
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Upload
+            accept=".boot,.conf,.txt,.cfg"
+            showUploadList={false}
+            beforeUpload={(file) => {
+              file.text().then(setImportText);
+              return false;
+            }}
+          >
+            <Button icon={<UploadOutlined />}>Load config.boot or commands file</Button>
+          </Upload>
+          <Input.TextArea
+            rows={16}
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder="Paste 'show configuration' or 'show configuration commands' output"
+            style={{ fontFamily: 'monospace' }}
+          />
+          <Input
+            value={importDescription}
+            onChange={(e) => setImportDescription(e.target.value)}
+            placeholder="Description (optional)"
+          />
+        </Space>
+      </Modal>
+
+      {diff && (
+        <Card title="Configuration Diff" extra={<Button onClick={() => setDiff(null)}>Close</Button>}>
+          <ConfigDiffView diff={diff.result} leftLabel={diff.leftLabel} rightLabel={diff.rightLabel} />
+        </Card>
+      )}
+    </Space>
+  );
+};
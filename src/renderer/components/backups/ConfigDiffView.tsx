@@ -0,0 +1,124 @@
+/**
+ * Config Diff View - Side-by-side, collapsible tree of configuration differences
+ */
+
+import React, { useMemo } from 'react';
+import { Tree, Row, Col, Tag, Typography, Empty, Space } from 'antd';
+import type { DataNode } from 'antd/es/tree';
+import { ConfigDiffEntry, ConfigDiffResult, ConfigDiffSection } from '@shared/types';
+
+const { Text } = Typography;
+
+interface ConfigDiffViewProps {
+  diff: ConfigDiffResult;
+  leftLabel: string;
+  rightLabel: string;
+}
+
+interface DiffTreeNode extends DataNode {
+  label: string;
+  entry?: ConfigDiffEntry;
+  children: DiffTreeNode[];
+}
+
+const CHANGE_COLORS: Record<ConfigDiffEntry['type'], string> = {
+  added: 'green',
+  removed: 'red',
+  changed: 'orange',
+};
+
+function formatValue(values: string[] | undefined, present: boolean): string {
+  if (!present) {
+    return '—';
+  }
+  return values && values.length > 0 ? values.join(', ') : '(set)';
+}
+
+function buildSectionTree(section: ConfigDiffSection): DiffTreeNode {
+  const root: DiffTreeNode = { key: section.name, label: section.name, children: [] };
+
+  section.entries.forEach((entry) => {
+    let node = root;
+
+    entry.path.slice(1).forEach((part) => {
+      const key = `${node.key}/${part}`;
+      let child = node.children.find((c) => c.key === key);
+      if (!child) {
+        child = { key, label: part, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+
+    node.entry = entry;
+  });
+
+  return root;
+}
+
+export const ConfigDiffView: React.FC<ConfigDiffViewProps> = ({ diff, leftLabel, rightLabel }) => {
+  const treeData = useMemo(() => diff.sections.map(buildSectionTree), [diff]);
+
+  if (diff.sections.length === 0) {
+    return <Empty description="Configurations are identical" />;
+  }
+
+  const renderTitle = (node: DiffTreeNode) => {
+    const { entry } = node;
+
+    if (!entry) {
+      const section = diff.sections.find((s) => s.name === node.key);
+      return (
+        <Space>
+          <Text strong={!!section}>{node.label}</Text>
+          {section && <Tag>{section.entries.length} changes</Tag>}
+        </Space>
+      );
+    }
+
+    return (
+      <Row gutter={16} style={{ width: '100%' }}>
+        <Col span={8}>
+          <Space>
+            <Text>{node.label}</Text>
+            <Tag color={CHANGE_COLORS[entry.type]}>{entry.type}</Tag>
+          </Space>
+        </Col>
+        <Col span={8}>
+          <Text code type={entry.type === 'added' ? 'secondary' : 'danger'}>
+            {formatValue(entry.oldValue, entry.type !== 'added')}
+          </Text>
+        </Col>
+        <Col span={8}>
+          <Text code type={entry.type === 'removed' ? 'secondary' : 'success'}>
+            {formatValue(entry.newValue, entry.type !== 'removed')}
+          </Text>
+        </Col>
+      </Row>
+    );
+  };
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16 }}>
+        <Tag color="green">{diff.summary.added} added</Tag>
+        <Tag color="red">{diff.summary.removed} removed</Tag>
+        <Tag color="orange">{diff.summary.changed} changed</Tag>
+      </Space>
+
+      <Row gutter={16} style={{ padding: '0 24px 8px' }}>
+        <Col span={8}><Text type="secondary">Path</Text></Col>
+        <Col span={8}><Text type="secondary">{leftLabel}</Text></Col>
+        <Col span={8}><Text type="secondary">{rightLabel}</Text></Col>
+      </Row>
+
+      <Tree<DiffTreeNode>
+        blockNode
+        showLine
+        defaultExpandedKeys={treeData.map((node) => node.key)}
+        treeData={treeData}
+        titleRender={renderTitle}
+      />
+    </div>
+  );
+};
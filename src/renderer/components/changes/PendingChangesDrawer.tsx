@@ -0,0 +1,145 @@
+/**
+ * Pending Changes Drawer - Review staged commands and apply them with commit-confirm
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Drawer,
+  Empty,
+  InputNumber,
+  List,
+  Popconfirm,
+  Space,
+  Statistic,
+  Typography,
+  message,
+} from 'antd';
+import { CheckOutlined, DeleteOutlined, SendOutlined } from '@ant-design/icons';
+import { DEFAULTS, SUCCESS_MESSAGES } from '@shared/constants';
+import { useChangeSetStore } from '../../store/changeSetStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+
+const { Text } = Typography;
+
+export const PendingChangesDrawer: React.FC = () => {
+  const { drawerOpen, setDrawerOpen } = useChangeSetStore();
+  const { changeSet, refresh, removeChange, clear, apply, confirm } = usePendingChanges();
+  const [confirmMinutes, setConfirmMinutes] = useState<number>(DEFAULTS.COMMIT_CONFIRM_MINUTES);
+  const [busy, setBusy] = useState(false);
+
+  const changes = changeSet?.changes || [];
+  const awaitingConfirm = changeSet?.status === 'awaiting-confirm';
+
+  const withBusy = async (action: () => Promise<unknown>, successMessage?: string) => {
+    setBusy(true);
+    try {
+      await action();
+      if (successMessage) {
+        message.success(successMessage);
+      }
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Drawer
+      title="Pending Changes"
+      width={640}
+      open={drawerOpen}
+      onClose={() => setDrawerOpen(false)}
+      extra={
+        !awaitingConfirm && changes.length > 0 && (
+          <Popconfirm title="Discard all pending changes?" onConfirm={() => withBusy(clear)}>
+            <Button danger icon={<DeleteOutlined />}>Discard All</Button>
+          </Popconfirm>
+        )
+      }
+    >
+      {awaitingConfirm && changeSet?.confirmDeadline && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message="Awaiting confirmation"
+          description={
+            <Space direction="vertical" style={{ width: '100%' }}>
+              <Text>
+                The router will automatically revert these changes if they are not confirmed in time.
+                If the changes cut off connectivity, do nothing and the previous configuration will return.
+              </Text>
+              <Statistic.Countdown
+                title="Reverting in"
+                value={new Date(changeSet.confirmDeadline).getTime()}
+                onFinish={refresh}
+              />
+              <Button
+                type="primary"
+                icon={<CheckOutlined />}
+                loading={busy}
+                onClick={() => withBusy(confirm, SUCCESS_MESSAGES.COMMIT_CONFIRMED)}
+              >
+                Confirm
+              </Button>
+            </Space>
+          }
+        />
+      )}
+
+      {changeSet?.status === 'reverted' && (
+        <Alert
+          type="error"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message="Changes were reverted"
+          description="The confirmation window elapsed and the router rolled back. The changes below are still staged and can be applied again."
+        />
+      )}
+
+      {changes.length === 0 ? (
+        <Empty description="No pending changes" />
+      ) : (
+        <List
+          dataSource={changes}
+          renderItem={(change) => (
+            <List.Item
+              actions={awaitingConfirm ? [] : [
+                <Button
+                  key="remove"
+                  size="small"
+                  icon={<DeleteOutlined />}
+                  onClick={() => withBusy(() => removeChange(change.id))}
+                />,
+              ]}
+            >
+              <List.Item.Meta
+                title={change.description}
+                description={<pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>{change.commands.join('\n')}</pre>}
+              />
+            </List.Item>
+          )}
+        />
+      )}
+
+      {!awaitingConfirm && changes.length > 0 && (
+        <Space style={{ marginTop: 16 }}>
+          <Text>Revert unless confirmed within</Text>
+          <InputNumber min={1} max={60} value={confirmMinutes} onChange={(value) => setConfirmMinutes(value || 1)} />
+          <Text>minutes</Text>
+          <Button
+            type="primary"
+            icon={<SendOutlined />}
+            loading={busy}
+            onClick={() => withBusy(() => apply(confirmMinutes))}
+          >
+            Apply with Commit-Confirm
+          </Button>
+        </Space>
+      )}
+    </Drawer>
+  );
+};
@@ -0,0 +1,209 @@
+/**
+ * Device Form - Add or edit a device profile, including its jump host chain
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Card, Divider, Form, Input, InputNumber, Modal, Radio, Space, Typography, message } from 'antd';
+import { ArrowDownOutlined, DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { DeviceProfile, IPCChannel, JumpHost } from '@shared/types';
+import { DEFAULTS } from '@shared/constants';
+import { isValidHostname, isValidIPAddress, isValidPort } from '@shared/validators';
+import { invoke } from '../../services/ipc';
+
+const { Text } = Typography;
+
+interface DeviceFormProps {
+  open: boolean;
+  device?: DeviceProfile | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type DeviceFormValues = Pick<
+  DeviceProfile,
+  'name' | 'host' | 'port' | 'username' | 'authType' | 'keyPath' | 'password' | 'privateKey' | 'jumpHosts'
+>;
+
+const hostRule = {
+  validator: (_: unknown, value?: string) =>
+    !value || isValidIPAddress(value) || isValidHostname(value)
+      ? Promise.resolve()
+      : Promise.reject(new Error('Enter a valid IP address or hostname')),
+};
+
+const portRule = {
+  validator: (_: unknown, value?: number) =>
+    value === undefined || isValidPort(value) ? Promise.resolve() : Promise.reject(new Error('Invalid port')),
+};
+
+/**
+ * Password or key inputs; left blank on edit, the stored secret is kept
+ */
+const CredentialFields: React.FC<{ namePrefix: (string | number)[]; editing: boolean; authType?: string }> = ({
+  namePrefix,
+  editing,
+  authType,
+}) => {
+  const placeholder = editing ? 'Leave blank to keep the stored secret' : undefined;
+
+  return authType === 'key' ? (
+    <>
+      <Form.Item label="Private Key File" name={[...namePrefix, 'keyPath']}>
+        <Input placeholder="C:\Users\me\.ssh\id_ed25519" />
+      </Form.Item>
+      <Form.Item label="Private Key" name={[...namePrefix, 'privateKey']}>
+        <Input.TextArea rows={3} placeholder={placeholder || 'Paste the key if no file is given'} />
+      </Form.Item>
+    </>
+  ) : (
+    <Form.Item
+      label="Password"
+      name={[...namePrefix, 'password']}
+      rules={editing ? [] : [{ required: true, message: 'Password is required' }]}
+    >
+      <Input.Password placeholder={placeholder} />
+    </Form.Item>
+  );
+};
+
+export const DeviceForm: React.FC<DeviceFormProps> = ({ open, device, onClose, onSaved }) => {
+  const [form] = Form.useForm<DeviceFormValues>();
+  const [saving, setSaving] = useState(false);
+  const editing = !!device;
+
+  const authType = Form.useWatch('authType', form);
+  const jumpHosts = Form.useWatch('jumpHosts', form) as JumpHost[] | undefined;
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(
+        device
+          ? { ...device, password: undefined, privateKey: undefined }
+          : { port: DEFAULTS.SSH_PORT, username: 'vyos', authType: 'password', jumpHosts: [] }
+      );
+    }
+  }, [open, device, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+
+    setSaving(true);
+    try {
+      if (device) {
+        await invoke(IPCChannel.DEVICE_UPDATE, { ...device, ...values });
+      } else {
+        await invoke(IPCChannel.DEVICE_ADD, { ...values, credentialId: '' });
+      }
+
+      message.success(editing ? 'Device updated' : 'Device added');
+      onSaved();
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={editing ? `Edit ${device!.name}` : 'Add Device'}
+      okText="Save"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={720}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+          <Input />
+        </Form.Item>
+        <Space align="start">
+          <Form.Item label="Host" name="host" rules={[{ required: true, message: 'Host is required' }, hostRule]}>
+            <Input style={{ width: 320 }} />
+          </Form.Item>
+          <Form.Item label="Port" name="port" rules={[{ required: true }, portRule]}>
+            <InputNumber min={1} max={65535} />
+          </Form.Item>
+          <Form.Item label="Username" name="username" rules={[{ required: true, message: 'Username is required' }]}>
+            <Input />
+          </Form.Item>
+        </Space>
+        <Form.Item label="Authentication" name="authType">
+          <Radio.Group>
+            <Radio value="password">Password</Radio>
+            <Radio value="key">SSH Key</Radio>
+          </Radio.Group>
+        </Form.Item>
+        <CredentialFields namePrefix={[]} editing={editing} authType={authType} />
+
+        <Divider orientation="left">Jump Hosts</Divider>
+        <Text type="secondary">
+          Connections go through each jump host in order, then on to the device.
+        </Text>
+
+        <Form.List name="jumpHosts">
+          {(fields, { add, remove }) => (
+            <Space direction="vertical" style={{ width: '100%', marginTop: 16 }}>
+              {fields.map((field, index) => (
+                <React.Fragment key={field.key}>
+                  <Card
+                    size="small"
+                    title={`Jump host ${index + 1}`}
+                    extra={<Button size="small" icon={<DeleteOutlined />} onClick={() => remove(field.name)} />}
+                  >
+                    <Form.Item name={[field.name, 'id']} hidden>
+                      <Input />
+                    </Form.Item>
+                    <Space align="start">
+                      <Form.Item
+                        label="Host"
+                        name={[field.name, 'host']}
+                        rules={[{ required: true, message: 'Host is required' }, hostRule]}
+                      >
+                        <Input style={{ width: 280 }} />
+                      </Form.Item>
+                      <Form.Item label="Port" name={[field.name, 'port']} rules={[{ required: true }, portRule]}>
+                        <InputNumber min={1} max={65535} />
+                      </Form.Item>
+                      <Form.Item
+                        label="Username"
+                        name={[field.name, 'username']}
+                        rules={[{ required: true, message: 'Username is required' }]}
+                      >
+                        <Input />
+                      </Form.Item>
+                    </Space>
+                    <Form.Item label="Authentication" name={[field.name, 'authType']}>
+                      <Radio.Group>
+                        <Radio value="password">Password</Radio>
+                        <Radio value="key">SSH Key</Radio>
+                      </Radio.Group>
+                    </Form.Item>
+                    <CredentialFields
+                      namePrefix={[field.name]}
+                      editing={!!jumpHosts?.[index]?.id}
+                      authType={jumpHosts?.[index]?.authType}
+                    />
+                  </Card>
+                  <ArrowDownOutlined style={{ alignSelf: 'center' }} />
+                </React.Fragment>
+              ))}
+              <Button
+                type="dashed"
+                block
+                icon={<PlusOutlined />}
+                onClick={() => add({ port: DEFAULTS.SSH_PORT, authType: 'password' })}
+              >
+                Add Jump Host
+              </Button>
+            </Space>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,219 @@
+/**
+ * Device List - Device inventory with connect, test and host key actions
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Space, Table, Tag, Tooltip, Typography, message } from 'antd';
+import {
+  ApiOutlined,
+  DisconnectOutlined,
+  EditOutlined,
+  ImportOutlined,
+  PlusOutlined,
+  ThunderboltOutlined,
+} from '@ant-design/icons';
+import { DeviceProfile, IPCChannel, SSHConnectionState } from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { useDeviceConnection } from '../../hooks/useDeviceConnection';
+import { HostKeyDialog } from './HostKeyDialog';
+import { DeviceForm } from './DeviceForm';
+
+const { Text } = Typography;
+
+const STATUS_COLORS: Record<DeviceProfile['status'], string> = {
+  online: 'green',
+  offline: 'red',
+  unknown: 'default',
+};
+
+const CONNECTION_COLORS: Record<SSHConnectionState, string> = {
+  connecting: 'processing',
+  connected: 'success',
+  reconnecting: 'warning',
+  disconnected: 'default',
+};
+
+export const DeviceList: React.FC = () => {
+  const { devices, selectedDeviceId, connectionStates, loading, setDevices, selectDevice, setLoading } = useDeviceStore();
+  const { hostKeyPrompt, connect, test, importKnownHosts, approveHostKey, rejectHostKey } = useDeviceConnection();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingDevice, setEditingDevice] = useState<DeviceProfile | null>(null);
+
+  const openForm = (device: DeviceProfile | null) => {
+    setEditingDevice(device);
+    setFormOpen(true);
+  };
+
+  const loadDevices = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDevices(await invoke<DeviceProfile[]>(IPCChannel.DEVICE_LIST));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [setDevices, setLoading]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const connectDevice = async (device: DeviceProfile) => {
+    try {
+      if (await connect(device.id)) {
+        selectDevice(device.id);
+        message.success(`Connected to ${device.name}`);
+        await loadDevices();
+      }
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const disconnectDevice = async (device: DeviceProfile) => {
+    try {
+      await invoke(IPCChannel.SSH_DISCONNECT, device.id);
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const testDevice = async (device: DeviceProfile) => {
+    try {
+      const result = await test(device.id);
+      if (result) {
+        if (result.success) {
+          message.success(`${device.name}: VyOS ${result.vyosVersion || 'unknown'} (${result.latency} ms)`);
+        } else {
+          message.error(`${device.name}: ${result.error}`);
+        }
+        await loadDevices();
+      }
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const importHostKey = async (device: DeviceProfile) => {
+    try {
+      const hostKey = await importKnownHosts(device.id);
+      message.success(`Trusted ${hostKey.type} key from known_hosts`);
+      await loadDevices();
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const approve = async () => {
+    await approveHostKey();
+    await loadDevices();
+  };
+
+  const columns = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+    },
+    {
+      title: 'Host',
+      key: 'host',
+      render: (_: unknown, device: DeviceProfile) => (
+        <Space>
+          <Text>{device.host}:{device.port}</Text>
+          {device.jumpHosts && device.jumpHosts.length > 0 && (
+            <Tooltip title={device.jumpHosts.map((hop) => `${hop.username}@${hop.host}:${hop.port}`).join(' → ')}>
+              <Tag>via {device.jumpHosts.length} jump host{device.jumpHosts.length > 1 ? 's' : ''}</Tag>
+            </Tooltip>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: 'Version',
+      dataIndex: 'vyosVersion',
+      key: 'vyosVersion',
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (status: DeviceProfile['status']) => <Tag color={STATUS_COLORS[status]}>{status}</Tag>,
+    },
+    {
+      title: 'Session',
+      key: 'session',
+      render: (_: unknown, device: DeviceProfile) => {
+        const state = connectionStates[device.id] || 'disconnected';
+        return <Tag color={CONNECTION_COLORS[state]}>{state}</Tag>;
+      },
+    },
+    {
+      title: 'Host Key',
+      key: 'hostKey',
+      render: (_: unknown, device: DeviceProfile) =>
+        device.hostKeyFingerprint ? (
+          <Tooltip title={device.hostKeyFingerprint}>
+            <Text code>{device.hostKeyType}</Text>
+          </Tooltip>
+        ) : (
+          <Text type="secondary">Not trusted yet</Text>
+        ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_: unknown, device: DeviceProfile) => (
+        <Space>
+          {(connectionStates[device.id] || 'disconnected') === 'disconnected' ? (
+            <Button size="small" type="primary" icon={<ApiOutlined />} onClick={() => connectDevice(device)}>
+              Connect
+            </Button>
+          ) : (
+            <Button size="small" icon={<DisconnectOutlined />} onClick={() => disconnectDevice(device)}>
+              Disconnect
+            </Button>
+          )}
+          <Button size="small" icon={<EditOutlined />} onClick={() => openForm(device)}>
+            Edit
+          </Button>
+          <Button size="small" icon={<ThunderboltOutlined />} onClick={() => testDevice(device)}>
+            Test
+          </Button>
+          <Button size="small" icon={<ImportOutlined />} onClick={() => importHostKey(device)}>
+            Import known_hosts
+          </Button>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Card
+      title="Devices"
+      extra={
+        <Button type="primary" icon={<PlusOutlined />} onClick={() => openForm(null)}>
+          Add Device
+        </Button>
+      }
+    >
+      <Table
+        rowKey="id"
+        size="small"
+        loading={loading}
+        dataSource={devices}
+        columns={columns}
+        rowSelection={{
+          type: 'radio',
+          selectedRowKeys: selectedDeviceId ? [selectedDeviceId] : [],
+          onChange: (keys) => selectDevice((keys[0] as string) || null),
+        }}
+      />
+
+      <HostKeyDialog prompt={hostKeyPrompt} onApprove={approve} onReject={rejectHostKey} />
+      <DeviceForm open={formOpen} device={editingDevice} onClose={() => setFormOpen(false)} onSaved={loadDevices} />
+    </Card>
+  );
+};
@@ -0,0 +1,97 @@
+/**
+ * Host Key Dialog - Approve an unknown host key or react to a changed one
+ */
+
+import React, { useState } from 'react';
+import { Alert, Checkbox, Descriptions, Modal, Typography, message } from 'antd';
+import { HostKeyPrompt } from '@shared/types';
+
+const { Paragraph, Text } = Typography;
+
+interface HostKeyDialogProps {
+  prompt: HostKeyPrompt | null;
+  onApprove: () => Promise<void>;
+  onReject: () => void;
+}
+
+export const HostKeyDialog: React.FC<HostKeyDialogProps> = ({ prompt, onApprove, onReject }) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [approving, setApproving] = useState(false);
+
+  if (!prompt) {
+    return null;
+  }
+
+  const mismatch = prompt.status === 'mismatch';
+  const endpoint = prompt.port === 22 ? prompt.host : `${prompt.host}:${prompt.port}`;
+  const jumpHost = Boolean(prompt.jumpHostId);
+
+  const close = () => {
+    setAcknowledged(false);
+    onReject();
+  };
+
+  const approve = async () => {
+    setApproving(true);
+    try {
+      await onApprove();
+      setAcknowledged(false);
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open
+      title={`${mismatch ? 'Host key has changed' : 'Unknown host key'}${jumpHost ? ' (jump host)' : ''}`}
+      okText={mismatch ? 'Replace Trusted Key' : 'Trust and Connect'}
+      okButtonProps={{ danger: mismatch, disabled: mismatch && !acknowledged, loading: approving }}
+      cancelText="Cancel"
+      onOk={approve}
+      onCancel={close}
+      width={640}
+    >
+      {mismatch ? (
+        <Alert
+          type="error"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message="The key presented by this router does not match the one you trusted"
+          description="Someone could be intercepting the connection, or the router was reinstalled and generated new keys. Only replace the trusted key if you can confirm the new fingerprint from the router console."
+        />
+      ) : (
+        <Paragraph>
+          This is the first connection to {jumpHost ? 'jump host ' : ''}<Text strong>{endpoint}</Text>. Check the fingerprint against the
+          router's console (<Text code>show system host-keys</Text>) before trusting it.
+        </Paragraph>
+      )}
+
+      <Descriptions column={1} size="small" bordered>
+        <Descriptions.Item label={jumpHost ? 'Jump host' : 'Host'}>{endpoint}</Descriptions.Item>
+        {prompt.expected && (
+          <Descriptions.Item label="Trusted key">
+            <Text code>{prompt.expected.type} {prompt.expected.fingerprint}</Text>
+          </Descriptions.Item>
+        )}
+        <Descriptions.Item label="Presented key">
+          <Text code type={mismatch ? 'danger' : undefined}>
+            {prompt.presented.type} {prompt.presented.fingerprint}
+          </Text>
+        </Descriptions.Item>
+      </Descriptions>
+
+      {mismatch && (
+        <Checkbox
+          style={{ marginTop: 16 }}
+          checked={acknowledged}
+          onChange={(e) => setAcknowledged(e.target.checked)}
+        >
+          I have verified the new fingerprint out of band
+        </Checkbox>
+      )}
+    </Modal>
+  );
+};
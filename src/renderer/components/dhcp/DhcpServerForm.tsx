@@ -0,0 +1,199 @@
+/**
+ * DHCP Server Form - Add or edit a shared network, its subnets, ranges and static mappings
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Card, Form, Input, InputNumber, Modal, Select, Space, Switch, message } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { DhcpServer, DhcpSubnet } from '@shared/types';
+import { validateDhcpServer } from '@shared/validators';
+
+interface DhcpServerFormProps {
+  open: boolean;
+  server?: DhcpServer | null;
+  servers: DhcpServer[];
+  onClose: () => void;
+  onSubmit: (server: DhcpServer) => Promise<void>;
+}
+
+export const DhcpServerForm: React.FC<DhcpServerFormProps> = ({ open, server, servers, onClose, onSubmit }) => {
+  const [form] = Form.useForm<DhcpServer>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(server || { subnets: [] });
+    }
+  }, [open, server, form]);
+
+  /**
+   * Subnet IDs must be unique across every shared network on the device
+   */
+  const nextSubnetId = () => {
+    const current: DhcpSubnet[] = form.getFieldValue('subnets') || [];
+    const ids = [
+      ...servers.filter((other) => other.name !== server?.name).flatMap((other) => other.subnets),
+      ...current,
+    ].map((subnet) => subnet?.subnetId || 0);
+
+    return Math.max(0, ...ids) + 1;
+  };
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: DhcpServer = {
+      ...values,
+      subnets: (values.subnets || []).map((subnet) => ({
+        ...subnet,
+        nameServers: subnet.nameServers || [],
+        ranges: subnet.ranges || [],
+        staticMappings: subnet.staticMappings || [],
+      })),
+    };
+
+    const validation = validateDhcpServer(updated);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={server ? `Edit DHCP server ${server.name}` : 'Add DHCP Server'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={960}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space wrap align="start">
+          <Form.Item label="Shared Network" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+            <Input placeholder="LAN" disabled={!!server} />
+          </Form.Item>
+          <Form.Item label="Description" name="description">
+            <Input style={{ width: 320 }} />
+          </Form.Item>
+          <Form.Item label="Authoritative" name="authoritative" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+        </Space>
+
+        <Form.List name="subnets">
+          {(subnetFields, { add: addSubnet, remove: removeSubnet }) => (
+            <Space direction="vertical" style={{ width: '100%' }}>
+              {subnetFields.map((subnetField) => (
+                <Card
+                  key={subnetField.key}
+                  size="small"
+                  extra={<Button size="small" danger icon={<DeleteOutlined />} onClick={() => removeSubnet(subnetField.name)} />}
+                  title={
+                    <Space align="baseline" wrap>
+                      <Form.Item label="Subnet" name={[subnetField.name, 'subnet']} rules={[{ required: true }]}>
+                        <Input placeholder="192.168.1.0/24" style={{ width: 160 }} />
+                      </Form.Item>
+                      <Form.Item label="Subnet ID" name={[subnetField.name, 'subnetId']}>
+                        <InputNumber min={1} />
+                      </Form.Item>
+                    </Space>
+                  }
+                >
+                  <Space wrap align="start">
+                    <Form.Item label="Default Router" name={[subnetField.name, 'defaultRouter']}>
+                      <Input placeholder="192.168.1.1" style={{ width: 150 }} />
+                    </Form.Item>
+                    <Form.Item label="Name Servers" name={[subnetField.name, 'nameServers']}>
+                      <Select mode="tags" open={false} placeholder="192.168.1.1" style={{ width: 240 }} />
+                    </Form.Item>
+                    <Form.Item label="Domain" name={[subnetField.name, 'domainName']}>
+                      <Input placeholder="lan.example.com" style={{ width: 180 }} />
+                    </Form.Item>
+                    <Form.Item label="Lease (s)" name={[subnetField.name, 'lease']}>
+                      <InputNumber min={60} placeholder="86400" />
+                    </Form.Item>
+                  </Space>
+
+                  <Form.Item label="Ranges">
+                    <Form.List name={[subnetField.name, 'ranges']}>
+                      {(fields, { add, remove }) => (
+                        <>
+                          {fields.map((field) => (
+                            <Space key={field.key} align="start">
+                              <Form.Item name={[field.name, 'id']} rules={[{ required: true, message: 'ID' }]}>
+                                <Input placeholder="0" style={{ width: 60 }} />
+                              </Form.Item>
+                              <Form.Item name={[field.name, 'start']} rules={[{ required: true, message: 'Start' }]}>
+                                <Input placeholder="192.168.1.100" style={{ width: 150 }} />
+                              </Form.Item>
+                              <Form.Item name={[field.name, 'stop']} rules={[{ required: true, message: 'Stop' }]}>
+                                <Input placeholder="192.168.1.199" style={{ width: 150 }} />
+                              </Form.Item>
+                              <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                            </Space>
+                          ))}
+                          <Button type="dashed" icon={<PlusOutlined />} onClick={() => add({ id: String(fields.length) })}>
+                            Add Range
+                          </Button>
+                        </>
+                      )}
+                    </Form.List>
+                  </Form.Item>
+
+                  <Form.Item label="Static Mappings">
+                    <Form.List name={[subnetField.name, 'staticMappings']}>
+                      {(fields, { add, remove }) => (
+                        <>
+                          {fields.map((field) => (
+                            <Space key={field.key} align="start">
+                              <Form.Item name={[field.name, 'name']} rules={[{ required: true, message: 'Name' }]}>
+                                <Input placeholder="printer" style={{ width: 140 }} />
+                              </Form.Item>
+                              <Form.Item name={[field.name, 'ipAddress']} rules={[{ required: true, message: 'Address' }]}>
+                                <Input placeholder="192.168.1.20" style={{ width: 150 }} />
+                              </Form.Item>
+                              <Form.Item name={[field.name, 'macAddress']} rules={[{ required: true, message: 'MAC' }]}>
+                                <Input placeholder="00:11:22:33:44:55" style={{ width: 170 }} />
+                              </Form.Item>
+                              <Form.Item name={[field.name, 'description']}>
+                                <Input placeholder="Description" style={{ width: 160 }} />
+                              </Form.Item>
+                              <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                            </Space>
+                          ))}
+                          <Button type="dashed" icon={<PlusOutlined />} onClick={() => add()}>
+                            Add Static Mapping
+                          </Button>
+                        </>
+                      )}
+                    </Form.List>
+                  </Form.Item>
+                </Card>
+              ))}
+              <Button
+                type="dashed"
+                icon={<PlusOutlined />}
+                onClick={() => addSubnet({ subnetId: nextSubnetId(), nameServers: [], ranges: [], staticMappings: [] })}
+              >
+                Add Subnet
+              </Button>
+            </Space>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,289 @@
+/**
+ * DHCP View - DHCP shared networks and live leases of the selected device
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Popconfirm, Space, Table, Tag, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, PushpinOutlined, ReloadOutlined } from '@ant-design/icons';
+import { DhcpLease, DhcpServer, DhcpStaticMapping, DhcpSubnet, IPCChannel } from '@shared/types';
+import { isIPv4InSubnet } from '@shared/validators';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { DhcpServerForm } from './DhcpServerForm';
+
+/**
+ * Shared network and subnet a lease was handed out from; the pool column
+ * names the shared network, the address picks the subnet
+ */
+function findLeaseSubnet(servers: DhcpServer[], lease: DhcpLease): { server: DhcpServer; subnet: DhcpSubnet } | null {
+  for (const server of servers) {
+    if (lease.pool && lease.pool !== server.name) {
+      continue;
+    }
+
+    const subnet = server.subnets.find((candidate) => isIPv4InSubnet(lease.ipAddress, candidate.subnet));
+    if (subnet) {
+      return { server, subnet };
+    }
+  }
+
+  return null;
+}
+
+function isStaticLease(subnet: DhcpSubnet, lease: DhcpLease): boolean {
+  return subnet.staticMappings.some(
+    (mapping) =>
+      mapping.ipAddress === lease.ipAddress || mapping.macAddress.toLowerCase() === lease.macAddress.toLowerCase()
+  );
+}
+
+/**
+ * Mapping name from the client hostname, or the address when there is none
+ */
+function staticMappingName(subnet: DhcpSubnet, lease: DhcpLease): string {
+  const base = (lease.hostname || `host-${lease.ipAddress}`).replace(/[^A-Za-z0-9_-]/g, '-').replace(/^[-_]+/, '') || 'host';
+  const taken = new Set(subnet.staticMappings.map((mapping) => mapping.name));
+
+  let name = base;
+  for (let i = 2; taken.has(name); i++) {
+    name = `${base}-${i}`;
+  }
+  return name;
+}
+
+export const DhcpView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [servers, setServers] = useState<DhcpServer[]>([]);
+  const [leases, setLeases] = useState<DhcpLease[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [leasesLoading, setLeasesLoading] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingServer, setEditingServer] = useState<DhcpServer | null>(null);
+
+  const loadServers = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setServers(await invoke<DhcpServer[]>(IPCChannel.VYOS_GET_DHCP, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  const loadLeases = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLeasesLoading(true);
+    try {
+      setLeases(await invoke<DhcpLease[]>(IPCChannel.VYOS_GET_DHCP_LEASES, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLeasesLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadServers();
+    loadLeases();
+  }, [loadServers, loadLeases]);
+
+  const openForm = (server: DhcpServer | null) => {
+    setEditingServer(server);
+    setFormOpen(true);
+  };
+
+  const saveServer = async (server: DhcpServer) => {
+    const commands = await previewCommands('dhcp-server', server);
+    // Edits replace the shared network so removed subnets and mappings go away
+    const removal = editingServer ? await previewCommands('delete-dhcp-server', editingServer) : [];
+    await stageChange(`${editingServer ? 'Update' : 'Add'} DHCP server ${server.name}`, [...removal, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deleteServer = async (server: DhcpServer) => {
+    try {
+      await stageChange(`Delete DHCP server ${server.name}`, await previewCommands('delete-dhcp-server', server));
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const makeStatic = async (lease: DhcpLease) => {
+    const match = findLeaseSubnet(servers, lease);
+    if (!match) {
+      message.error(`No DHCP subnet on this device contains ${lease.ipAddress}`);
+      return;
+    }
+
+    const mapping: DhcpStaticMapping = {
+      name: staticMappingName(match.subnet, lease),
+      ipAddress: lease.ipAddress,
+      macAddress: lease.macAddress,
+    };
+
+    try {
+      const commands = await previewCommands('dhcp-static-mapping', {
+        server: match.server.name,
+        subnet: match.subnet.subnet,
+        mapping,
+      });
+      await stageChange(`Add static mapping ${mapping.name} (${mapping.ipAddress}) to ${match.server.name}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const renderSubnets = (server: DhcpServer) => (
+    <Table<DhcpSubnet>
+      rowKey="subnet"
+      size="small"
+      pagination={false}
+      dataSource={server.subnets}
+      expandable={{
+        rowExpandable: (subnet) => subnet.staticMappings.length > 0,
+        expandedRowRender: (subnet) => (
+          <Table<DhcpStaticMapping>
+            rowKey="name"
+            size="small"
+            pagination={false}
+            dataSource={subnet.staticMappings}
+            columns={[
+              { title: 'Mapping', dataIndex: 'name' },
+              { title: 'Address', dataIndex: 'ipAddress' },
+              { title: 'MAC', dataIndex: 'macAddress' },
+              { title: 'Description', dataIndex: 'description' },
+            ]}
+          />
+        ),
+      }}
+      columns={[
+        { title: 'Subnet', dataIndex: 'subnet' },
+        { title: 'ID', dataIndex: 'subnetId' },
+        {
+          title: 'Ranges',
+          dataIndex: 'ranges',
+          render: (ranges: DhcpSubnet['ranges']) => ranges.map((range) => <div key={range.id}>{`${range.start} - ${range.stop}`}</div>),
+        },
+        { title: 'Router', dataIndex: 'defaultRouter' },
+        { title: 'Name Servers', dataIndex: 'nameServers', render: (nameServers: string[]) => nameServers.join(', ') },
+        { title: 'Domain', dataIndex: 'domainName' },
+        { title: 'Lease', dataIndex: 'lease', render: (lease?: number) => (lease ? `${lease}s` : '-') },
+        { title: 'Static', render: (_, subnet) => subnet.staticMappings.length },
+      ]}
+    />
+  );
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Card
+        title="DHCP Server"
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={loadServers} loading={loading}>
+              Refresh
+            </Button>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openForm(null)}>
+              Add Shared Network
+            </Button>
+          </Space>
+        }
+      >
+        <Table<DhcpServer>
+          rowKey="name"
+          loading={loading}
+          dataSource={servers}
+          pagination={false}
+          expandable={{ expandedRowRender: renderSubnets, rowExpandable: (server) => server.subnets.length > 0 }}
+          columns={[
+            { title: 'Shared Network', dataIndex: 'name' },
+            {
+              title: 'Subnets',
+              dataIndex: 'subnets',
+              render: (subnets: DhcpSubnet[]) => subnets.map((subnet) => <Tag key={subnet.subnet}>{subnet.subnet}</Tag>),
+            },
+            { title: 'Authoritative', dataIndex: 'authoritative', render: (authoritative?: boolean) => (authoritative ? 'Yes' : 'No') },
+            { title: 'Description', dataIndex: 'description' },
+            {
+              title: 'Actions',
+              render: (_, server) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openForm(server)}>
+                    Edit
+                  </Button>
+                  <Popconfirm title={`Delete DHCP server ${server.name}?`} onConfirm={() => deleteServer(server)}>
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <Card
+        title="Leases"
+        extra={
+          <Button icon={<ReloadOutlined />} onClick={loadLeases} loading={leasesLoading}>
+            Refresh
+          </Button>
+        }
+      >
+        <Table<DhcpLease>
+          rowKey="ipAddress"
+          size="small"
+          loading={leasesLoading}
+          dataSource={leases}
+          pagination={{ pageSize: 20, hideOnSinglePage: true }}
+          columns={[
+            { title: 'Address', dataIndex: 'ipAddress' },
+            { title: 'MAC', dataIndex: 'macAddress' },
+            { title: 'Hostname', dataIndex: 'hostname' },
+            {
+              title: 'State',
+              dataIndex: 'state',
+              render: (state?: string) => state && <Tag color={state === 'active' ? 'green' : 'default'}>{state}</Tag>,
+            },
+            { title: 'Pool', dataIndex: 'pool' },
+            { title: 'Expires', dataIndex: 'leaseExpiration' },
+            { title: 'Remaining', dataIndex: 'remaining' },
+            {
+              title: 'Actions',
+              render: (_, lease) => {
+                const match = findLeaseSubnet(servers, lease);
+                if (match && isStaticLease(match.subnet, lease)) {
+                  return <Tag color="blue">Static</Tag>;
+                }
+
+                return (
+                  <Button size="small" icon={<PushpinOutlined />} disabled={!match} onClick={() => makeStatic(lease)}>
+                    Make Static
+                  </Button>
+                );
+              },
+            },
+          ]}
+        />
+      </Card>
+
+      <DhcpServerForm
+        open={formOpen}
+        server={editingServer}
+        servers={servers}
+        onClose={() => setFormOpen(false)}
+        onSubmit={saveServer}
+      />
+    </Space>
+  );
+};
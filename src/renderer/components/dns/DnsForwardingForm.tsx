@@ -0,0 +1,154 @@
+/**
+ * DNS Forwarding Form - Listen addresses, clients, upstreams and per-domain overrides
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Form, Input, InputNumber, Modal, Select, Space, Switch, message } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { DnsForwarding } from '@shared/types';
+import { validateDnsForwarding } from '@shared/validators';
+
+interface DnsForwardingFormProps {
+  open: boolean;
+  forwarding?: DnsForwarding | null;
+  onClose: () => void;
+  onSubmit: (forwarding: DnsForwarding) => Promise<void>;
+}
+
+export const DnsForwardingForm: React.FC<DnsForwardingFormProps> = ({ open, forwarding, onClose, onSubmit }) => {
+  const [form] = Form.useForm<DnsForwarding>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(
+        forwarding || { listenAddresses: [], allowFrom: [], nameServers: [], domainOverrides: [] }
+      );
+    }
+  }, [open, forwarding, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: DnsForwarding = {
+      ...values,
+      cacheSize: values.cacheSize ?? undefined,
+      listenAddresses: values.listenAddresses || [],
+      allowFrom: values.allowFrom || [],
+      nameServers: (values.nameServers || []).map((upstream) => ({
+        address: upstream.address,
+        port: upstream.port ?? undefined,
+      })),
+      domainOverrides: (values.domainOverrides || []).map((override) => ({
+        domain: override.domain,
+        servers: override.servers || [],
+      })),
+    };
+
+    const validation = validateDnsForwarding(updated);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={forwarding ? 'Edit DNS Forwarding' : 'Enable DNS Forwarding'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={720}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item
+          label="Listen Addresses"
+          name="listenAddresses"
+          tooltip="Router addresses the resolver answers on"
+          rules={[{ required: true, message: 'At least one listen address is required' }]}
+        >
+          <Select mode="tags" open={false} placeholder="192.168.1.1" />
+        </Form.Item>
+        <Form.Item
+          label="Allowed Clients"
+          name="allowFrom"
+          rules={[{ required: true, message: 'At least one client network is required' }]}
+        >
+          <Select mode="tags" open={false} placeholder="192.168.1.0/24" />
+        </Form.Item>
+        <Space wrap align="start">
+          <Form.Item label="Cache Size" name="cacheSize" tooltip="Entries; 0 disables caching">
+            <InputNumber min={0} placeholder="10000" style={{ width: 160 }} />
+          </Form.Item>
+          <Form.Item
+            label="Use System Name Servers"
+            name="useSystemNameServers"
+            valuePropName="checked"
+            tooltip="Also forward to the name servers under System"
+          >
+            <Switch />
+          </Form.Item>
+        </Space>
+
+        <Form.Item label="Upstream Name Servers">
+          <Form.List name="nameServers">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="start">
+                    <Form.Item name={[field.name, 'address']} rules={[{ required: true, message: 'Address' }]}>
+                      <Input placeholder="1.1.1.1" style={{ width: 220 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'port']} tooltip="VyOS 1.4 and later">
+                      <InputNumber min={1} max={65535} placeholder="53" />
+                    </Form.Item>
+                    <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Button type="dashed" icon={<PlusOutlined />} onClick={() => add()}>
+                  Add Name Server
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+
+        <Form.Item label="Domain Overrides" tooltip="Send queries for a domain to specific servers, e.g. a branch's AD controllers">
+          <Form.List name="domainOverrides">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="start">
+                    <Form.Item name={[field.name, 'domain']} rules={[{ required: true, message: 'Domain' }]}>
+                      <Input placeholder="corp.example.com" style={{ width: 220 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'servers']} rules={[{ required: true, message: 'Servers' }]}>
+                      <Select mode="tags" open={false} placeholder="10.0.0.10" style={{ width: 300 }} />
+                    </Form.Item>
+                    <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Button type="dashed" icon={<PlusOutlined />} onClick={() => add({ servers: [] })}>
+                  Add Domain Override
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,202 @@
+/**
+ * DNS View - DNS forwarding and static host mappings of the selected device
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Descriptions, Empty, Popconfirm, Space, Table, Tag, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { DnsConfig, DnsForwarding, IPCChannel, StaticHostMapping } from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { DnsForwardingForm } from './DnsForwardingForm';
+import { StaticHostForm } from './StaticHostForm';
+
+export const DnsView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [dns, setDns] = useState<DnsConfig>({ forwarding: null, staticHosts: [] });
+  const [loading, setLoading] = useState(false);
+  const [forwardingFormOpen, setForwardingFormOpen] = useState(false);
+  const [hostFormOpen, setHostFormOpen] = useState(false);
+  const [editingHost, setEditingHost] = useState<StaticHostMapping | null>(null);
+
+  const loadDns = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setDns(await invoke<DnsConfig>(IPCChannel.VYOS_GET_DNS, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadDns();
+  }, [loadDns]);
+
+  const saveForwarding = async (forwarding: DnsForwarding) => {
+    const commands = await previewCommands('dns-forwarding', forwarding);
+    // Edits replace the service so removed upstreams and overrides go away
+    const removal = dns.forwarding ? await previewCommands('delete-dns-forwarding', dns.forwarding) : [];
+    await stageChange(`${dns.forwarding ? 'Update' : 'Enable'} DNS forwarding`, [...removal, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deleteForwarding = async () => {
+    try {
+      await stageChange('Disable DNS forwarding', await previewCommands('delete-dns-forwarding', dns.forwarding));
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const openHostForm = (host: StaticHostMapping | null) => {
+    setEditingHost(host);
+    setHostFormOpen(true);
+  };
+
+  const saveHost = async (host: StaticHostMapping) => {
+    const commands = await previewCommands('static-host-mapping', host);
+    const removal = editingHost ? await previewCommands('delete-static-host-mapping', editingHost) : [];
+    await stageChange(`${editingHost ? 'Update' : 'Add'} static host ${host.hostName}`, [...removal, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deleteHost = async (host: StaticHostMapping) => {
+    try {
+      await stageChange(`Delete static host ${host.hostName}`, await previewCommands('delete-static-host-mapping', host));
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const { forwarding } = dns;
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Card
+        title="DNS Forwarding"
+        loading={loading}
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={loadDns} loading={loading}>
+              Refresh
+            </Button>
+            <Button
+              type={forwarding ? 'default' : 'primary'}
+              icon={forwarding ? <EditOutlined /> : <PlusOutlined />}
+              onClick={() => setForwardingFormOpen(true)}
+            >
+              {forwarding ? 'Edit' : 'Enable'}
+            </Button>
+            {forwarding && (
+              <Popconfirm title="Disable DNS forwarding?" onConfirm={deleteForwarding}>
+                <Button danger icon={<DeleteOutlined />}>
+                  Disable
+                </Button>
+              </Popconfirm>
+            )}
+          </Space>
+        }
+      >
+        {forwarding ? (
+          <Space direction="vertical" style={{ width: '100%' }}>
+            <Descriptions column={2} size="small" bordered>
+              <Descriptions.Item label="Listen Addresses">
+                {forwarding.listenAddresses.map((address) => <Tag key={address}>{address}</Tag>)}
+              </Descriptions.Item>
+              <Descriptions.Item label="Allowed Clients">
+                {forwarding.allowFrom.map((network) => <Tag key={network}>{network}</Tag>)}
+              </Descriptions.Item>
+              <Descriptions.Item label="Cache Size">{forwarding.cacheSize ?? 'Default'}</Descriptions.Item>
+              <Descriptions.Item label="System Name Servers">{forwarding.useSystemNameServers ? 'Yes' : 'No'}</Descriptions.Item>
+              <Descriptions.Item label="Upstreams" span={2}>
+                {forwarding.nameServers.length > 0
+                  ? forwarding.nameServers.map((upstream) => (
+                      <Tag key={upstream.address}>{upstream.port ? `${upstream.address} port ${upstream.port}` : upstream.address}</Tag>
+                    ))
+                  : 'Root servers'}
+              </Descriptions.Item>
+            </Descriptions>
+
+            {forwarding.domainOverrides.length > 0 && (
+              <Table
+                rowKey="domain"
+                size="small"
+                pagination={false}
+                dataSource={forwarding.domainOverrides}
+                columns={[
+                  { title: 'Domain', dataIndex: 'domain' },
+                  { title: 'Servers', dataIndex: 'servers', render: (servers: string[]) => servers.join(', ') },
+                ]}
+              />
+            )}
+          </Space>
+        ) : (
+          <Empty description="DNS forwarding is not enabled" />
+        )}
+      </Card>
+
+      <Card
+        title="Static Host Mappings"
+        extra={
+          <Button type="primary" icon={<PlusOutlined />} onClick={() => openHostForm(null)}>
+            Add Host
+          </Button>
+        }
+      >
+        <Table<StaticHostMapping>
+          rowKey="hostName"
+          size="small"
+          loading={loading}
+          dataSource={dns.staticHosts}
+          pagination={{ pageSize: 20, hideOnSinglePage: true }}
+          columns={[
+            { title: 'Host Name', dataIndex: 'hostName' },
+            { title: 'Address', dataIndex: 'address' },
+            {
+              title: 'Aliases',
+              dataIndex: 'aliases',
+              render: (aliases: string[]) => aliases.map((alias) => <Tag key={alias}>{alias}</Tag>),
+            },
+            {
+              title: 'Actions',
+              render: (_, host) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openHostForm(host)}>
+                    Edit
+                  </Button>
+                  <Popconfirm title={`Delete static host ${host.hostName}?`} onConfirm={() => deleteHost(host)}>
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <DnsForwardingForm
+        open={forwardingFormOpen}
+        forwarding={forwarding}
+        onClose={() => setForwardingFormOpen(false)}
+        onSubmit={saveForwarding}
+      />
+      <StaticHostForm
+        open={hostFormOpen}
+        host={editingHost}
+        hosts={dns.staticHosts}
+        onClose={() => setHostFormOpen(false)}
+        onSubmit={saveHost}
+      />
+    </Space>
+  );
+};
@@ -0,0 +1,73 @@
+/**
+ * Static Host Form - Add or edit a `system static-host-mapping` entry
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Form, Input, Modal, Select, message } from 'antd';
+import { StaticHostMapping } from '@shared/types';
+import { validateStaticHostMapping } from '@shared/validators';
+
+interface StaticHostFormProps {
+  open: boolean;
+  host?: StaticHostMapping | null;
+  hosts: StaticHostMapping[];
+  onClose: () => void;
+  onSubmit: (host: StaticHostMapping) => Promise<void>;
+}
+
+export const StaticHostForm: React.FC<StaticHostFormProps> = ({ open, host, hosts, onClose, onSubmit }) => {
+  const [form] = Form.useForm<StaticHostMapping>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(host || { aliases: [] });
+    }
+  }, [open, host, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: StaticHostMapping = { ...values, aliases: values.aliases || [] };
+
+    const validation = validateStaticHostMapping(updated, hosts);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={host ? `Edit Host ${host.hostName}` : 'Add Static Host'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item label="Host Name" name="hostName" rules={[{ required: true, message: 'Host name is required' }]}>
+          <Input placeholder="nas.branch.example.com" disabled={!!host} />
+        </Form.Item>
+        <Form.Item label="Address" name="address" rules={[{ required: true, message: 'Address is required' }]}>
+          <Input placeholder="192.168.1.10" />
+        </Form.Item>
+        <Form.Item label="Aliases" name="aliases">
+          <Select mode="tags" open={false} placeholder="nas" />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
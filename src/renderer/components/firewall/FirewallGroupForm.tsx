@@ -0,0 +1,96 @@
+/**
+ * Firewall Group Form - Add or edit an address, network, port or interface group
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Form, Input, Modal, Select, message } from 'antd';
+import { FirewallGroup, FirewallGroupType } from '@shared/types';
+import { VYOS_FEATURES } from '@shared/constants';
+import { validateFirewallGroup } from '@shared/validators';
+
+interface FirewallGroupFormProps {
+  open: boolean;
+  group?: FirewallGroup | null;
+  groups: FirewallGroup[];
+  onClose: () => void;
+  onSubmit: (group: FirewallGroup) => Promise<void>;
+}
+
+const MEMBER_PLACEHOLDERS: Record<FirewallGroupType, string> = {
+  'address-group': '192.0.2.10 or 192.0.2.10-192.0.2.20',
+  'network-group': '10.0.0.0/8',
+  'port-group': '443, 8000-8080 or https',
+  'interface-group': 'eth1, eth2.*',
+};
+
+export const FirewallGroupForm: React.FC<FirewallGroupFormProps> = ({ open, group, groups, onClose, onSubmit }) => {
+  const [form] = Form.useForm<FirewallGroup>();
+  const [saving, setSaving] = useState(false);
+  const type = Form.useWatch('type', form);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(group || { type: 'address-group', members: [] });
+    }
+  }, [open, group, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: FirewallGroup = { ...values, members: values.members || [] };
+
+    const validation = validateFirewallGroup(updated);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={group ? `Edit ${group.type} ${group.name}` : 'Add Firewall Group'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item label="Type" name="type">
+          <Select
+            disabled={!!group}
+            options={VYOS_FEATURES.FIREWALL_GROUP_TYPES.map((groupType) => ({ value: groupType, label: groupType }))}
+          />
+        </Form.Item>
+        <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+          <Input disabled={!!group} />
+        </Form.Item>
+        <Form.Item label="Description" name="description">
+          <Input />
+        </Form.Item>
+        <Form.Item label="Members" name="members">
+          <Select mode="tags" placeholder={type && MEMBER_PLACEHOLDERS[type]} open={false} />
+        </Form.Item>
+        <Form.Item label="Include Groups" name="include">
+          <Select
+            mode="multiple"
+            options={groups
+              .filter((other) => other.type === type && other.name !== group?.name)
+              .map((other) => ({ value: other.name, label: other.name }))}
+          />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
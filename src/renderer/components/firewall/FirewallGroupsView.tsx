@@ -0,0 +1,160 @@
+/**
+ * Firewall Groups View - Address, network, port and interface groups of the selected device
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Modal, Space, Table, Tag, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { FirewallGroup, IPCChannel } from '@shared/types';
+import { VYOS_FEATURES } from '@shared/constants';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { FirewallGroupForm } from './FirewallGroupForm';
+
+export const FirewallGroupsView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [groups, setGroups] = useState<FirewallGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<FirewallGroup | null>(null);
+
+  const loadGroups = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setGroups(await invoke<FirewallGroup[]>(IPCChannel.VYOS_GET_FIREWALL_GROUPS, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const openForm = (group: FirewallGroup | null) => {
+    setEditingGroup(group);
+    setFormOpen(true);
+  };
+
+  const saveGroup = async (group: FirewallGroup) => {
+    const commands = await previewCommands('firewall-group', group);
+    // Edits replace the group so removed members go away
+    const removal = editingGroup ? await previewCommands('delete-firewall-group', editingGroup) : [];
+    await stageChange(`${editingGroup ? 'Update' : 'Add'} ${group.type} ${group.name}`, [...removal, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deleteGroup = async (group: FirewallGroup) => {
+    try {
+      const usage = await invoke<string[]>(IPCChannel.VYOS_FIREWALL_GROUP_USAGE, {
+        deviceId: selectedDeviceId,
+        type: group.type,
+        name: group.name,
+      });
+
+      if (usage.length > 0) {
+        Modal.warning({
+          title: `${group.type} ${group.name} is in use`,
+          content: (
+            <>
+              Remove these references before deleting the group:
+              <ul>
+                {usage.map((usedBy) => (
+                  <li key={usedBy}>{usedBy}</li>
+                ))}
+              </ul>
+            </>
+          ),
+        });
+        return;
+      }
+
+      Modal.confirm({
+        title: `Delete ${group.type} ${group.name}?`,
+        onOk: async () => {
+          await stageChange(`Delete ${group.type} ${group.name}`, await previewCommands('delete-firewall-group', group));
+          message.success('Change staged');
+        },
+      });
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  return (
+    <Card
+      title="Firewall Groups"
+      extra={
+        <Space>
+          <Button icon={<ReloadOutlined />} onClick={loadGroups} loading={loading}>
+            Refresh
+          </Button>
+          <Button type="primary" icon={<PlusOutlined />} onClick={() => openForm(null)}>
+            Add Group
+          </Button>
+        </Space>
+      }
+    >
+      <Table<FirewallGroup>
+        rowKey={(group) => `${group.type}-${group.name}`}
+        loading={loading}
+        dataSource={groups}
+        pagination={false}
+        columns={[
+          { title: 'Name', dataIndex: 'name' },
+          {
+            title: 'Type',
+            dataIndex: 'type',
+            filters: VYOS_FEATURES.FIREWALL_GROUP_TYPES.map((type) => ({ text: type, value: type })),
+            onFilter: (value, group) => group.type === value,
+            render: (type: string) => <Tag>{type}</Tag>,
+          },
+          { title: 'Description', dataIndex: 'description' },
+          {
+            title: 'Members',
+            dataIndex: 'members',
+            render: (members: string[], group) => (
+              <>
+                {members.map((member) => (
+                  <Tag key={member}>{member}</Tag>
+                ))}
+                {group.include?.map((included) => (
+                  <Tag key={`include-${included}`} color="blue">
+                    {included}
+                  </Tag>
+                ))}
+              </>
+            ),
+          },
+          {
+            title: 'Actions',
+            render: (_, group) => (
+              <Space>
+                <Button size="small" icon={<EditOutlined />} onClick={() => openForm(group)}>
+                  Edit
+                </Button>
+                <Button size="small" danger icon={<DeleteOutlined />} onClick={() => deleteGroup(group)} />
+              </Space>
+            ),
+          },
+        ]}
+      />
+
+      <FirewallGroupForm
+        open={formOpen}
+        group={editingGroup}
+        groups={groups}
+        onClose={() => setFormOpen(false)}
+        onSubmit={saveGroup}
+      />
+    </Card>
+  );
+};
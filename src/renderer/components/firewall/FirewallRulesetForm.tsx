@@ -0,0 +1,278 @@
+/**
+ * Firewall Ruleset Form - Add or edit a named ruleset or base chain and its rules
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AutoComplete, Button, Card, Checkbox, Form, Input, InputNumber, Modal, Select, Space, Switch, message } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { FirewallConfig, FirewallFamily, FirewallGroupType, FirewallRule, FirewallRuleset } from '@shared/types';
+import { FIREWALL_ICMP_TYPE_NAMES, VYOS_FEATURES } from '@shared/constants';
+import { validateFirewallRuleset } from '@shared/validators';
+
+interface FirewallRulesetFormProps {
+  open: boolean;
+  ruleset?: FirewallRuleset | null;
+  firewall: FirewallConfig;
+  onClose: () => void;
+  onSubmit: (ruleset: FirewallRuleset) => Promise<void>;
+}
+
+const STATES = ['established', 'related', 'new', 'invalid'] as const;
+
+type RuleFormValues = Omit<FirewallRule, 'state'> & { state?: string[] };
+type RulesetFormValues = Omit<FirewallRuleset, 'rules'> & { rules?: RuleFormValues[] };
+
+function toFormRule(rule: FirewallRule): RuleFormValues {
+  return { ...rule, state: STATES.filter((state) => rule.state?.[state]) };
+}
+
+function fromFormRule({ state, ...rule }: RuleFormValues): FirewallRule {
+  const icmp = rule.protocol === 'icmp' || rule.protocol === 'ipv6-icmp' ? rule.icmp : undefined;
+
+  return {
+    ...rule,
+    icmp: icmp?.typeName || icmp?.type !== undefined ? icmp : undefined,
+    jumpTarget: rule.action === 'jump' ? rule.jumpTarget : undefined,
+    state: state?.length ? Object.fromEntries(state.map((name) => [name, true])) : undefined,
+  };
+}
+
+export const FirewallRulesetForm: React.FC<FirewallRulesetFormProps> = ({ open, ruleset, firewall, onClose, onSubmit }) => {
+  const [form] = Form.useForm<RulesetFormValues>();
+  const [saving, setSaving] = useState(false);
+  const baseChain = Form.useWatch('baseChain', form);
+  const defaultAction = Form.useWatch('defaultAction', form);
+  const family = Form.useWatch('family', form) || 'ipv4';
+  const modern = firewall.syntax === 'modern';
+
+  const actions = modern ? VYOS_FEATURES.FIREWALL_MODERN_ACTIONS : VYOS_FEATURES.FIREWALL_ACTIONS;
+  const defaultActions = baseChain ? ['accept', 'drop'] : actions;
+  const jumpTargets = firewall.rulesets
+    .filter((other) => !other.baseChain && (other.family || 'ipv4') === family)
+    .filter((other) => !(other.name === ruleset?.name && (ruleset.family || 'ipv4') === family))
+    .map((other) => ({ value: other.name, label: other.name }));
+
+  // Each family has its own ICMP protocol
+  const icmpProtocol = family === 'ipv6' ? 'ipv6-icmp' : 'icmp';
+  const protocols = VYOS_FEATURES.FIREWALL_PROTOCOLS.filter(
+    (protocol) => protocol === icmpProtocol || !['icmp', 'ipv6-icmp'].includes(protocol)
+  );
+
+  const groupOptions = (type: FirewallGroupType) =>
+    firewall.groups.filter((group) => group.type === type).map((group) => ({ value: group.name, label: group.name }));
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(
+        ruleset
+          ? { ...ruleset, family: ruleset.family || 'ipv4', rules: ruleset.rules.map(toFormRule) }
+          : {
+              family: 'ipv4',
+              defaultAction: 'drop',
+              rules: [{ number: 10, action: 'accept', state: ['established', 'related'] }],
+            }
+      );
+    }
+  }, [open, ruleset, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: FirewallRuleset = {
+      ...values,
+      family: values.family === 'ipv6' ? 'ipv6' : undefined,
+      name: values.baseChain || values.name,
+      defaultJumpTarget: values.defaultAction === 'jump' ? values.defaultJumpTarget : undefined,
+      rules: (values.rules || []).map(fromFormRule),
+    };
+
+    const validation = validateFirewallRuleset(updated, firewall.syntax);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderEndpoint = (ruleField: number, side: 'source' | 'destination') => (
+    <Space wrap align="start">
+      <Form.Item label={side === 'source' ? 'Source' : 'Destination'} name={[ruleField, side, 'address']}>
+        <Input placeholder="Address or network" />
+      </Form.Item>
+      <Form.Item label="Port" name={[ruleField, side, 'port']}>
+        <Input placeholder="443 or 8000-8080" style={{ width: 140 }} />
+      </Form.Item>
+      {/* Address and network groups here are IPv4; IPv6 rules reference ipv6-* groups */}
+      {family === 'ipv4' && (
+        <>
+          <Form.Item label="Address group" name={[ruleField, side, 'group', 'addressGroup']}>
+            <Select allowClear style={{ width: 140 }} options={groupOptions('address-group')} />
+          </Form.Item>
+          <Form.Item label="Network group" name={[ruleField, side, 'group', 'networkGroup']}>
+            <Select allowClear style={{ width: 140 }} options={groupOptions('network-group')} />
+          </Form.Item>
+        </>
+      )}
+      <Form.Item label="Port group" name={[ruleField, side, 'group', 'portGroup']}>
+        <Select allowClear style={{ width: 140 }} options={groupOptions('port-group')} />
+      </Form.Item>
+    </Space>
+  );
+
+  return (
+    <Modal
+      open={open}
+      title={ruleset ? `Edit ${ruleset.baseChain ? `${ruleset.name} chain` : `ruleset ${ruleset.name}`}` : 'Add Ruleset'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={960}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space wrap align="start">
+          <Form.Item label="Family" name="family">
+            <Select
+              disabled={!!ruleset}
+              style={{ width: 100 }}
+              options={[
+                { value: 'ipv4', label: 'IPv4' },
+                { value: 'ipv6', label: 'IPv6' },
+              ]}
+            />
+          </Form.Item>
+          {modern && (
+            <Form.Item label="Chain" name="baseChain">
+              <Select
+                allowClear
+                disabled={!!ruleset}
+                placeholder="Named ruleset"
+                style={{ width: 160 }}
+                options={VYOS_FEATURES.FIREWALL_BASE_CHAINS.map((chain) => ({ value: chain, label: `${chain} filter` }))}
+              />
+            </Form.Item>
+          )}
+          {!baseChain && (
+            <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+              <Input placeholder="WAN_IN" disabled={!!ruleset} />
+            </Form.Item>
+          )}
+          <Form.Item label="Default Action" name="defaultAction">
+            <Select style={{ width: 120 }} options={defaultActions.map((action) => ({ value: action, label: action }))} />
+          </Form.Item>
+          {defaultAction === 'jump' && (
+            <Form.Item label="Default Jump Target" name="defaultJumpTarget" rules={[{ required: true }]}>
+              <Select style={{ width: 160 }} options={jumpTargets} />
+            </Form.Item>
+          )}
+          <Form.Item label="Log Default Action" name="enableDefaultLog" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+        </Space>
+        <Form.Item label="Description" name="description">
+          <Input />
+        </Form.Item>
+
+        <Form.List name="rules">
+          {(fields, { add, remove }) => (
+            <Space direction="vertical" style={{ width: '100%' }}>
+              {fields.map((field) => (
+                <Card
+                  key={field.key}
+                  size="small"
+                  extra={<Button size="small" danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />}
+                  title={
+                    <Space align="baseline" wrap>
+                      <Form.Item label="Rule" name={[field.name, 'number']} rules={[{ required: true }]}>
+                        <InputNumber min={1} max={9999} />
+                      </Form.Item>
+                      <Form.Item label="Action" name={[field.name, 'action']}>
+                        <Select style={{ width: 110 }} options={actions.map((action) => ({ value: action, label: action }))} />
+                      </Form.Item>
+                      <Form.Item noStyle shouldUpdate>
+                        {({ getFieldValue }) =>
+                          getFieldValue(['rules', field.name, 'action']) === 'jump' && (
+                            <Form.Item label="Jump Target" name={[field.name, 'jumpTarget']} rules={[{ required: true }]}>
+                              <Select style={{ width: 160 }} options={jumpTargets} />
+                            </Form.Item>
+                          )
+                        }
+                      </Form.Item>
+                      <Form.Item label="Protocol" name={[field.name, 'protocol']}>
+                        <Select
+                          allowClear
+                          style={{ width: 100 }}
+                          options={protocols.map((protocol) => ({ value: protocol, label: protocol }))}
+                        />
+                      </Form.Item>
+                      <Form.Item noStyle shouldUpdate>
+                        {({ getFieldValue }) =>
+                          getFieldValue(['rules', field.name, 'protocol']) === icmpProtocol && (
+                            <>
+                              <Form.Item label="ICMP Type" name={[field.name, 'icmp', 'typeName']}>
+                                <AutoComplete
+                                  allowClear
+                                  style={{ width: 180 }}
+                                  placeholder="echo-request"
+                                  options={FIREWALL_ICMP_TYPE_NAMES[family as FirewallFamily].map((name) => ({ value: name }))}
+                                />
+                              </Form.Item>
+                              <Form.Item label="Type" name={[field.name, 'icmp', 'type']}>
+                                <InputNumber min={0} max={255} />
+                              </Form.Item>
+                              <Form.Item label="Code" name={[field.name, 'icmp', 'code']}>
+                                <InputNumber min={0} max={255} />
+                              </Form.Item>
+                            </>
+                          )
+                        }
+                      </Form.Item>
+                    </Space>
+                  }
+                >
+                  <Form.Item label="Description" name={[field.name, 'description']}>
+                    <Input />
+                  </Form.Item>
+                  {renderEndpoint(field.name, 'source')}
+                  {renderEndpoint(field.name, 'destination')}
+                  <Space wrap align="start">
+                    <Form.Item label="State" name={[field.name, 'state']}>
+                      <Checkbox.Group options={[...STATES]} />
+                    </Form.Item>
+                    <Form.Item label="Log" name={[field.name, 'log']} valuePropName="checked">
+                      <Switch size="small" />
+                    </Form.Item>
+                    <Form.Item label="Disabled" name={[field.name, 'disabled']} valuePropName="checked">
+                      <Switch size="small" />
+                    </Form.Item>
+                  </Space>
+                </Card>
+              ))}
+              <Button
+                type="dashed"
+                icon={<PlusOutlined />}
+                onClick={() => {
+                  const rules: RuleFormValues[] = form.getFieldValue('rules') || [];
+                  const next = rules.reduce((max, rule) => Math.max(max, rule.number || 0), 0) + 10;
+                  add({ number: next, action: 'accept' });
+                }}
+              >
+                Add Rule
+              </Button>
+            </Space>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+};
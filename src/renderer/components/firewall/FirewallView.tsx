@@ -0,0 +1,328 @@
+/**
+ * Firewall View - Rulesets, zones and groups of the selected device
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Popconfirm, Space, Table, Tabs, Tag, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { FirewallAddress, FirewallConfig, FirewallRule, FirewallRuleset, FirewallZone, IPCChannel } from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { FirewallGroupsView } from './FirewallGroupsView';
+import { FirewallRulesetForm } from './FirewallRulesetForm';
+import { FirewallZoneForm } from './FirewallZoneForm';
+
+const EMPTY_FIREWALL: FirewallConfig = { syntax: 'modern', rulesets: [], zones: [], groups: [] };
+
+function formatEndpoint(endpoint?: FirewallAddress): string {
+  if (!endpoint) {
+    return 'any';
+  }
+
+  const parts = [
+    endpoint.address,
+    endpoint.group?.addressGroup && `@${endpoint.group.addressGroup}`,
+    endpoint.group?.networkGroup && `@${endpoint.group.networkGroup}`,
+    endpoint.port && `port ${endpoint.port}`,
+    endpoint.group?.portGroup && `port @${endpoint.group.portGroup}`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' ') : 'any';
+}
+
+function actionColor(action: string): string {
+  switch (action) {
+    case 'accept':
+      return 'green';
+    case 'jump':
+      return 'blue';
+    case 'return':
+    case 'continue':
+      return 'default';
+    default:
+      return 'red';
+  }
+}
+
+export const FirewallView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [firewall, setFirewall] = useState<FirewallConfig>(EMPTY_FIREWALL);
+  const [loading, setLoading] = useState(false);
+  const [rulesetFormOpen, setRulesetFormOpen] = useState(false);
+  const [editingRuleset, setEditingRuleset] = useState<FirewallRuleset | null>(null);
+  const [zoneFormOpen, setZoneFormOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<FirewallZone | null>(null);
+
+  const loadFirewall = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setFirewall(await invoke<FirewallConfig>(IPCChannel.VYOS_GET_FIREWALL, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadFirewall();
+  }, [loadFirewall]);
+
+  /**
+   * Stage a ruleset or zone; edits replace it so removed rules go away
+   */
+  const stage = async (description: string, type: string, data: unknown, replacing: boolean) => {
+    const commands = await previewCommands(type, data);
+    const deletes = replacing ? await previewCommands(`delete-${type}`, data) : [];
+    await stageChange(description, [...deletes, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deleteObject = async (description: string, type: string, data: unknown) => {
+    try {
+      await stageChange(description, await previewCommands(type, data));
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const rulesetLabel = (ruleset: FirewallRuleset) => {
+    const family = ruleset.family === 'ipv6' ? 'IPv6 ' : '';
+    return ruleset.baseChain ? `${family}${ruleset.name} chain` : `${family}ruleset ${ruleset.name}`;
+  };
+
+  const renderRules = (ruleset: FirewallRuleset) => (
+    <Table<FirewallRule>
+      rowKey="number"
+      size="small"
+      pagination={false}
+      dataSource={ruleset.rules}
+      columns={[
+        { title: 'Rule', dataIndex: 'number' },
+        {
+          title: 'Action',
+          render: (_, rule) => (
+            <Tag color={actionColor(rule.action)}>
+              {rule.action}
+              {rule.jumpTarget && ` → ${rule.jumpTarget}`}
+            </Tag>
+          ),
+        },
+        {
+          title: 'Protocol',
+          render: (_, rule) => {
+            const icmpType = rule.icmp?.typeName ?? [rule.icmp?.type, rule.icmp?.code].filter((v) => v !== undefined).join('/');
+            return icmpType ? `${rule.protocol} ${icmpType}` : rule.protocol || 'all';
+          },
+        },
+        { title: 'Source', render: (_, rule) => formatEndpoint(rule.source) },
+        { title: 'Destination', render: (_, rule) => formatEndpoint(rule.destination) },
+        {
+          title: 'State',
+          render: (_, rule) =>
+            Object.entries(rule.state || {})
+              .filter(([, enabled]) => enabled)
+              .map(([state]) => <Tag key={state}>{state}</Tag>),
+        },
+        { title: 'Description', dataIndex: 'description' },
+        { title: 'Status', render: (_, rule) => (rule.disabled ? <Tag>Disabled</Tag> : null) },
+      ]}
+    />
+  );
+
+  return (
+    <Card
+      title="Firewall"
+      extra={
+        <Space>
+          <Tag color={firewall.syntax === 'modern' ? 'blue' : 'orange'}>
+            {firewall.syntax === 'modern' ? 'VyOS 1.4+ syntax' : 'VyOS 1.3 syntax'}
+          </Tag>
+          <Button icon={<ReloadOutlined />} onClick={loadFirewall} loading={loading}>
+            Refresh
+          </Button>
+        </Space>
+      }
+    >
+      <Tabs
+        items={[
+          {
+            key: 'rulesets',
+            label: `Rulesets (${firewall.rulesets.length})`,
+            children: (
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Button
+                  type="primary"
+                  icon={<PlusOutlined />}
+                  onClick={() => {
+                    setEditingRuleset(null);
+                    setRulesetFormOpen(true);
+                  }}
+                >
+                  Add Ruleset
+                </Button>
+                <Table<FirewallRuleset>
+                  rowKey={(ruleset) => `${ruleset.family || 'ipv4'}-${ruleset.baseChain ? 'chain' : 'name'}-${ruleset.name}`}
+                  loading={loading}
+                  dataSource={firewall.rulesets}
+                  pagination={false}
+                  expandable={{ expandedRowRender: renderRules, rowExpandable: (ruleset) => ruleset.rules.length > 0 }}
+                  columns={[
+                    { title: 'Name', dataIndex: 'name' },
+                    {
+                      title: 'Family',
+                      filters: [
+                        { text: 'IPv4', value: 'ipv4' },
+                        { text: 'IPv6', value: 'ipv6' },
+                      ],
+                      onFilter: (value, ruleset) => (ruleset.family || 'ipv4') === value,
+                      render: (_, ruleset) => (ruleset.family === 'ipv6' ? <Tag color="cyan">IPv6</Tag> : <Tag>IPv4</Tag>),
+                    },
+                    {
+                      title: 'Type',
+                      render: (_, ruleset) => (ruleset.baseChain ? <Tag color="purple">base chain</Tag> : <Tag>named</Tag>),
+                    },
+                    {
+                      title: 'Default Action',
+                      render: (_, ruleset) => (
+                        <Tag color={actionColor(ruleset.defaultAction)}>
+                          {ruleset.defaultAction}
+                          {ruleset.defaultJumpTarget && ` → ${ruleset.defaultJumpTarget}`}
+                        </Tag>
+                      ),
+                    },
+                    { title: 'Rules', render: (_, ruleset) => ruleset.rules.length },
+                    { title: 'Description', dataIndex: 'description' },
+                    {
+                      title: 'Actions',
+                      render: (_, ruleset) => (
+                        <Space>
+                          <Button
+                            size="small"
+                            icon={<EditOutlined />}
+                            onClick={() => {
+                              setEditingRuleset(ruleset);
+                              setRulesetFormOpen(true);
+                            }}
+                          >
+                            Edit
+                          </Button>
+                          <Popconfirm
+                            title={`Delete ${rulesetLabel(ruleset)}?`}
+                            onConfirm={() =>
+                              deleteObject(`Delete firewall ${rulesetLabel(ruleset)}`, 'delete-firewall-ruleset', ruleset)
+                            }
+                          >
+                            <Button size="small" danger icon={<DeleteOutlined />} />
+                          </Popconfirm>
+                        </Space>
+                      ),
+                    },
+                  ]}
+                />
+              </Space>
+            ),
+          },
+          {
+            key: 'zones',
+            label: `Zones (${firewall.zones.length})`,
+            children: (
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Button
+                  type="primary"
+                  icon={<PlusOutlined />}
+                  onClick={() => {
+                    setEditingZone(null);
+                    setZoneFormOpen(true);
+                  }}
+                >
+                  Add Zone
+                </Button>
+                <Table<FirewallZone>
+                  rowKey="name"
+                  loading={loading}
+                  dataSource={firewall.zones}
+                  pagination={false}
+                  columns={[
+                    { title: 'Zone', dataIndex: 'name' },
+                    { title: 'Interfaces', dataIndex: 'interfaces', render: (interfaces: string[]) => interfaces.join(', ') },
+                    { title: 'Default Action', dataIndex: 'defaultAction' },
+                    {
+                      title: 'From',
+                      render: (_, zone) =>
+                        Object.entries(zone.from).map(([fromZone, config]) => (
+                          <div key={fromZone}>
+                            {fromZone}: {[config.firewall.name, config.firewall.ipv6Name].filter(Boolean).join(' / ')}
+                          </div>
+                        )),
+                    },
+                    { title: 'Description', dataIndex: 'description' },
+                    {
+                      title: 'Actions',
+                      render: (_, zone) => (
+                        <Space>
+                          <Button
+                            size="small"
+                            icon={<EditOutlined />}
+                            onClick={() => {
+                              setEditingZone(zone);
+                              setZoneFormOpen(true);
+                            }}
+                          >
+                            Edit
+                          </Button>
+                          <Popconfirm
+                            title={`Delete zone ${zone.name}?`}
+                            onConfirm={() => deleteObject(`Delete firewall zone ${zone.name}`, 'delete-firewall-zone', zone)}
+                          >
+                            <Button size="small" danger icon={<DeleteOutlined />} />
+                          </Popconfirm>
+                        </Space>
+                      ),
+                    },
+                  ]}
+                />
+              </Space>
+            ),
+          },
+          {
+            key: 'groups',
+            label: `Groups (${firewall.groups.length})`,
+            children: <FirewallGroupsView />,
+          },
+        ]}
+      />
+
+      <FirewallRulesetForm
+        open={rulesetFormOpen}
+        ruleset={editingRuleset}
+        firewall={firewall}
+        onClose={() => setRulesetFormOpen(false)}
+        onSubmit={(ruleset) =>
+          stage(
+            `${editingRuleset ? 'Update' : 'Add'} firewall ${rulesetLabel(ruleset)}`,
+            'firewall-ruleset',
+            ruleset,
+            !!editingRuleset
+          )
+        }
+      />
+      <FirewallZoneForm
+        open={zoneFormOpen}
+        zone={editingZone}
+        firewall={firewall}
+        onClose={() => setZoneFormOpen(false)}
+        onSubmit={(zone) =>
+          stage(`${editingZone ? 'Update' : 'Add'} firewall zone ${zone.name}`, 'firewall-zone', zone, !!editingZone)
+        }
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,130 @@
+/**
+ * Firewall Zone Form - Add or edit a zone, its interfaces and per-source-zone rulesets
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Form, Input, Modal, Select, Space, message } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { FirewallConfig, FirewallFamily, FirewallZone } from '@shared/types';
+
+interface FirewallZoneFormProps {
+  open: boolean;
+  zone?: FirewallZone | null;
+  firewall: FirewallConfig;
+  onClose: () => void;
+  onSubmit: (zone: FirewallZone) => Promise<void>;
+}
+
+interface ZoneFormValues extends Omit<FirewallZone, 'from'> {
+  from?: { zone: string; name?: string; ipv6Name?: string }[];
+}
+
+export const FirewallZoneForm: React.FC<FirewallZoneFormProps> = ({ open, zone, firewall, onClose, onSubmit }) => {
+  const [form] = Form.useForm<ZoneFormValues>();
+  const [saving, setSaving] = useState(false);
+
+  const rulesetOptions = (family: FirewallFamily) =>
+    firewall.rulesets
+      .filter((ruleset) => !ruleset.baseChain && (ruleset.family || 'ipv4') === family)
+      .map((ruleset) => ({ value: ruleset.name, label: ruleset.name }));
+  const zoneOptions = firewall.zones
+    .filter((other) => other.name !== zone?.name)
+    .map((other) => ({ value: other.name, label: other.name }));
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(
+        zone
+          ? {
+              ...zone,
+              from: Object.entries(zone.from).map(([fromZone, config]) => ({ zone: fromZone, ...config.firewall })),
+            }
+          : { defaultAction: 'drop', interfaces: [], from: [] }
+      );
+    }
+  }, [open, zone, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: FirewallZone = {
+      ...values,
+      interfaces: values.interfaces || [],
+      from: Object.fromEntries(
+        (values.from || []).map((entry) => [entry.zone, { firewall: { name: entry.name, ipv6Name: entry.ipv6Name } }])
+      ),
+    };
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={zone ? `Edit zone ${zone.name}` : 'Add Zone'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={720}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space align="start">
+          <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+            <Input placeholder="LAN" disabled={!!zone} />
+          </Form.Item>
+          <Form.Item label="Default Action" name="defaultAction">
+            <Select
+              style={{ width: 120 }}
+              options={[
+                { value: 'drop', label: 'drop' },
+                { value: 'reject', label: 'reject' },
+              ]}
+            />
+          </Form.Item>
+        </Space>
+        <Form.Item label="Description" name="description">
+          <Input />
+        </Form.Item>
+        <Form.Item label="Interfaces" name="interfaces">
+          <Select mode="tags" placeholder="eth1" open={false} />
+        </Form.Item>
+
+        <Form.Item label="Traffic from other zones">
+          <Form.List name="from">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="start">
+                    <Form.Item name={[field.name, 'zone']} rules={[{ required: true, message: 'Zone is required' }]}>
+                      <Select style={{ width: 160 }} placeholder="From zone" options={zoneOptions} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'name']}>
+                      <Select allowClear style={{ width: 180 }} placeholder="IPv4 ruleset" options={rulesetOptions('ipv4')} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'ipv6Name']}>
+                      <Select allowClear style={{ width: 180 }} placeholder="IPv6 ruleset" options={rulesetOptions('ipv6')} />
+                    </Form.Item>
+                    <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Button type="dashed" icon={<PlusOutlined />} onClick={() => add()}>
+                  Add Source Zone
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
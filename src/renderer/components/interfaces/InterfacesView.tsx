@@ -0,0 +1,191 @@
+/**
+ * Interfaces View - Interfaces of the selected device and the VRFs they belong to
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Popconfirm, Select, Space, Table, Tag, Typography, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { AddressConfig, IPCChannel, NetworkInterface, Vrf } from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { VrfForm } from './VrfForm';
+
+const { Text } = Typography;
+
+// 'default' cannot name a VRF, so it is free to stand for the default VRF
+type VrfFilter = 'all' | 'default' | string;
+
+function renderAddresses(addresses: AddressConfig) {
+  return (
+    <Space size={4} wrap>
+      {[...addresses.ipv4, ...addresses.ipv6].map((address) => (
+        <Tag key={address}>{address}</Tag>
+      ))}
+      {addresses.dhcp && <Tag color="cyan">dhcp</Tag>}
+      {addresses.dhcpv6 && <Tag color="cyan">dhcpv6</Tag>}
+    </Space>
+  );
+}
+
+export const InterfacesView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [interfaces, setInterfaces] = useState<NetworkInterface[]>([]);
+  const [vrfs, setVrfs] = useState<Vrf[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [vrfFilter, setVrfFilter] = useState<VrfFilter>('all');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingVrf, setEditingVrf] = useState<Vrf | null>(null);
+
+  const loadInterfaces = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [deviceInterfaces, deviceVrfs] = await Promise.all([
+        invoke<NetworkInterface[]>(IPCChannel.VYOS_GET_INTERFACES, selectedDeviceId),
+        invoke<Vrf[]>(IPCChannel.VYOS_GET_VRFS, selectedDeviceId),
+      ]);
+      setInterfaces(deviceInterfaces);
+      setVrfs(deviceVrfs);
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadInterfaces();
+  }, [loadInterfaces]);
+
+  const openForm = (vrf: Vrf | null) => {
+    setEditingVrf(vrf);
+    setFormOpen(true);
+  };
+
+  const saveVrf = async (vrf: Vrf) => {
+    // Edits keep the VRF node so its static routes and BGP are untouched
+    const commands = await previewCommands('vrf', { vrf, previous: editingVrf });
+    await stageChange(`${editingVrf ? 'Update' : 'Add'} VRF ${vrf.name}`, commands);
+    message.success('Change staged');
+  };
+
+  const deleteVrf = async (vrf: Vrf) => {
+    try {
+      const commands = await previewCommands('delete-vrf', vrf);
+      await stageChange(`Delete VRF ${vrf.name}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const visibleInterfaces = interfaces.filter(
+    (iface) => vrfFilter === 'all' || (vrfFilter === 'default' ? !iface.vrf : iface.vrf === vrfFilter)
+  );
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Card
+        title="Interfaces"
+        extra={
+          <Space>
+            <Select<VrfFilter>
+              value={vrfFilter}
+              onChange={setVrfFilter}
+              style={{ width: 160 }}
+              options={[
+                { value: 'all', label: 'All VRFs' },
+                { value: 'default', label: 'Default VRF' },
+                ...vrfs.map((vrf) => ({ value: vrf.name, label: `VRF ${vrf.name}` })),
+              ]}
+            />
+            <Button icon={<ReloadOutlined />} onClick={loadInterfaces} loading={loading}>
+              Refresh
+            </Button>
+          </Space>
+        }
+      >
+        <Table<NetworkInterface>
+          rowKey="name"
+          loading={loading}
+          dataSource={visibleInterfaces}
+          pagination={false}
+          columns={[
+            { title: 'Name', dataIndex: 'name' },
+            { title: 'Type', dataIndex: 'type' },
+            { title: 'Description', dataIndex: 'description' },
+            { title: 'Addresses', dataIndex: 'addresses', render: renderAddresses },
+            {
+              title: 'VRF',
+              dataIndex: 'vrf',
+              render: (vrf?: string) => (vrf ? <Tag color="geekblue">{vrf}</Tag> : <Text type="secondary">default</Text>),
+            },
+            {
+              title: 'Status',
+              dataIndex: 'enabled',
+              render: (enabled: boolean) => (enabled ? <Tag color="green">Enabled</Tag> : <Tag>Disabled</Tag>),
+            },
+          ]}
+        />
+      </Card>
+
+      <Card
+        title="VRFs"
+        extra={
+          <Button type="primary" icon={<PlusOutlined />} onClick={() => openForm(null)}>
+            Add VRF
+          </Button>
+        }
+      >
+        <Table<Vrf>
+          rowKey="name"
+          size="small"
+          loading={loading}
+          dataSource={vrfs}
+          pagination={false}
+          columns={[
+            { title: 'VRF', dataIndex: 'name' },
+            { title: 'Table', dataIndex: 'table' },
+            {
+              title: 'Interfaces',
+              dataIndex: 'interfaces',
+              render: (names: string[]) => names.map((name) => <Tag key={name}>{name}</Tag>),
+            },
+            { title: 'Description', dataIndex: 'description' },
+            {
+              title: 'Actions',
+              render: (_, vrf) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openForm(vrf)}>
+                    Edit
+                  </Button>
+                  <Popconfirm
+                    title={`Delete VRF ${vrf.name}?`}
+                    description="Its static routes and BGP instance are deleted with it"
+                    onConfirm={() => deleteVrf(vrf)}
+                  >
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <VrfForm
+        open={formOpen}
+        vrf={editingVrf}
+        vrfs={vrfs}
+        interfaces={interfaces}
+        onClose={() => setFormOpen(false)}
+        onSubmit={saveVrf}
+      />
+    </Space>
+  );
+};
@@ -0,0 +1,93 @@
+/**
+ * VRF Form - Add or edit a VRF and the interfaces that belong to it
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Form, Input, InputNumber, Modal, Select, message } from 'antd';
+import { NetworkInterface, Vrf } from '@shared/types';
+import { VYOS_FEATURES } from '@shared/constants';
+import { validateVrf } from '@shared/validators';
+
+interface VrfFormProps {
+  open: boolean;
+  vrf?: Vrf | null;
+  vrfs: Vrf[];
+  interfaces: NetworkInterface[];
+  onClose: () => void;
+  onSubmit: (vrf: Vrf) => Promise<void>;
+}
+
+export const VrfForm: React.FC<VrfFormProps> = ({ open, vrf, vrfs, interfaces, onClose, onSubmit }) => {
+  const [form] = Form.useForm<Vrf>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(vrf || { interfaces: [] });
+    }
+  }, [open, vrf, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: Vrf = { ...values, interfaces: values.interfaces || [] };
+
+    const validation = validateVrf(updated, vrfs);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // An interface can only be in one VRF
+  const taken = new Set(vrfs.filter((other) => other.name !== vrf?.name).flatMap((other) => other.interfaces));
+
+  return (
+    <Modal
+      open={open}
+      title={vrf ? `Edit VRF ${vrf.name}` : 'Add VRF'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+          <Input placeholder="TENANT-A" disabled={!!vrf} />
+        </Form.Item>
+        <Form.Item
+          label="Table"
+          name="table"
+          tooltip="Kernel routing table of the VRF; it cannot be changed once created"
+          rules={[{ required: true, message: 'Table is required' }]}
+        >
+          <InputNumber min={VYOS_FEATURES.VRF_TABLE_MIN} max={VYOS_FEATURES.VRF_TABLE_MAX} disabled={!!vrf} />
+        </Form.Item>
+        <Form.Item label="Description" name="description">
+          <Input />
+        </Form.Item>
+        <Form.Item label="Interfaces" name="interfaces" tooltip="Type a vif such as eth1.20 to add it">
+          <Select
+            mode="tags"
+            options={interfaces.map((iface) => ({
+              value: iface.name,
+              label: iface.description ? `${iface.name} (${iface.description})` : iface.name,
+              disabled: taken.has(iface.name),
+            }))}
+          />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -3,21 +3,43 @@
  */
 
 import React from 'react';
-import { Layout, Menu, Typography, Switch, Space } from 'antd';
+import { Layout, Menu, Typography, Switch, Space, Badge, Button } from 'antd';
 import {
   ApiOutlined,
+  BranchesOutlined,
+  ClusterOutlined,
+  DashboardOutlined,
+  CloudServerOutlined,
+  PartitionOutlined,
   SettingOutlined,
   GlobalOutlined,
   FireOutlined,
   SwapOutlined,
+  FilterOutlined,
   LockOutlined,
   DatabaseOutlined,
   FileTextOutlined,
   MoonOutlined,
   SunOutlined,
+  UnorderedListOutlined,
 } from '@ant-design/icons';
 import { useThemeStore } from '../../store/uiStore';
 import { useDeviceStore } from '../../store/deviceStore';
+import { useChangeSetStore } from '../../store/changeSetStore';
+import { useConnectionEvents } from '../../hooks/useConnectionEvents';
+import { BackupList } from '../backups/BackupList';
+import { DeviceList } from '../devices/DeviceList';
+import { DhcpView } from '../dhcp/DhcpView';
+import { DnsView } from '../dns/DnsView';
+import { VrrpView } from '../vrrp/VrrpView';
+import { WanView } from '../wan/WanView';
+import { QosView } from '../qos/QosView';
+import { FirewallView } from '../firewall/FirewallView';
+import { InterfacesView } from '../interfaces/InterfacesView';
+import { PendingChangesDrawer } from '../changes/PendingChangesDrawer';
+import { RoutesView } from '../routes/RoutesView';
+import { PolicyView } from '../policy/PolicyView';
+import { VpnView } from '../vpn/VpnView';
 
 const { Header, Sider, Content } = Layout;
 const { Title } = Typography;
@@ -25,6 +47,10 @@ const { Title } = Typography;
 export const MainLayout: React.FC = () => {
   const { theme, toggleTheme, sidebarCollapsed, toggleSidebar, activeView, setActiveView } = useThemeStore();
   const { selectedDeviceId } = useDeviceStore();
+  const { changeSets, setDrawerOpen } = useChangeSetStore();
+  const pendingCount = selectedDeviceId ? changeSets[selectedDeviceId]?.changes.length || 0 : 0;
+
+  useConnectionEvents();
 
   const menuItems = [
     {
@@ -41,7 +67,13 @@ export const MainLayout: React.FC = () => {
     {
       key: 'routes',
       icon: <SwapOutlined />,
-      label: 'Static Routes',
+      label: 'Routes',
+      disabled: !selectedDeviceId,
+    },
+    {
+      key: 'policy',
+      icon: <FilterOutlined />,
+      label: 'Routing Policy',
       disabled: !selectedDeviceId,
     },
     {
@@ -56,6 +88,36 @@ export const MainLayout: React.FC = () => {
       label: 'NAT',
       disabled: !selectedDeviceId,
     },
+    {
+      key: 'dhcp',
+      icon: <ClusterOutlined />,
+      label: 'DHCP Server',
+      disabled: !selectedDeviceId,
+    },
+    {
+      key: 'dns',
+      icon: <CloudServerOutlined />,
+      label: 'DNS',
+      disabled: !selectedDeviceId,
+    },
+    {
+      key: 'vrrp',
+      icon: <PartitionOutlined />,
+      label: 'VRRP',
+      disabled: !selectedDeviceId,
+    },
+    {
+      key: 'wan',
+      icon: <BranchesOutlined />,
+      label: 'WAN',
+      disabled: !selectedDeviceId,
+    },
+    {
+      key: 'qos',
+      icon: <DashboardOutlined />,
+      label: 'QoS',
+      disabled: !selectedDeviceId,
+    },
     {
       key: 'vpn',
       icon: <LockOutlined />,
@@ -124,6 +186,13 @@ export const MainLayout: React.FC = () => {
           </Title>
 
           <Space>
+            {selectedDeviceId && (
+              <Badge count={pendingCount}>
+                <Button icon={<UnorderedListOutlined />} onClick={() => setDrawerOpen(true)}>
+                  Pending Changes
+                </Button>
+              </Badge>
+            )}
             <Switch
               checkedChildren={<MoonOutlined />}
               unCheckedChildren={<SunOutlined />}
@@ -140,18 +209,26 @@ export const MainLayout: React.FC = () => {
           borderRadius: '8px',
         }}>
           <div>
-            {activeView === 'devices' && <div>Device Management Component</div>}
-            {activeView === 'interfaces' && <div>Interface Configuration Component</div>}
-            {activeView === 'routes' && <div>Static Routes Component</div>}
-            {activeView === 'firewall' && <div>Firewall Configuration Component</div>}
+            {activeView === 'devices' && <DeviceList />}
+            {activeView === 'interfaces' && <InterfacesView />}
+            {activeView === 'routes' && <RoutesView />}
+            {activeView === 'policy' && <PolicyView />}
+            {activeView === 'firewall' && <FirewallView />}
             {activeView === 'nat' && <div>NAT Configuration Component</div>}
-            {activeView === 'vpn' && <div>VPN Configuration Component</div>}
+            {activeView === 'dhcp' && <DhcpView />}
+            {activeView === 'dns' && <DnsView />}
+            {activeView === 'vrrp' && <VrrpView />}
+            {activeView === 'wan' && <WanView />}
+            {activeView === 'qos' && <QosView />}
+            {activeView === 'vpn' && <VpnView />}
             {activeView === 'system' && <div>System Configuration Component</div>}
-            {activeView === 'backups' && <div>Backup Management Component</div>}
+            {activeView === 'backups' && <BackupList />}
             {activeView === 'logs' && <div>Audit Logs Component</div>}
           </div>
         </Content>
       </Layout>
+
+      <PendingChangesDrawer />
     </Layout>
   );
 };
@@ -0,0 +1,140 @@
+/**
+ * Policy List Form - Add or edit a prefix-list, community-list or as-path-list
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Form, Input, InputNumber, Modal, Select, Space, message } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { PolicyList, PrefixList } from '@shared/types';
+import { validatePolicyList, validatePrefixList } from '@shared/validators';
+
+export type PolicyListKind = 'prefix-list' | 'community-list' | 'as-path-list';
+
+interface PolicyListFormProps {
+  open: boolean;
+  kind: PolicyListKind;
+  list?: PrefixList | PolicyList | null;
+  onClose: () => void;
+  onSubmit: (list: PrefixList | PolicyList) => Promise<void>;
+}
+
+const ACTION_OPTIONS = [
+  { value: 'permit', label: 'Permit' },
+  { value: 'deny', label: 'Deny' },
+];
+
+export const PolicyListForm: React.FC<PolicyListFormProps> = ({ open, kind, list, onClose, onSubmit }) => {
+  const [form] = Form.useForm();
+  const [saving, setSaving] = useState(false);
+  const isPrefixList = kind === 'prefix-list';
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(list || { family: 'ipv4', rules: [{ number: 10, action: 'permit' }] });
+    }
+  }, [open, list, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated = { ...values, rules: values.rules || [] };
+
+    const validation = isPrefixList ? validatePrefixList(updated) : validatePolicyList(updated);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={list ? `Edit ${kind} ${list.name}` : `Add ${kind}`}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={760}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space align="start">
+          <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+            <Input disabled={!!list} />
+          </Form.Item>
+          {isPrefixList && (
+            <Form.Item label="Family" name="family">
+              <Select
+                style={{ width: 100 }}
+                disabled={!!list}
+                options={[
+                  { value: 'ipv4', label: 'IPv4' },
+                  { value: 'ipv6', label: 'IPv6' },
+                ]}
+              />
+            </Form.Item>
+          )}
+          <Form.Item label="Description" name="description">
+            <Input style={{ width: 320 }} />
+          </Form.Item>
+        </Space>
+
+        <Form.List name="rules">
+          {(fields, { add, remove }) => (
+            <>
+              {fields.map((field) => (
+                <Space key={field.key} align="start">
+                  <Form.Item name={[field.name, 'number']} rules={[{ required: true, message: 'Rule number' }]}>
+                    <InputNumber min={1} max={65535} placeholder="Rule" />
+                  </Form.Item>
+                  <Form.Item name={[field.name, 'action']}>
+                    <Select style={{ width: 100 }} options={ACTION_OPTIONS} />
+                  </Form.Item>
+                  {isPrefixList ? (
+                    <>
+                      <Form.Item name={[field.name, 'prefix']} rules={[{ required: true, message: 'Prefix is required' }]}>
+                        <Input placeholder="10.0.0.0/8" />
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'ge']}>
+                        <InputNumber min={1} max={128} placeholder="ge" />
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'le']}>
+                        <InputNumber min={1} max={128} placeholder="le" />
+                      </Form.Item>
+                    </>
+                  ) : (
+                    <Form.Item name={[field.name, 'regex']} rules={[{ required: true, message: 'Regex is required' }]}>
+                      <Input style={{ width: 260 }} placeholder={kind === 'community-list' ? '65000:100' : '_65000$'} />
+                    </Form.Item>
+                  )}
+                  <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                </Space>
+              ))}
+              <Button
+                type="dashed"
+                icon={<PlusOutlined />}
+                onClick={() => {
+                  const rules: { number?: number }[] = form.getFieldValue('rules') || [];
+                  const next = rules.reduce((max, rule) => Math.max(max, rule.number || 0), 0) + 10;
+                  add({ number: next, action: 'permit' });
+                }}
+              >
+                Add Rule
+              </Button>
+            </>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,289 @@
+/**
+ * Policy View - Route-maps, prefix-lists, community-lists and as-path-lists
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Popconfirm, Space, Table, Tabs, Tag, Typography, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import {
+  IPCChannel,
+  PolicyKind,
+  PolicyList,
+  PrefixList,
+  RouteMap,
+  RouteMapClause,
+  RouteMapRule,
+  RoutingPolicy,
+} from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { RouteMapForm } from './RouteMapForm';
+import { PolicyListForm, PolicyListKind } from './PolicyListForm';
+
+const { Text } = Typography;
+
+const EMPTY_POLICY: RoutingPolicy = { prefixLists: [], communityLists: [], asPathLists: [], routeMaps: [] };
+
+function formatClause(clause: RouteMapClause): string {
+  return clause.value === undefined ? clause.path : `${clause.path} ${clause.value}`;
+}
+
+function actionTag(action: 'permit' | 'deny') {
+  return <Tag color={action === 'permit' ? 'green' : 'red'}>{action}</Tag>;
+}
+
+function prefixListKind(list: PrefixList): PolicyKind {
+  return list.family === 'ipv6' ? 'prefix-list6' : 'prefix-list';
+}
+
+export const PolicyView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [policy, setPolicy] = useState<RoutingPolicy>(EMPTY_POLICY);
+  const [loading, setLoading] = useState(false);
+  const [routeMapFormOpen, setRouteMapFormOpen] = useState(false);
+  const [editingRouteMap, setEditingRouteMap] = useState<RouteMap | null>(null);
+  const [listFormKind, setListFormKind] = useState<PolicyListKind | null>(null);
+  const [editingList, setEditingList] = useState<PrefixList | PolicyList | null>(null);
+
+  const loadPolicy = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setPolicy(await invoke<RoutingPolicy>(IPCChannel.VYOS_GET_POLICY, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  /**
+   * Stage a policy object; edits replace the object so removed rules and clauses go away
+   */
+  const stage = async (kind: PolicyKind, name: string, editing: boolean, type: string, data: unknown) => {
+    const commands = await previewCommands(type, data);
+    const removal = editing ? await previewCommands('delete-policy', { kind, name }) : [];
+    await stageChange(`${editing ? 'Update' : 'Add'} ${kind} ${name}`, [...removal, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deletePolicy = async (kind: PolicyKind, name: string) => {
+    try {
+      await stageChange(`Delete ${kind} ${name}`, await previewCommands('delete-policy', { kind, name }));
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const openRouteMapForm = (routeMap: RouteMap | null) => {
+    setEditingRouteMap(routeMap);
+    setRouteMapFormOpen(true);
+  };
+
+  const openListForm = (kind: PolicyListKind, list: PrefixList | PolicyList | null) => {
+    setEditingList(list);
+    setListFormKind(kind);
+  };
+
+  const submitList = (list: PrefixList | PolicyList) => {
+    if (listFormKind === 'prefix-list') {
+      const prefixList = list as PrefixList;
+      return stage(prefixListKind(prefixList), list.name, !!editingList, 'prefix-list', prefixList);
+    }
+    return stage(listFormKind!, list.name, !!editingList, listFormKind!, list);
+  };
+
+  const renderActions = (kind: PolicyKind, name: string, onEdit: () => void) => (
+    <Space>
+      <Button size="small" icon={<EditOutlined />} onClick={onEdit}>
+        Edit
+      </Button>
+      <Popconfirm
+        title={`Delete ${kind} ${name}?`}
+        description="The commit is refused while anything still references it."
+        onConfirm={() => deletePolicy(kind, name)}
+      >
+        <Button size="small" danger icon={<DeleteOutlined />} />
+      </Popconfirm>
+    </Space>
+  );
+
+  const renderRouteMapRules = (routeMap: RouteMap) => (
+    <Table<RouteMapRule>
+      rowKey="number"
+      size="small"
+      pagination={false}
+      dataSource={routeMap.rules}
+      columns={[
+        { title: 'Rule', dataIndex: 'number' },
+        { title: 'Action', dataIndex: 'action', render: actionTag },
+        {
+          title: 'Match',
+          dataIndex: 'match',
+          render: (clauses: RouteMapClause[]) => clauses.map((clause) => <div key={clause.path}>{formatClause(clause)}</div>),
+        },
+        {
+          title: 'Set',
+          dataIndex: 'set',
+          render: (clauses: RouteMapClause[]) => clauses.map((clause) => <div key={clause.path}>{formatClause(clause)}</div>),
+        },
+        {
+          title: 'Flow',
+          render: (_, rule) =>
+            [rule.onMatch && `on-match ${rule.onMatch}`, rule.continue && `continue ${rule.continue}`]
+              .filter(Boolean)
+              .join(', '),
+        },
+        { title: 'Description', dataIndex: 'description' },
+      ]}
+    />
+  );
+
+  const renderPolicyLists = (kind: 'community-list' | 'as-path-list', lists: PolicyList[]) => (
+    <Table<PolicyList>
+      rowKey="name"
+      loading={loading}
+      dataSource={lists}
+      pagination={false}
+      columns={[
+        { title: 'Name', dataIndex: 'name' },
+        { title: 'Description', dataIndex: 'description' },
+        {
+          title: 'Rules',
+          render: (_, list) =>
+            list.rules.map((rule) => (
+              <div key={rule.number}>
+                {rule.number} {actionTag(rule.action)}
+                <Text code>{rule.regex}</Text>
+              </div>
+            )),
+        },
+        { title: 'Actions', render: (_, list) => renderActions(kind, list.name, () => openListForm(kind, list)) },
+      ]}
+    />
+  );
+
+  return (
+    <Card
+      title="Routing Policy"
+      extra={
+        <Space>
+          <Button icon={<ReloadOutlined />} onClick={loadPolicy} loading={loading}>
+            Refresh
+          </Button>
+          <Button type="primary" icon={<PlusOutlined />} onClick={() => openRouteMapForm(null)}>
+            Add Route Map
+          </Button>
+          <Button icon={<PlusOutlined />} onClick={() => openListForm('prefix-list', null)}>
+            Add Prefix List
+          </Button>
+          <Button icon={<PlusOutlined />} onClick={() => openListForm('community-list', null)}>
+            Add Community List
+          </Button>
+          <Button icon={<PlusOutlined />} onClick={() => openListForm('as-path-list', null)}>
+            Add AS-Path List
+          </Button>
+        </Space>
+      }
+    >
+      <Tabs
+        items={[
+          {
+            key: 'route-maps',
+            label: `Route Maps (${policy.routeMaps.length})`,
+            children: (
+              <Table<RouteMap>
+                rowKey="name"
+                loading={loading}
+                dataSource={policy.routeMaps}
+                pagination={false}
+                expandable={{ expandedRowRender: renderRouteMapRules, rowExpandable: (routeMap) => routeMap.rules.length > 0 }}
+                columns={[
+                  { title: 'Name', dataIndex: 'name' },
+                  { title: 'Description', dataIndex: 'description' },
+                  { title: 'Rules', render: (_, routeMap) => routeMap.rules.length },
+                  {
+                    title: 'Actions',
+                    render: (_, routeMap) =>
+                      renderActions('route-map', routeMap.name, () => openRouteMapForm(routeMap)),
+                  },
+                ]}
+              />
+            ),
+          },
+          {
+            key: 'prefix-lists',
+            label: `Prefix Lists (${policy.prefixLists.length})`,
+            children: (
+              <Table<PrefixList>
+                rowKey={(list) => `${list.family}-${list.name}`}
+                loading={loading}
+                dataSource={policy.prefixLists}
+                pagination={false}
+                columns={[
+                  { title: 'Name', dataIndex: 'name' },
+                  { title: 'Family', dataIndex: 'family', render: (family: string) => <Tag>{family}</Tag> },
+                  { title: 'Description', dataIndex: 'description' },
+                  {
+                    title: 'Rules',
+                    render: (_, list) =>
+                      list.rules.map((rule) => (
+                        <div key={rule.number}>
+                          {rule.number} {actionTag(rule.action)}
+                          {rule.prefix}
+                          {rule.ge !== undefined && ` ge ${rule.ge}`}
+                          {rule.le !== undefined && ` le ${rule.le}`}
+                        </div>
+                      )),
+                  },
+                  {
+                    title: 'Actions',
+                    render: (_, list) =>
+                      renderActions(prefixListKind(list), list.name, () => openListForm('prefix-list', list)),
+                  },
+                ]}
+              />
+            ),
+          },
+          {
+            key: 'community-lists',
+            label: `Community Lists (${policy.communityLists.length})`,
+            children: renderPolicyLists('community-list', policy.communityLists),
+          },
+          {
+            key: 'as-path-lists',
+            label: `AS-Path Lists (${policy.asPathLists.length})`,
+            children: renderPolicyLists('as-path-list', policy.asPathLists),
+          },
+        ]}
+      />
+
+      <RouteMapForm
+        open={routeMapFormOpen}
+        routeMap={editingRouteMap}
+        policy={policy}
+        onClose={() => setRouteMapFormOpen(false)}
+        onSubmit={(routeMap) => stage('route-map', routeMap.name, !!editingRouteMap, 'route-map', routeMap)}
+      />
+      {listFormKind && (
+        <PolicyListForm
+          open={!!listFormKind}
+          kind={listFormKind}
+          list={editingList}
+          onClose={() => setListFormKind(null)}
+          onSubmit={submitList}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,208 @@
+/**
+ * Route Map Form - Add or edit a route-map with ordered match/set clauses
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AutoComplete, Button, Card, Form, Input, InputNumber, Modal, Select, Space, message } from 'antd';
+import { ArrowDownOutlined, ArrowUpOutlined, DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { PolicyKind, RouteMap, RoutingPolicy } from '@shared/types';
+import { ROUTE_MAP_CLAUSES } from '@shared/constants';
+import { validateRouteMap } from '@shared/validators';
+
+interface RouteMapFormProps {
+  open: boolean;
+  routeMap?: RouteMap | null;
+  policy: RoutingPolicy;
+  onClose: () => void;
+  onSubmit: (routeMap: RouteMap) => Promise<void>;
+}
+
+type ClauseSection = 'match' | 'set';
+
+const CLAUSE_DEFINITIONS: Record<ClauseSection, readonly { path: string; policy?: PolicyKind }[]> = {
+  match: ROUTE_MAP_CLAUSES.MATCH,
+  set: ROUTE_MAP_CLAUSES.SET,
+};
+
+function policyNames(policy: RoutingPolicy, kind: PolicyKind): string[] {
+  switch (kind) {
+    case 'prefix-list':
+      return policy.prefixLists.filter((list) => list.family === 'ipv4').map((list) => list.name);
+    case 'prefix-list6':
+      return policy.prefixLists.filter((list) => list.family === 'ipv6').map((list) => list.name);
+    case 'community-list':
+      return policy.communityLists.map((list) => list.name);
+    case 'as-path-list':
+      return policy.asPathLists.map((list) => list.name);
+    case 'route-map':
+      return policy.routeMaps.map((routeMap) => routeMap.name);
+  }
+}
+
+export const RouteMapForm: React.FC<RouteMapFormProps> = ({ open, routeMap, policy, onClose, onSubmit }) => {
+  const [form] = Form.useForm<RouteMap>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(routeMap || { rules: [{ number: 10, action: 'permit', match: [], set: [] }] });
+    }
+  }, [open, routeMap, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: RouteMap = {
+      ...values,
+      rules: (values.rules || []).map((rule) => ({
+        ...rule,
+        match: (rule.match || []).map((clause) => ({ path: clause.path.trim(), value: clause.value || undefined })),
+        set: (rule.set || []).map((clause) => ({ path: clause.path.trim(), value: clause.value || undefined })),
+        onMatch: rule.onMatch || undefined,
+      })),
+    };
+
+    const validation = validateRouteMap(updated);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderClauses = (ruleField: number, section: ClauseSection) => (
+    <Form.List name={[ruleField, section]}>
+      {(fields, { add, remove, move }) => (
+        <>
+          {fields.map((field, index) => (
+            <Space key={field.key} align="start">
+              <Form.Item name={[field.name, 'path']} rules={[{ required: true, message: 'Attribute is required' }]}>
+                <AutoComplete
+                  style={{ width: 220 }}
+                  placeholder={section === 'match' ? 'ip address prefix-list' : 'local-preference'}
+                  options={CLAUSE_DEFINITIONS[section].map((clause) => ({ value: clause.path }))}
+                />
+              </Form.Item>
+              <Form.Item noStyle shouldUpdate>
+                {({ getFieldValue }) => {
+                  const path = getFieldValue(['rules', ruleField, section, field.name, 'path']);
+                  const kind = CLAUSE_DEFINITIONS[section].find((clause) => clause.path === path)?.policy;
+
+                  return (
+                    <Form.Item name={[field.name, 'value']}>
+                      {kind ? (
+                        <Select
+                          style={{ width: 200 }}
+                          placeholder={`Select ${kind}`}
+                          options={policyNames(policy, kind).map((name) => ({ value: name, label: name }))}
+                        />
+                      ) : (
+                        <Input style={{ width: 200 }} placeholder="Value" />
+                      )}
+                    </Form.Item>
+                  );
+                }}
+              </Form.Item>
+              <Button icon={<ArrowUpOutlined />} disabled={index === 0} onClick={() => move(index, index - 1)} />
+              <Button
+                icon={<ArrowDownOutlined />}
+                disabled={index === fields.length - 1}
+                onClick={() => move(index, index + 1)}
+              />
+              <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+            </Space>
+          ))}
+          <Button type="dashed" size="small" icon={<PlusOutlined />} onClick={() => add({ path: '' })}>
+            Add {section === 'match' ? 'Match' : 'Set'} Clause
+          </Button>
+        </>
+      )}
+    </Form.List>
+  );
+
+  return (
+    <Modal
+      open={open}
+      title={routeMap ? `Edit route-map ${routeMap.name}` : 'Add Route Map'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={860}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space align="start">
+          <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+            <Input placeholder="BGP-IN" disabled={!!routeMap} />
+          </Form.Item>
+          <Form.Item label="Description" name="description">
+            <Input style={{ width: 400 }} />
+          </Form.Item>
+        </Space>
+
+        <Form.List name="rules">
+          {(fields, { add, remove }) => (
+            <Space direction="vertical" style={{ width: '100%' }}>
+              {fields.map((field) => (
+                <Card
+                  key={field.key}
+                  size="small"
+                  extra={<Button size="small" danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />}
+                  title={
+                    <Space align="baseline">
+                      <Form.Item label="Rule" name={[field.name, 'number']} rules={[{ required: true }]}>
+                        <InputNumber min={1} max={65535} />
+                      </Form.Item>
+                      <Form.Item label="Action" name={[field.name, 'action']}>
+                        <Select
+                          style={{ width: 100 }}
+                          options={[
+                            { value: 'permit', label: 'Permit' },
+                            { value: 'deny', label: 'Deny' },
+                          ]}
+                        />
+                      </Form.Item>
+                      <Form.Item label="On match" name={[field.name, 'onMatch']}>
+                        <Input style={{ width: 120 }} placeholder="next / goto 30" />
+                      </Form.Item>
+                      <Form.Item label="Continue" name={[field.name, 'continue']}>
+                        <InputNumber min={1} max={65535} />
+                      </Form.Item>
+                    </Space>
+                  }
+                >
+                  <Form.Item label="Description" name={[field.name, 'description']}>
+                    <Input />
+                  </Form.Item>
+                  <Form.Item label="Match">{renderClauses(field.name, 'match')}</Form.Item>
+                  <Form.Item label="Set">{renderClauses(field.name, 'set')}</Form.Item>
+                </Card>
+              ))}
+              <Button
+                type="dashed"
+                icon={<PlusOutlined />}
+                onClick={() => {
+                  const rules: RouteMap['rules'] = form.getFieldValue('rules') || [];
+                  const next = rules.reduce((max, rule) => Math.max(max, rule.number || 0), 0) + 10;
+                  add({ number: next, action: 'permit', match: [], set: [] });
+                }}
+              >
+                Add Rule
+              </Button>
+            </Space>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,283 @@
+/**
+ * QoS Policy Form - Shaper classes with their guaranteed bandwidth, matches and egress interfaces
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Card, Form, Input, InputNumber, Modal, Progress, Select, Space, Typography, message } from 'antd';
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons';
+import { NetworkInterface, QosClass, QosClassSettings, QosMatch, QosPolicy } from '@shared/types';
+import { VYOS_FEATURES } from '@shared/constants';
+import { formatQosRate, getQosBandwidthUsage, validateQosPolicy } from '@shared/validators';
+
+const { Text } = Typography;
+
+interface QosPolicyFormProps {
+  open: boolean;
+  policy?: QosPolicy | null;
+  policies: QosPolicy[];
+  interfaces: NetworkInterface[];
+  onClose: () => void;
+  onSubmit: (policy: QosPolicy) => Promise<void>;
+}
+
+function toSettings(settings?: Partial<QosClassSettings>): QosClassSettings {
+  return {
+    bandwidth: settings?.bandwidth?.trim() || '',
+    ceiling: settings?.ceiling?.trim() || undefined,
+    priority: settings?.priority ?? undefined,
+    queueType: settings?.queueType || undefined,
+  };
+}
+
+function toMatch(match: QosMatch): QosMatch {
+  const endpoint = (side: 'source' | 'destination') =>
+    match[side]?.address || match[side]?.port
+      ? { address: match[side]?.address || undefined, port: match[side]?.port || undefined }
+      : undefined;
+
+  return {
+    name: match.name,
+    family: match.family || 'ipv4',
+    protocol: match.protocol || undefined,
+    dscp: match.dscp || undefined,
+    source: endpoint('source'),
+    destination: endpoint('destination'),
+  };
+}
+
+function toPolicy(values: Partial<QosPolicy>): QosPolicy {
+  return {
+    name: values.name || '',
+    description: values.description || undefined,
+    bandwidth: values.bandwidth?.trim() || '',
+    classes: (values.classes || []).map((qosClass: QosClass) => ({
+      id: qosClass.id,
+      description: qosClass.description || undefined,
+      ...toSettings(qosClass),
+      matches: (qosClass.matches || []).map(toMatch),
+    })),
+    defaultClass: toSettings(values.defaultClass),
+    interfaces: values.interfaces || [],
+  };
+}
+
+const ClassSettingsFields: React.FC<{ prefix: (string | number)[] }> = ({ prefix }) => (
+  <Space wrap align="start">
+    <Form.Item
+      label="Bandwidth"
+      name={[...prefix, 'bandwidth']}
+      tooltip="Guaranteed rate, absolute or a percentage of the policy bandwidth"
+      rules={[{ required: true, message: 'Bandwidth is required' }]}
+    >
+      <Input placeholder="20%" style={{ width: 110 }} />
+    </Form.Item>
+    <Form.Item label="Ceiling" name={[...prefix, 'ceiling']} tooltip="Rate the class may borrow up to when others are idle">
+      <Input placeholder="100%" style={{ width: 110 }} />
+    </Form.Item>
+    <Form.Item label="Priority" name={[...prefix, 'priority']} tooltip="0 is served first">
+      <InputNumber min={0} max={7} />
+    </Form.Item>
+    <Form.Item label="Queue" name={[...prefix, 'queueType']}>
+      <Select
+        allowClear
+        style={{ width: 140 }}
+        options={VYOS_FEATURES.QOS_QUEUE_TYPES.map((type) => ({ value: type, label: type }))}
+      />
+    </Form.Item>
+  </Space>
+);
+
+export const QosPolicyForm: React.FC<QosPolicyFormProps> = ({ open, policy, policies, interfaces, onClose, onSubmit }) => {
+  const [form] = Form.useForm<QosPolicy>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(policy || { bandwidth: 'auto', classes: [], defaultClass: { bandwidth: '20%' }, interfaces: [] });
+    }
+  }, [open, policy, form]);
+
+  const save = async () => {
+    const updated = toPolicy(await form.validateFields());
+
+    if (!policy && policies.some((other) => other.name === updated.name)) {
+      message.error(`Policy ${updated.name} already exists`);
+      return;
+    }
+
+    const validation = validateQosPolicy(updated);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const nextClassId = () => {
+    const classes: QosClass[] = form.getFieldValue('classes') || [];
+    return Math.max(0, ...classes.map((qosClass) => qosClass?.id || 0)) + 10;
+  };
+
+  // An interface has one egress policy
+  const taken = new Set(policies.filter((other) => other.name !== policy?.name).flatMap((other) => other.interfaces));
+
+  const renderUsage = () => {
+    const usage = getQosBandwidthUsage(toPolicy(form.getFieldsValue(true)));
+    if (!usage) {
+      return <Text type="secondary">Guaranteed bandwidth cannot be summed until every rate is valid</Text>;
+    }
+
+    const format = (value: number) => (usage.unit === '%' ? `${value}%` : formatQosRate(value));
+    const percent = usage.available > 0 ? Math.round((usage.guaranteed / usage.available) * 100) : 0;
+
+    return (
+      <Space direction="vertical" style={{ width: '100%' }} size={0}>
+        <Text>
+          Guaranteed {format(usage.guaranteed)} of {format(usage.available)}
+        </Text>
+        <Progress percent={Math.min(percent, 100)} status={percent > 100 ? 'exception' : 'normal'} />
+      </Space>
+    );
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={policy ? `Edit policy ${policy.name}` : 'Add QoS Policy'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={860}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space wrap align="start">
+          <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+            <Input placeholder="WAN-OUT" disabled={!!policy} style={{ width: 160 }} />
+          </Form.Item>
+          <Form.Item
+            label="Bandwidth"
+            name="bandwidth"
+            tooltip='Rate of the link, or "auto" to use the interface speed'
+            rules={[{ required: true, message: 'Bandwidth is required' }]}
+          >
+            <Input placeholder="100mbit" style={{ width: 120 }} />
+          </Form.Item>
+          <Form.Item label="Description" name="description">
+            <Input style={{ width: 300 }} />
+          </Form.Item>
+        </Space>
+
+        <Form.Item label="Egress Interfaces" name="interfaces" tooltip="Type a vif such as eth1.20 to add it">
+          <Select
+            mode="tags"
+            options={interfaces.map((iface) => ({
+              value: iface.name,
+              label: iface.description ? `${iface.name} (${iface.description})` : iface.name,
+              disabled: taken.has(iface.name),
+            }))}
+          />
+        </Form.Item>
+
+        <Form.Item noStyle shouldUpdate>
+          {renderUsage}
+        </Form.Item>
+
+        <Form.List name="classes">
+          {(fields, { add, remove }) => (
+            <Space direction="vertical" style={{ width: '100%' }}>
+              {fields.map((field) => (
+                <Card
+                  key={field.key}
+                  size="small"
+                  title={
+                    <Space>
+                      <Form.Item noStyle name={[field.name, 'id']} rules={[{ required: true }]}>
+                        <InputNumber
+                          min={VYOS_FEATURES.QOS_CLASS_ID_MIN}
+                          max={VYOS_FEATURES.QOS_CLASS_ID_MAX}
+                          addonBefore="Class"
+                          style={{ width: 140 }}
+                        />
+                      </Form.Item>
+                      <Form.Item noStyle name={[field.name, 'description']}>
+                        <Input placeholder="Description" style={{ width: 240 }} />
+                      </Form.Item>
+                    </Space>
+                  }
+                  extra={<MinusCircleOutlined onClick={() => remove(field.name)} />}
+                >
+                  <ClassSettingsFields prefix={[field.name]} />
+
+                  <Form.List name={[field.name, 'matches']}>
+                    {(matchFields, matchList) => (
+                      <>
+                        {matchFields.map((matchField) => (
+                          <Space key={matchField.key} align="baseline" wrap>
+                            <Form.Item label="Match" name={[matchField.name, 'name']} rules={[{ required: true }]}>
+                              <Input placeholder="VOIP" style={{ width: 100 }} />
+                            </Form.Item>
+                            <Form.Item label="Family" name={[matchField.name, 'family']}>
+                              <Select
+                                style={{ width: 80 }}
+                                options={[
+                                  { value: 'ipv4', label: 'IPv4' },
+                                  { value: 'ipv6', label: 'IPv6' },
+                                ]}
+                              />
+                            </Form.Item>
+                            <Form.Item label="Protocol" name={[matchField.name, 'protocol']}>
+                              <Input placeholder="udp" style={{ width: 80 }} />
+                            </Form.Item>
+                            <Form.Item label="DSCP" name={[matchField.name, 'dscp']}>
+                              <Input placeholder="ef" style={{ width: 70 }} />
+                            </Form.Item>
+                            <Form.Item label="Source" name={[matchField.name, 'source', 'address']}>
+                              <Input style={{ width: 140 }} />
+                            </Form.Item>
+                            <Form.Item label="Destination" name={[matchField.name, 'destination', 'address']}>
+                              <Input style={{ width: 140 }} />
+                            </Form.Item>
+                            <Form.Item label="Dst Port" name={[matchField.name, 'destination', 'port']}>
+                              <Input placeholder="5060" style={{ width: 80 }} />
+                            </Form.Item>
+                            <MinusCircleOutlined onClick={() => matchList.remove(matchField.name)} />
+                          </Space>
+                        ))}
+                        <Button type="dashed" size="small" icon={<PlusOutlined />} onClick={() => matchList.add({ family: 'ipv4' })}>
+                          Add Match
+                        </Button>
+                      </>
+                    )}
+                  </Form.List>
+                </Card>
+              ))}
+              <Button
+                type="dashed"
+                icon={<PlusOutlined />}
+                onClick={() => add({ id: nextClassId(), bandwidth: '10%', matches: [{ name: 'MATCH', family: 'ipv4' }] })}
+              >
+                Add Class
+              </Button>
+            </Space>
+          )}
+        </Form.List>
+
+        <Card size="small" title="Default Class" style={{ marginTop: 16 }}>
+          <ClassSettingsFields prefix={['defaultClass']} />
+        </Card>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,194 @@
+/**
+ * QoS View - Traffic shaper policies, their classes and the interfaces they shape
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Popconfirm, Space, Table, Tag, Typography, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { IPCChannel, NetworkInterface, QosClass, QosMatch, QosPolicy } from '@shared/types';
+import { formatQosRate, getQosBandwidthUsage } from '@shared/validators';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { QosPolicyForm } from './QosPolicyForm';
+
+const { Text } = Typography;
+
+function describeMatch(match: QosMatch): string {
+  const criteria = [
+    match.protocol,
+    match.dscp && `dscp ${match.dscp}`,
+    match.source?.address && `from ${match.source.address}`,
+    match.source?.port && `sport ${match.source.port}`,
+    match.destination?.address && `to ${match.destination.address}`,
+    match.destination?.port && `dport ${match.destination.port}`,
+  ];
+  return `${match.name}: ${criteria.filter(Boolean).join(' ') || 'any'}`;
+}
+
+function describeUsage(policy: QosPolicy): string {
+  const usage = getQosBandwidthUsage(policy);
+  if (!usage) {
+    return '-';
+  }
+  return usage.unit === '%'
+    ? `${usage.guaranteed}% of ${usage.available}%`
+    : `${formatQosRate(usage.guaranteed)} of ${formatQosRate(usage.available)}`;
+}
+
+export const QosView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [policies, setPolicies] = useState<QosPolicy[]>([]);
+  const [interfaces, setInterfaces] = useState<NetworkInterface[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<QosPolicy | null>(null);
+
+  const loadPolicies = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [devicePolicies, deviceInterfaces] = await Promise.all([
+        invoke<QosPolicy[]>(IPCChannel.VYOS_GET_QOS, selectedDeviceId),
+        invoke<NetworkInterface[]>(IPCChannel.VYOS_GET_INTERFACES, selectedDeviceId),
+      ]);
+      setPolicies(devicePolicies);
+      setInterfaces(deviceInterfaces);
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadPolicies();
+  }, [loadPolicies]);
+
+  const openForm = (policy: QosPolicy | null) => {
+    setEditingPolicy(policy);
+    setFormOpen(true);
+  };
+
+  const savePolicy = async (policy: QosPolicy) => {
+    const commands = await previewCommands('qos-policy', policy);
+    // Edits replace the policy so removed classes, matches and interfaces go away
+    const removal = editingPolicy
+      ? await previewCommands('delete-qos-policy', editingPolicy)
+      : [];
+    await stageChange(`${editingPolicy ? 'Update' : 'Add'} QoS policy ${policy.name}`, [...removal, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deletePolicy = async (policy: QosPolicy) => {
+    try {
+      const commands = await previewCommands('delete-qos-policy', policy);
+      await stageChange(`Delete QoS policy ${policy.name}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const renderClasses = (policy: QosPolicy) => (
+    <Table<QosClass>
+      rowKey="id"
+      size="small"
+      dataSource={policy.classes}
+      pagination={false}
+      columns={[
+        { title: 'Class', dataIndex: 'id' },
+        { title: 'Bandwidth', dataIndex: 'bandwidth' },
+        { title: 'Ceiling', dataIndex: 'ceiling' },
+        { title: 'Priority', dataIndex: 'priority' },
+        { title: 'Queue', dataIndex: 'queueType' },
+        {
+          title: 'Matches',
+          dataIndex: 'matches',
+          render: (matches: QosMatch[]) => (
+            <Space size={4} wrap>
+              {matches.map((match) => (
+                <Tag key={match.name}>{describeMatch(match)}</Tag>
+              ))}
+            </Space>
+          ),
+        },
+        { title: 'Description', dataIndex: 'description' },
+      ]}
+      footer={() => (
+        <Text type="secondary">
+          Default class: {policy.defaultClass.bandwidth}
+          {policy.defaultClass.ceiling && `, ceiling ${policy.defaultClass.ceiling}`}
+          {policy.defaultClass.priority !== undefined && `, priority ${policy.defaultClass.priority}`}
+        </Text>
+      )}
+    />
+  );
+
+  return (
+    <Card
+      title="QoS Policies"
+      extra={
+        <Space>
+          <Button icon={<ReloadOutlined />} onClick={loadPolicies} loading={loading}>
+            Refresh
+          </Button>
+          <Button type="primary" icon={<PlusOutlined />} onClick={() => openForm(null)}>
+            Add Policy
+          </Button>
+        </Space>
+      }
+    >
+      <Table<QosPolicy>
+        rowKey="name"
+        loading={loading}
+        dataSource={policies}
+        pagination={false}
+        expandable={{ expandedRowRender: renderClasses }}
+        columns={[
+          { title: 'Policy', dataIndex: 'name' },
+          { title: 'Bandwidth', dataIndex: 'bandwidth' },
+          { title: 'Classes', render: (_, policy) => policy.classes.length },
+          { title: 'Guaranteed', render: (_, policy) => describeUsage(policy) },
+          {
+            title: 'Interfaces',
+            dataIndex: 'interfaces',
+            render: (names: string[]) =>
+              names.length > 0 ? names.map((name) => <Tag key={name}>{name}</Tag>) : <Text type="secondary">none</Text>,
+          },
+          { title: 'Description', dataIndex: 'description' },
+          {
+            title: 'Actions',
+            render: (_, policy) => (
+              <Space>
+                <Button size="small" icon={<EditOutlined />} onClick={() => openForm(policy)}>
+                  Edit
+                </Button>
+                <Popconfirm
+                  title={`Delete policy ${policy.name}?`}
+                  description="It is detached from its interfaces first"
+                  onConfirm={() => deletePolicy(policy)}
+                >
+                  <Button size="small" danger icon={<DeleteOutlined />} />
+                </Popconfirm>
+              </Space>
+            ),
+          },
+        ]}
+      />
+
+      <QosPolicyForm
+        open={formOpen}
+        policy={editingPolicy}
+        policies={policies}
+        interfaces={interfaces}
+        onClose={() => setFormOpen(false)}
+        onSubmit={savePolicy}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,112 @@
+/**
+ * Local Route Form - Add or edit a local-route rule for traffic the router originates
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Form, Input, InputNumber, Modal, Select, Space, message } from 'antd';
+import { LocalRouteRule } from '@shared/types';
+import { VYOS_FEATURES } from '@shared/constants';
+import { validateLocalRouteRule } from '@shared/validators';
+
+interface LocalRouteFormProps {
+  open: boolean;
+  rule?: LocalRouteRule | null;
+  rules: LocalRouteRule[];
+  onClose: () => void;
+  onSubmit: (rule: LocalRouteRule) => Promise<void>;
+}
+
+interface LocalRouteFormValues extends Omit<LocalRouteRule, 'table'> {
+  table: string;
+}
+
+export const LocalRouteForm: React.FC<LocalRouteFormProps> = ({ open, rule, rules, onClose, onSubmit }) => {
+  const [form] = Form.useForm<LocalRouteFormValues>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(rule ? { ...rule, table: String(rule.table) } : { family: 'ipv4' });
+    }
+  }, [open, rule, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: LocalRouteRule = {
+      ...values,
+      source: values.source || undefined,
+      destination: values.destination || undefined,
+      inboundInterface: values.inboundInterface || undefined,
+      fwmark: values.fwmark ?? undefined,
+      table: values.table === 'main' ? 'main' : Number(values.table),
+    };
+
+    // Editing keeps the rule number, so only the other rules can clash with it
+    const others = rules.filter((other) => other !== rule);
+    const validation = validateLocalRouteRule(updated, others);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={rule ? `Edit local route rule ${rule.number}` : 'Add Local Route Rule'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space wrap align="start">
+          <Form.Item label="Rule" name="number" rules={[{ required: true, message: 'Rule number is required' }]}>
+            <InputNumber min={1} max={32765} disabled={!!rule} />
+          </Form.Item>
+          <Form.Item label="Family" name="family">
+            <Select
+              disabled={!!rule}
+              style={{ width: 100 }}
+              options={VYOS_FEATURES.FIREWALL_FAMILIES.map((family) => ({ value: family, label: family }))}
+            />
+          </Form.Item>
+          <Form.Item
+            label="Table"
+            name="table"
+            tooltip='"main" or 1-200'
+            rules={[{ required: true, message: 'Table is required' }]}
+          >
+            <Input placeholder="10" style={{ width: 100 }} />
+          </Form.Item>
+        </Space>
+        <Form.Item label="Source" name="source">
+          <Input placeholder="203.0.113.10" />
+        </Form.Item>
+        <Form.Item label="Destination" name="destination" tooltip="VyOS 1.4 and later">
+          <Input placeholder="198.51.100.0/24" />
+        </Form.Item>
+        <Space wrap align="start">
+          <Form.Item label="Inbound Interface" name="inboundInterface" tooltip="VyOS 1.4 and later">
+            <Input placeholder="eth1" style={{ width: 140 }} />
+          </Form.Item>
+          <Form.Item label="Firewall Mark" name="fwmark" tooltip="VyOS 1.4 and later">
+            <InputNumber min={1} />
+          </Form.Item>
+        </Space>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,192 @@
+/**
+ * OSPF Panel - OSPF/OSPFv3 configuration alongside live neighbor state
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Descriptions, Empty, Space, Table, Tag, Typography, message } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import { IPCChannel, OSPFArea, OSPFConfig, OSPFInterface, OSPFNeighbor } from '@shared/types';
+import { ROUTING_STATE_REFRESH_INTERVAL } from '@shared/constants';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+
+const { Text } = Typography;
+
+interface OSPFState {
+  ospf: OSPFConfig | null;
+  ospfv3: OSPFConfig | null;
+}
+
+function neighborStateColor(state: string): string {
+  if (state.startsWith('Full')) {
+    return 'green';
+  }
+  return state.startsWith('2-Way') ? 'blue' : 'orange';
+}
+
+const OSPFProcessCard: React.FC<{ title: string; ospf: OSPFConfig; neighbors: OSPFNeighbor[] }> = ({
+  title,
+  ospf,
+  neighbors,
+}) => (
+  <Card size="small" title={title}>
+    <Descriptions size="small" column={3}>
+      <Descriptions.Item label="Router ID">{ospf.routerId || <Text type="secondary">auto</Text>}</Descriptions.Item>
+      <Descriptions.Item label="Passive by default">{ospf.passiveDefault ? 'Yes' : 'No'}</Descriptions.Item>
+      <Descriptions.Item label="Default route">
+        {ospf.defaultInformation ? `Originate${ospf.defaultInformation.always ? ' (always)' : ''}` : 'No'}
+      </Descriptions.Item>
+      <Descriptions.Item label="Redistribute" span={3}>
+        {ospf.redistribute.length === 0
+          ? 'None'
+          : ospf.redistribute.map((r) => (
+              <Tag key={r.protocol}>
+                {r.protocol}
+                {r.metric !== undefined && ` metric ${r.metric}`}
+                {r.metricType && ` type ${r.metricType}`}
+                {r.routeMap && ` via ${r.routeMap}`}
+              </Tag>
+            ))}
+      </Descriptions.Item>
+    </Descriptions>
+
+    <Table<OSPFArea>
+      rowKey="id"
+      size="small"
+      pagination={false}
+      dataSource={ospf.areas}
+      columns={[
+        { title: 'Area', dataIndex: 'id' },
+        {
+          title: 'Type',
+          render: (_, area) => (area.type === 'normal' ? 'Normal' : `${area.type.toUpperCase()}${area.noSummary ? ' (totally)' : ''}`),
+        },
+        { title: 'Networks', dataIndex: 'networks', render: (networks: string[]) => networks.join(', ') },
+        { title: 'Authentication', dataIndex: 'authentication' },
+      ]}
+    />
+
+    <Table<OSPFInterface>
+      rowKey="name"
+      size="small"
+      pagination={false}
+      style={{ marginTop: 16 }}
+      dataSource={ospf.interfaces}
+      columns={[
+        { title: 'Interface', dataIndex: 'name' },
+        { title: 'Area', dataIndex: 'area' },
+        { title: 'Cost', dataIndex: 'cost' },
+        {
+          title: 'Passive',
+          render: (_, iface) => ((iface.passive ?? ospf.passiveDefault) ? <Tag>Passive</Tag> : null),
+        },
+        { title: 'Authentication', render: (_, iface) => iface.authentication?.type },
+        {
+          title: 'Neighbors',
+          render: (_, iface) =>
+            neighbors
+              .filter((n) => n.interface === iface.name)
+              .map((n) => (
+                <Tag key={n.neighborId} color={neighborStateColor(n.state)}>
+                  {n.neighborId} {n.state}
+                </Tag>
+              )),
+        },
+      ]}
+    />
+  </Card>
+);
+
+export const OSPFPanel: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const [config, setConfig] = useState<OSPFState | null>(null);
+  const [neighbors, setNeighbors] = useState<OSPFNeighbor[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadConfig = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setConfig(await invoke<OSPFState>(IPCChannel.VYOS_GET_OSPF, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  const loadNeighbors = useCallback(async (notify = true) => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    try {
+      setNeighbors(await invoke<OSPFNeighbor[]>(IPCChannel.VYOS_GET_OSPF_NEIGHBORS, selectedDeviceId));
+    } catch (error) {
+      // Background polls fail quietly; the connection events already report drops
+      if (notify) {
+        message.error((error as Error).message);
+      }
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  useEffect(() => {
+    loadNeighbors();
+    const timer = setInterval(() => loadNeighbors(false), ROUTING_STATE_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [loadNeighbors]);
+
+  const refresh = () => {
+    loadConfig();
+    loadNeighbors();
+  };
+
+  if (config && !config.ospf && !config.ospfv3) {
+    return <Empty description="OSPF is not configured on this device" />;
+  }
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Button icon={<ReloadOutlined />} onClick={refresh} loading={loading}>
+        Refresh
+      </Button>
+
+      {config?.ospf && (
+        <OSPFProcessCard title="OSPF" ospf={config.ospf} neighbors={neighbors.filter((n) => n.version === 'v2')} />
+      )}
+      {config?.ospfv3 && (
+        <OSPFProcessCard title="OSPFv3" ospf={config.ospfv3} neighbors={neighbors.filter((n) => n.version === 'v3')} />
+      )}
+
+      <Card size="small" title="Neighbors">
+        <Table<OSPFNeighbor>
+          rowKey={(n) => `${n.version}-${n.neighborId}-${n.interface}`}
+          size="small"
+          pagination={false}
+          dataSource={neighbors}
+          columns={[
+            { title: 'Neighbor ID', dataIndex: 'neighborId' },
+            { title: 'Version', dataIndex: 'version', render: (version: string) => (version === 'v2' ? 'OSPF' : 'OSPFv3') },
+            {
+              title: 'State',
+              dataIndex: 'state',
+              render: (state: string) => <Tag color={neighborStateColor(state)}>{state}</Tag>,
+            },
+            { title: 'Priority', dataIndex: 'priority' },
+            { title: 'Interface', dataIndex: 'interface' },
+            { title: 'Address', dataIndex: 'address' },
+            { title: 'Up Time', dataIndex: 'upTime' },
+            { title: 'Dead Time', dataIndex: 'deadTime' },
+          ]}
+        />
+      </Card>
+    </Space>
+  );
+};
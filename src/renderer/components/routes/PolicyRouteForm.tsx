@@ -0,0 +1,191 @@
+/**
+ * Policy Route Form - Add or edit a policy route, its rules and the interfaces it applies to
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Card, Form, Input, InputNumber, Modal, Select, Space, Switch, message } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { PolicyRoute, PolicyRouteRule, RoutingTable } from '@shared/types';
+import { VYOS_FEATURES } from '@shared/constants';
+import { validatePolicyRoute } from '@shared/validators';
+
+interface PolicyRouteFormProps {
+  open: boolean;
+  route?: PolicyRoute | null;
+  onClose: () => void;
+  onSubmit: (route: PolicyRoute) => Promise<void>;
+}
+
+// Tables are edited as text so "main" and numbers share one input
+interface RuleFormValues extends Omit<PolicyRouteRule, 'setTable'> {
+  setTable?: string;
+}
+
+interface RouteFormValues extends Omit<PolicyRoute, 'rules'> {
+  rules?: RuleFormValues[];
+}
+
+function parseTable(table?: string): RoutingTable | undefined {
+  if (!table) {
+    return undefined;
+  }
+  return table === 'main' ? 'main' : Number(table);
+}
+
+export const PolicyRouteForm: React.FC<PolicyRouteFormProps> = ({ open, route, onClose, onSubmit }) => {
+  const [form] = Form.useForm<RouteFormValues>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(
+        route
+          ? {
+              ...route,
+              rules: route.rules.map((rule) => ({
+                ...rule,
+                setTable: rule.setTable === undefined ? undefined : String(rule.setTable),
+              })),
+            }
+          : { family: 'ipv4', interfaces: [], rules: [] }
+      );
+    }
+  }, [open, route, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: PolicyRoute = {
+      ...values,
+      interfaces: values.interfaces || [],
+      rules: (values.rules || []).map((rule) => ({
+        ...rule,
+        protocol: rule.protocol || undefined,
+        dscp: rule.dscp || undefined,
+        source: rule.source?.address || rule.source?.port ? rule.source : undefined,
+        destination: rule.destination?.address || rule.destination?.port ? rule.destination : undefined,
+        setTable: parseTable(rule.setTable),
+        setMark: rule.setMark ?? undefined,
+      })),
+    };
+
+    const validation = validatePolicyRoute(updated);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const nextRuleNumber = () => {
+    const rules: RuleFormValues[] = form.getFieldValue('rules') || [];
+    return Math.max(0, ...rules.map((rule) => rule?.number || 0)) + 10;
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={route ? `Edit policy route ${route.name}` : 'Add Policy Route'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={960}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space wrap align="start">
+          <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+            <Input placeholder="GUEST-VIA-ISP2" disabled={!!route} />
+          </Form.Item>
+          <Form.Item label="Family" name="family">
+            <Select
+              disabled={!!route}
+              style={{ width: 100 }}
+              options={VYOS_FEATURES.FIREWALL_FAMILIES.map((family) => ({ value: family, label: family }))}
+            />
+          </Form.Item>
+          <Form.Item label="Description" name="description">
+            <Input style={{ width: 280 }} />
+          </Form.Item>
+        </Space>
+        <Form.Item label="Inbound Interfaces" name="interfaces" tooltip="Traffic arriving on these interfaces is matched">
+          <Select mode="tags" open={false} placeholder="eth1.20" />
+        </Form.Item>
+
+        <Form.List name="rules">
+          {(fields, { add, remove }) => (
+            <Space direction="vertical" style={{ width: '100%' }}>
+              {fields.map((field) => (
+                <Card
+                  key={field.key}
+                  size="small"
+                  extra={<Button size="small" danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />}
+                  title={
+                    <Space align="baseline" wrap>
+                      <Form.Item label="Rule" name={[field.name, 'number']} rules={[{ required: true }]}>
+                        <InputNumber min={1} />
+                      </Form.Item>
+                      <Form.Item label="Description" name={[field.name, 'description']}>
+                        <Input style={{ width: 260 }} />
+                      </Form.Item>
+                      <Form.Item label="Disabled" name={[field.name, 'disabled']} valuePropName="checked">
+                        <Switch size="small" />
+                      </Form.Item>
+                    </Space>
+                  }
+                >
+                  <Space wrap align="start">
+                    <Form.Item label="Protocol" name={[field.name, 'protocol']}>
+                      <Select
+                        allowClear
+                        placeholder="Any"
+                        style={{ width: 120 }}
+                        options={VYOS_FEATURES.POLICY_ROUTE_PROTOCOLS.map((protocol) => ({ value: protocol, label: protocol }))}
+                      />
+                    </Form.Item>
+                    <Form.Item label="Source" name={[field.name, 'source', 'address']}>
+                      <Input placeholder="192.168.20.0/24" style={{ width: 160 }} />
+                    </Form.Item>
+                    <Form.Item label="Source Port" name={[field.name, 'source', 'port']}>
+                      <Input placeholder="1024-65535" style={{ width: 110 }} />
+                    </Form.Item>
+                    <Form.Item label="Destination" name={[field.name, 'destination', 'address']}>
+                      <Input placeholder="!10.0.0.0/8" style={{ width: 160 }} />
+                    </Form.Item>
+                    <Form.Item label="Destination Port" name={[field.name, 'destination', 'port']}>
+                      <Input placeholder="80,443" style={{ width: 110 }} />
+                    </Form.Item>
+                    <Form.Item label="DSCP" name={[field.name, 'dscp']}>
+                      <Input placeholder="46" style={{ width: 80 }} />
+                    </Form.Item>
+                  </Space>
+                  <Space wrap align="start">
+                    <Form.Item label="Set Table" name={[field.name, 'setTable']} tooltip='"main" or 1-200'>
+                      <Input placeholder="10" style={{ width: 100 }} />
+                    </Form.Item>
+                    <Form.Item label="Set Mark" name={[field.name, 'setMark']}>
+                      <InputNumber min={1} />
+                    </Form.Item>
+                  </Space>
+                </Card>
+              ))}
+              <Button type="dashed" icon={<PlusOutlined />} onClick={() => add({ number: nextRuleNumber() })}>
+                Add Rule
+              </Button>
+            </Space>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,251 @@
+/**
+ * Policy Routing Panel - Policy routes that steer forwarded traffic, and local-route rules for router traffic
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Popconfirm, Space, Table, Tag, Typography, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import {
+  IPCChannel,
+  LocalRouteRule,
+  PolicyRoute,
+  PolicyRouteMatch,
+  PolicyRouteRule,
+  PolicyRoutingConfig,
+  RoutingTable,
+} from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { PolicyRouteForm } from './PolicyRouteForm';
+import { LocalRouteForm } from './LocalRouteForm';
+
+const { Text } = Typography;
+
+function describeMatch(match?: PolicyRouteMatch): string {
+  if (!match) {
+    return 'any';
+  }
+  return [match.address, match.port && `port ${match.port}`].filter(Boolean).join(' ') || 'any';
+}
+
+function renderTable(table?: RoutingTable) {
+  return table === undefined ? null : <Tag color="purple">{table === 'main' ? 'main' : `table ${table}`}</Tag>;
+}
+
+export const PolicyRoutingPanel: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [policy, setPolicy] = useState<PolicyRoutingConfig>({ routes: [], localRoutes: [] });
+  const [loading, setLoading] = useState(false);
+  const [routeFormOpen, setRouteFormOpen] = useState(false);
+  const [editingRoute, setEditingRoute] = useState<PolicyRoute | null>(null);
+  const [localFormOpen, setLocalFormOpen] = useState(false);
+  const [editingLocal, setEditingLocal] = useState<LocalRouteRule | null>(null);
+
+  const loadPolicy = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setPolicy(await invoke<PolicyRoutingConfig>(IPCChannel.VYOS_GET_POLICY_ROUTING, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const openRouteForm = (route: PolicyRoute | null) => {
+    setEditingRoute(route);
+    setRouteFormOpen(true);
+  };
+
+  const saveRoute = async (route: PolicyRoute) => {
+    const commands = await previewCommands('policy-route', route);
+    // Edits replace the policy so removed rules and interfaces go away
+    const deletes = editingRoute
+      ? await previewCommands('delete-policy-route', editingRoute)
+      : [];
+    await stageChange(`${editingRoute ? 'Update' : 'Add'} policy route ${route.name}`, [...deletes, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deleteRoute = async (route: PolicyRoute) => {
+    try {
+      const commands = await previewCommands('delete-policy-route', route);
+      await stageChange(`Delete policy route ${route.name}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const openLocalForm = (rule: LocalRouteRule | null) => {
+    setEditingLocal(rule);
+    setLocalFormOpen(true);
+  };
+
+  const saveLocal = async (rule: LocalRouteRule) => {
+    const commands = await previewCommands('local-route', rule);
+    const deletes = editingLocal
+      ? await previewCommands('delete-local-route', editingLocal)
+      : [];
+    await stageChange(`${editingLocal ? 'Update' : 'Add'} local route rule ${rule.number}`, [...deletes, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deleteLocal = async (rule: LocalRouteRule) => {
+    try {
+      const commands = await previewCommands('delete-local-route', rule);
+      await stageChange(`Delete local route rule ${rule.number}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const renderRules = (route: PolicyRoute) => (
+    <Table<PolicyRouteRule>
+      rowKey="number"
+      size="small"
+      dataSource={route.rules}
+      pagination={false}
+      columns={[
+        {
+          title: 'Rule',
+          dataIndex: 'number',
+          render: (number: number, rule) => (rule.disabled ? <Text delete>{number}</Text> : number),
+        },
+        { title: 'Protocol', dataIndex: 'protocol', render: (protocol?: string) => protocol || 'any' },
+        { title: 'Source', dataIndex: 'source', render: describeMatch },
+        { title: 'Destination', dataIndex: 'destination', render: describeMatch },
+        { title: 'DSCP', dataIndex: 'dscp' },
+        {
+          title: 'Action',
+          render: (_, rule) => (
+            <Space size={4}>
+              {renderTable(rule.setTable)}
+              {rule.setMark !== undefined && <Tag>mark {rule.setMark}</Tag>}
+            </Space>
+          ),
+        },
+        { title: 'Description', dataIndex: 'description' },
+      ]}
+    />
+  );
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Card
+        title="Policy Routes"
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={loadPolicy} loading={loading}>
+              Refresh
+            </Button>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openRouteForm(null)}>
+              Add Policy Route
+            </Button>
+          </Space>
+        }
+      >
+        <Table<PolicyRoute>
+          rowKey={(route) => `${route.family} ${route.name}`}
+          loading={loading}
+          dataSource={policy.routes}
+          pagination={false}
+          expandable={{ expandedRowRender: renderRules }}
+          columns={[
+            { title: 'Name', dataIndex: 'name' },
+            { title: 'Family', dataIndex: 'family', render: (family: string) => <Tag>{family}</Tag> },
+            {
+              title: 'Interfaces',
+              dataIndex: 'interfaces',
+              render: (interfaces: string[]) =>
+                interfaces.length > 0 ? (
+                  interfaces.map((name) => <Tag key={name}>{name}</Tag>)
+                ) : (
+                  <Text type="secondary">Not applied</Text>
+                ),
+            },
+            { title: 'Rules', render: (_, route) => route.rules.length },
+            { title: 'Description', dataIndex: 'description' },
+            {
+              title: 'Actions',
+              render: (_, route) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openRouteForm(route)}>
+                    Edit
+                  </Button>
+                  <Popconfirm title={`Delete policy route ${route.name}?`} onConfirm={() => deleteRoute(route)}>
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <Card
+        title="Local Route Rules"
+        extra={
+          <Button icon={<PlusOutlined />} onClick={() => openLocalForm(null)}>
+            Add Rule
+          </Button>
+        }
+      >
+        <Table<LocalRouteRule>
+          rowKey={(rule) => `${rule.family} ${rule.number}`}
+          size="small"
+          loading={loading}
+          dataSource={policy.localRoutes}
+          pagination={false}
+          columns={[
+            { title: 'Rule', dataIndex: 'number' },
+            { title: 'Family', dataIndex: 'family', render: (family: string) => <Tag>{family}</Tag> },
+            { title: 'Source', dataIndex: 'source', render: (source?: string) => source || 'any' },
+            { title: 'Destination', dataIndex: 'destination', render: (destination?: string) => destination || 'any' },
+            { title: 'Inbound Interface', dataIndex: 'inboundInterface' },
+            { title: 'Mark', dataIndex: 'fwmark' },
+            { title: 'Table', dataIndex: 'table', render: renderTable },
+            {
+              title: 'Actions',
+              render: (_, rule) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openLocalForm(rule)}>
+                    Edit
+                  </Button>
+                  <Popconfirm title={`Delete local route rule ${rule.number}?`} onConfirm={() => deleteLocal(rule)}>
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <PolicyRouteForm
+        open={routeFormOpen}
+        route={editingRoute}
+        onClose={() => setRouteFormOpen(false)}
+        onSubmit={saveRoute}
+      />
+      <LocalRouteForm
+        open={localFormOpen}
+        rule={editingLocal}
+        rules={policy.localRoutes}
+        onClose={() => setLocalFormOpen(false)}
+        onSubmit={saveLocal}
+      />
+    </Space>
+  );
+};
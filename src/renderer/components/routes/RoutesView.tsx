@@ -0,0 +1,20 @@
+/**
+ * Routes View - Static routes, policy routing and dynamic routing protocols
+ */
+
+import React from 'react';
+import { Tabs } from 'antd';
+import { StaticRoutesTable } from './StaticRoutesTable';
+import { PolicyRoutingPanel } from './PolicyRoutingPanel';
+import { OSPFPanel } from './OSPFPanel';
+
+export const RoutesView: React.FC = () => (
+  <Tabs
+    destroyInactiveTabPane
+    items={[
+      { key: 'static', label: 'Static', children: <StaticRoutesTable /> },
+      { key: 'policy-routing', label: 'Policy Routing', children: <PolicyRoutingPanel /> },
+      { key: 'ospf', label: 'OSPF', children: <OSPFPanel /> },
+    ]}
+  />
+);
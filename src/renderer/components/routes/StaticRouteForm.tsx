@@ -0,0 +1,100 @@
+/**
+ * Static Route Form - Add a static route to the main table, a numbered one or a VRF
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Form, Input, InputNumber, Modal, Select, Space, message } from 'antd';
+import { StaticRoute, Vrf } from '@shared/types';
+import { VYOS_FEATURES } from '@shared/constants';
+import { validateStaticRoute } from '@shared/validators';
+
+interface StaticRouteFormProps {
+  open: boolean;
+  vrfs: Vrf[];
+  onClose: () => void;
+  onSubmit: (route: StaticRoute) => Promise<void>;
+}
+
+export const StaticRouteForm: React.FC<StaticRouteFormProps> = ({ open, vrfs, onClose, onSubmit }) => {
+  const [form] = Form.useForm<StaticRoute>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+    }
+  }, [open, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const route: StaticRoute = {
+      ...values,
+      nextHop: values.nextHop || undefined,
+      interface: values.interface || undefined,
+      distance: values.distance ?? undefined,
+      table: values.table ?? undefined,
+      vrf: values.vrf || undefined,
+    };
+
+    const validation = validateStaticRoute(route);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(route);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title="Add Static Route"
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item label="Network" name="network" rules={[{ required: true, message: 'Network is required' }]}>
+          <Input placeholder="0.0.0.0/0" />
+        </Form.Item>
+        <Space wrap align="start">
+          <Form.Item label="Next Hop" name="nextHop">
+            <Input placeholder="203.0.113.1" style={{ width: 180 }} />
+          </Form.Item>
+          <Form.Item label="or Interface" name="interface">
+            <Input placeholder="eth2" style={{ width: 120 }} />
+          </Form.Item>
+        </Space>
+        <Space wrap align="start">
+          <Form.Item label="Distance" name="distance">
+            <InputNumber min={1} max={255} />
+          </Form.Item>
+          <Form.Item label="Table" name="table" tooltip="Leave empty for the main table; policy routes can steer traffic into a numbered one">
+            <InputNumber min={1} max={VYOS_FEATURES.ROUTING_TABLE_MAX} placeholder="main" />
+          </Form.Item>
+          <Form.Item label="VRF" name="vrf" tooltip="Leave empty for the default VRF">
+            <Select
+              allowClear
+              placeholder="default"
+              style={{ width: 160 }}
+              options={vrfs.map((vrf) => ({ value: vrf.name, label: vrf.name }))}
+            />
+          </Form.Item>
+        </Space>
+        <Form.Item label="Description" name="description">
+          <Input />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,149 @@
+/**
+ * Static Routes Table - Static routes of the selected device, across all routing tables and VRFs
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Popconfirm, Select, Space, Table, Tag, message } from 'antd';
+import { DeleteOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { IPCChannel, StaticRoute, Vrf } from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { StaticRouteForm } from './StaticRouteForm';
+
+type TableFilter = 'all' | 'main' | number;
+
+// 'default' cannot name a VRF, so it is free to stand for the default VRF
+type VrfFilter = 'all' | 'default' | string;
+
+function describeRoute(route: StaticRoute): string {
+  if (route.vrf) {
+    return `${route.network} (VRF ${route.vrf})`;
+  }
+  return route.table ? `${route.network} (table ${route.table})` : route.network;
+}
+
+export const StaticRoutesTable: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [routes, setRoutes] = useState<StaticRoute[]>([]);
+  const [vrfs, setVrfs] = useState<Vrf[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [tableFilter, setTableFilter] = useState<TableFilter>('all');
+  const [vrfFilter, setVrfFilter] = useState<VrfFilter>('all');
+  const [formOpen, setFormOpen] = useState(false);
+
+  const loadRoutes = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [staticRoutes, deviceVrfs] = await Promise.all([
+        invoke<StaticRoute[]>(IPCChannel.VYOS_GET_STATIC_ROUTES, selectedDeviceId),
+        invoke<Vrf[]>(IPCChannel.VYOS_GET_VRFS, selectedDeviceId),
+      ]);
+      setRoutes(staticRoutes);
+      setVrfs(deviceVrfs);
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadRoutes();
+  }, [loadRoutes]);
+
+  const addRoute = async (route: StaticRoute) => {
+    const commands = await previewCommands('route', route);
+    await stageChange(`Add static route ${describeRoute(route)}`, commands);
+    message.success('Change staged');
+  };
+
+  const deleteRoute = async (route: StaticRoute) => {
+    try {
+      const commands = await previewCommands('delete-static-route', route);
+      await stageChange(`Delete static route ${describeRoute(route)}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const tables = Array.from(new Set(routes.map((route) => route.table).filter((table): table is number => !!table))).sort(
+    (a, b) => a - b
+  );
+  const visibleRoutes = routes.filter(
+    (route) =>
+      (tableFilter === 'all' || (tableFilter === 'main' ? !route.table : route.table === tableFilter)) &&
+      (vrfFilter === 'all' || (vrfFilter === 'default' ? !route.vrf : route.vrf === vrfFilter))
+  );
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Space>
+        <Button icon={<ReloadOutlined />} onClick={loadRoutes} loading={loading}>
+          Refresh
+        </Button>
+        <Button type="primary" icon={<PlusOutlined />} onClick={() => setFormOpen(true)}>
+          Add Route
+        </Button>
+        <Select<TableFilter>
+          value={tableFilter}
+          onChange={setTableFilter}
+          style={{ width: 160 }}
+          options={[
+            { value: 'all', label: 'All tables' },
+            { value: 'main', label: 'Main table' },
+            ...tables.map((table) => ({ value: table, label: `Table ${table}` })),
+          ]}
+        />
+        <Select<VrfFilter>
+          value={vrfFilter}
+          onChange={setVrfFilter}
+          style={{ width: 160 }}
+          options={[
+            { value: 'all', label: 'All VRFs' },
+            { value: 'default', label: 'Default VRF' },
+            ...vrfs.map((vrf) => ({ value: vrf.name, label: `VRF ${vrf.name}` })),
+          ]}
+        />
+      </Space>
+      <Table<StaticRoute>
+        rowKey={(route) => `${route.vrf || 'default'} ${route.table || 'main'} ${route.network}`}
+        loading={loading}
+        dataSource={visibleRoutes}
+        pagination={false}
+        columns={[
+          { title: 'Network', dataIndex: 'network' },
+          {
+            title: 'Table',
+            dataIndex: 'table',
+            render: (table?: number) => (table ? <Tag color="purple">{table}</Tag> : 'main'),
+          },
+          {
+            title: 'VRF',
+            dataIndex: 'vrf',
+            render: (vrf?: string) => (vrf ? <Tag color="geekblue">{vrf}</Tag> : 'default'),
+          },
+          { title: 'Next Hop', dataIndex: 'nextHop' },
+          { title: 'Interface', dataIndex: 'interface' },
+          { title: 'Distance', dataIndex: 'distance' },
+          { title: 'Description', dataIndex: 'description' },
+          {
+            title: 'Actions',
+            render: (_, route) => (
+              <Popconfirm title={`Delete route ${describeRoute(route)}?`} onConfirm={() => deleteRoute(route)}>
+                <Button size="small" danger icon={<DeleteOutlined />} />
+              </Popconfirm>
+            ),
+          },
+        ]}
+      />
+      <StaticRouteForm open={formOpen} vrfs={vrfs} onClose={() => setFormOpen(false)} onSubmit={addRoute} />
+    </Space>
+  );
+};
@@ -0,0 +1,376 @@
+/**
+ * OpenVPN Interface Form - Site-to-site, server or client tunnel with its keys and pushed settings
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Card, Form, Input, InputNumber, Modal, Radio, Select, Space, Switch, message } from 'antd';
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons';
+import { OpenVpnConfig, OpenVpnInterface, OpenVpnMode } from '@shared/types';
+import { DEFAULTS, VYOS_FEATURES } from '@shared/constants';
+import { validateOpenVpnInterface } from '@shared/validators';
+
+interface OpenVpnInterfaceFormProps {
+  open: boolean;
+  iface?: OpenVpnInterface | null;
+  openvpn: OpenVpnConfig;
+  onClose: () => void;
+  onSubmit: (iface: OpenVpnInterface) => Promise<void>;
+}
+
+type OpenVpnFormValues = OpenVpnInterface & { authentication: 'tls' | 'shared-secret' };
+
+const toOptions = (values: readonly string[]) => values.map((value) => ({ value, label: value }));
+
+/**
+ * A certificate or key reference: a PKI entry picked from the device, or a file path on 1.3
+ */
+const KeyReferenceInput: React.FC<{
+  value?: string;
+  onChange?: (value?: string) => void;
+  names: string[] | null;
+  placeholder: string;
+}> = ({ value, onChange, names, placeholder }) =>
+  names ? (
+    <Select
+      allowClear
+      showSearch
+      value={value}
+      onChange={onChange}
+      options={toOptions(names)}
+      placeholder="PKI entry"
+      style={{ width: 200 }}
+    />
+  ) : (
+    <Input
+      value={value}
+      onChange={(event) => onChange?.(event.target.value)}
+      placeholder={placeholder}
+      style={{ width: 260 }}
+    />
+  );
+
+function toInterface(values: OpenVpnFormValues): OpenVpnInterface {
+  const { authentication, ...iface } = values;
+  const tls = authentication === 'tls' ? iface.tls : undefined;
+
+  return {
+    ...iface,
+    description: iface.description || undefined,
+    protocol: iface.protocol || undefined,
+    localHost: iface.localHost || undefined,
+    localPort: iface.localPort ?? undefined,
+    remoteHosts: iface.remoteHosts || [],
+    remotePort: iface.remotePort ?? undefined,
+    localAddress: iface.mode === 'site-to-site' ? iface.localAddress || undefined : undefined,
+    remoteAddress: iface.mode === 'site-to-site' ? iface.remoteAddress || undefined : undefined,
+    cipher: iface.cipher || undefined,
+    dataCiphers: iface.dataCiphers || [],
+    hash: iface.hash || undefined,
+    tls: tls && {
+      caCertificate: tls.caCertificate || '',
+      certificate: tls.certificate || undefined,
+      key: tls.key || undefined,
+      dhParams: iface.mode === 'server' ? tls.dhParams || undefined : undefined,
+      cryptKey: tls.cryptKey || undefined,
+      role: iface.mode === 'site-to-site' ? tls.role : undefined,
+    },
+    sharedSecretKey: authentication === 'shared-secret' ? iface.sharedSecretKey || undefined : undefined,
+    server:
+      iface.mode === 'server' && iface.server
+        ? {
+            ...iface.server,
+            topology: iface.server.topology || undefined,
+            pushRoutes: iface.server.pushRoutes || [],
+            nameServers: iface.server.nameServers || [],
+            domainName: iface.server.domainName || undefined,
+            maxConnections: iface.server.maxConnections ?? undefined,
+            clients: (iface.server.clients || []).map((client) => ({
+              name: client.name,
+              ip: client.ip || undefined,
+              subnets: client.subnets || [],
+              pushRoutes: client.pushRoutes || [],
+              disabled: client.disabled || undefined,
+            })),
+          }
+        : undefined,
+  };
+}
+
+export const OpenVpnInterfaceForm: React.FC<OpenVpnInterfaceFormProps> = ({
+  open,
+  iface,
+  openvpn,
+  onClose,
+  onSubmit,
+}) => {
+  const [form] = Form.useForm<OpenVpnFormValues>();
+  const [saving, setSaving] = useState(false);
+  const mode = Form.useWatch('mode', form);
+  const authentication = Form.useWatch('authentication', form);
+
+  const pki = openvpn.keyStorage === 'pki' ? openvpn.pki : null;
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(
+        iface
+          ? { ...iface, authentication: iface.sharedSecretKey ? 'shared-secret' : 'tls' }
+          : {
+              mode: 'server',
+              authentication: 'tls',
+              protocol: 'udp',
+              localPort: DEFAULTS.OPENVPN_PORT,
+              remoteHosts: [],
+              dataCiphers: [],
+              server: { subnet: '', topology: 'subnet', pushRoutes: [], nameServers: [], clients: [] },
+            }
+      );
+    }
+  }, [open, iface, form]);
+
+  const save = async () => {
+    const updated = toInterface(await form.validateFields());
+
+    if (!iface && openvpn.interfaces.some((other) => other.name === updated.name)) {
+      message.error(`${updated.name} already exists`);
+      return;
+    }
+
+    const validation = validateOpenVpnInterface(updated, openvpn.keyStorage);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const keyReference = (
+    label: string,
+    name: (string | number)[],
+    names: string[] | undefined,
+    placeholder: string,
+    tooltip?: string
+  ) => (
+    <Form.Item label={label} name={name} tooltip={tooltip}>
+      <KeyReferenceInput names={pki ? names || [] : null} placeholder={placeholder} />
+    </Form.Item>
+  );
+
+  return (
+    <Modal
+      open={open}
+      title={iface ? `Edit ${iface.name}` : 'Add OpenVPN Interface'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={860}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space wrap align="start">
+          <Form.Item label="Interface" name="name" rules={[{ required: true, message: 'Interface is required' }]}>
+            <Input placeholder="vtun0" disabled={!!iface} style={{ width: 110 }} />
+          </Form.Item>
+          <Form.Item label="Mode" name="mode">
+            <Radio.Group
+              optionType="button"
+              options={VYOS_FEATURES.OPENVPN_MODES.map((value) => ({ value, label: value }))}
+              onChange={(event) => {
+                if ((event.target.value as OpenVpnMode) !== 'site-to-site') {
+                  form.setFieldValue('authentication', 'tls');
+                }
+              }}
+            />
+          </Form.Item>
+          <Form.Item label="Description" name="description">
+            <Input style={{ width: 260 }} />
+          </Form.Item>
+        </Space>
+
+        <Space wrap align="start">
+          <Form.Item label="Protocol" name="protocol">
+            <Select
+              allowClear
+              placeholder="udp"
+              style={{ width: 130 }}
+              options={toOptions(VYOS_FEATURES.OPENVPN_PROTOCOLS)}
+            />
+          </Form.Item>
+          <Form.Item label="Device" name="deviceType">
+            <Select allowClear placeholder="tun" style={{ width: 90 }} options={toOptions(['tun', 'tap'])} />
+          </Form.Item>
+          <Form.Item
+            label="Local Host"
+            name="localHost"
+            tooltip="Address to listen on; also the remote in client profiles"
+          >
+            <Input placeholder="any" style={{ width: 150 }} />
+          </Form.Item>
+          <Form.Item label="Local Port" name="localPort">
+            <InputNumber min={1} max={65535} />
+          </Form.Item>
+          {mode !== 'server' && (
+            <>
+              <Form.Item label="Remote Hosts" name="remoteHosts">
+                <Select mode="tags" open={false} placeholder="vpn.example.com" style={{ width: 220 }} />
+              </Form.Item>
+              <Form.Item label="Remote Port" name="remotePort">
+                <InputNumber min={1} max={65535} />
+              </Form.Item>
+            </>
+          )}
+        </Space>
+
+        {mode === 'site-to-site' && (
+          <Space wrap align="start">
+            <Form.Item label="Local Tunnel Address" name="localAddress">
+              <Input placeholder="10.255.1.1" style={{ width: 150 }} />
+            </Form.Item>
+            <Form.Item label="Remote Tunnel Address" name="remoteAddress">
+              <Input placeholder="10.255.1.2" style={{ width: 150 }} />
+            </Form.Item>
+            <Form.Item label="Authentication" name="authentication">
+              <Radio.Group
+                optionType="button"
+                options={[
+                  { value: 'tls', label: 'TLS' },
+                  { value: 'shared-secret', label: 'Shared secret' },
+                ]}
+              />
+            </Form.Item>
+          </Space>
+        )}
+
+        <Space wrap align="start">
+          <Form.Item label="Cipher" name="cipher">
+            <Select allowClear style={{ width: 130 }} options={toOptions(VYOS_FEATURES.OPENVPN_CIPHERS)} />
+          </Form.Item>
+          <Form.Item label="Data Ciphers" name="dataCiphers" tooltip="Ciphers offered to clients for negotiation">
+            <Select
+              mode="multiple"
+              allowClear
+              style={{ width: 260 }}
+              options={toOptions(VYOS_FEATURES.OPENVPN_CIPHERS)}
+            />
+          </Form.Item>
+          <Form.Item label="Hash" name="hash">
+            <Select allowClear style={{ width: 110 }} options={toOptions(VYOS_FEATURES.OPENVPN_HASHES)} />
+          </Form.Item>
+        </Space>
+
+        {authentication === 'shared-secret' && mode === 'site-to-site' ? (
+          <Card size="small" title="Shared Secret">
+            {keyReference('Static Key', ['sharedSecretKey'], pki?.sharedSecrets, '/config/auth/openvpn-1.key')}
+          </Card>
+        ) : (
+          <Card size="small" title="TLS">
+            <Space wrap align="start">
+              {keyReference('CA Certificate', ['tls', 'caCertificate'], pki?.caCertificates, '/config/auth/ca.crt')}
+              {keyReference('Certificate', ['tls', 'certificate'], pki?.certificates, '/config/auth/server.crt')}
+              {!pki && keyReference('Key', ['tls', 'key'], undefined, '/config/auth/server.key')}
+              {mode === 'server' &&
+                keyReference('DH Parameters', ['tls', 'dhParams'], pki?.dhParams, '/config/auth/dh.pem')}
+              {keyReference(
+                'TLS Crypt Key',
+                ['tls', 'cryptKey'],
+                pki?.sharedSecrets,
+                '/config/auth/tls-crypt.key',
+                'Static key that encrypts the control channel; client profiles embed it'
+              )}
+              {mode === 'site-to-site' && (
+                <Form.Item label="Role" name={['tls', 'role']} tooltip="One side is active, the other passive">
+                  <Select style={{ width: 110 }} options={toOptions(['active', 'passive'])} />
+                </Form.Item>
+              )}
+            </Space>
+          </Card>
+        )}
+
+        {mode === 'server' && (
+          <Card size="small" title="Server" style={{ marginTop: 16 }}>
+            <Space wrap align="start">
+              <Form.Item
+                label="Client Subnet"
+                name={['server', 'subnet']}
+                rules={[{ required: true, message: 'Client subnet is required' }]}
+              >
+                <Input placeholder="10.23.1.0/24" style={{ width: 150 }} />
+              </Form.Item>
+              <Form.Item label="Topology" name={['server', 'topology']}>
+                <Select allowClear style={{ width: 140 }} options={toOptions(VYOS_FEATURES.OPENVPN_TOPOLOGIES)} />
+              </Form.Item>
+              <Form.Item label="Max Connections" name={['server', 'maxConnections']}>
+                <InputNumber min={1} max={4096} />
+              </Form.Item>
+            </Space>
+            <Space wrap align="start">
+              <Form.Item
+                label="Push Routes"
+                name={['server', 'pushRoutes']}
+                tooltip="Networks clients route through the tunnel"
+              >
+                <Select mode="tags" open={false} placeholder="192.168.0.0/16" style={{ width: 260 }} />
+              </Form.Item>
+              <Form.Item label="Name Servers" name={['server', 'nameServers']}>
+                <Select mode="tags" open={false} style={{ width: 200 }} />
+              </Form.Item>
+              <Form.Item label="Domain" name={['server', 'domainName']}>
+                <Input style={{ width: 160 }} />
+              </Form.Item>
+            </Space>
+
+            <Form.List name={['server', 'clients']}>
+              {(fields, { add, remove }) => (
+                <>
+                  {fields.map((field) => (
+                    <Space key={field.key} align="baseline" wrap>
+                      <Form.Item
+                        label="Client"
+                        name={[field.name, 'name']}
+                        tooltip="Common name of the client certificate"
+                        rules={[{ required: true }]}
+                      >
+                        <Input style={{ width: 130 }} />
+                      </Form.Item>
+                      <Form.Item label="Address" name={[field.name, 'ip']}>
+                        <Input placeholder="10.23.1.10" style={{ width: 130 }} />
+                      </Form.Item>
+                      <Form.Item label="Networks Behind" name={[field.name, 'subnets']}>
+                        <Select mode="tags" open={false} style={{ width: 180 }} />
+                      </Form.Item>
+                      <Form.Item label="Push Routes" name={[field.name, 'pushRoutes']}>
+                        <Select mode="tags" open={false} style={{ width: 180 }} />
+                      </Form.Item>
+                      <Form.Item label="Disabled" name={[field.name, 'disabled']} valuePropName="checked">
+                        <Switch size="small" />
+                      </Form.Item>
+                      <MinusCircleOutlined onClick={() => remove(field.name)} />
+                    </Space>
+                  ))}
+                  <Button type="dashed" icon={<PlusOutlined />} onClick={() => add({ subnets: [], pushRoutes: [] })}>
+                    Add Client Override
+                  </Button>
+                </>
+              )}
+            </Form.List>
+          </Card>
+        )}
+
+        <Form.Item label="Disabled" name="disabled" valuePropName="checked" style={{ marginTop: 16 }}>
+          <Switch />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
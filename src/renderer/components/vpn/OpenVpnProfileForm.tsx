@@ -0,0 +1,146 @@
+/**
+ * OpenVPN Profile Form - Generate a downloadable .ovpn profile for a client of a server interface
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Form, Input, Modal, Select, Space, Typography, message } from 'antd';
+import { DownloadOutlined } from '@ant-design/icons';
+import { IPCChannel, OpenVpnClientProfile, OpenVpnClientProfileRequest, OpenVpnConfig } from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { downloadText } from './download';
+
+const { Paragraph } = Typography;
+
+interface OpenVpnProfileFormProps {
+  open: boolean;
+  deviceId: string;
+  interfaceName: string;
+  openvpn: OpenVpnConfig;
+  onClose: () => void;
+}
+
+type ProfileFormValues = Omit<OpenVpnClientProfileRequest, 'interfaceName'>;
+
+export const OpenVpnProfileForm: React.FC<OpenVpnProfileFormProps> = ({
+  open,
+  deviceId,
+  interfaceName,
+  openvpn,
+  onClose,
+}) => {
+  const [form] = Form.useForm<ProfileFormValues>();
+  const [generating, setGenerating] = useState(false);
+  const [profile, setProfile] = useState<OpenVpnClientProfile | null>(null);
+
+  const pki = openvpn.keyStorage === 'pki';
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      setProfile(null);
+    }
+  }, [open, form]);
+
+  const generate = async () => {
+    const values = await form.validateFields();
+
+    setGenerating(true);
+    try {
+      setProfile(
+        await invoke<OpenVpnClientProfile>(IPCChannel.VYOS_OPENVPN_CLIENT_PROFILE, {
+          deviceId,
+          interfaceName,
+          clientName: values.clientName,
+          certificate: values.certificate || undefined,
+          key: values.key || undefined,
+          remoteHost: values.remoteHost || undefined,
+        })
+      );
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={`Client Profile for ${interfaceName}`}
+      onCancel={onClose}
+      width={720}
+      destroyOnClose
+      footer={
+        profile ? (
+          <Space>
+            <Button icon={<DownloadOutlined />} onClick={() => downloadText(profile.filename, profile.config)}>
+              Download {profile.filename}
+            </Button>
+            <Button type="primary" onClick={onClose}>
+              Done
+            </Button>
+          </Space>
+        ) : (
+          <Space>
+            <Button onClick={onClose}>Cancel</Button>
+            <Button type="primary" loading={generating} onClick={generate}>
+              Generate Profile
+            </Button>
+          </Space>
+        )
+      }
+    >
+      {profile ? (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Alert
+            type="warning"
+            showIcon
+            message="The profile may contain the client private key"
+            description="Hand it to the client over a trusted channel; it is not kept in this app."
+          />
+          <Paragraph copyable={{ text: profile.config }}>
+            <pre style={{ margin: 0, maxHeight: 360, overflow: 'auto' }}>{profile.config}</pre>
+          </Paragraph>
+        </Space>
+      ) : (
+        <Form form={form} layout="vertical">
+          <Form.Item
+            label="Client Name"
+            name="clientName"
+            extra="Names the profile file; match the common name of the client certificate"
+            rules={[{ required: true, message: 'Client name is required' }]}
+          >
+            <Input placeholder="laptop-alice" />
+          </Form.Item>
+          <Form.Item
+            label="Client Certificate"
+            name="certificate"
+            extra="Leave empty for a profile with only the CA, e.g. when the client brings its own certificate"
+          >
+            {pki ? (
+              <Select
+                allowClear
+                showSearch
+                options={openvpn.pki.certificates.map((name) => ({ value: name, label: name }))}
+              />
+            ) : (
+              <Input placeholder="/config/auth/alice.crt" />
+            )}
+          </Form.Item>
+          {!pki && (
+            <Form.Item label="Client Key" name="key">
+              <Input placeholder="/config/auth/alice.key" />
+            </Form.Item>
+          )}
+          <Form.Item
+            label="Remote Host"
+            name="remoteHost"
+            extra="Defaults to the local host of the interface, then the device address"
+          >
+            <Input placeholder="vpn.example.com" />
+          </Form.Item>
+        </Form>
+      )}
+    </Modal>
+  );
+};
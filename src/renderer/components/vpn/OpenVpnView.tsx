@@ -0,0 +1,199 @@
+/**
+ * OpenVPN View - OpenVPN interfaces of the selected device, their client overrides and profiles
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Popconfirm, Space, Table, Tag, Typography, message } from 'antd';
+import { DeleteOutlined, EditOutlined, FileTextOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { IPCChannel, OpenVpnClientOverride, OpenVpnConfig, OpenVpnInterface } from '@shared/types';
+import { DEFAULTS } from '@shared/constants';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { OpenVpnInterfaceForm } from './OpenVpnInterfaceForm';
+import { OpenVpnProfileForm } from './OpenVpnProfileForm';
+
+const { Text } = Typography;
+
+const MODE_COLORS: Record<string, string> = {
+  'site-to-site': 'purple',
+  server: 'blue',
+  client: 'cyan',
+};
+
+function describeEndpoint(iface: OpenVpnInterface): string {
+  if (iface.mode === 'server') {
+    return `${iface.localHost || 'any'}:${iface.localPort || DEFAULTS.OPENVPN_PORT}`;
+  }
+  return iface.remoteHosts.map((host) => (iface.remotePort ? `${host}:${iface.remotePort}` : host)).join(', ') || 'any';
+}
+
+function describeTunnel(iface: OpenVpnInterface): string | undefined {
+  if (iface.server) {
+    return iface.server.subnet;
+  }
+  return iface.localAddress && `${iface.localAddress} ↔ ${iface.remoteAddress || '?'}`;
+}
+
+export const OpenVpnView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [openvpn, setOpenvpn] = useState<OpenVpnConfig>({
+    keyStorage: 'pki',
+    interfaces: [],
+    pki: { caCertificates: [], certificates: [], dhParams: [], sharedSecrets: [] },
+  });
+  const [loading, setLoading] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingInterface, setEditingInterface] = useState<OpenVpnInterface | null>(null);
+  const [profileInterface, setProfileInterface] = useState<string | null>(null);
+
+  const loadInterfaces = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setOpenvpn(await invoke<OpenVpnConfig>(IPCChannel.VYOS_GET_OPENVPN, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadInterfaces();
+  }, [loadInterfaces]);
+
+  const openForm = (iface: OpenVpnInterface | null) => {
+    setEditingInterface(iface);
+    setFormOpen(true);
+  };
+
+  const saveInterface = async (iface: OpenVpnInterface) => {
+    const commands = await previewCommands('openvpn', iface);
+    // Edits replace the interface so removed hosts, routes and client overrides go away
+    const removal = editingInterface ? await previewCommands('delete-openvpn', editingInterface) : [];
+    await stageChange(`${editingInterface ? 'Update' : 'Add'} OpenVPN interface ${iface.name}`, [
+      ...removal,
+      ...commands,
+    ]);
+    message.success('Change staged');
+  };
+
+  const deleteInterface = async (iface: OpenVpnInterface) => {
+    try {
+      await stageChange(`Delete OpenVPN interface ${iface.name}`, await previewCommands('delete-openvpn', iface));
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const renderClients = (iface: OpenVpnInterface) => (
+    <Table<OpenVpnClientOverride>
+      rowKey="name"
+      size="small"
+      pagination={false}
+      dataSource={iface.server?.clients}
+      columns={[
+        { title: 'Client', dataIndex: 'name' },
+        { title: 'Address', dataIndex: 'ip' },
+        { title: 'Networks Behind', dataIndex: 'subnets', render: (subnets: string[]) => subnets.join(', ') },
+        { title: 'Push Routes', dataIndex: 'pushRoutes', render: (routes: string[]) => routes.join(', ') },
+        {
+          title: 'Status',
+          dataIndex: 'disabled',
+          render: (disabled?: boolean) => (disabled ? <Tag>Disabled</Tag> : <Tag color="green">Enabled</Tag>),
+        },
+      ]}
+    />
+  );
+
+  return (
+    <Card
+      title="OpenVPN"
+      extra={
+        <Space>
+          <Tag color={openvpn.keyStorage === 'pki' ? 'blue' : 'orange'}>
+            {openvpn.keyStorage === 'pki' ? 'Keys from PKI' : 'Keys from /config/auth'}
+          </Tag>
+          <Button icon={<ReloadOutlined />} onClick={loadInterfaces} loading={loading}>
+            Refresh
+          </Button>
+          <Button type="primary" icon={<PlusOutlined />} onClick={() => openForm(null)}>
+            Add Interface
+          </Button>
+        </Space>
+      }
+    >
+      <Table<OpenVpnInterface>
+        rowKey="name"
+        loading={loading}
+        dataSource={openvpn.interfaces}
+        pagination={false}
+        expandable={{
+          expandedRowRender: renderClients,
+          rowExpandable: (iface) => (iface.server?.clients.length || 0) > 0,
+        }}
+        columns={[
+          { title: 'Interface', dataIndex: 'name' },
+          { title: 'Mode', dataIndex: 'mode', render: (mode: string) => <Tag color={MODE_COLORS[mode]}>{mode}</Tag> },
+          { title: 'Protocol', dataIndex: 'protocol', render: (protocol?: string) => protocol || 'udp' },
+          { title: 'Endpoint', render: (_, iface) => describeEndpoint(iface) },
+          {
+            title: 'Tunnel',
+            render: (_, iface) => describeTunnel(iface) || <Text type="secondary">-</Text>,
+          },
+          {
+            title: 'Authentication',
+            render: (_, iface) =>
+              iface.sharedSecretKey ? <Tag>shared secret</Tag> : iface.tls ? <Tag>TLS</Tag> : null,
+          },
+          { title: 'Description', dataIndex: 'description' },
+          {
+            title: 'Status',
+            render: (_, iface) => (iface.disabled ? <Tag>Disabled</Tag> : <Tag color="green">Enabled</Tag>),
+          },
+          {
+            title: 'Actions',
+            render: (_, iface) => (
+              <Space>
+                <Button size="small" icon={<EditOutlined />} onClick={() => openForm(iface)}>
+                  Edit
+                </Button>
+                {iface.mode === 'server' && iface.tls && (
+                  <Button size="small" icon={<FileTextOutlined />} onClick={() => setProfileInterface(iface.name)}>
+                    Client Profile
+                  </Button>
+                )}
+                <Popconfirm title={`Delete ${iface.name}?`} onConfirm={() => deleteInterface(iface)}>
+                  <Button size="small" danger icon={<DeleteOutlined />} />
+                </Popconfirm>
+              </Space>
+            ),
+          },
+        ]}
+      />
+
+      <OpenVpnInterfaceForm
+        open={formOpen}
+        iface={editingInterface}
+        openvpn={openvpn}
+        onClose={() => setFormOpen(false)}
+        onSubmit={saveInterface}
+      />
+      {selectedDeviceId && (
+        <OpenVpnProfileForm
+          open={!!profileInterface}
+          deviceId={selectedDeviceId}
+          interfaceName={profileInterface || ''}
+          openvpn={openvpn}
+          onClose={() => setProfileInterface(null)}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,18 @@
+/**
+ * VPN View - WireGuard and OpenVPN tunnels
+ */
+
+import React from 'react';
+import { Tabs } from 'antd';
+import { WireGuardView } from './WireGuardView';
+import { OpenVpnView } from './OpenVpnView';
+
+export const VpnView: React.FC = () => (
+  <Tabs
+    destroyInactiveTabPane
+    items={[
+      { key: 'wireguard', label: 'WireGuard', children: <WireGuardView /> },
+      { key: 'openvpn', label: 'OpenVPN', children: <OpenVpnView /> },
+    ]}
+  />
+);
@@ -0,0 +1,122 @@
+/**
+ * WireGuard Interface Form - Add or edit a WireGuard interface and its key
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Form, Input, InputNumber, Modal, Select, Space, Typography, message } from 'antd';
+import { KeyOutlined } from '@ant-design/icons';
+import { IPCChannel, WireGuardInterface, WireGuardKeyPair } from '@shared/types';
+import { DEFAULTS } from '@shared/constants';
+import { validateWireGuardInterface } from '@shared/validators';
+import { invoke } from '../../services/ipc';
+
+const { Text } = Typography;
+
+interface WireGuardInterfaceFormProps {
+  open: boolean;
+  deviceId: string;
+  iface?: WireGuardInterface | null;
+  onClose: () => void;
+  onSubmit: (iface: WireGuardInterface) => Promise<void>;
+}
+
+type InterfaceFormValues = Pick<WireGuardInterface, 'name' | 'description' | 'addresses' | 'listenPort' | 'mtu' | 'privateKey'>;
+
+export const WireGuardInterfaceForm: React.FC<WireGuardInterfaceFormProps> = ({ open, deviceId, iface, onClose, onSubmit }) => {
+  const [form] = Form.useForm<InterfaceFormValues>();
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [publicKey, setPublicKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(iface || { addresses: [], listenPort: DEFAULTS.WIREGUARD_PORT });
+      setPublicKey(null);
+    }
+  }, [open, iface, form]);
+
+  const generateKey = async () => {
+    setGenerating(true);
+    try {
+      const keyPair = await invoke<WireGuardKeyPair>(IPCChannel.VYOS_WIREGUARD_GENERATE_KEYPAIR, deviceId);
+      form.setFieldsValue({ privateKey: keyPair.privateKey });
+      setPublicKey(keyPair.publicKey);
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: WireGuardInterface = { ...values, peers: iface?.peers || [], disabled: iface?.disabled };
+
+    const validation = validateWireGuardInterface(updated);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={iface ? `Edit ${iface.name}` : 'Add WireGuard Interface'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={640}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+          <Input placeholder="wg0" disabled={!!iface} />
+        </Form.Item>
+        <Form.Item label="Description" name="description">
+          <Input />
+        </Form.Item>
+        <Form.Item
+          label="Addresses"
+          name="addresses"
+          rules={[{ required: true, message: 'At least one address is required' }]}
+        >
+          <Select mode="tags" placeholder="10.10.0.1/24" open={false} />
+        </Form.Item>
+        <Space align="start">
+          <Form.Item label="Listen Port" name="listenPort">
+            <InputNumber min={1} max={65535} />
+          </Form.Item>
+          <Form.Item label="MTU" name="mtu">
+            <InputNumber min={68} max={9000} />
+          </Form.Item>
+        </Space>
+        <Form.Item
+          label="Private Key"
+          extra={publicKey && <Text copyable={{ text: publicKey }}>Public key: {publicKey}</Text>}
+        >
+          <Space.Compact style={{ width: '100%' }}>
+            <Form.Item name="privateKey" noStyle rules={[{ required: true, message: 'Generate or paste a private key' }]}>
+              <Input.Password />
+            </Form.Item>
+            <Button icon={<KeyOutlined />} loading={generating} onClick={generateKey}>
+              Generate on Device
+            </Button>
+          </Space.Compact>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
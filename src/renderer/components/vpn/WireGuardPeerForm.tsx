@@ -0,0 +1,188 @@
+/**
+ * WireGuard Peer Form - Add a road-warrior peer and hand out its client config
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Form, Input, InputNumber, Modal, QRCode, Select, Space, Typography, message } from 'antd';
+import { DownloadOutlined } from '@ant-design/icons';
+import {
+  IPCChannel,
+  WireGuardClientConfig,
+  WireGuardKeyPair,
+  WireGuardPeer,
+} from '@shared/types';
+import { DEFAULTS } from '@shared/constants';
+import { validateWireGuardPeer } from '@shared/validators';
+import { invoke } from '../../services/ipc';
+import { downloadText } from './download';
+
+const { Paragraph } = Typography;
+
+interface WireGuardPeerFormProps {
+  open: boolean;
+  deviceId: string;
+  interfaceName: string;
+  onClose: () => void;
+  onSubmit: (peer: WireGuardPeer) => Promise<void>;
+}
+
+interface PeerFormValues {
+  name: string;
+  description?: string;
+  clientAddresses: string[];
+  allowedIps: string[];
+  dns?: string[];
+  endpoint?: string;
+  persistentKeepalive?: number;
+}
+
+export const WireGuardPeerForm: React.FC<WireGuardPeerFormProps> = ({
+  open,
+  deviceId,
+  interfaceName,
+  onClose,
+  onSubmit,
+}) => {
+  const [form] = Form.useForm<PeerFormValues>();
+  const [saving, setSaving] = useState(false);
+  const [clientConfig, setClientConfig] = useState<WireGuardClientConfig | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue({
+        clientAddresses: [],
+        allowedIps: ['0.0.0.0/0', '::/0'],
+        persistentKeepalive: DEFAULTS.WIREGUARD_KEEPALIVE,
+      });
+      setClientConfig(null);
+    }
+  }, [open, form]);
+
+  /**
+   * Generate the client's key pair on the device, stage the peer with its public
+   * key and build the client config around the private key
+   */
+  const create = async () => {
+    const values = await form.validateFields();
+
+    setSaving(true);
+    try {
+      const keyPair = await invoke<WireGuardKeyPair>(IPCChannel.VYOS_WIREGUARD_GENERATE_KEYPAIR, deviceId);
+      const peer: WireGuardPeer = {
+        name: values.name,
+        description: values.description,
+        publicKey: keyPair.publicKey,
+        allowedIps: values.clientAddresses,
+      };
+
+      const validation = validateWireGuardPeer(peer);
+      if (!validation.valid) {
+        message.error(validation.errors.join('; '));
+        return;
+      }
+
+      await onSubmit(peer);
+
+      setClientConfig(
+        await invoke<WireGuardClientConfig>(IPCChannel.VYOS_WIREGUARD_CLIENT_CONFIG, {
+          deviceId,
+          interfaceName,
+          peerName: values.name,
+          clientPrivateKey: keyPair.privateKey,
+          clientAddresses: values.clientAddresses,
+          allowedIps: values.allowedIps,
+          endpoint: values.endpoint || undefined,
+          dns: values.dns,
+          persistentKeepalive: values.persistentKeepalive,
+        })
+      );
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={`Add Road-Warrior Peer to ${interfaceName}`}
+      onCancel={onClose}
+      width={640}
+      destroyOnClose
+      footer={
+        clientConfig ? (
+          <Space>
+            <Button icon={<DownloadOutlined />} onClick={() => downloadText(clientConfig.filename, clientConfig.config)}>
+              Download {clientConfig.filename}
+            </Button>
+            <Button type="primary" onClick={onClose}>
+              Done
+            </Button>
+          </Space>
+        ) : (
+          <Space>
+            <Button onClick={onClose}>Cancel</Button>
+            <Button type="primary" loading={saving} onClick={create}>
+              Generate Keys and Stage Peer
+            </Button>
+          </Space>
+        )
+      }
+    >
+      {clientConfig ? (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Alert
+            type="info"
+            showIcon
+            message="The peer is staged. Apply pending changes before the client connects."
+            description="The client private key is only shown here; it is not stored on the device or in this app."
+          />
+          <Space align="start" size="large">
+            <QRCode value={clientConfig.qrText} size={220} errorLevel="L" />
+            <Paragraph copyable={{ text: clientConfig.config }}>
+              <pre style={{ margin: 0 }}>{clientConfig.config}</pre>
+            </Paragraph>
+          </Space>
+        </Space>
+      ) : (
+        <Form form={form} layout="vertical">
+          <Form.Item label="Peer Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+            <Input placeholder="laptop-alice" />
+          </Form.Item>
+          <Form.Item label="Description" name="description">
+            <Input />
+          </Form.Item>
+          <Form.Item
+            label="Client Address"
+            name="clientAddresses"
+            extra="Tunnel address of the client; also the peer's allowed-ips on the device"
+            rules={[{ required: true, message: 'At least one address is required' }]}
+          >
+            <Select mode="tags" placeholder="10.10.0.2/32" open={false} />
+          </Form.Item>
+          <Form.Item
+            label="Routed Through Tunnel"
+            name="allowedIps"
+            extra="AllowedIPs on the client; 0.0.0.0/0 and ::/0 send all traffic through the tunnel"
+            rules={[{ required: true, message: 'At least one prefix is required' }]}
+          >
+            <Select mode="tags" open={false} />
+          </Form.Item>
+          <Form.Item label="DNS Servers" name="dns">
+            <Select mode="tags" open={false} />
+          </Form.Item>
+          <Space align="start">
+            <Form.Item label="Endpoint" name="endpoint" extra="Defaults to the device address and listen port">
+              <Input placeholder="vpn.example.com:51820" style={{ width: 320 }} />
+            </Form.Item>
+            <Form.Item label="Keepalive (s)" name="persistentKeepalive">
+              <InputNumber min={1} max={65535} />
+            </Form.Item>
+          </Space>
+        </Form>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,188 @@
+/**
+ * WireGuard View - WireGuard interfaces and peers of the selected device
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Popconfirm, Space, Table, Tag, Typography, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined, UserAddOutlined } from '@ant-design/icons';
+import { IPCChannel, WireGuardInterface, WireGuardPeer } from '@shared/types';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { WireGuardInterfaceForm } from './WireGuardInterfaceForm';
+import { WireGuardPeerForm } from './WireGuardPeerForm';
+
+const { Text } = Typography;
+
+function formatEndpoint(peer: WireGuardPeer): string {
+  if (!peer.endpointAddress) {
+    return 'Dynamic';
+  }
+  return peer.endpointPort ? `${peer.endpointAddress}:${peer.endpointPort}` : peer.endpointAddress;
+}
+
+export const WireGuardView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [interfaces, setInterfaces] = useState<WireGuardInterface[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [interfaceFormOpen, setInterfaceFormOpen] = useState(false);
+  const [editingInterface, setEditingInterface] = useState<WireGuardInterface | null>(null);
+  const [peerInterface, setPeerInterface] = useState<string | null>(null);
+
+  const loadInterfaces = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setInterfaces(await invoke<WireGuardInterface[]>(IPCChannel.VYOS_GET_WIREGUARD, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadInterfaces();
+  }, [loadInterfaces]);
+
+  const stage = async (description: string, type: string, data: unknown) => {
+    const commands = await previewCommands(type, data);
+    await stageChange(description, commands);
+    message.success('Change staged');
+  };
+
+  const saveInterface = async (iface: WireGuardInterface) => {
+    const commands = await previewCommands('wireguard', iface);
+    // Edits replace the interface so removed addresses, peers and allowed IPs go away
+    const removal = editingInterface ? await previewCommands('delete-wireguard-interface', editingInterface) : [];
+    await stageChange(
+      `${editingInterface ? 'Update' : 'Add'} WireGuard interface ${iface.name}`,
+      [...removal, ...commands]
+    );
+    message.success('Change staged');
+  };
+
+  const deletePeer = async (interfaceName: string, peer: WireGuardPeer) => {
+    try {
+      const commands = await previewCommands('delete-wireguard-peer', { interfaceName, peer });
+      await stageChange(`Remove WireGuard peer ${peer.name} from ${interfaceName}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const openInterfaceForm = (iface: WireGuardInterface | null) => {
+    setEditingInterface(iface);
+    setInterfaceFormOpen(true);
+  };
+
+  const renderPeers = (iface: WireGuardInterface) => (
+    <Table<WireGuardPeer>
+      rowKey="name"
+      size="small"
+      pagination={false}
+      dataSource={iface.peers}
+      columns={[
+        { title: 'Peer', dataIndex: 'name' },
+        { title: 'Description', dataIndex: 'description' },
+        {
+          title: 'Public Key',
+          dataIndex: 'publicKey',
+          render: (key: string) => <Text code copyable ellipsis style={{ maxWidth: 180 }}>{key}</Text>,
+        },
+        { title: 'Allowed IPs', dataIndex: 'allowedIps', render: (ips: string[]) => ips.join(', ') },
+        { title: 'Endpoint', render: (_, peer) => formatEndpoint(peer) },
+        {
+          title: 'Keepalive',
+          dataIndex: 'persistentKeepalive',
+          render: (seconds?: number) => (seconds ? `${seconds}s` : '-'),
+        },
+        {
+          title: 'Actions',
+          render: (_, peer) => (
+            <Popconfirm title={`Remove peer ${peer.name}?`} onConfirm={() => deletePeer(iface.name, peer)}>
+              <Button size="small" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          ),
+        },
+      ]}
+    />
+  );
+
+  return (
+    <Card
+      title="WireGuard"
+      extra={
+        <Space>
+          <Button icon={<ReloadOutlined />} onClick={loadInterfaces} loading={loading}>
+            Refresh
+          </Button>
+          <Button type="primary" icon={<PlusOutlined />} onClick={() => openInterfaceForm(null)}>
+            Add Interface
+          </Button>
+        </Space>
+      }
+    >
+      <Table<WireGuardInterface>
+        rowKey="name"
+        loading={loading}
+        dataSource={interfaces}
+        pagination={false}
+        expandable={{ expandedRowRender: renderPeers, rowExpandable: (iface) => iface.peers.length > 0 }}
+        columns={[
+          { title: 'Interface', dataIndex: 'name' },
+          { title: 'Description', dataIndex: 'description' },
+          { title: 'Addresses', dataIndex: 'addresses', render: (addresses: string[]) => addresses.join(', ') },
+          { title: 'Listen Port', dataIndex: 'listenPort' },
+          { title: 'Peers', render: (_, iface) => iface.peers.length },
+          {
+            title: 'Status',
+            render: (_, iface) => (iface.disabled ? <Tag>Disabled</Tag> : <Tag color="green">Enabled</Tag>),
+          },
+          {
+            title: 'Actions',
+            render: (_, iface) => (
+              <Space>
+                <Button size="small" icon={<EditOutlined />} onClick={() => openInterfaceForm(iface)}>
+                  Edit
+                </Button>
+                <Button size="small" icon={<UserAddOutlined />} onClick={() => setPeerInterface(iface.name)}>
+                  Add Peer
+                </Button>
+              </Space>
+            ),
+          },
+        ]}
+      />
+
+      {selectedDeviceId && (
+        <>
+          <WireGuardInterfaceForm
+            open={interfaceFormOpen}
+            deviceId={selectedDeviceId}
+            iface={editingInterface}
+            onClose={() => setInterfaceFormOpen(false)}
+            onSubmit={saveInterface}
+          />
+          <WireGuardPeerForm
+            open={!!peerInterface}
+            deviceId={selectedDeviceId}
+            interfaceName={peerInterface || ''}
+            onClose={() => setPeerInterface(null)}
+            onSubmit={(peer) =>
+              stage(`Add WireGuard peer ${peer.name} to ${peerInterface}`, 'wireguard-peer', {
+                interfaceName: peerInterface,
+                peer,
+              })
+            }
+          />
+        </>
+      )}
+    </Card>
+  );
+};
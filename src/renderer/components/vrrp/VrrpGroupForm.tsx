@@ -0,0 +1,146 @@
+/**
+ * VRRP Group Form - Add or edit a high-availability VRRP group
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Form, Input, InputNumber, Modal, Select, Space, Switch, message } from 'antd';
+import { VrrpGroup } from '@shared/types';
+import { validateVrrpGroup } from '@shared/validators';
+
+interface VrrpGroupFormProps {
+  open: boolean;
+  group?: VrrpGroup | null;
+  groups: VrrpGroup[];
+  onClose: () => void;
+  onSubmit: (group: VrrpGroup) => Promise<void>;
+}
+
+interface GroupFormValues extends Omit<VrrpGroup, 'authentication'> {
+  authenticationType?: 'plaintext-password' | 'ah';
+  authenticationPassword?: string;
+}
+
+export const VrrpGroupForm: React.FC<VrrpGroupFormProps> = ({ open, group, groups, onClose, onSubmit }) => {
+  const [form] = Form.useForm<GroupFormValues>();
+  const [saving, setSaving] = useState(false);
+  const preempt = Form.useWatch('preempt', form);
+  const authenticationType = Form.useWatch('authenticationType', form);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(
+        group
+          ? {
+              ...group,
+              authenticationType: group.authentication?.type,
+              authenticationPassword: group.authentication?.password,
+            }
+          : { virtualAddresses: [], preempt: true }
+      );
+    }
+  }, [open, group, form]);
+
+  const save = async () => {
+    const { authenticationType: type, authenticationPassword: password, ...values } = await form.validateFields();
+    const updated: VrrpGroup = {
+      ...values,
+      virtualAddresses: values.virtualAddresses || [],
+      priority: values.priority ?? undefined,
+      preemptDelay: values.preempt ? values.preemptDelay ?? undefined : undefined,
+      advertiseInterval: values.advertiseInterval ?? undefined,
+      authentication: type ? { type, password: password || '' } : undefined,
+    };
+
+    const validation = validateVrrpGroup(updated, groups);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={group ? `Edit VRRP group ${group.name}` : 'Add VRRP Group'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={640}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space wrap align="start">
+          <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+            <Input placeholder="LAN" disabled={!!group} />
+          </Form.Item>
+          <Form.Item label="VRID" name="vrid" rules={[{ required: true, message: 'VRID is required' }]}>
+            <InputNumber min={1} max={255} />
+          </Form.Item>
+          <Form.Item label="Interface" name="interface" rules={[{ required: true, message: 'Interface is required' }]}>
+            <Input placeholder="eth1" style={{ width: 120 }} />
+          </Form.Item>
+        </Space>
+        <Form.Item
+          label="Virtual Addresses"
+          name="virtualAddresses"
+          rules={[{ required: true, message: 'At least one virtual address is required' }]}
+        >
+          <Select mode="tags" open={false} placeholder="192.168.1.1/24" />
+        </Form.Item>
+        <Form.Item label="Description" name="description">
+          <Input />
+        </Form.Item>
+        <Space wrap align="start">
+          <Form.Item label="Priority" name="priority" tooltip="Highest priority becomes MASTER; defaults to 100">
+            <InputNumber min={1} max={255} placeholder="100" />
+          </Form.Item>
+          <Form.Item label="Advertise Interval (s)" name="advertiseInterval">
+            <InputNumber min={1} max={255} placeholder="1" />
+          </Form.Item>
+          <Form.Item label="Preempt" name="preempt" valuePropName="checked" tooltip="Take MASTER back when priority is higher">
+            <Switch />
+          </Form.Item>
+          {preempt && (
+            <Form.Item label="Preempt Delay (s)" name="preemptDelay">
+              <InputNumber min={0} max={1000} placeholder="0" />
+            </Form.Item>
+          )}
+        </Space>
+        <Space wrap align="start">
+          <Form.Item label="Authentication" name="authenticationType">
+            <Select
+              allowClear
+              placeholder="None"
+              style={{ width: 200 }}
+              options={[
+                { value: 'plaintext-password', label: 'Plaintext password' },
+                { value: 'ah', label: 'IPsec AH' },
+              ]}
+            />
+          </Form.Item>
+          {authenticationType && (
+            <Form.Item
+              label="Password"
+              name="authenticationPassword"
+              rules={[{ required: true, message: 'Password is required' }]}
+            >
+              <Input.Password maxLength={authenticationType === 'plaintext-password' ? 8 : undefined} />
+            </Form.Item>
+          )}
+        </Space>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,81 @@
+/**
+ * VRRP Sync Group Form - Groups that fail over together
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Form, Input, Modal, Select, message } from 'antd';
+import { VrrpConfig, VrrpSyncGroup } from '@shared/types';
+import { validateVrrpSyncGroup } from '@shared/validators';
+
+interface VrrpSyncGroupFormProps {
+  open: boolean;
+  syncGroup?: VrrpSyncGroup | null;
+  vrrp: VrrpConfig;
+  onClose: () => void;
+  onSubmit: (syncGroup: VrrpSyncGroup) => Promise<void>;
+}
+
+export const VrrpSyncGroupForm: React.FC<VrrpSyncGroupFormProps> = ({ open, syncGroup, vrrp, onClose, onSubmit }) => {
+  const [form] = Form.useForm<VrrpSyncGroup>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(syncGroup || { members: [] });
+    }
+  }, [open, syncGroup, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+
+    const validation = validateVrrpSyncGroup(values, vrrp);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(values);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // A group can only be in one sync group
+  const taken = new Set(
+    vrrp.syncGroups.filter((other) => other.name !== syncGroup?.name).flatMap((other) => other.members)
+  );
+
+  return (
+    <Modal
+      open={open}
+      title={syncGroup ? `Edit sync group ${syncGroup.name}` : 'Add Sync Group'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item label="Name" name="name" rules={[{ required: true, message: 'Name is required' }]}>
+          <Input placeholder="MAIN" disabled={!!syncGroup} />
+        </Form.Item>
+        <Form.Item label="Members" name="members" rules={[{ required: true, message: 'Select at least one group' }]}>
+          <Select
+            mode="multiple"
+            options={vrrp.groups.map((group) => ({
+              value: group.name,
+              label: `${group.name} (VRID ${group.vrid} on ${group.interface})`,
+              disabled: taken.has(group.name),
+            }))}
+          />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,343 @@
+/**
+ * VRRP View - VRRP groups alongside live state, and VRID conflicts across the inventory
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Button, Card, Popconfirm, Space, Table, Tag, Tooltip, Typography, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined, SearchOutlined, WarningOutlined } from '@ant-design/icons';
+import {
+  IPCChannel,
+  VrrpConfig,
+  VrrpConflict,
+  VrrpConflictReport,
+  VrrpGroup,
+  VrrpStatus,
+  VrrpSyncGroup,
+} from '@shared/types';
+import { VRRP_STATE_REFRESH_INTERVAL } from '@shared/constants';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { VrrpGroupForm } from './VrrpGroupForm';
+import { VrrpSyncGroupForm } from './VrrpSyncGroupForm';
+
+const { Text } = Typography;
+
+function vrrpStateColor(state: string): string {
+  switch (state.toUpperCase()) {
+    case 'MASTER':
+      return 'green';
+    case 'BACKUP':
+      return 'blue';
+    default:
+      return 'red';
+  }
+}
+
+function describeConflict(conflict: VrrpConflict): string {
+  const members = conflict.groups.map(
+    (member) => `${member.deviceName} ${member.group} on ${member.interface} (${member.virtualAddresses.join(', ')})`
+  );
+  return `VRID ${conflict.vrid} on ${conflict.network}: ${members.join('; ')}`;
+}
+
+export const VrrpView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [vrrp, setVrrp] = useState<VrrpConfig>({ groups: [], syncGroups: [] });
+  const [status, setStatus] = useState<VrrpStatus[]>([]);
+  const [report, setReport] = useState<VrrpConflictReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [groupFormOpen, setGroupFormOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<VrrpGroup | null>(null);
+  const [syncFormOpen, setSyncFormOpen] = useState(false);
+  const [editingSyncGroup, setEditingSyncGroup] = useState<VrrpSyncGroup | null>(null);
+
+  const loadConfig = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setVrrp(await invoke<VrrpConfig>(IPCChannel.VYOS_GET_VRRP, selectedDeviceId));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  const loadStatus = useCallback(async (notify = true) => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    try {
+      setStatus(await invoke<VrrpStatus[]>(IPCChannel.VYOS_GET_VRRP_STATUS, selectedDeviceId));
+    } catch (error) {
+      // Background polls fail quietly; the connection events already report drops
+      if (notify) {
+        message.error((error as Error).message);
+      }
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadConfig();
+    setReport(null);
+  }, [loadConfig]);
+
+  useEffect(() => {
+    loadStatus();
+    const timer = setInterval(() => loadStatus(false), VRRP_STATE_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [loadStatus]);
+
+  const refresh = () => {
+    loadConfig();
+    loadStatus();
+  };
+
+  const checkConflicts = async () => {
+    setChecking(true);
+    try {
+      setReport(await invoke<VrrpConflictReport>(IPCChannel.VYOS_VRRP_CONFLICTS));
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const openGroupForm = (group: VrrpGroup | null) => {
+    setEditingGroup(group);
+    setGroupFormOpen(true);
+  };
+
+  const saveGroup = async (group: VrrpGroup) => {
+    const commands = await previewCommands('vrrp-group', group);
+    // Edits replace the group so removed addresses and options go away; sync-group memberships stay
+    const removal = editingGroup
+      ? await previewCommands('delete-vrrp-group', { name: editingGroup.name, syncGroups: [] })
+      : [];
+    await stageChange(`${editingGroup ? 'Update' : 'Add'} VRRP group ${group.name}`, [...removal, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deleteGroup = async (group: VrrpGroup) => {
+    try {
+      const commands = await previewCommands('delete-vrrp-group', { name: group.name, syncGroups: vrrp.syncGroups });
+      await stageChange(`Delete VRRP group ${group.name}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const openSyncForm = (syncGroup: VrrpSyncGroup | null) => {
+    setEditingSyncGroup(syncGroup);
+    setSyncFormOpen(true);
+  };
+
+  const saveSyncGroup = async (syncGroup: VrrpSyncGroup) => {
+    const commands = await previewCommands('vrrp-sync-group', syncGroup);
+    const removal = editingSyncGroup ? await previewCommands('delete-vrrp-sync-group', editingSyncGroup) : [];
+    await stageChange(
+      `${editingSyncGroup ? 'Update' : 'Add'} VRRP sync group ${syncGroup.name}`,
+      [...removal, ...commands]
+    );
+    message.success('Change staged');
+  };
+
+  const deleteSyncGroup = async (syncGroup: VrrpSyncGroup) => {
+    try {
+      await stageChange(
+        `Delete VRRP sync group ${syncGroup.name}`,
+        await previewCommands('delete-vrrp-sync-group', syncGroup)
+      );
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const groupConflicts = (group: VrrpGroup): VrrpConflict[] =>
+    (report?.conflicts || []).filter((conflict) =>
+      conflict.groups.some((member) => member.deviceId === selectedDeviceId && member.group === group.name)
+    );
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Card
+        title="VRRP Groups"
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={refresh} loading={loading}>
+              Refresh
+            </Button>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openGroupForm(null)}>
+              Add Group
+            </Button>
+          </Space>
+        }
+      >
+        <Table<VrrpGroup>
+          rowKey="name"
+          loading={loading}
+          dataSource={vrrp.groups}
+          pagination={false}
+          columns={[
+            {
+              title: 'Group',
+              dataIndex: 'name',
+              render: (name: string, group) => {
+                const conflicts = groupConflicts(group);
+                return conflicts.length > 0 ? (
+                  <Tooltip
+                    title={conflicts.map((conflict) => (
+                      <div key={`${conflict.network} ${conflict.vrid}`}>{describeConflict(conflict)}</div>
+                    ))}
+                  >
+                    <Text type="warning">
+                      <WarningOutlined /> {name}
+                    </Text>
+                  </Tooltip>
+                ) : (
+                  name
+                );
+              },
+            },
+            { title: 'VRID', dataIndex: 'vrid' },
+            { title: 'Interface', dataIndex: 'interface' },
+            {
+              title: 'Virtual Addresses',
+              dataIndex: 'virtualAddresses',
+              render: (addresses: string[]) => addresses.map((address) => <Tag key={address}>{address}</Tag>),
+            },
+            { title: 'Priority', dataIndex: 'priority', render: (priority?: number) => priority ?? 100 },
+            {
+              title: 'Preempt',
+              dataIndex: 'preempt',
+              render: (preempt: boolean, group) =>
+                preempt ? (group.preemptDelay ? `Yes, after ${group.preemptDelay}s` : 'Yes') : 'No',
+            },
+            {
+              title: 'State',
+              render: (_, group) => {
+                const live = status.find((entry) => entry.name === group.name);
+                return live ? <Tag color={vrrpStateColor(live.state)}>{live.state}</Tag> : <Text type="secondary">-</Text>;
+              },
+            },
+            {
+              title: 'Last Transition',
+              render: (_, group) => status.find((entry) => entry.name === group.name)?.lastTransition,
+            },
+            {
+              title: 'Actions',
+              render: (_, group) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openGroupForm(group)}>
+                    Edit
+                  </Button>
+                  <Popconfirm title={`Delete VRRP group ${group.name}?`} onConfirm={() => deleteGroup(group)}>
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <Card
+        title="Sync Groups"
+        extra={
+          <Button icon={<PlusOutlined />} onClick={() => openSyncForm(null)} disabled={vrrp.groups.length === 0}>
+            Add Sync Group
+          </Button>
+        }
+      >
+        <Table<VrrpSyncGroup>
+          rowKey="name"
+          size="small"
+          loading={loading}
+          dataSource={vrrp.syncGroups}
+          pagination={false}
+          columns={[
+            { title: 'Sync Group', dataIndex: 'name' },
+            {
+              title: 'Members',
+              dataIndex: 'members',
+              render: (members: string[]) => members.map((member) => <Tag key={member}>{member}</Tag>),
+            },
+            {
+              title: 'Actions',
+              render: (_, syncGroup) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openSyncForm(syncGroup)}>
+                    Edit
+                  </Button>
+                  <Popconfirm title={`Delete sync group ${syncGroup.name}?`} onConfirm={() => deleteSyncGroup(syncGroup)}>
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <Card
+        title="VRID Conflicts"
+        extra={
+          <Button icon={<SearchOutlined />} onClick={checkConflicts} loading={checking}>
+            Check Inventory
+          </Button>
+        }
+      >
+        {report ? (
+          <Space direction="vertical" style={{ width: '100%' }}>
+            {report.conflicts.length === 0 ? (
+              <Alert type="success" showIcon message="No VRID conflicts between the checked devices" />
+            ) : (
+              report.conflicts.map((conflict) => (
+                <Alert
+                  key={`${conflict.network} ${conflict.vrid}`}
+                  type="warning"
+                  showIcon
+                  message={`VRID ${conflict.vrid} is used by different groups on ${conflict.network}`}
+                  description={describeConflict(conflict)}
+                />
+              ))
+            )}
+            {report.unchecked.length > 0 && (
+              <Text type="secondary">Not checked (not connected): {report.unchecked.join(', ')}</Text>
+            )}
+          </Space>
+        ) : (
+          <Text type="secondary">
+            Compares the VRRP groups of every connected device and flags one VRID used by different groups on the
+            same network.
+          </Text>
+        )}
+      </Card>
+
+      <VrrpGroupForm
+        open={groupFormOpen}
+        group={editingGroup}
+        groups={vrrp.groups}
+        onClose={() => setGroupFormOpen(false)}
+        onSubmit={saveGroup}
+      />
+      <VrrpSyncGroupForm
+        open={syncFormOpen}
+        syncGroup={editingSyncGroup}
+        vrrp={vrrp}
+        onClose={() => setSyncFormOpen(false)}
+        onSubmit={saveSyncGroup}
+      />
+    </Space>
+  );
+};
@@ -0,0 +1,150 @@
+/**
+ * WAN Interface Form - Uplink health check: next hop, thresholds and tests
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Form, Input, InputNumber, Modal, Select, Space, message } from 'antd';
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons';
+import { WanHealthTest, WanInterfaceHealth } from '@shared/types';
+import { VYOS_FEATURES } from '@shared/constants';
+import { validateWanInterfaceHealth } from '@shared/validators';
+
+interface WanInterfaceFormProps {
+  open: boolean;
+  health?: WanInterfaceHealth | null;
+  interfaces: WanInterfaceHealth[];
+  onClose: () => void;
+  onSubmit: (health: WanInterfaceHealth) => Promise<void>;
+}
+
+export const WanInterfaceForm: React.FC<WanInterfaceFormProps> = ({ open, health, interfaces, onClose, onSubmit }) => {
+  const [form] = Form.useForm<WanInterfaceHealth>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(health || { failureCount: 3, successCount: 1, tests: [{ number: 10, type: 'ping' }] });
+    }
+  }, [open, health, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: WanInterfaceHealth = {
+      ...values,
+      failureCount: values.failureCount ?? undefined,
+      successCount: values.successCount ?? undefined,
+      tests: (values.tests || []).map((test) => ({
+        ...test,
+        target: test.target || undefined,
+        respTime: test.respTime ?? undefined,
+        ttlLimit: test.ttlLimit ?? undefined,
+        testScript: test.testScript || undefined,
+      })),
+    };
+
+    const others = interfaces.filter((other) => other.interface !== health?.interface);
+    const validation = validateWanInterfaceHealth(updated, others);
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const nextTestNumber = () => {
+    const tests: WanHealthTest[] = form.getFieldValue('tests') || [];
+    return Math.max(0, ...tests.map((test) => test?.number || 0)) + 10;
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={health ? `Edit uplink ${health.interface}` : 'Add Uplink'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={720}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space wrap align="start">
+          <Form.Item label="Interface" name="interface" rules={[{ required: true, message: 'Interface is required' }]}>
+            <Input placeholder="eth0" disabled={!!health} style={{ width: 120 }} />
+          </Form.Item>
+          <Form.Item
+            label="Next Hop"
+            name="nexthop"
+            tooltip='Gateway address, or "dhcp" for an uplink that learns it by DHCP'
+            rules={[{ required: true, message: 'Next hop is required' }]}
+          >
+            <Input placeholder="203.0.113.1" style={{ width: 160 }} />
+          </Form.Item>
+          <Form.Item label="Failure Count" name="failureCount" tooltip="Failed tests before the uplink is marked down">
+            <InputNumber min={1} max={10} />
+          </Form.Item>
+          <Form.Item label="Success Count" name="successCount" tooltip="Passed tests before it is marked up again">
+            <InputNumber min={1} max={10} />
+          </Form.Item>
+        </Space>
+
+        <Form.List name="tests">
+          {(fields, { add, remove }) => (
+            <>
+              {fields.map((field) => (
+                <Space key={field.key} align="baseline" wrap>
+                  <Form.Item label="Test" name={[field.name, 'number']} rules={[{ required: true }]}>
+                    <InputNumber min={1} style={{ width: 70 }} />
+                  </Form.Item>
+                  <Form.Item label="Type" name={[field.name, 'type']}>
+                    <Select
+                      style={{ width: 130 }}
+                      options={VYOS_FEATURES.WAN_HEALTH_TEST_TYPES.map((type) => ({ value: type, label: type }))}
+                    />
+                  </Form.Item>
+                  <Form.Item noStyle shouldUpdate>
+                    {() =>
+                      form.getFieldValue(['tests', field.name, 'type']) === 'user-defined' ? (
+                        <Form.Item label="Script" name={[field.name, 'testScript']}>
+                          <Input placeholder="/config/scripts/check-isp1" style={{ width: 260 }} />
+                        </Form.Item>
+                      ) : (
+                        <Space align="baseline">
+                          <Form.Item label="Target" name={[field.name, 'target']}>
+                            <Input placeholder="8.8.8.8" style={{ width: 140 }} />
+                          </Form.Item>
+                          <Form.Item label="Response Time" name={[field.name, 'respTime']}>
+                            <InputNumber min={1} max={30} addonAfter="s" style={{ width: 110 }} />
+                          </Form.Item>
+                          {form.getFieldValue(['tests', field.name, 'type']) === 'ttl' && (
+                            <Form.Item label="TTL Limit" name={[field.name, 'ttlLimit']}>
+                              <InputNumber min={1} max={254} />
+                            </Form.Item>
+                          )}
+                        </Space>
+                      )
+                    }
+                  </Form.Item>
+                  <MinusCircleOutlined onClick={() => remove(field.name)} />
+                </Space>
+              ))}
+              <Button type="dashed" icon={<PlusOutlined />} onClick={() => add({ number: nextTestNumber(), type: 'ping' })}>
+                Add Test
+              </Button>
+            </>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,161 @@
+/**
+ * WAN Rule Form - Which traffic is balanced over (or fails over between) which uplinks
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button, Form, Input, InputNumber, Modal, Select, Space, Switch, message } from 'antd';
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons';
+import { WanLoadBalancing, WanRule } from '@shared/types';
+import { VYOS_FEATURES } from '@shared/constants';
+import { validateWanRule } from '@shared/validators';
+
+interface WanRuleFormProps {
+  open: boolean;
+  rule?: WanRule | null;
+  wan: WanLoadBalancing;
+  onClose: () => void;
+  onSubmit: (rule: WanRule) => Promise<void>;
+}
+
+export const WanRuleForm: React.FC<WanRuleFormProps> = ({ open, rule, wan, onClose, onSubmit }) => {
+  const [form] = Form.useForm<WanRule>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      form.setFieldsValue(
+        rule || {
+          number: Math.max(0, ...wan.rules.map((other) => other.number)) + 10,
+          failover: false,
+          interfaces: wan.interfaces.map((health) => ({ name: health.interface, weight: 1 })),
+        }
+      );
+    }
+  }, [open, rule, wan, form]);
+
+  const save = async () => {
+    const values = await form.validateFields();
+    const updated: WanRule = {
+      ...values,
+      interfaces: (values.interfaces || []).map((iface) => ({ name: iface.name, weight: iface.weight ?? undefined })),
+      protocol: values.protocol || undefined,
+      source: values.source?.address || values.source?.port ? values.source : undefined,
+      destination: values.destination?.address || values.destination?.port ? values.destination : undefined,
+    };
+
+    const validation = validateWanRule(updated, {
+      ...wan,
+      rules: wan.rules.filter((other) => other.number !== rule?.number),
+    });
+    if (!validation.valid) {
+      message.error(validation.errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(updated);
+      onClose();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={rule ? `Edit rule ${rule.number}` : 'Add Load Balancing Rule'}
+      okText="Stage Change"
+      confirmLoading={saving}
+      onOk={save}
+      onCancel={onClose}
+      width={720}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Space wrap align="start">
+          <Form.Item label="Rule" name="number" rules={[{ required: true, message: 'Rule number is required' }]}>
+            <InputNumber min={1} max={9999} disabled={!!rule} />
+          </Form.Item>
+          <Form.Item
+            label="Inbound Interface"
+            name="inboundInterface"
+            rules={[{ required: true, message: 'Inbound interface is required' }]}
+          >
+            <Input placeholder="eth2" style={{ width: 120 }} />
+          </Form.Item>
+          <Form.Item label="Description" name="description">
+            <Input style={{ width: 300 }} />
+          </Form.Item>
+        </Space>
+
+        <Space wrap align="start">
+          <Form.Item label="Protocol" name="protocol">
+            <Select
+              allowClear
+              placeholder="Any"
+              style={{ width: 100 }}
+              options={VYOS_FEATURES.WAN_RULE_PROTOCOLS.map((protocol) => ({ value: protocol, label: protocol }))}
+            />
+          </Form.Item>
+          <Form.Item label="Source" name={['source', 'address']}>
+            <Input placeholder="192.168.10.0/24" style={{ width: 160 }} />
+          </Form.Item>
+          <Form.Item label="Source Port" name={['source', 'port']}>
+            <Input style={{ width: 100 }} />
+          </Form.Item>
+          <Form.Item label="Destination" name={['destination', 'address']}>
+            <Input placeholder="any" style={{ width: 160 }} />
+          </Form.Item>
+          <Form.Item label="Destination Port" name={['destination', 'port']}>
+            <Input placeholder="443" style={{ width: 100 }} />
+          </Form.Item>
+        </Space>
+
+        <Space wrap align="start" size="large">
+          <Form.Item
+            label="Failover Only"
+            name="failover"
+            valuePropName="checked"
+            tooltip="Send everything over the healthy uplink with the highest weight instead of spreading it"
+          >
+            <Switch />
+          </Form.Item>
+          <Form.Item label="Per-Packet" name="perPacketBalancing" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          <Form.Item label="Exclude" name="exclude" valuePropName="checked" tooltip="Matching traffic bypasses load balancing">
+            <Switch />
+          </Form.Item>
+        </Space>
+
+        <Form.List name="interfaces">
+          {(fields, { add, remove }) => (
+            <>
+              {fields.map((field) => (
+                <Space key={field.key} align="baseline">
+                  <Form.Item label="Uplink" name={[field.name, 'name']} rules={[{ required: true }]}>
+                    <Select
+                      style={{ width: 140 }}
+                      options={wan.interfaces.map((health) => ({ value: health.interface, label: health.interface }))}
+                    />
+                  </Form.Item>
+                  <Form.Item label="Weight" name={[field.name, 'weight']}>
+                    <InputNumber min={1} max={255} />
+                  </Form.Item>
+                  <MinusCircleOutlined onClick={() => remove(field.name)} />
+                </Space>
+              ))}
+              <Button type="dashed" icon={<PlusOutlined />} onClick={() => add({ weight: 1 })}>
+                Add Uplink
+              </Button>
+            </>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,376 @@
+/**
+ * WAN View - Load-balanced uplinks with their live health, balancing rules and global switches
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Checkbox, Popconfirm, Space, Table, Tag, Tooltip, Typography, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import {
+  IPCChannel,
+  WanInterfaceHealth,
+  WanInterfaceStatus,
+  WanLoadBalancing,
+  WanRule,
+  WanRuleMatch,
+} from '@shared/types';
+import { WAN_STATE_REFRESH_INTERVAL } from '@shared/constants';
+import { invoke } from '../../services/ipc';
+import { useDeviceStore } from '../../store/deviceStore';
+import { usePendingChanges } from '../../hooks/usePendingChanges';
+import { WanInterfaceForm } from './WanInterfaceForm';
+import { WanRuleForm } from './WanRuleForm';
+
+const { Text } = Typography;
+
+type WanSettings = Pick<WanLoadBalancing, 'stickyInbound' | 'enableLocalTraffic' | 'flushConnections' | 'disableSourceNat'>;
+
+const SETTINGS: { key: keyof WanSettings; label: string; tooltip: string }[] = [
+  { key: 'stickyInbound', label: 'Sticky inbound connections', tooltip: 'Reply over the uplink a connection came in on' },
+  { key: 'enableLocalTraffic', label: 'Balance local traffic', tooltip: 'Also balance traffic the router originates' },
+  { key: 'flushConnections', label: 'Flush connections on change', tooltip: 'Flush connection tracking when an uplink changes state' },
+  { key: 'disableSourceNat', label: 'Disable source NAT', tooltip: 'Do not masquerade traffic leaving the uplinks' },
+];
+
+function statusColor(status: string): string {
+  switch (status.toLowerCase()) {
+    case 'active':
+      return 'green';
+    case 'failed':
+      return 'red';
+    default:
+      return 'default';
+  }
+}
+
+function describeMatch(match?: WanRuleMatch): string {
+  if (!match) {
+    return 'any';
+  }
+  return [match.address, match.port && `port ${match.port}`].filter(Boolean).join(' ') || 'any';
+}
+
+export const WanView: React.FC = () => {
+  const { selectedDeviceId } = useDeviceStore();
+  const { stageChange, previewCommands } = usePendingChanges();
+  const [wan, setWan] = useState<WanLoadBalancing>({
+    interfaces: [],
+    rules: [],
+    stickyInbound: false,
+    enableLocalTraffic: false,
+    flushConnections: false,
+    disableSourceNat: false,
+  });
+  const [settings, setSettings] = useState<WanSettings | null>(null);
+  const [status, setStatus] = useState<WanInterfaceStatus[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [healthFormOpen, setHealthFormOpen] = useState(false);
+  const [editingHealth, setEditingHealth] = useState<WanInterfaceHealth | null>(null);
+  const [ruleFormOpen, setRuleFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<WanRule | null>(null);
+
+  const loadConfig = useCallback(async () => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const config = await invoke<WanLoadBalancing>(IPCChannel.VYOS_GET_WAN_LOAD_BALANCING, selectedDeviceId);
+      setWan(config);
+      setSettings(null);
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDeviceId]);
+
+  const loadStatus = useCallback(async (notify = true) => {
+    if (!selectedDeviceId) {
+      return;
+    }
+
+    try {
+      setStatus(await invoke<WanInterfaceStatus[]>(IPCChannel.VYOS_GET_WAN_STATUS, selectedDeviceId));
+    } catch (error) {
+      // Background polls fail quietly; the connection events already report drops
+      if (notify) {
+        message.error((error as Error).message);
+      }
+    }
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  useEffect(() => {
+    loadStatus();
+    const timer = setInterval(() => loadStatus(false), WAN_STATE_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [loadStatus]);
+
+  const refresh = () => {
+    loadConfig();
+    loadStatus();
+  };
+
+  const openHealthForm = (health: WanInterfaceHealth | null) => {
+    setEditingHealth(health);
+    setHealthFormOpen(true);
+  };
+
+  const saveHealth = async (health: WanInterfaceHealth) => {
+    const commands = await previewCommands('wan-interface-health', health);
+    // Edits replace the health check so removed tests go away
+    const removal = editingHealth ? await previewCommands('delete-wan-interface-health', editingHealth) : [];
+    await stageChange(`${editingHealth ? 'Update' : 'Add'} WAN uplink ${health.interface}`, [...removal, ...commands]);
+    message.success('Change staged');
+  };
+
+  const deleteHealth = async (health: WanInterfaceHealth) => {
+    const users = wan.rules.filter((rule) => rule.interfaces.some((iface) => iface.name === health.interface));
+    if (users.length > 0) {
+      message.error(`${health.interface} is used by rule ${users.map((rule) => rule.number).join(', ')}`);
+      return;
+    }
+
+    try {
+      const commands = await previewCommands('delete-wan-interface-health', health);
+      await stageChange(`Delete WAN uplink ${health.interface}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const openRuleForm = (rule: WanRule | null) => {
+    setEditingRule(rule);
+    setRuleFormOpen(true);
+  };
+
+  const saveRule = async (rule: WanRule) => {
+    const commands = await previewCommands('wan-rule', rule);
+    const removal = editingRule ? await previewCommands('delete-wan-rule', editingRule) : [];
+    await stageChange(`${editingRule ? 'Update' : 'Add'} WAN load balancing rule ${rule.number}`, [
+      ...removal,
+      ...commands,
+    ]);
+    message.success('Change staged');
+  };
+
+  const deleteRule = async (rule: WanRule) => {
+    try {
+      const commands = await previewCommands('delete-wan-rule', rule);
+      await stageChange(`Delete WAN load balancing rule ${rule.number}`, commands);
+      message.success('Change staged');
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const saveSettings = async () => {
+    if (!settings) {
+      return;
+    }
+
+    try {
+      const commands = await previewCommands('wan-settings', settings);
+      await stageChange('Update WAN load balancing settings', commands);
+      message.success('Change staged');
+      setSettings(null);
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  const uplinkStatus = (health: WanInterfaceHealth) => status.find((entry) => entry.interface === health.interface);
+  const currentSettings: WanSettings = settings || wan;
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Card
+        title="Uplinks"
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={refresh} loading={loading}>
+              Refresh
+            </Button>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openHealthForm(null)}>
+              Add Uplink
+            </Button>
+          </Space>
+        }
+      >
+        <Table<WanInterfaceHealth>
+          rowKey="interface"
+          loading={loading}
+          dataSource={wan.interfaces}
+          pagination={false}
+          columns={[
+            { title: 'Interface', dataIndex: 'interface' },
+            { title: 'Next Hop', dataIndex: 'nexthop' },
+            {
+              title: 'Status',
+              render: (_, health) => {
+                const live = uplinkStatus(health);
+                return live ? (
+                  <Tooltip title={live.lastStatusChange && `Since ${live.lastStatusChange}`}>
+                    <Tag color={statusColor(live.status)}>{live.status}</Tag>
+                  </Tooltip>
+                ) : (
+                  <Text type="secondary">-</Text>
+                );
+              },
+            },
+            {
+              title: 'Health Checks',
+              render: (_, health) => {
+                const live = uplinkStatus(health);
+                return (
+                  <Space size={4} wrap>
+                    {health.tests.map((test) => {
+                      const result = live?.tests.find((entry) => entry.target === test.target);
+                      return (
+                        <Tag key={test.number} color={result ? (result.passing ? 'green' : 'red') : undefined}>
+                          {test.type} {test.target || test.testScript}
+                        </Tag>
+                      );
+                    })}
+                  </Space>
+                );
+              },
+            },
+            {
+              title: 'Failures',
+              render: (_, health) => {
+                const live = uplinkStatus(health);
+                if (!live) {
+                  return null;
+                }
+                const threshold = health.failureCount ? ` / ${health.failureCount}` : '';
+                return (
+                  <Tooltip title={live.lastFailure && `Last failure ${live.lastFailure} ago`}>
+                    <Text type={live.failures > 0 ? 'danger' : undefined}>
+                      {live.failures}
+                      {threshold}
+                    </Text>
+                  </Tooltip>
+                );
+              },
+            },
+            {
+              title: 'Last Success',
+              render: (_, health) => uplinkStatus(health)?.lastSuccess,
+            },
+            {
+              title: 'Actions',
+              render: (_, health) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openHealthForm(health)}>
+                    Edit
+                  </Button>
+                  <Popconfirm title={`Delete uplink ${health.interface}?`} onConfirm={() => deleteHealth(health)}>
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <Card
+        title="Rules"
+        extra={
+          <Button icon={<PlusOutlined />} onClick={() => openRuleForm(null)} disabled={wan.interfaces.length === 0}>
+            Add Rule
+          </Button>
+        }
+      >
+        <Table<WanRule>
+          rowKey="number"
+          size="small"
+          loading={loading}
+          dataSource={wan.rules}
+          pagination={false}
+          columns={[
+            { title: 'Rule', dataIndex: 'number' },
+            { title: 'Inbound', dataIndex: 'inboundInterface' },
+            { title: 'Protocol', dataIndex: 'protocol', render: (protocol?: string) => protocol || 'any' },
+            { title: 'Source', dataIndex: 'source', render: describeMatch },
+            { title: 'Destination', dataIndex: 'destination', render: describeMatch },
+            {
+              title: 'Uplinks',
+              render: (_, rule) =>
+                rule.exclude ? (
+                  <Tag>excluded</Tag>
+                ) : (
+                  <Space size={4} wrap>
+                    {rule.failover && <Tag color="orange">failover</Tag>}
+                    {rule.interfaces.map((iface) => (
+                      <Tag key={iface.name}>
+                        {iface.name}
+                        {iface.weight !== undefined && ` × ${iface.weight}`}
+                      </Tag>
+                    ))}
+                  </Space>
+                ),
+            },
+            { title: 'Description', dataIndex: 'description' },
+            {
+              title: 'Actions',
+              render: (_, rule) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openRuleForm(rule)}>
+                    Edit
+                  </Button>
+                  <Popconfirm title={`Delete rule ${rule.number}?`} onConfirm={() => deleteRule(rule)}>
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <Card
+        title="Settings"
+        extra={
+          <Button onClick={saveSettings} disabled={!settings}>
+            Stage Settings
+          </Button>
+        }
+      >
+        <Space wrap size="large">
+          {SETTINGS.map(({ key, label, tooltip }) => (
+            <Tooltip key={key} title={tooltip}>
+              <Checkbox
+                checked={currentSettings[key]}
+                onChange={(event) => setSettings({ ...currentSettings, [key]: event.target.checked })}
+              >
+                {label}
+              </Checkbox>
+            </Tooltip>
+          ))}
+        </Space>
+      </Card>
+
+      <WanInterfaceForm
+        open={healthFormOpen}
+        health={editingHealth}
+        interfaces={wan.interfaces}
+        onClose={() => setHealthFormOpen(false)}
+        onSubmit={saveHealth}
+      />
+      <WanRuleForm
+        open={ruleFormOpen}
+        rule={editingRule}
+        wan={wan}
+        onClose={() => setRuleFormOpen(false)}
+        onSubmit={saveRule}
+      />
+    </Space>
+  );
+};
@@ -0,0 +1,33 @@
+/**
+ * useConnectionEvents - Track SSH session state pushed from the main process
+ */
+
+import { useEffect } from 'react';
+import { message } from 'antd';
+import { IPCChannel, SSHConnectionStateEvent } from '@shared/types';
+import { subscribe } from '../services/ipc';
+import { useDeviceStore } from '../store/deviceStore';
+
+export function useConnectionEvents() {
+  const { setConnectionState } = useDeviceStore();
+
+  useEffect(
+    () =>
+      subscribe<SSHConnectionStateEvent>(IPCChannel.SSH_CONNECTION_STATE, (event) => {
+        const previous = useDeviceStore.getState().connectionStates[event.deviceId];
+        setConnectionState(event.deviceId, event.state);
+
+        const device = useDeviceStore.getState().devices.find((d) => d.id === event.deviceId);
+        const name = device?.name || event.deviceId;
+
+        if (event.state === 'reconnecting' && event.attempt === 1) {
+          message.warning(`Connection to ${name} lost, reconnecting...`);
+        } else if (event.state === 'connected' && previous === 'reconnecting') {
+          message.success(`Reconnected to ${name}`);
+        } else if (event.state === 'disconnected' && event.error) {
+          message.error(`${name}: ${event.error}`);
+        }
+      }),
+    [setConnectionState]
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * useDeviceConnection - Connect and test devices, pausing for host key approval
+ */
+
+import { useCallback, useState } from 'react';
+import { ConnectionTestResult, HostKeyIdentity, HostKeyPrompt, IPCChannel } from '@shared/types';
+import { IPCError, invoke } from '../services/ipc';
+
+type PendingAction = () => Promise<unknown>;
+
+export function useDeviceConnection() {
+  const [hostKeyPrompt, setHostKeyPrompt] = useState<HostKeyPrompt | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  /**
+   * Run an action; if the host key is rejected, hold it until the user decides
+   */
+  const withHostKeyCheck = useCallback(async <T>(action: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      return await action();
+    } catch (error) {
+      const prompt = error instanceof IPCError ? (error.data as HostKeyPrompt | undefined) : undefined;
+      if (prompt?.presented) {
+        setHostKeyPrompt(prompt);
+        setPendingAction(() => action);
+        return undefined;
+      }
+      throw error;
+    }
+  }, []);
+
+  const connect = useCallback(
+    (deviceId: string) =>
+      withHostKeyCheck(async () => {
+        await invoke(IPCChannel.SSH_CONNECT, deviceId);
+        return true;
+      }),
+    [withHostKeyCheck]
+  );
+
+  const test = useCallback(
+    (deviceId: string) =>
+      withHostKeyCheck(() => invoke<ConnectionTestResult>(IPCChannel.DEVICE_TEST, deviceId)),
+    [withHostKeyCheck]
+  );
+
+  const importKnownHosts = useCallback(
+    (deviceId: string, filePath?: string) =>
+      invoke<HostKeyIdentity>(IPCChannel.SSH_IMPORT_KNOWN_HOSTS, { deviceId, filePath }),
+    []
+  );
+
+  /**
+   * Trust the presented key and retry the action that was interrupted
+   */
+  const approveHostKey = useCallback(async () => {
+    if (!hostKeyPrompt) {
+      return;
+    }
+
+    await invoke(IPCChannel.SSH_APPROVE_HOST_KEY, {
+      deviceId: hostKeyPrompt.deviceId,
+      hostKey: hostKeyPrompt.presented,
+      jumpHostId: hostKeyPrompt.jumpHostId,
+    });
+
+    const action = pendingAction;
+    setHostKeyPrompt(null);
+    setPendingAction(null);
+
+    if (action) {
+      await action();
+    }
+  }, [hostKeyPrompt, pendingAction]);
+
+  const rejectHostKey = useCallback(() => {
+    setHostKeyPrompt(null);
+    setPendingAction(null);
+  }, []);
+
+  return {
+    hostKeyPrompt,
+    connect,
+    test,
+    importKnownHosts,
+    approveHostKey,
+    rejectHostKey,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * usePendingChanges - Stage, review and apply changes for the selected device
+ */
+
+import { useCallback, useEffect } from 'react';
+import { ChangeSet, IPCChannel } from '@shared/types';
+import { invoke } from '../services/ipc';
+import { useDeviceStore } from '../store/deviceStore';
+import { useChangeSetStore } from '../store/changeSetStore';
+
+export function usePendingChanges() {
+  const { selectedDeviceId } = useDeviceStore();
+  const { changeSets, setChangeSet } = useChangeSetStore();
+  const changeSet = selectedDeviceId ? changeSets[selectedDeviceId] : undefined;
+
+  const run = useCallback(async (channel: IPCChannel, data: unknown) => {
+    const updated = await invoke<ChangeSet>(channel, data);
+    setChangeSet(updated);
+    return updated;
+  }, [setChangeSet]);
+
+  const refresh = useCallback(async () => {
+    if (selectedDeviceId) {
+      await run(IPCChannel.CHANGESET_GET, selectedDeviceId);
+    }
+  }, [run, selectedDeviceId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    changeSet,
+    refresh,
+    // Commands are built in the syntax of the selected device's VyOS version
+    previewCommands: (type: string, data: unknown) =>
+      invoke<string[]>(IPCChannel.VYOS_PREVIEW_COMMANDS, { deviceId: selectedDeviceId, type, data }),
+    stageChange: (description: string, commands: string[]) =>
+      run(IPCChannel.CHANGESET_ADD, { deviceId: selectedDeviceId, description, commands }),
+    removeChange: (changeId: string) =>
+      run(IPCChannel.CHANGESET_REMOVE, { deviceId: selectedDeviceId, changeId }),
+    clear: () => run(IPCChannel.CHANGESET_CLEAR, selectedDeviceId),
+    apply: (confirmMinutes: number) =>
+      run(IPCChannel.CHANGESET_APPLY, { deviceId: selectedDeviceId, confirmMinutes }),
+    confirm: () => run(IPCChannel.CHANGESET_CONFIRM, selectedDeviceId),
+  };
+}
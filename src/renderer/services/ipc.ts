@@ -0,0 +1,35 @@
+/**
+ * IPC Service - Typed wrapper around the preload bridge
+ */
+
+import { IPCChannel } from '@shared/types';
+
+/**
+ * Failed IPC request, carrying any data the handler attached to the failure
+ */
+export class IPCError<T = any> extends Error {
+  constructor(message: string, public data?: T) {
+    super(message);
+    this.name = 'IPCError';
+  }
+}
+
+/**
+ * Invoke a main process handler and unwrap its IPCResponse
+ */
+export async function invoke<T = any>(channel: IPCChannel, data?: unknown): Promise<T> {
+  const response = await window.electronAPI.invoke<T>(channel, data);
+
+  if (!response.success) {
+    throw new IPCError(response.error || 'Request failed', response.data);
+  }
+
+  return response.data as T;
+}
+
+/**
+ * Subscribe to events pushed from the main process
+ */
+export function subscribe<T = any>(channel: IPCChannel, listener: (data: T) => void): () => void {
+  return window.electronAPI.on<T>(channel, listener);
+}
@@ -0,0 +1,27 @@
+/**
+ * Change Set Store - Zustand state management for pending changes
+ */
+
+import { create } from 'zustand';
+import { ChangeSet } from '@shared/types';
+
+interface ChangeSetState {
+  changeSets: Record<string, ChangeSet>;
+  drawerOpen: boolean;
+
+  // Actions
+  setChangeSet: (changeSet: ChangeSet) => void;
+  setDrawerOpen: (open: boolean) => void;
+}
+
+export const useChangeSetStore = create<ChangeSetState>((set) => ({
+  changeSets: {},
+  drawerOpen: false,
+
+  setChangeSet: (changeSet) =>
+    set((state) => ({
+      changeSets: { ...state.changeSets, [changeSet.deviceId]: changeSet },
+    })),
+
+  setDrawerOpen: (open) => set({ drawerOpen: open }),
+}));
@@ -3,11 +3,12 @@
  */
 
 import { create } from 'zustand';
-import { DeviceProfile } from '@shared/types';
+import { DeviceProfile, SSHConnectionState } from '@shared/types';
 
 interface DeviceState {
   devices: DeviceProfile[];
   selectedDeviceId: string | null;
+  connectionStates: Record<string, SSHConnectionState>;
   loading: boolean;
   error: string | null;
 
@@ -17,6 +18,7 @@ interface DeviceState {
   updateDevice: (device: DeviceProfile) => void;
   removeDevice: (deviceId: string) => void;
   selectDevice: (deviceId: string | null) => void;
+  setConnectionState: (deviceId: string, state: SSHConnectionState) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   getSelectedDevice: () => DeviceProfile | null;
@@ -25,6 +27,7 @@ interface DeviceState {
 export const useDeviceStore = create<DeviceState>((set, get) => ({
   devices: [],
   selectedDeviceId: null,
+  connectionStates: {},
   loading: false,
   error: null,
 
@@ -46,6 +49,11 @@ export const useDeviceStore = create<DeviceState>((set, get) => ({
 
   selectDevice: (deviceId) => set({ selectedDeviceId: deviceId }),
 
+  setConnectionState: (deviceId, connectionState) =>
+    set((state) => ({
+      connectionStates: { ...state.connectionStates, [deviceId]: connectionState },
+    })),
+
   setLoading: (loading) => set({ loading }),
 
   setError: (error) => set({ error }),
@@ -0,0 +1,16 @@
+/**
+ * Type declarations for the API exposed by the preload script
+ */
+
+import type { IPCResponse } from '@shared/types';
+
+export interface ElectronAPI {
+  invoke: <T = any>(channel: string, data?: unknown) => Promise<IPCResponse<T>>;
+  on: <T = unknown>(channel: string, listener: (data: T) => void) => () => void;
+}
+
+declare global {
+  interface Window {
+    electronAPI: ElectronAPI;
+  }
+}
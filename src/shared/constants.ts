@@ -9,19 +9,29 @@ export const APP_VERSION = '1.0.0';
 export const SSH_DEFAULT_PORT = 22;
 export const SSH_CONNECTION_TIMEOUT = 10000; // 10 seconds
 export const SSH_KEEPALIVE_INTERVAL = 5000; // 5 seconds
+export const SSH_KEEPALIVE_COUNT_MAX = 3; // Missed keepalives before the link is considered dead
 export const SSH_MAX_RETRIES = 3;
+export const SSH_RECONNECT_BASE_DELAY = 1000; // 1 second, doubled per attempt
+export const SSH_RECONNECT_MAX_DELAY = 30000; // 30 seconds
+export const SSH_RECONNECT_MAX_ATTEMPTS = 8;
 
 // VyOS Command Timeouts
 export const VYOS_COMMAND_TIMEOUT = 30000; // 30 seconds
 export const VYOS_COMMIT_TIMEOUT = 60000; // 60 seconds
 export const VYOS_CONFIG_TIMEOUT = 120000; // 2 minutes for large configs
 
+// Live State Polling
+export const ROUTING_STATE_REFRESH_INTERVAL = 15000; // 15 seconds
+export const VRRP_STATE_REFRESH_INTERVAL = 5000; // 5 seconds, failovers happen fast
+export const WAN_STATE_REFRESH_INTERVAL = 10000; // 10 seconds, health checks run every few seconds
+
 // VyOS Command Patterns
 export const VYOS_COMMANDS = {
   ENTER_CONFIG: 'configure',
   EXIT_CONFIG: 'exit',
   COMMIT: 'commit',
   COMMIT_CONFIRM: 'commit-confirm',
+  CONFIRM: 'confirm',
   SAVE: 'save',
   DISCARD: 'discard',
   COMPARE: 'compare',
@@ -31,6 +41,12 @@ export const VYOS_COMMANDS = {
   SHOW_VERSION: 'show version',
   SHOW_INTERFACES: 'show interfaces',
   SHOW_SYSTEM: 'show system',
+  SHOW_OSPF_NEIGHBORS: 'show ip ospf neighbor',
+  SHOW_OSPFV3_NEIGHBORS: 'show ipv6 ospfv3 neighbor',
+  SHOW_DHCP_LEASES: 'show dhcp server leases',
+  SHOW_VRRP: 'show vrrp',
+  SHOW_WAN_LOAD_BALANCE: 'show wan-load-balance',
+  GENERATE_WIREGUARD_KEYPAIR: 'generate pki wireguard key-pair',
 } as const;
 
 // VyOS Config Paths
@@ -57,9 +73,13 @@ export const STORAGE_PATHS = {
   SSH_KEYS: 'ssh-keys',
 } as const;
 
+// OpenSSH known_hosts file (relative to the user's home directory)
+export const KNOWN_HOSTS_PATH = '.ssh/known_hosts';
+
 // Credential Storage
 export const CREDENTIAL_SERVICE = 'vyos-desktop-manager';
 export const CREDENTIAL_PREFIX = 'device';
+export const JUMP_HOST_CREDENTIAL_PREFIX = 'jump';
 
 // Backup Configuration
 export const MAX_BACKUPS_PER_DEVICE = 50;
@@ -86,6 +106,9 @@ export const VALIDATION = {
   // Interface name (eth0, eth1.100, bond0, br0)
   INTERFACE_NAME: /^(eth|bond|br|tun|vtun|wg|lo)\d+(\.\d+)?$/,
 
+  // VRF name; it becomes a Linux interface name, so at most 15 characters
+  VRF_NAME: /^[A-Za-z0-9][\w-]{0,14}$/,
+
   // Port number or range
   PORT: /^([0-9]{1,5})(-[0-9]{1,5})?$/,
 
@@ -95,6 +118,9 @@ export const VALIDATION = {
   // VLAN ID (1-4094)
   VLAN_ID: /^([1-9]|[1-9][0-9]{1,2}|[1-3][0-9]{3}|40[0-8][0-9]|409[0-4])$/,
 
+  // WireGuard key (base64 of 32 bytes)
+  WIREGUARD_KEY: /^[A-Za-z0-9+/]{42}[AEIMQUYcgkosw048]=$/,
+
   // VyOS configuration path
   CONFIG_PATH: /^[a-z0-9\-]+(\s+[a-z0-9\-'\.]+)*$/i,
 } as const;
@@ -111,18 +137,95 @@ export const DEFAULTS = {
   ESP_LIFETIME: 1800,
   BOND_MODE: '802.3ad' as const,
   BRIDGE_AGING: 300,
+  COMMIT_CONFIRM_MINUTES: 10,
+  WIREGUARD_PORT: 51820,
+  WIREGUARD_KEEPALIVE: 25,
+  OPENVPN_PORT: 1194,
 } as const;
 
 // VyOS 1.5 Supported Features
 export const VYOS_FEATURES = {
-  INTERFACES: ['ethernet', 'vlan', 'bond', 'bridge', 'loopback', 'tunnel'],
+  INTERFACES: ['ethernet', 'vlan', 'bond', 'bridge', 'loopback', 'tunnel', 'wireguard', 'openvpn'],
   BOND_MODES: ['active-backup', '802.3ad', 'balance-rr', 'balance-xor', 'broadcast', 'balance-tlb', 'balance-alb'],
   FIREWALL_ACTIONS: ['accept', 'drop', 'reject'],
-  FIREWALL_PROTOCOLS: ['tcp', 'udp', 'icmp', 'esp', 'ah', 'all'],
+  FIREWALL_MODERN_ACTIONS: ['accept', 'drop', 'reject', 'jump', 'return', 'continue'],
+  FIREWALL_BASE_CHAINS: ['input', 'forward', 'output'],
+  FIREWALL_FAMILIES: ['ipv4', 'ipv6'],
+  FIREWALL_PROTOCOLS: ['tcp', 'udp', 'icmp', 'ipv6-icmp', 'esp', 'ah', 'all'],
+  FIREWALL_GROUP_TYPES: ['address-group', 'network-group', 'port-group', 'interface-group'],
   NAT_TYPES: ['source', 'destination'],
-  IPSEC_ENCRYPTION: ['aes256', 'aes128', '3des'],
-  IPSEC_HASH: ['sha256', 'sha1', 'md5'],
-  IPSEC_DH_GROUPS: ['2', '5', '14', '15', '16', '19', '20'],
+  POLICY_ROUTE_PROTOCOLS: ['tcp', 'udp', 'tcp_udp', 'icmp', 'ipv6-icmp', 'all'],
+  ROUTING_TABLE_MAX: 200,
+  WAN_HEALTH_TEST_TYPES: ['ping', 'ttl', 'user-defined'],
+  WAN_RULE_PROTOCOLS: ['tcp', 'udp', 'icmp', 'all'],
+  QOS_QUEUE_TYPES: ['fair-queue', 'fq-codel', 'drop-tail', 'priority', 'random-detect'],
+  QOS_CLASS_ID_MIN: 2,
+  QOS_CLASS_ID_MAX: 4095,
+  VRF_TABLE_MIN: 100,
+  VRF_TABLE_MAX: 65535,
+  VRF_RESERVED_NAMES: ['add', 'all', 'broadcast', 'default', 'delete', 'dev', 'get', 'inet', 'mtu', 'link', 'type', 'vrf'],
+  IPSEC_ENCRYPTION: ['aes256', 'aes128', 'aes256gcm128', 'aes128gcm128', '3des'],
+  IPSEC_HASH: ['sha512', 'sha384', 'sha256', 'sha1', 'md5'],
+  IPSEC_DH_GROUPS: ['2', '5', '14', '15', '16', '19', '20', '21'],
+  OPENVPN_MODES: ['site-to-site', 'server', 'client'],
+  OPENVPN_PROTOCOLS: ['udp', 'tcp-passive', 'tcp-active'],
+  OPENVPN_CIPHERS: ['aes256gcm', 'aes192gcm', 'aes128gcm', 'aes256', 'aes192', 'aes128', 'bf256', 'bf128', '3des', 'des'],
+  OPENVPN_HASHES: ['sha512', 'sha384', 'sha256', 'sha1', 'md5'],
+  OPENVPN_TOPOLOGIES: ['subnet', 'net30', 'point-to-point'],
+} as const;
+
+// Leaf holding the members of each firewall group type
+export const FIREWALL_GROUP_MEMBER_KEYS = {
+  'address-group': 'address',
+  'network-group': 'network',
+  'port-group': 'port',
+  'interface-group': 'interface',
+} as const;
+
+// ICMP type names offered by the firewall rule editor, per address family
+export const FIREWALL_ICMP_TYPE_NAMES = {
+  ipv4: ['echo-request', 'echo-reply', 'destination-unreachable', 'time-exceeded', 'parameter-problem', 'redirect'],
+  ipv6: [
+    'echo-request',
+    'echo-reply',
+    'destination-unreachable',
+    'packet-too-big',
+    'time-exceeded',
+    'parameter-problem',
+    'nd-router-solicit',
+    'nd-router-advert',
+    'nd-neighbor-solicit',
+    'nd-neighbor-advert',
+    'mld-listener-query',
+    'mld-listener-report',
+  ],
+} as const;
+
+// Route-map clauses offered by the policy editor; `policy` marks references to named lists
+export const ROUTE_MAP_CLAUSES = {
+  MATCH: [
+    { path: 'ip address prefix-list', policy: 'prefix-list' },
+    { path: 'ipv6 address prefix-list', policy: 'prefix-list6' },
+    { path: 'ip nexthop prefix-list', policy: 'prefix-list' },
+    { path: 'community community-list', policy: 'community-list' },
+    { path: 'as-path', policy: 'as-path-list' },
+    { path: 'interface' },
+    { path: 'metric' },
+    { path: 'origin' },
+    { path: 'peer' },
+    { path: 'tag' },
+  ],
+  SET: [
+    { path: 'local-preference' },
+    { path: 'metric' },
+    { path: 'weight' },
+    { path: 'as-path prepend' },
+    { path: 'community add' },
+    { path: 'community replace' },
+    { path: 'ip-next-hop' },
+    { path: 'origin' },
+    { path: 'tag' },
+  ],
 } as const;
 
 // Error Messages
@@ -130,6 +233,8 @@ export const ERROR_MESSAGES = {
   SSH_CONNECTION_FAILED: 'Failed to connect to device. Please check the host, port, and credentials.',
   SSH_AUTH_FAILED: 'Authentication failed. Please check your username and password/key.',
   SSH_TIMEOUT: 'Connection timeout. The device may be unreachable.',
+  SSH_HOST_KEY_UNKNOWN: 'The device presented a host key that has not been trusted yet.',
+  SSH_HOST_KEY_MISMATCH: 'The device host key does not match the trusted key. The device may have been reinstalled, or the connection may be intercepted.',
   VYOS_COMMAND_FAILED: 'VyOS command execution failed.',
   VYOS_COMMIT_FAILED: 'Failed to commit configuration changes.',
   VYOS_PARSE_ERROR: 'Failed to parse VyOS configuration.',
@@ -148,6 +253,7 @@ export const SUCCESS_MESSAGES = {
   CONFIG_SAVED: 'Configuration saved successfully.',
   BACKUP_CREATED: 'Backup created successfully.',
   CONFIG_RESTORED: 'Configuration restored successfully.',
+  COMMIT_CONFIRMED: 'Commit confirmed. Changes are now permanent.',
 } as const;
 
 // Log Levels
@@ -20,12 +20,55 @@ export interface DeviceProfile {
   privateKey?: string;      // Temporary field for IPC communication
   vyosVersion?: string;
   hostname?: string;
+  hostKeyType?: string;         // Pinned host key, trusted on first use
+  hostKeyFingerprint?: string;
+  jumpHosts?: JumpHost[];       // Bastions to tunnel through, in connection order
   lastConnected?: Date;
   status: 'online' | 'offline' | 'unknown';
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface JumpHost {
+  id: string;               // Keys the hop's credentials in the credential store
+  host: string;
+  port: number;
+  username: string;
+  authType: 'password' | 'key';
+  keyPath?: string;
+  password?: string;        // Temporary field for IPC communication
+  privateKey?: string;      // Temporary field for IPC communication
+  hostKeyType?: string;     // Pinned host key, trusted on first use
+  hostKeyFingerprint?: string;
+}
+
+export interface HostKeyIdentity {
+  type: string;           // e.g. ssh-ed25519
+  fingerprint: string;    // OpenSSH style SHA256:...
+}
+
+// Returned as IPCResponse.data when a connection is refused because of the host key
+export interface HostKeyPrompt {
+  deviceId: string;
+  host: string;
+  port: number;
+  status: 'unknown' | 'mismatch';
+  presented: HostKeyIdentity;
+  expected?: HostKeyIdentity;
+  jumpHostId?: string;    // Set when the key belongs to a jump host rather than the device
+}
+
+export type SSHConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+// Pushed to the renderer on IPCChannel.SSH_CONNECTION_STATE
+export interface SSHConnectionStateEvent {
+  deviceId: string;
+  state: SSHConnectionState;
+  attempt?: number;
+  nextRetryAt?: Date;
+  error?: string;
+}
+
 export interface ConnectionTestResult {
   success: boolean;
   vyosVersion?: string;
@@ -38,7 +81,7 @@ export interface ConnectionTestResult {
 // Network Interfaces
 // ============================================================================
 
-export type InterfaceType = 'ethernet' | 'vlan' | 'bond' | 'bridge' | 'loopback' | 'tunnel';
+export type InterfaceType = 'ethernet' | 'vlan' | 'bond' | 'bridge' | 'loopback' | 'tunnel' | 'wireguard' | 'openvpn';
 
 export interface NetworkInterface {
   name: string;
@@ -51,6 +94,7 @@ export interface NetworkInterface {
   vlan?: VLANConfig;
   bond?: BondConfig;
   bridge?: BridgeConfig;
+  vrf?: string;             // default VRF when unset
 }
 
 export interface AddressConfig {
@@ -91,6 +135,279 @@ export interface StaticRoute {
   interface?: string;
   distance?: number;
   description?: string;
+  table?: number;           // `protocols static table N`; main table when unset
+  vrf?: string;             // `vrf name X protocols static`; default VRF when unset
+}
+
+// ============================================================================
+// Policy-Based Routing
+// ============================================================================
+
+export type RoutingTable = number | 'main';
+
+/**
+ * `policy route` (IPv4) or `policy route6` (IPv6), applied to traffic
+ * arriving on its interfaces
+ */
+export interface PolicyRoute {
+  name: string;
+  family: FirewallFamily;
+  description?: string;
+  interfaces: string[];
+  rules: PolicyRouteRule[];
+}
+
+export interface PolicyRouteRule {
+  number: number;
+  description?: string;
+  disabled?: boolean;
+  protocol?: string;
+  source?: PolicyRouteMatch;
+  destination?: PolicyRouteMatch;
+  dscp?: string;            // 0-63 or a range such as 10-20
+  setTable?: RoutingTable;
+  setMark?: number;
+}
+
+export interface PolicyRouteMatch {
+  address?: string;
+  port?: string;            // 80, 8000-8080 or 80,443
+}
+
+/**
+ * `policy local-route` / `local-route6` rule, for traffic the router originates
+ */
+export interface LocalRouteRule {
+  number: number;
+  family: FirewallFamily;
+  source?: string;
+  destination?: string;     // 1.4+
+  inboundInterface?: string; // 1.4+
+  fwmark?: number;          // 1.4+
+  table: RoutingTable;
+}
+
+export interface PolicyRoutingConfig {
+  routes: PolicyRoute[];
+  localRoutes: LocalRouteRule[];
+}
+
+// ============================================================================
+// VRF
+// ============================================================================
+
+/**
+ * `vrf name X`; members are the interfaces (including vifs such as eth1.20)
+ * that set `vrf X`
+ */
+export interface Vrf {
+  name: string;
+  table: number;
+  description?: string;
+  interfaces: string[];
+}
+
+// ============================================================================
+// OSPF
+// ============================================================================
+
+/**
+ * OSPF process; `version` selects `protocols ospf` (v2) or `protocols ospfv3` (v3)
+ */
+export interface OSPFConfig {
+  version: 'v2' | 'v3';
+  routerId?: string;
+  areas: OSPFArea[];
+  interfaces: OSPFInterface[];
+  passiveDefault?: boolean;
+  redistribute: OSPFRedistribution[];
+  defaultInformation?: OSPFDefaultInformation;
+}
+
+export interface OSPFArea {
+  id: string;
+  type: 'normal' | 'stub' | 'nssa';
+  noSummary?: boolean;
+  networks: string[];
+  authentication?: 'plaintext-password' | 'md5';
+}
+
+export interface OSPFInterface {
+  name: string;
+  area?: string;
+  cost?: number;
+  passive?: boolean;
+  authentication?: {
+    type: 'plaintext-password' | 'md5';
+    password?: string;
+    keyId?: number;
+    md5Key?: string;
+  };
+}
+
+export interface OSPFRedistribution {
+  protocol: 'connected' | 'static' | 'kernel' | 'bgp' | 'rip' | 'ripng';
+  metric?: number;
+  metricType?: 1 | 2;
+  routeMap?: string;
+}
+
+export interface OSPFDefaultInformation {
+  always?: boolean;
+  metric?: number;
+  metricType?: 1 | 2;
+  routeMap?: string;
+}
+
+/**
+ * Live adjacency from `show ip ospf neighbor` / `show ipv6 ospfv3 neighbor`
+ */
+export interface OSPFNeighbor {
+  version: 'v2' | 'v3';
+  neighborId: string;
+  priority: number;
+  state: string;
+  deadTime: string;
+  upTime?: string;
+  address?: string;
+  interface: string;
+}
+
+// ============================================================================
+// BGP
+// ============================================================================
+
+export type BGPAddressFamily = 'ipv4-unicast' | 'ipv6-unicast';
+
+export type BGPRemoteAs = number | 'external' | 'internal';
+
+export interface BGPConfig {
+  localAs: number;
+  vrf?: string;             // `vrf name X protocols bgp`; default VRF when unset
+  routerId?: string;
+  timers?: BGPTimers;
+  addressFamilies: Partial<Record<BGPAddressFamily, BGPAddressFamilyConfig>>;
+  peerGroups: BGPPeerGroup[];
+  neighbors: BGPNeighbor[];
+}
+
+export interface BGPTimers {
+  keepalive?: number;
+  holdtime?: number;
+}
+
+export interface BGPAddressFamilyConfig {
+  networks: string[];
+  redistribute: BGPRedistribution[];
+}
+
+export interface BGPRedistribution {
+  protocol: 'connected' | 'static' | 'kernel' | 'ospf' | 'ospfv3' | 'rip' | 'ripng';
+  routeMap?: string;
+  metric?: number;
+}
+
+/**
+ * Settings shared by neighbors and peer-groups
+ */
+export interface BGPPeerOptions {
+  remoteAs?: BGPRemoteAs;
+  description?: string;
+  password?: string;
+  updateSource?: string;
+  ebgpMultihop?: number;
+  shutdown?: boolean;
+  timers?: BGPTimers;
+  addressFamilies: Partial<Record<BGPAddressFamily, BGPNeighborAddressFamily>>;
+}
+
+export interface BGPNeighbor extends BGPPeerOptions {
+  address: string;
+  peerGroup?: string;
+}
+
+export interface BGPPeerGroup extends BGPPeerOptions {
+  name: string;
+}
+
+export interface BGPNeighborAddressFamily {
+  routeMapImport?: string;
+  routeMapExport?: string;
+  prefixListImport?: string;
+  prefixListExport?: string;
+  nextHopSelf?: boolean;
+  softReconfigurationInbound?: boolean;
+  defaultOriginate?: boolean;
+}
+
+// ============================================================================
+// Routing Policy
+// ============================================================================
+
+export type PolicyKind = 'prefix-list' | 'prefix-list6' | 'route-map' | 'community-list' | 'as-path-list';
+
+export interface RoutingPolicy {
+  prefixLists: PrefixList[];
+  communityLists: PolicyList[];
+  asPathLists: PolicyList[];
+  routeMaps: RouteMap[];
+}
+
+export interface PrefixList {
+  name: string;
+  family: 'ipv4' | 'ipv6';
+  description?: string;
+  rules: PrefixListRule[];
+}
+
+export interface PrefixListRule {
+  number: number;
+  action: 'permit' | 'deny';
+  prefix: string;
+  ge?: number;
+  le?: number;
+  description?: string;
+}
+
+/**
+ * Community-list or as-path-list: ordered regex rules
+ */
+export interface PolicyList {
+  name: string;
+  description?: string;
+  rules: PolicyListRule[];
+}
+
+export interface PolicyListRule {
+  number: number;
+  action: 'permit' | 'deny';
+  regex: string;
+  description?: string;
+}
+
+export interface RouteMap {
+  name: string;
+  description?: string;
+  rules: RouteMapRule[];
+}
+
+export interface RouteMapRule {
+  number: number;
+  action: 'permit' | 'deny';
+  description?: string;
+  match: RouteMapClause[];
+  set: RouteMapClause[];
+  continue?: number;
+  onMatch?: 'next' | `goto ${number}`;
+}
+
+/**
+ * A match or set clause as its config path below `match`/`set`, e.g.
+ * `{ path: 'ip address prefix-list', value: 'PL-IN' }`. Valueless clauses omit value.
+ */
+export interface RouteMapClause {
+  path: string;
+  value?: string;
 }
 
 // ============================================================================
@@ -112,22 +429,38 @@ export interface FirewallZone {
   };
 }
 
+/**
+ * `legacy` is the VyOS 1.3 tree (`firewall name`, `zone-policy zone`);
+ * `modern` is 1.4+ (`firewall ipv4 name`, base chains, `firewall zone`)
+ */
+export type FirewallSyntax = 'legacy' | 'modern';
+
+export type FirewallBaseChain = 'input' | 'forward' | 'output';
+
+export type FirewallFamily = 'ipv4' | 'ipv6';
+
 export interface FirewallRuleset {
   name: string;
+  family?: FirewallFamily;        // ipv4 when unset; ipv6 is `firewall ipv6-name` (1.3) or `firewall ipv6` (1.4+)
+  baseChain?: FirewallBaseChain;  // `firewall ipv4|ipv6 <chain> filter` (1.4+); name is then the chain
   description?: string;
-  defaultAction: 'accept' | 'drop' | 'reject';
+  defaultAction: FirewallAction;
+  defaultJumpTarget?: string;     // 1.4+, with defaultAction 'jump'
   enableDefaultLog?: boolean;
   rules: FirewallRule[];
 }
 
-export type FirewallProtocol = 'tcp' | 'udp' | 'icmp' | 'esp' | 'ah' | 'all';
-export type FirewallAction = 'accept' | 'drop' | 'reject';
+export type FirewallProtocol = 'tcp' | 'udp' | 'icmp' | 'ipv6-icmp' | 'esp' | 'ah' | 'all';
+// jump, return and continue are 1.4+ only
+export type FirewallAction = 'accept' | 'drop' | 'reject' | 'jump' | 'return' | 'continue';
 
 export interface FirewallRule {
   number: number;
   action: FirewallAction;
+  jumpTarget?: string;
   description?: string;
   protocol?: FirewallProtocol;
+  icmp?: FirewallICMPMatch;       // `icmp` in IPv4 rulesets, `icmpv6` in IPv6 ones
   source?: FirewallAddress;
   destination?: FirewallAddress;
   state?: {
@@ -140,6 +473,12 @@ export interface FirewallRule {
   disabled?: boolean;
 }
 
+export interface FirewallICMPMatch {
+  typeName?: string;              // e.g. echo-request; takes precedence over type/code
+  type?: number;
+  code?: number;
+}
+
 export interface FirewallAddress {
   address?: string;
   port?: string;
@@ -150,6 +489,28 @@ export interface FirewallAddress {
   };
 }
 
+export interface FirewallConfig {
+  syntax: FirewallSyntax;
+  rulesets: FirewallRuleset[];
+  zones: FirewallZone[];
+  groups: FirewallGroup[];
+}
+
+export type FirewallGroupType = 'address-group' | 'network-group' | 'port-group' | 'interface-group';
+
+/**
+ * A `firewall group` object. Members are addresses/ranges, networks,
+ * ports/ranges/service names or interface names depending on the type;
+ * `include` names other groups of the same type.
+ */
+export interface FirewallGroup {
+  name: string;
+  type: FirewallGroupType;
+  description?: string;
+  members: string[];
+  include?: string[];
+}
+
 // ============================================================================
 // NAT
 // ============================================================================
@@ -188,6 +549,14 @@ export interface NATRule {
 // VPN - IPsec
 // ============================================================================
 
+export type IPSecEncryption = 'aes256' | 'aes128' | 'aes256gcm128' | 'aes128gcm128' | '3des';
+
+export type IPSecHash = 'sha512' | 'sha384' | 'sha256' | 'sha1' | 'md5';
+
+export type IPSecDhGroup = '2' | '5' | '14' | '15' | '16' | '19' | '20' | '21';
+
+export type IPSecPfs = 'enable' | 'disable' | `dh-group${number}`;
+
 export interface IPSecSite {
   name: string;
   authMode: 'pre-shared-secret' | 'x509';
@@ -207,9 +576,9 @@ export interface IPSecSite {
   ikeGroup: {
     name: string;
     proposal: {
-      encryption: 'aes256' | 'aes128' | '3des';
-      hash: 'sha256' | 'sha1' | 'md5';
-      dhGroup: '2' | '5' | '14' | '15' | '16' | '19' | '20';
+      encryption: IPSecEncryption;
+      hash: IPSecHash;
+      dhGroup: IPSecDhGroup;
     }[];
     lifeTime?: number;
   };
@@ -218,11 +587,11 @@ export interface IPSecSite {
   espGroup: {
     name: string;
     proposal: {
-      encryption: 'aes256' | 'aes128' | '3des';
-      hash: 'sha256' | 'sha1' | 'md5';
+      encryption: IPSecEncryption;
+      hash: IPSecHash;
     }[];
     lifeTime?: number;
-    pfs?: 'enable' | 'disable';
+    pfs?: IPSecPfs;
   };
 
   // Tunnels
@@ -236,6 +605,444 @@ export interface IPSecTunnel {
   protocol?: 'esp' | 'ah';
 }
 
+// ============================================================================
+// VPN - WireGuard
+// ============================================================================
+
+export interface WireGuardInterface {
+  name: string;
+  description?: string;
+  addresses: string[];
+  listenPort?: number;
+  privateKey?: string;
+  mtu?: number;
+  disabled?: boolean;
+  peers: WireGuardPeer[];
+}
+
+export interface WireGuardPeer {
+  name: string;
+  description?: string;
+  publicKey: string;
+  presharedKey?: string;
+  allowedIps: string[];
+  endpointAddress?: string;
+  endpointPort?: number;
+  persistentKeepalive?: number;
+  disabled?: boolean;
+}
+
+export interface WireGuardKeyPair {
+  privateKey: string;
+  publicKey: string;
+}
+
+/**
+ * Everything needed to write the config file for a road-warrior client. The
+ * client private key never leaves the app; the device only holds the public key.
+ */
+export interface WireGuardClientConfigRequest {
+  interfaceName: string;
+  peerName: string;
+  clientPrivateKey: string;
+  clientAddresses: string[];
+  allowedIps: string[];
+  endpoint?: string;
+  dns?: string[];
+  persistentKeepalive?: number;
+}
+
+export interface WireGuardClientConfig {
+  filename: string;
+  config: string;
+  qrText: string;
+}
+
+// ============================================================================
+// VPN - OpenVPN
+// ============================================================================
+
+export type OpenVpnMode = 'site-to-site' | 'server' | 'client';
+
+export type OpenVpnProtocol = 'udp' | 'tcp-passive' | 'tcp-active';
+
+/**
+ * Certificates and keys are file paths under /config/auth (1.3) or names of
+ * `pki` entries (1.4+)
+ */
+export type OpenVpnKeyStorage = 'file' | 'pki';
+
+export interface OpenVpnTls {
+  caCertificate: string;
+  certificate?: string;
+  key?: string;                    // file storage only; a PKI certificate carries its own key
+  dhParams?: string;
+  cryptKey?: string;               // tls-crypt static key
+  role?: 'active' | 'passive';     // site-to-site only
+}
+
+export interface OpenVpnInterface {
+  name: string;
+  description?: string;
+  mode: OpenVpnMode;
+  protocol?: OpenVpnProtocol;
+  deviceType?: 'tun' | 'tap';
+  localHost?: string;
+  localPort?: number;
+  remoteHosts: string[];
+  remotePort?: number;
+  localAddress?: string;           // site-to-site tunnel addresses
+  remoteAddress?: string;
+  cipher?: string;
+  dataCiphers: string[];
+  hash?: string;
+  tls?: OpenVpnTls;
+  sharedSecretKey?: string;
+  server?: OpenVpnServer;
+  disabled?: boolean;
+}
+
+export interface OpenVpnServer {
+  subnet: string;
+  topology?: 'subnet' | 'net30' | 'point-to-point';
+  pushRoutes: string[];
+  nameServers: string[];
+  domainName?: string;
+  maxConnections?: number;
+  clients: OpenVpnClientOverride[];
+}
+
+/**
+ * `server client NAME`: settings for the client whose certificate CN is NAME
+ */
+export interface OpenVpnClientOverride {
+  name: string;
+  ip?: string;
+  subnets: string[];               // networks behind the client
+  pushRoutes: string[];
+  disabled?: boolean;
+}
+
+export interface OpenVpnPkiNames {
+  caCertificates: string[];
+  certificates: string[];
+  dhParams: string[];
+  sharedSecrets: string[];
+}
+
+export interface OpenVpnConfig {
+  keyStorage: OpenVpnKeyStorage;
+  interfaces: OpenVpnInterface[];
+  pki: OpenVpnPkiNames;
+}
+
+/**
+ * A client profile for a server-mode interface. The client certificate and key
+ * are PKI names, or file paths on 1.3; without them the profile carries only the CA.
+ */
+export interface OpenVpnClientProfileRequest {
+  interfaceName: string;
+  clientName: string;
+  certificate?: string;
+  key?: string;
+  remoteHost?: string;
+}
+
+export interface OpenVpnClientProfile {
+  filename: string;
+  config: string;
+}
+
+// ============================================================================
+// DHCP Server
+// ============================================================================
+
+/**
+ * A `service dhcp-server shared-network-name` and its subnets
+ */
+export interface DhcpServer {
+  name: string;
+  description?: string;
+  authoritative?: boolean;
+  subnets: DhcpSubnet[];
+}
+
+export interface DhcpSubnet {
+  subnet: string;
+  subnetId?: number;              // required and unique per device on 1.4+
+  defaultRouter?: string;
+  nameServers: string[];
+  domainName?: string;
+  lease?: number;                 // seconds
+  ranges: DhcpRange[];
+  staticMappings: DhcpStaticMapping[];
+}
+
+export interface DhcpRange {
+  id: string;
+  start: string;
+  stop: string;
+}
+
+export interface DhcpStaticMapping {
+  name: string;
+  ipAddress: string;
+  macAddress: string;
+  description?: string;
+}
+
+// A row of `show dhcp server leases`
+export interface DhcpLease {
+  ipAddress: string;
+  macAddress: string;
+  state?: string;
+  leaseStart?: string;
+  leaseExpiration?: string;
+  remaining?: string;
+  pool?: string;
+  hostname?: string;
+}
+
+// ============================================================================
+// DNS Forwarding
+// ============================================================================
+
+/**
+ * `service dns forwarding`, the caching resolver clients on the LAN point at
+ */
+export interface DnsForwarding {
+  listenAddresses: string[];
+  allowFrom: string[];            // client networks
+  cacheSize?: number;             // entries, 0 disables caching
+  useSystemNameServers?: boolean; // forward to `system name-server` as well
+  nameServers: DnsUpstream[];
+  domainOverrides: DnsDomainOverride[];
+}
+
+export interface DnsUpstream {
+  address: string;
+  port?: number;                  // 1.4+ only
+}
+
+// Queries for a domain (and its subdomains) go to these servers instead
+export interface DnsDomainOverride {
+  domain: string;
+  servers: string[];
+}
+
+// `system static-host-mapping host-name`, answered by the forwarder too
+export interface StaticHostMapping {
+  hostName: string;
+  address: string;
+  aliases: string[];
+}
+
+export interface DnsConfig {
+  forwarding: DnsForwarding | null;
+  staticHosts: StaticHostMapping[];
+}
+
+// ============================================================================
+// VRRP
+// ============================================================================
+
+/**
+ * A `high-availability vrrp group`
+ */
+export interface VrrpGroup {
+  name: string;
+  vrid: number;
+  interface: string;
+  virtualAddresses: string[];     // with prefix length, e.g. 192.0.2.1/24
+  priority?: number;              // 1-255, VyOS defaults to 100
+  preempt: boolean;               // false writes `no-preempt`
+  preemptDelay?: number;          // seconds
+  advertiseInterval?: number;     // seconds
+  authentication?: VrrpAuthentication;
+  description?: string;
+}
+
+export interface VrrpAuthentication {
+  type: 'plaintext-password' | 'ah';
+  password: string;
+}
+
+// Groups that change state together, e.g. the LAN and WAN side of one router
+export interface VrrpSyncGroup {
+  name: string;
+  members: string[];
+}
+
+export interface VrrpConfig {
+  groups: VrrpGroup[];
+  syncGroups: VrrpSyncGroup[];
+}
+
+// A row of `show vrrp`
+export interface VrrpStatus {
+  name: string;
+  interface: string;
+  vrid: number;
+  state: string;                  // MASTER, BACKUP or FAULT
+  priority?: number;
+  lastTransition?: string;
+}
+
+// One VRID claimed by different groups on the same network
+export interface VrrpConflict {
+  vrid: number;
+  network: string;
+  groups: VrrpConflictMember[];
+}
+
+export interface VrrpConflictMember {
+  deviceId: string;
+  deviceName: string;
+  group: string;
+  interface: string;
+  virtualAddresses: string[];
+}
+
+export interface VrrpConflictReport {
+  conflicts: VrrpConflict[];
+  unchecked: string[];            // names of devices not connected or failing to answer
+}
+
+// ============================================================================
+// WAN Load Balancing
+// ============================================================================
+
+export type WanHealthTestType = 'ping' | 'ttl' | 'user-defined';
+
+/**
+ * `load-balancing wan`; interfaces are the health-checked uplinks, rules
+ * decide which traffic is spread over (or fails over between) them
+ */
+export interface WanLoadBalancing {
+  interfaces: WanInterfaceHealth[];
+  rules: WanRule[];
+  stickyInbound: boolean;         // keep inbound-initiated connections on the uplink they came in on
+  enableLocalTraffic: boolean;    // balance traffic the router originates too
+  flushConnections: boolean;      // flush conntrack when an uplink changes state
+  disableSourceNat: boolean;
+}
+
+export interface WanInterfaceHealth {
+  interface: string;
+  nexthop: string;                // gateway address, or 'dhcp'
+  failureCount?: number;          // failed tests before the uplink is marked down
+  successCount?: number;          // passed tests before it is marked up again
+  tests: WanHealthTest[];
+}
+
+export interface WanHealthTest {
+  number: number;
+  type: WanHealthTestType;
+  target?: string;
+  respTime?: number;              // seconds to wait for a ping reply
+  ttlLimit?: number;
+  testScript?: string;            // user-defined
+}
+
+export interface WanRule {
+  number: number;
+  description?: string;
+  inboundInterface: string;
+  interfaces: WanRuleInterface[];
+  failover: boolean;              // use only the highest-weight healthy uplink
+  exclude?: boolean;              // matching traffic bypasses load balancing
+  perPacketBalancing?: boolean;
+  protocol?: string;
+  source?: WanRuleMatch;
+  destination?: WanRuleMatch;
+}
+
+export interface WanRuleInterface {
+  name: string;
+  weight?: number;
+}
+
+export interface WanRuleMatch {
+  address?: string;
+  port?: string;
+}
+
+/**
+ * Uplink state from `show wan-load-balance`
+ */
+export interface WanInterfaceStatus {
+  interface: string;
+  status: string;                 // active, failed
+  lastStatusChange?: string;
+  lastSuccess?: string;
+  lastFailure?: string;
+  failures: number;
+  tests: WanTestStatus[];
+}
+
+export interface WanTestStatus {
+  type: string;
+  target?: string;
+  passing: boolean;
+}
+
+// ============================================================================
+// QoS
+// ============================================================================
+
+export type QosQueueType = 'fair-queue' | 'fq-codel' | 'drop-tail' | 'priority' | 'random-detect';
+
+/**
+ * Egress shaper: `qos policy shaper` (1.4+) or `traffic-policy shaper` (1.3).
+ * Rates are a number with a unit (`100mbit`) or, for classes, a percentage
+ * of the policy bandwidth.
+ */
+export interface QosPolicy {
+  name: string;
+  description?: string;
+  bandwidth: string;              // e.g. 100mbit, or auto to use the interface speed
+  classes: QosClass[];
+  defaultClass: QosClassSettings;
+  interfaces: string[];           // egress attachments
+}
+
+export interface QosClassSettings {
+  bandwidth: string;              // guaranteed rate
+  ceiling?: string;               // rate the class may borrow up to
+  priority?: number;              // 0-7, lower is served first
+  queueType?: QosQueueType;
+}
+
+export interface QosClass extends QosClassSettings {
+  id: number;
+  description?: string;
+  matches: QosMatch[];
+}
+
+export interface QosMatch {
+  name: string;
+  family: FirewallFamily;         // `ip` or `ipv6` match node
+  protocol?: string;
+  dscp?: string;
+  source?: QosMatchEndpoint;
+  destination?: QosMatchEndpoint;
+}
+
+export interface QosMatchEndpoint {
+  address?: string;
+  port?: string;
+}
+
+/**
+ * Guaranteed bandwidth of all classes against what the policy has to give,
+ * in bit/s, or in percent when the policy bandwidth is auto
+ */
+export interface QosBandwidthUsage {
+  guaranteed: number;
+  available: number;
+  unit: 'bit' | '%';
+}
+
 // ============================================================================
 // System Configuration
 // ============================================================================
@@ -301,6 +1108,67 @@ export interface VyOSConfigBackup {
   description?: string;
 }
 
+export interface ConfigRestoreResult {
+  safetyBackupId: string;
+  commands: string[];
+  setCount: number;
+  deleteCount: number;
+}
+
+// ============================================================================
+// Pending Change Sets
+// ============================================================================
+
+export interface PendingChange {
+  id: string;
+  description: string;
+  commands: string[];
+  createdAt: Date;
+}
+
+// awaiting-confirm: applied with commit-confirm, router reverts unless confirmed
+// reverted: the confirmation window elapsed, changes are kept so they can be re-applied
+export type ChangeSetStatus = 'draft' | 'awaiting-confirm' | 'reverted';
+
+export interface ChangeSet {
+  deviceId: string;
+  status: ChangeSetStatus;
+  changes: PendingChange[];
+  confirmMinutes?: number;
+  confirmDeadline?: Date;
+}
+
+// ============================================================================
+// Configuration Diff
+// ============================================================================
+
+export type ConfigDiffChangeType = 'added' | 'removed' | 'changed';
+
+export interface ConfigDiffEntry {
+  path: string[];
+  type: ConfigDiffChangeType;
+  oldValue?: string[];
+  newValue?: string[];
+}
+
+export interface ConfigDiffSection {
+  name: string;     // Top-level node: interfaces, firewall, nat, vpn, system, ...
+  entries: ConfigDiffEntry[];
+}
+
+export interface ConfigDiffResult {
+  sections: ConfigDiffSection[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+  };
+}
+
+export type ConfigDiffSource =
+  | { type: 'live'; deviceId: string }
+  | { type: 'backup'; backupId: string };
+
 // ============================================================================
 // Application State
 // ============================================================================
@@ -357,22 +1225,58 @@ export enum IPCChannel {
   SSH_CONNECT = 'ssh:connect',
   SSH_DISCONNECT = 'ssh:disconnect',
   SSH_EXECUTE = 'ssh:execute',
+  SSH_APPROVE_HOST_KEY = 'ssh:approveHostKey',
+  SSH_IMPORT_KNOWN_HOSTS = 'ssh:importKnownHosts',
+  SSH_CONNECTION_STATE = 'ssh:connectionState',
 
   // VyOS Operations
   VYOS_GET_CONFIG = 'vyos:getConfig',
   VYOS_GET_INTERFACES = 'vyos:getInterfaces',
   VYOS_GET_FIREWALL = 'vyos:getFirewall',
+  VYOS_GET_FIREWALL_GROUPS = 'vyos:getFirewallGroups',
+  VYOS_FIREWALL_GROUP_USAGE = 'vyos:firewallGroupUsage',
   VYOS_GET_NAT = 'vyos:getNat',
   VYOS_GET_VPN = 'vyos:getVpn',
   VYOS_GET_SYSTEM = 'vyos:getSystem',
   VYOS_EXECUTE_COMMANDS = 'vyos:executeCommands',
   VYOS_PREVIEW_COMMANDS = 'vyos:previewCommands',
+  VYOS_DIFF_CONFIG = 'vyos:diffConfig',
+  VYOS_GET_STATIC_ROUTES = 'vyos:getStaticRoutes',
+  VYOS_GET_POLICY_ROUTING = 'vyos:getPolicyRouting',
+  VYOS_GET_VRFS = 'vyos:getVrfs',
+  VYOS_GET_OSPF = 'vyos:getOspf',
+  VYOS_GET_OSPF_NEIGHBORS = 'vyos:getOspfNeighbors',
+  VYOS_GET_BGP = 'vyos:getBgp',
+  VYOS_GET_POLICY = 'vyos:getPolicy',
+  VYOS_GET_WIREGUARD = 'vyos:getWireGuard',
+  VYOS_WIREGUARD_GENERATE_KEYPAIR = 'vyos:wireguardGenerateKeyPair',
+  VYOS_WIREGUARD_CLIENT_CONFIG = 'vyos:wireguardClientConfig',
+  VYOS_GET_OPENVPN = 'vyos:getOpenVpn',
+  VYOS_OPENVPN_CLIENT_PROFILE = 'vyos:openvpnClientProfile',
+  VYOS_GET_DHCP = 'vyos:getDhcp',
+  VYOS_GET_DHCP_LEASES = 'vyos:getDhcpLeases',
+  VYOS_GET_DNS = 'vyos:getDns',
+  VYOS_GET_VRRP = 'vyos:getVrrp',
+  VYOS_GET_VRRP_STATUS = 'vyos:getVrrpStatus',
+  VYOS_VRRP_CONFLICTS = 'vyos:vrrpConflicts',
+  VYOS_GET_WAN_LOAD_BALANCING = 'vyos:getWanLoadBalancing',
+  VYOS_GET_WAN_STATUS = 'vyos:getWanStatus',
+  VYOS_GET_QOS = 'vyos:getQos',
 
   // Backup Operations
   BACKUP_CREATE = 'backup:create',
   BACKUP_LIST = 'backup:list',
   BACKUP_RESTORE = 'backup:restore',
   BACKUP_DELETE = 'backup:delete',
+  BACKUP_IMPORT = 'backup:import',
+
+  // Pending Change Sets
+  CHANGESET_GET = 'changeset:get',
+  CHANGESET_ADD = 'changeset:add',
+  CHANGESET_REMOVE = 'changeset:remove',
+  CHANGESET_CLEAR = 'changeset:clear',
+  CHANGESET_APPLY = 'changeset:apply',
+  CHANGESET_CONFIRM = 'changeset:confirm',
 
   // Settings
   SETTINGS_GET = 'settings:get',
@@ -405,6 +1309,19 @@ export class SSHConnectionError extends VyOSError {
   }
 }
 
+export class HostKeyVerificationError extends SSHConnectionError {
+  constructor(
+    message: string,
+    public status: 'unknown' | 'mismatch',
+    public presented: HostKeyIdentity,
+    public expected?: HostKeyIdentity,
+    public jumpHostId?: string
+  ) {
+    super(message, { status, presented, expected, jumpHostId });
+    this.name = 'HostKeyVerificationError';
+  }
+}
+
 export class VyOSCommandError extends VyOSError {
   constructor(
     message: string,
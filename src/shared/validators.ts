@@ -3,13 +3,43 @@
  */
 
 import { VALIDATION, VYOS_FEATURES } from './constants';
+import { VyOSError } from './types';
 import type {
   NetworkInterface,
   FirewallRule,
+  FirewallRuleset,
+  FirewallSyntax,
+  FirewallFamily,
+  FirewallGroup,
   NATRule,
   IPSecSite,
   StaticRoute,
+  PolicyRoute,
+  LocalRouteRule,
+  RoutingTable,
+  Vrf,
   DeviceProfile,
+  OSPFConfig,
+  BGPConfig,
+  WireGuardInterface,
+  WireGuardPeer,
+  OpenVpnInterface,
+  OpenVpnKeyStorage,
+  DhcpServer,
+  DnsForwarding,
+  StaticHostMapping,
+  VrrpConfig,
+  VrrpGroup,
+  VrrpSyncGroup,
+  WanLoadBalancing,
+  WanInterfaceHealth,
+  WanRule,
+  QosPolicy,
+  QosClassSettings,
+  QosBandwidthUsage,
+  PrefixList,
+  PolicyList,
+  RouteMap,
 } from './types';
 
 // ============================================================================
@@ -69,10 +99,53 @@ export function isValidInterfaceName(name: string): boolean {
   return VALIDATION.INTERFACE_NAME.test(name);
 }
 
+export function isValidASN(asn: number | string): boolean {
+  const value = typeof asn === 'string' ? Number(asn) : asn;
+  return /^\d+$/.test(String(asn)) && value >= 1 && value <= 4294967295;
+}
+
+export function isValidWireGuardKey(key: string): boolean {
+  return VALIDATION.WIREGUARD_KEY.test(key);
+}
+
 export function isValidMTU(mtu: number): boolean {
   return mtu >= 68 && mtu <= 9000;
 }
 
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((value, octet) => value * 256 + parseInt(octet, 10), 0);
+}
+
+/**
+ * Whether an IPv4 address lies inside an IPv4 network such as 192.168.1.0/24
+ */
+export function isIPv4InSubnet(ip: string, subnet: string): boolean {
+  const [network, prefix] = subnet.split('/');
+  if (!isValidIPv4(ip) || ip.includes('/') || !isValidIPv4(network) || prefix === undefined) {
+    return false;
+  }
+
+  const size = 2 ** (32 - parseInt(prefix, 10));
+  const start = Math.floor(ipv4ToNumber(network) / size) * size;
+  const address = ipv4ToNumber(ip);
+  return address >= start && address < start + size;
+}
+
+/**
+ * Network of an IPv4 address with prefix length, e.g. 192.168.1.1/24 -> 192.168.1.0/24
+ */
+export function getIPv4Network(cidr: string): string | null {
+  const [ip, prefix] = cidr.split('/');
+  if (prefix === undefined || !isValidIPv4(cidr)) {
+    return null;
+  }
+
+  const size = 2 ** (32 - parseInt(prefix, 10));
+  const start = Math.floor(ipv4ToNumber(ip) / size) * size;
+  const octets = [24, 16, 8, 0].map((shift) => Math.floor(start / 2 ** shift) % 256);
+  return `${octets.join('.')}/${prefix}`;
+}
+
 // ============================================================================
 // Device Validation
 // ============================================================================
@@ -111,6 +184,20 @@ export function validateDeviceProfile(device: Partial<DeviceProfile>): Validatio
     errors.push('SSH key path is required for key-based authentication');
   }
 
+  (device.jumpHosts || []).forEach((hop, index) => {
+    const label = `Jump host ${index + 1}`;
+
+    if (!hop.host || (!isValidIPAddress(hop.host) && !isValidHostname(hop.host))) {
+      errors.push(`${label}: host must be a valid IP address or hostname`);
+    }
+    if (!isValidPort(hop.port)) {
+      errors.push(`${label}: port must be between 1 and 65535`);
+    }
+    if (!hop.username || hop.username.trim().length === 0) {
+      errors.push(`${label}: username is required`);
+    }
+  });
+
   return {
     valid: errors.length === 0,
     errors,
@@ -218,45 +305,123 @@ export function validateStaticRoute(route: Partial<StaticRoute>): ValidationResu
     }
   }
 
+  if (route.table !== undefined && !isValidRoutingTable(route.table)) {
+    errors.push(`Table must be between 1 and ${VYOS_FEATURES.ROUTING_TABLE_MAX}`);
+  }
+
+  if (route.table !== undefined && route.vrf) {
+    errors.push('A VRF route uses the VRF table; it cannot also set a table');
+  }
+
   return {
     valid: errors.length === 0,
     errors,
   };
 }
 
+export function isValidRoutingTable(table: RoutingTable): boolean {
+  return table === 'main' || (Number.isInteger(table) && table >= 1 && table <= VYOS_FEATURES.ROUTING_TABLE_MAX);
+}
+
 // ============================================================================
-// Firewall Validation
+// Policy Routing Validation
 // ============================================================================
 
-export function validateFirewallRule(rule: Partial<FirewallRule>): ValidationResult {
+export function validatePolicyRoute(route: Partial<PolicyRoute>): ValidationResult {
   const errors: string[] = [];
+  const family = route.family || 'ipv4';
 
-  if (rule.number === undefined || rule.number < 1 || rule.number > 9999) {
-    errors.push('Rule number must be between 1 and 9999');
+  if (!route.name || !isValidPolicyName(route.name)) {
+    errors.push('Name may only contain letters, digits, "-" and "_"');
   }
 
-  if (!rule.action || !VYOS_FEATURES.FIREWALL_ACTIONS.includes(rule.action)) {
-    errors.push(`Action must be one of: ${VYOS_FEATURES.FIREWALL_ACTIONS.join(', ')}`);
+  if (!VYOS_FEATURES.FIREWALL_FAMILIES.includes(family)) {
+    errors.push(`Invalid address family ${family}`);
   }
 
-  if (rule.protocol && !VYOS_FEATURES.FIREWALL_PROTOCOLS.includes(rule.protocol)) {
-    errors.push(`Protocol must be one of: ${VYOS_FEATURES.FIREWALL_PROTOCOLS.join(', ')}`);
+  (route.interfaces || []).forEach((name) => {
+    if (!isValidInterfaceName(name)) {
+      errors.push(`Invalid interface ${name}`);
+    }
+  });
+
+  const rules = route.rules || [];
+  errors.push(...validateRuleNumbers(rules));
+
+  rules.forEach((rule) => {
+    const prefix = `Rule ${rule.number}`;
+
+    if (rule.protocol && !(VYOS_FEATURES.POLICY_ROUTE_PROTOCOLS as readonly string[]).includes(rule.protocol)) {
+      errors.push(`${prefix}: Invalid protocol ${rule.protocol}`);
+    }
+
+    (['source', 'destination'] as const).forEach((side) => {
+      const match = rule[side];
+      if (match?.address && !isValidFirewallAddress(match.address, family)) {
+        errors.push(`${prefix}: Invalid ${side} address ${match.address}`);
+      }
+
+      if (match?.port) {
+        if (!rule.protocol || !['tcp', 'udp', 'tcp_udp'].includes(rule.protocol)) {
+          errors.push(`${prefix}: ${side} port requires protocol tcp, udp or tcp_udp`);
+        }
+        if (!match.port.split(',').every(isValidPortRange)) {
+          errors.push(`${prefix}: Invalid ${side} port ${match.port}`);
+        }
+      }
+    });
+
+    if (rule.dscp && !isValidDSCP(rule.dscp)) {
+      errors.push(`${prefix}: DSCP must be 0-63 or a range such as 10-20`);
+    }
+
+    if (rule.setTable === undefined && rule.setMark === undefined) {
+      errors.push(`${prefix}: Set a routing table or a mark`);
+    }
+
+    if (rule.setTable !== undefined && !isValidRoutingTable(rule.setTable)) {
+      errors.push(`${prefix}: Table must be "main" or between 1 and ${VYOS_FEATURES.ROUTING_TABLE_MAX}`);
+    }
+
+    if (rule.setMark !== undefined && (!Number.isInteger(rule.setMark) || rule.setMark < 1 || rule.setMark > 2147483647)) {
+      errors.push(`${prefix}: Mark must be a positive number`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateLocalRouteRule(rule: Partial<LocalRouteRule>, existing: LocalRouteRule[] = []): ValidationResult {
+  const errors: string[] = [];
+  const family = rule.family || 'ipv4';
+
+  if (!rule.number || !Number.isInteger(rule.number) || rule.number < 1 || rule.number > 32765) {
+    errors.push('Rule number must be between 1 and 32765');
+  } else if (existing.some((other) => other.family === family && other.number === rule.number)) {
+    errors.push(`Rule ${rule.number} already exists`);
   }
 
-  if (rule.source?.address && !isValidIPAddress(rule.source.address)) {
-    errors.push('Source address must be a valid IP address or network');
+  if (rule.source && !isValidFirewallAddress(rule.source, family)) {
+    errors.push(`Invalid source ${rule.source}`);
   }
 
-  if (rule.source?.port && !isValidPortRange(rule.source.port)) {
-    errors.push('Source port must be a valid port or port range');
+  if (rule.destination && !isValidFirewallAddress(rule.destination, family)) {
+    errors.push(`Invalid destination ${rule.destination}`);
   }
 
-  if (rule.destination?.address && !isValidIPAddress(rule.destination.address)) {
-    errors.push('Destination address must be a valid IP address or network');
+  if (rule.inboundInterface && !isValidInterfaceName(rule.inboundInterface)) {
+    errors.push(`Invalid inbound interface ${rule.inboundInterface}`);
   }
 
-  if (rule.destination?.port && !isValidPortRange(rule.destination.port)) {
-    errors.push('Destination port must be a valid port or port range');
+  if (!rule.source && !rule.destination && !rule.inboundInterface && rule.fwmark === undefined) {
+    errors.push('At least one match is required');
+  }
+
+  if (rule.table === undefined || !isValidRoutingTable(rule.table)) {
+    errors.push(`Table must be "main" or between 1 and ${VYOS_FEATURES.ROUTING_TABLE_MAX}`);
   }
 
   return {
@@ -265,100 +430,309 @@ export function validateFirewallRule(rule: Partial<FirewallRule>): ValidationRes
   };
 }
 
+function isValidDSCP(dscp: string): boolean {
+  return dscp.split('-').length <= 2 && dscp.split('-').every((value) => /^\d+$/.test(value) && parseInt(value, 10) <= 63);
+}
+
 // ============================================================================
-// NAT Validation
+// VRF Validation
 // ============================================================================
 
-export function validateNATRule(rule: Partial<NATRule>): ValidationResult {
+export function validateVrf(vrf: Partial<Vrf>, existing: Vrf[] = []): ValidationResult {
   const errors: string[] = [];
+  const others = existing.filter((other) => other.name !== vrf.name);
 
-  if (rule.number === undefined || rule.number < 1 || rule.number > 9999) {
-    errors.push('Rule number must be between 1 and 9999');
+  if (!vrf.name || !VALIDATION.VRF_NAME.test(vrf.name)) {
+    errors.push('VRF name must be 1-15 letters, digits, hyphens or underscores');
+  } else if ((VYOS_FEATURES.VRF_RESERVED_NAMES as readonly string[]).includes(vrf.name.toLowerCase())) {
+    errors.push(`"${vrf.name}" is reserved and cannot name a VRF`);
   }
 
-  if (!rule.type || !VYOS_FEATURES.NAT_TYPES.includes(rule.type)) {
-    errors.push(`NAT type must be one of: ${VYOS_FEATURES.NAT_TYPES.join(', ')}`);
+  if (
+    vrf.table === undefined ||
+    !Number.isInteger(vrf.table) ||
+    vrf.table < VYOS_FEATURES.VRF_TABLE_MIN ||
+    vrf.table > VYOS_FEATURES.VRF_TABLE_MAX
+  ) {
+    errors.push(`Table must be between ${VYOS_FEATURES.VRF_TABLE_MIN} and ${VYOS_FEATURES.VRF_TABLE_MAX}`);
+  } else {
+    const clash = others.find((other) => other.table === vrf.table);
+    if (clash) {
+      errors.push(`Table ${vrf.table} is already used by VRF ${clash.name}`);
+    }
   }
 
-  if (rule.type === 'source' && !rule.outboundInterface) {
-    errors.push('Outbound interface is required for source NAT');
-  }
+  (vrf.interfaces || []).forEach((name) => {
+    if (!isValidInterfaceName(name)) {
+      errors.push(`Invalid interface ${name}`);
+    }
 
-  if (rule.type === 'destination' && !rule.inboundInterface) {
-    errors.push('Inbound interface is required for destination NAT');
-  }
+    const owner = others.find((other) => other.interfaces.includes(name));
+    if (owner) {
+      errors.push(`Interface ${name} is already a member of VRF ${owner.name}`);
+    }
+  });
 
-  if (rule.source?.address && !isValidIPAddress(rule.source.address)) {
-    errors.push('Source address must be a valid IP address or network');
-  }
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
 
-  if (rule.destination?.address && !isValidIPAddress(rule.destination.address)) {
-    errors.push('Destination address must be a valid IP address or network');
+// ============================================================================
+// OSPF Validation
+// ============================================================================
+
+export function validateOSPFConfig(ospf: Partial<OSPFConfig>): ValidationResult {
+  const errors: string[] = [];
+
+  if (ospf.routerId && (!isValidIPv4(ospf.routerId) || ospf.routerId.includes('/'))) {
+    errors.push('Router ID must be an IPv4 address');
   }
 
-  if (rule.translation?.address && rule.translation.address !== 'masquerade') {
-    if (!isValidIPAddress(rule.translation.address)) {
-      errors.push('Translation address must be a valid IP address or "masquerade"');
+  const areaIds = new Set<string>();
+  (ospf.areas || []).forEach((area) => {
+    if (!isValidOSPFAreaId(area.id)) {
+      errors.push(`Area ${area.id}: Must be a number or dotted-decimal ID`);
+    }
+
+    if (isBackboneArea(area.id) && area.type !== 'normal') {
+      errors.push(`Area ${area.id}: The backbone area cannot be ${area.type}`);
+    }
+
+    area.networks.forEach((network) => {
+      const valid = ospf.version === 'v3' ? isValidIPv6(network) : isValidIPv4(network);
+      if (!valid || !network.includes('/')) {
+        errors.push(`Area ${area.id}: Invalid network ${network}`);
+      }
+    });
+
+    areaIds.add(area.id);
+  });
+
+  (ospf.interfaces || []).forEach((iface) => {
+    if (!isValidInterfaceName(iface.name)) {
+      errors.push(`Interface ${iface.name}: Invalid interface name`);
+    }
+
+    if (iface.area && !areaIds.has(iface.area)) {
+      errors.push(`Interface ${iface.name}: Area ${iface.area} is not configured`);
+    }
+
+    if (iface.cost !== undefined && (iface.cost < 1 || iface.cost > 65535)) {
+      errors.push(`Interface ${iface.name}: Cost must be between 1 and 65535`);
     }
+
+    if (iface.authentication?.type === 'md5' && !iface.authentication.md5Key) {
+      errors.push(`Interface ${iface.name}: MD5 key is required`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function isValidOSPFAreaId(id: string): boolean {
+  if (/^\d+$/.test(id)) {
+    return Number(id) <= 4294967295;
   }
+  return isValidIPv4(id) && !id.includes('/');
+}
 
-  if (rule.source?.port && !isValidPortRange(rule.source.port)) {
-    errors.push('Source port must be a valid port or port range');
+function isBackboneArea(id: string): boolean {
+  return id === '0' || id === '0.0.0.0';
+}
+
+// ============================================================================
+// BGP Validation
+// ============================================================================
+
+export function validateBGPConfig(bgp: Partial<BGPConfig>): ValidationResult {
+  const errors: string[] = [];
+
+  if (bgp.localAs === undefined || !isValidASN(bgp.localAs)) {
+    errors.push('Local AS must be a number between 1 and 4294967295');
   }
 
-  if (rule.destination?.port && !isValidPortRange(rule.destination.port)) {
-    errors.push('Destination port must be a valid port or port range');
+  if (bgp.routerId && (!isValidIPv4(bgp.routerId) || bgp.routerId.includes('/'))) {
+    errors.push('Router ID must be an IPv4 address');
   }
 
-  if (rule.translation?.port && !isValidPortRange(rule.translation.port)) {
-    errors.push('Translation port must be a valid port or port range');
+  if (bgp.timers) {
+    errors.push(...validateBGPTimers(bgp.timers));
   }
 
+  Object.entries(bgp.addressFamilies || {}).forEach(([family, af]) => {
+    af.networks.forEach((network) => {
+      const valid = family === 'ipv6-unicast' ? isValidIPv6(network) : isValidIPv4(network);
+      if (!valid || !network.includes('/')) {
+        errors.push(`${family}: Invalid network ${network}`);
+      }
+    });
+  });
+
+  const peerGroups = new Set((bgp.peerGroups || []).map((group) => group.name));
+
+  (bgp.peerGroups || []).forEach((group) => {
+    if (group.remoteAs !== undefined && !isValidRemoteAs(group.remoteAs)) {
+      errors.push(`Peer-group ${group.name}: Invalid remote AS ${group.remoteAs}`);
+    }
+  });
+
+  const addresses = new Set<string>();
+  (bgp.neighbors || []).forEach((neighbor) => {
+    const label = `Neighbor ${neighbor.address}`;
+
+    // Interface names are allowed for unnumbered (link-local) peering
+    if (!isValidBGPNeighborAddress(neighbor.address)) {
+      errors.push(`${label}: Must be an IP address without prefix length, or an interface name`);
+    }
+
+    if (addresses.has(neighbor.address)) {
+      errors.push(`${label}: Duplicate neighbor`);
+    }
+    addresses.add(neighbor.address);
+
+    if (neighbor.remoteAs === undefined && !neighbor.peerGroup) {
+      errors.push(`${label}: Remote AS or peer-group is required`);
+    } else if (neighbor.remoteAs !== undefined && !isValidRemoteAs(neighbor.remoteAs)) {
+      errors.push(`${label}: Invalid remote AS ${neighbor.remoteAs}`);
+    }
+
+    if (neighbor.peerGroup && !peerGroups.has(neighbor.peerGroup)) {
+      errors.push(`${label}: Peer-group ${neighbor.peerGroup} does not exist`);
+    }
+
+    if (neighbor.ebgpMultihop !== undefined && (neighbor.ebgpMultihop < 1 || neighbor.ebgpMultihop > 255)) {
+      errors.push(`${label}: eBGP multihop must be between 1 and 255`);
+    }
+
+    if (neighbor.timers) {
+      errors.push(...validateBGPTimers(neighbor.timers).map((e) => `${label}: ${e}`));
+    }
+  });
+
   return {
     valid: errors.length === 0,
     errors,
   };
 }
 
+export function isValidBGPNeighborAddress(address: string): boolean {
+  return (isValidIPAddress(address) && !address.includes('/')) || isValidInterfaceName(address);
+}
+
+function isValidRemoteAs(remoteAs: number | string): boolean {
+  return remoteAs === 'external' || remoteAs === 'internal' || isValidASN(remoteAs);
+}
+
+function validateBGPTimers(timers: { keepalive?: number; holdtime?: number }): string[] {
+  const errors: string[] = [];
+
+  if (timers.keepalive !== undefined && (timers.keepalive < 1 || timers.keepalive > 65535)) {
+    errors.push('Keepalive must be between 1 and 65535 seconds');
+  }
+
+  // A holdtime of 0 disables the hold timer
+  if (timers.holdtime !== undefined && timers.holdtime !== 0 && (timers.holdtime < 3 || timers.holdtime > 65535)) {
+    errors.push('Holdtime must be 0 or between 3 and 65535 seconds');
+  }
+
+  if (timers.keepalive && timers.holdtime && timers.keepalive >= timers.holdtime) {
+    errors.push('Keepalive must be shorter than holdtime');
+  }
+
+  return errors;
+}
+
 // ============================================================================
-// VPN Validation
+// Routing Policy Validation
 // ============================================================================
 
-export function validateIPSecSite(site: Partial<IPSecSite>): ValidationResult {
+export function validatePrefixList(list: Partial<PrefixList>): ValidationResult {
   const errors: string[] = [];
 
-  if (!site.name || site.name.trim().length === 0) {
-    errors.push('Site name is required');
+  if (!list.name || !isValidPolicyName(list.name)) {
+    errors.push('Name may only contain letters, digits, "-" and "_"');
   }
 
-  if (!site.localAddress || !isValidIPAddress(site.localAddress.split('/')[0])) {
-    errors.push('Local address must be a valid IP address');
-  }
+  errors.push(...validateRuleNumbers(list.rules || []));
 
-  if (!site.remoteAddress || !isValidIPAddress(site.remoteAddress.split('/')[0])) {
-    errors.push('Remote address must be a valid IP address');
+  (list.rules || []).forEach((rule) => {
+    const valid = list.family === 'ipv6' ? isValidIPv6(rule.prefix) : isValidIPv4(rule.prefix);
+    if (!valid || !rule.prefix.includes('/')) {
+      errors.push(`Rule ${rule.number}: Invalid prefix ${rule.prefix}`);
+      return;
+    }
+
+    const length = parseInt(rule.prefix.split('/')[1], 10);
+    const maxLength = list.family === 'ipv6' ? 128 : 32;
+    if (rule.ge !== undefined && (rule.ge <= length || rule.ge > maxLength)) {
+      errors.push(`Rule ${rule.number}: ge must be between ${length + 1} and ${maxLength}`);
+    }
+    if (rule.le !== undefined && (rule.le < Math.max(length, rule.ge ?? 0) || rule.le > maxLength)) {
+      errors.push(`Rule ${rule.number}: le must be between ${Math.max(length, rule.ge ?? 0)} and ${maxLength}`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validatePolicyList(list: Partial<PolicyList>): ValidationResult {
+  const errors: string[] = [];
+
+  if (!list.name || !isValidPolicyName(list.name)) {
+    errors.push('Name may only contain letters, digits, "-" and "_"');
   }
 
-  if (!site.authentication) {
-    errors.push('Authentication configuration is required');
-  } else {
-    if (site.authentication.mode === 'pre-shared-secret' && !site.authentication.preSharedSecret) {
-      errors.push('Pre-shared secret is required');
+  errors.push(...validateRuleNumbers(list.rules || []));
+
+  (list.rules || []).forEach((rule) => {
+    if (!rule.regex) {
+      errors.push(`Rule ${rule.number}: Regex is required`);
+      return;
     }
+    try {
+      new RegExp(rule.regex);
+    } catch {
+      errors.push(`Rule ${rule.number}: Invalid regex ${rule.regex}`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateRouteMap(routeMap: Partial<RouteMap>): ValidationResult {
+  const errors: string[] = [];
+  const rules = routeMap.rules || [];
+
+  if (!routeMap.name || !isValidPolicyName(routeMap.name)) {
+    errors.push('Name may only contain letters, digits, "-" and "_"');
   }
 
-  if (!site.tunnels || site.tunnels.length === 0) {
-    errors.push('At least one tunnel is required');
-  } else {
-    site.tunnels.forEach((tunnel, index) => {
-      if (!isValidIPAddress(tunnel.localSubnet)) {
-        errors.push(`Tunnel ${index + 1}: Invalid local subnet`);
-      }
-      if (!isValidIPAddress(tunnel.remoteSubnet)) {
-        errors.push(`Tunnel ${index + 1}: Invalid remote subnet`);
+  errors.push(...validateRuleNumbers(rules));
+
+  const numbers = new Set(rules.map((rule) => rule.number));
+  rules.forEach((rule) => {
+    [...rule.match, ...rule.set].forEach((clause) => {
+      if (!clause.path) {
+        errors.push(`Rule ${rule.number}: Clause is missing its attribute`);
       }
     });
-  }
+
+    const target = rule.continue ?? (rule.onMatch?.startsWith('goto ') ? parseInt(rule.onMatch.slice(5), 10) : undefined);
+    if (target !== undefined && (target <= rule.number || !numbers.has(target))) {
+      errors.push(`Rule ${rule.number}: Jump target ${target} must be a later rule of this route-map`);
+    }
+  });
 
   return {
     valid: errors.length === 0,
@@ -366,26 +740,1284 @@ export function validateIPSecSite(site: Partial<IPSecSite>): ValidationResult {
   };
 }
 
+export function isValidPolicyName(name: string): boolean {
+  return /^[A-Za-z0-9][\w-]*$/.test(name);
+}
+
+function validateRuleNumbers(rules: { number: number }[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<number>();
+
+  rules.forEach((rule) => {
+    if (!Number.isInteger(rule.number) || rule.number < 1 || rule.number > 65535) {
+      errors.push(`Rule ${rule.number}: Rule number must be between 1 and 65535`);
+    } else if (seen.has(rule.number)) {
+      errors.push(`Rule ${rule.number}: Duplicate rule number`);
+    }
+    seen.add(rule.number);
+  });
+
+  return errors;
+}
+
 // ============================================================================
-// Helper Functions
+// Firewall Validation
 // ============================================================================
 
-export function sanitizeConfigValue(value: string): string {
-  // Escape single quotes and wrap in quotes if needed
-  if (value.includes(' ') || value.includes("'")) {
-    return `'${value.replace(/'/g, "\\'")}'`;
+export function validateFirewallRuleset(
+  ruleset: Partial<FirewallRuleset>,
+  syntax: FirewallSyntax = 'modern'
+): ValidationResult {
+  const errors: string[] = [];
+  const family = ruleset.family || 'ipv4';
+
+  if (!VYOS_FEATURES.FIREWALL_FAMILIES.includes(family)) {
+    errors.push(`Family must be one of: ${VYOS_FEATURES.FIREWALL_FAMILIES.join(', ')}`);
   }
-  return value;
-}
 
-export function parseIPAddress(address: string): { ip: string; cidr?: number } {
-  const parts = address.split('/');
-  return {
-    ip: parts[0],
-    cidr: parts[1] ? parseInt(parts[1], 10) : undefined,
-  };
-}
+  if (ruleset.baseChain) {
+    if (syntax === 'legacy') {
+      errors.push('Base chains require VyOS 1.4 or later');
+    }
+    if (ruleset.defaultAction && !['accept', 'drop'].includes(ruleset.defaultAction)) {
+      errors.push('Base chain default action must be accept or drop');
+    }
+  } else {
+    if (!ruleset.name || !isValidPolicyName(ruleset.name)) {
+      errors.push('Name may only contain letters, digits, "-" and "_"');
+    }
 
-export function formatIPAddress(ip: string, cidr?: number): string {
-  return cidr !== undefined ? `${ip}/${cidr}` : ip;
+    const actions: readonly string[] =
+      syntax === 'modern' ? VYOS_FEATURES.FIREWALL_MODERN_ACTIONS : VYOS_FEATURES.FIREWALL_ACTIONS;
+    if (!ruleset.defaultAction || !actions.includes(ruleset.defaultAction)) {
+      errors.push(`Default action must be one of: ${actions.join(', ')}`);
+    }
+  }
+
+  if (ruleset.defaultAction === 'jump' && !ruleset.defaultJumpTarget) {
+    errors.push('Default jump target is required');
+  }
+
+  errors.push(...validateRuleNumbers(ruleset.rules || []));
+
+  (ruleset.rules || []).forEach((rule) => {
+    validateFirewallRule(rule, syntax, family).errors.forEach((error) => errors.push(`Rule ${rule.number}: ${error}`));
+
+    if (rule.jumpTarget && !ruleset.baseChain && rule.jumpTarget === ruleset.name) {
+      errors.push(`Rule ${rule.number}: A ruleset cannot jump to itself`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateFirewallRule(
+  rule: Partial<FirewallRule>,
+  syntax: FirewallSyntax = 'modern',
+  family: FirewallFamily = 'ipv4'
+): ValidationResult {
+  const errors: string[] = [];
+  const familyLabel = family === 'ipv6' ? 'IPv6' : 'IPv4';
+
+  if (rule.number === undefined || rule.number < 1 || rule.number > 9999) {
+    errors.push('Rule number must be between 1 and 9999');
+  }
+
+  const actions: readonly string[] =
+    syntax === 'modern' ? VYOS_FEATURES.FIREWALL_MODERN_ACTIONS : VYOS_FEATURES.FIREWALL_ACTIONS;
+  if (!rule.action || !actions.includes(rule.action)) {
+    errors.push(`Action must be one of: ${actions.join(', ')}`);
+  }
+
+  if (rule.action === 'jump' && !rule.jumpTarget) {
+    errors.push('Jump target is required');
+  }
+
+  const icmpProtocol = family === 'ipv6' ? 'ipv6-icmp' : 'icmp';
+  if (rule.protocol && !VYOS_FEATURES.FIREWALL_PROTOCOLS.includes(rule.protocol)) {
+    errors.push(`Protocol must be one of: ${VYOS_FEATURES.FIREWALL_PROTOCOLS.join(', ')}`);
+  } else if ((rule.protocol === 'icmp' || rule.protocol === 'ipv6-icmp') && rule.protocol !== icmpProtocol) {
+    errors.push(`${familyLabel} rulesets match ICMP with protocol ${icmpProtocol}`);
+  }
+
+  if (rule.icmp) {
+    if (rule.protocol !== 'icmp' && rule.protocol !== 'ipv6-icmp') {
+      errors.push(`ICMP type matching requires protocol ${icmpProtocol}`);
+    }
+
+    if (!rule.icmp.typeName && rule.icmp.type === undefined) {
+      errors.push('ICMP type or type name is required');
+    }
+
+    [rule.icmp.type, rule.icmp.code].forEach((value) => {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > 255)) {
+        errors.push('ICMP type and code must be between 0 and 255');
+      }
+    });
+  }
+
+  if (rule.source?.address && !isValidFirewallAddress(rule.source.address, family)) {
+    errors.push(`Source address must be a valid ${familyLabel} address, range or network`);
+  }
+
+  if (rule.source?.port && !isValidPortRange(rule.source.port)) {
+    errors.push('Source port must be a valid port or port range');
+  }
+
+  if (rule.destination?.address && !isValidFirewallAddress(rule.destination.address, family)) {
+    errors.push(`Destination address must be a valid ${familyLabel} address, range or network`);
+  }
+
+  if (rule.destination?.port && !isValidPortRange(rule.destination.port)) {
+    errors.push('Destination port must be a valid port or port range');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Rule address of the ruleset's family: address, network or `start-end` range, optionally negated with `!`
+ */
+function isValidFirewallAddress(address: string, family: FirewallFamily): boolean {
+  const isValid = family === 'ipv6' ? isValidIPv6 : isValidIPv4;
+  const parts = address.replace(/^!/, '').split('-');
+
+  if (parts.length === 2) {
+    return parts.every((part) => isValid(part) && !part.includes('/'));
+  }
+
+  return parts.length === 1 && isValid(parts[0]);
+}
+
+export function validateFirewallGroup(group: Partial<FirewallGroup>): ValidationResult {
+  const errors: string[] = [];
+
+  if (!group.name || !isValidPolicyName(group.name)) {
+    errors.push('Name may only contain letters, digits, "-" and "_"');
+  }
+
+  if (!group.type || !VYOS_FEATURES.FIREWALL_GROUP_TYPES.includes(group.type)) {
+    errors.push(`Type must be one of: ${VYOS_FEATURES.FIREWALL_GROUP_TYPES.join(', ')}`);
+  }
+
+  if ((group.members || []).length === 0 && (group.include || []).length === 0) {
+    errors.push('At least one member or included group is required');
+  }
+
+  if (group.include?.includes(group.name || '')) {
+    errors.push('A group cannot include itself');
+  }
+
+  (group.members || []).forEach((member) => {
+    if (!isValidFirewallGroupMember(group.type, member)) {
+      errors.push(`Invalid ${group.type} member: ${member}`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+function isValidFirewallGroupMember(type: FirewallGroup['type'] | undefined, member: string): boolean {
+  switch (type) {
+    case 'address-group': {
+      // Single address or `start-end` range
+      const parts = member.split('-');
+      return parts.length <= 2 && parts.every((part) => isValidIPAddress(part) && !part.includes('/'));
+    }
+    case 'network-group':
+      return isValidIPAddress(member) && member.includes('/');
+    case 'port-group':
+      // Port, range or service name from /etc/services
+      return isValidPortRange(member) || /^[a-z][a-z0-9-]*$/.test(member);
+    case 'interface-group':
+      // Interface name, optionally with a trailing wildcard (eth*)
+      return /^[a-z]+[0-9.]*\*?$/.test(member);
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// NAT Validation
+// ============================================================================
+
+export function validateNATRule(rule: Partial<NATRule>): ValidationResult {
+  const errors: string[] = [];
+
+  if (rule.number === undefined || rule.number < 1 || rule.number > 9999) {
+    errors.push('Rule number must be between 1 and 9999');
+  }
+
+  if (!rule.type || !VYOS_FEATURES.NAT_TYPES.includes(rule.type)) {
+    errors.push(`NAT type must be one of: ${VYOS_FEATURES.NAT_TYPES.join(', ')}`);
+  }
+
+  if (rule.type === 'source' && !rule.outboundInterface) {
+    errors.push('Outbound interface is required for source NAT');
+  }
+
+  if (rule.type === 'destination' && !rule.inboundInterface) {
+    errors.push('Inbound interface is required for destination NAT');
+  }
+
+  if (rule.source?.address && !isValidIPAddress(rule.source.address)) {
+    errors.push('Source address must be a valid IP address or network');
+  }
+
+  if (rule.destination?.address && !isValidIPAddress(rule.destination.address)) {
+    errors.push('Destination address must be a valid IP address or network');
+  }
+
+  if (rule.translation?.address && rule.translation.address !== 'masquerade') {
+    if (!isValidIPAddress(rule.translation.address)) {
+      errors.push('Translation address must be a valid IP address or "masquerade"');
+    }
+  }
+
+  if (rule.source?.port && !isValidPortRange(rule.source.port)) {
+    errors.push('Source port must be a valid port or port range');
+  }
+
+  if (rule.destination?.port && !isValidPortRange(rule.destination.port)) {
+    errors.push('Destination port must be a valid port or port range');
+  }
+
+  if (rule.translation?.port && !isValidPortRange(rule.translation.port)) {
+    errors.push('Translation port must be a valid port or port range');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+// ============================================================================
+// VPN Validation
+// ============================================================================
+
+export function validateIPSecSite(site: Partial<IPSecSite>): ValidationResult {
+  const errors: string[] = [];
+
+  if (!site.name || site.name.trim().length === 0) {
+    errors.push('Site name is required');
+  }
+
+  if (!site.localAddress || !isValidIPAddress(site.localAddress.split('/')[0])) {
+    errors.push('Local address must be a valid IP address');
+  }
+
+  if (!site.remoteAddress || !isValidIPAddress(site.remoteAddress.split('/')[0])) {
+    errors.push('Remote address must be a valid IP address');
+  }
+
+  if (!site.authentication) {
+    errors.push('Authentication configuration is required');
+  } else {
+    if (site.authentication.mode === 'pre-shared-secret' && !site.authentication.preSharedSecret) {
+      errors.push('Pre-shared secret is required');
+    }
+  }
+
+  if (!site.tunnels || site.tunnels.length === 0) {
+    errors.push('At least one tunnel is required');
+  } else {
+    site.tunnels.forEach((tunnel, index) => {
+      if (!isValidIPAddress(tunnel.localSubnet)) {
+        errors.push(`Tunnel ${index + 1}: Invalid local subnet`);
+      }
+      if (!isValidIPAddress(tunnel.remoteSubnet)) {
+        errors.push(`Tunnel ${index + 1}: Invalid remote subnet`);
+      }
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateWireGuardInterface(iface: Partial<WireGuardInterface>): ValidationResult {
+  const errors: string[] = [];
+
+  if (!iface.name || !/^wg\d+$/.test(iface.name)) {
+    errors.push('Interface name must be wg followed by a number (e.g. wg0)');
+  }
+
+  if (!iface.addresses || iface.addresses.length === 0) {
+    errors.push('At least one address is required');
+  } else {
+    iface.addresses.forEach((addr) => {
+      if (!isValidIPAddress(addr) || !addr.includes('/')) {
+        errors.push(`Invalid address ${addr}; use address/prefix`);
+      }
+    });
+  }
+
+  if (iface.listenPort !== undefined && !isValidPort(iface.listenPort)) {
+    errors.push('Listen port must be between 1 and 65535');
+  }
+
+  if (iface.privateKey && !isValidWireGuardKey(iface.privateKey)) {
+    errors.push('Private key is not a valid WireGuard key');
+  }
+
+  const peerNames = new Set<string>();
+  (iface.peers || []).forEach((peer) => {
+    errors.push(...validateWireGuardPeer(peer).errors.map((e) => `Peer ${peer.name || '?'}: ${e}`));
+
+    if (peerNames.has(peer.name)) {
+      errors.push(`Duplicate peer name ${peer.name}`);
+    }
+    peerNames.add(peer.name);
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateWireGuardPeer(peer: Partial<WireGuardPeer>): ValidationResult {
+  const errors: string[] = [];
+
+  if (!peer.name || !/^[\w.-]+$/.test(peer.name)) {
+    errors.push('Peer name may only contain letters, digits, dots, dashes and underscores');
+  }
+
+  if (!peer.publicKey || !isValidWireGuardKey(peer.publicKey)) {
+    errors.push('Public key is not a valid WireGuard key');
+  }
+
+  if (peer.presharedKey && !isValidWireGuardKey(peer.presharedKey)) {
+    errors.push('Preshared key is not a valid WireGuard key');
+  }
+
+  if (!peer.allowedIps || peer.allowedIps.length === 0) {
+    errors.push('At least one allowed IP prefix is required');
+  } else {
+    peer.allowedIps.forEach((prefix) => {
+      if (!isValidIPAddress(prefix)) {
+        errors.push(`Invalid allowed IP ${prefix}`);
+      }
+    });
+  }
+
+  if (peer.endpointAddress && !isValidIPAddress(peer.endpointAddress) && !isValidHostname(peer.endpointAddress)) {
+    errors.push('Endpoint must be an IP address or hostname');
+  }
+
+  if (peer.endpointPort !== undefined && !isValidPort(peer.endpointPort)) {
+    errors.push('Endpoint port must be between 1 and 65535');
+  }
+
+  if (peer.persistentKeepalive !== undefined && (peer.persistentKeepalive < 1 || peer.persistentKeepalive > 65535)) {
+    errors.push('Persistent keepalive must be between 1 and 65535 seconds');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validate an OpenVPN interface. Certificate and key references are checked
+ * as absolute file paths under `file` storage and as PKI names under `pki`.
+ */
+export function validateOpenVpnInterface(
+  iface: Partial<OpenVpnInterface>,
+  keyStorage: OpenVpnKeyStorage
+): ValidationResult {
+  const errors: string[] = [];
+  const isCidr = (prefix: string) => isValidIPAddress(prefix) && prefix.includes('/');
+  const isKeyReference = (reference: string) =>
+    keyStorage === 'file' ? /^\/[\w./-]+$/.test(reference) : /^[\w.-]+$/.test(reference);
+
+  if (!iface.name || !/^vtun\d+$/.test(iface.name)) {
+    errors.push('Interface name must be vtun followed by a number (e.g. vtun0)');
+  }
+
+  if (!iface.mode || !(VYOS_FEATURES.OPENVPN_MODES as readonly string[]).includes(iface.mode)) {
+    errors.push(`Mode must be one of: ${VYOS_FEATURES.OPENVPN_MODES.join(', ')}`);
+  }
+
+  if (iface.protocol === 'tcp-active' && iface.mode === 'server') {
+    errors.push('A server cannot use tcp-active; it accepts connections');
+  }
+
+  if (iface.protocol === 'tcp-passive' && iface.mode === 'client') {
+    errors.push('A client cannot use tcp-passive; it opens the connection');
+  }
+
+  if (iface.localPort !== undefined && !isValidPort(iface.localPort)) {
+    errors.push('Local port must be between 1 and 65535');
+  }
+
+  if (iface.remotePort !== undefined && !isValidPort(iface.remotePort)) {
+    errors.push('Remote port must be between 1 and 65535');
+  }
+
+  if (iface.localHost && !isValidIPAddress(iface.localHost)) {
+    errors.push(`Invalid local host ${iface.localHost}`);
+  }
+
+  (iface.remoteHosts || []).forEach((host) => {
+    if (!isValidIPAddress(host) && !isValidHostname(host)) {
+      errors.push(`Remote host ${host} must be an IP address or hostname`);
+    }
+  });
+
+  if (iface.cipher && !(VYOS_FEATURES.OPENVPN_CIPHERS as readonly string[]).includes(iface.cipher)) {
+    errors.push(`Cipher must be one of: ${VYOS_FEATURES.OPENVPN_CIPHERS.join(', ')}`);
+  }
+
+  (iface.dataCiphers || []).forEach((cipher) => {
+    if (!(VYOS_FEATURES.OPENVPN_CIPHERS as readonly string[]).includes(cipher)) {
+      errors.push(`Unknown data cipher ${cipher}`);
+    }
+  });
+
+  if (iface.hash && !(VYOS_FEATURES.OPENVPN_HASHES as readonly string[]).includes(iface.hash)) {
+    errors.push(`Hash must be one of: ${VYOS_FEATURES.OPENVPN_HASHES.join(', ')}`);
+  }
+
+  const tls = iface.tls;
+  if (tls) {
+    if (!tls.caCertificate || !isKeyReference(tls.caCertificate)) {
+      errors.push('TLS needs a CA certificate');
+    }
+
+    (['certificate', 'key', 'dhParams', 'cryptKey'] as const).forEach((field) => {
+      const reference = tls[field];
+      if (reference && !isKeyReference(reference)) {
+        errors.push(`Invalid TLS ${field} reference ${reference}`);
+      }
+    });
+
+    if (keyStorage === 'pki' && tls.key) {
+      errors.push('A PKI certificate carries its own key; do not name a key file');
+    }
+
+    if (keyStorage === 'file' && !!tls.certificate !== !!tls.key) {
+      errors.push('TLS certificate and key files must be given together');
+    }
+  }
+
+  if (iface.sharedSecretKey && !isKeyReference(iface.sharedSecretKey)) {
+    errors.push(`Invalid shared secret key reference ${iface.sharedSecretKey}`);
+  }
+
+  if (iface.sharedSecretKey && tls) {
+    errors.push('Use either TLS or a shared secret key, not both');
+  }
+
+  switch (iface.mode) {
+    case 'site-to-site':
+      if (!tls && !iface.sharedSecretKey) {
+        errors.push('Site-to-site needs a shared secret key or TLS');
+      }
+
+      if (tls && !tls.role) {
+        errors.push('Site-to-site TLS needs a role; one side is active, the other passive');
+      }
+
+      if (iface.deviceType !== 'tap') {
+        if (!iface.localAddress || !isValidIPv4(iface.localAddress) || iface.localAddress.includes('/')) {
+          errors.push('Local tunnel address must be an IPv4 address');
+        }
+        if (!iface.remoteAddress || !isValidIPv4(iface.remoteAddress) || iface.remoteAddress.includes('/')) {
+          errors.push('Remote tunnel address must be an IPv4 address');
+        }
+      }
+      break;
+
+    case 'server': {
+      if (!tls?.certificate) {
+        errors.push('A server needs a TLS certificate');
+      }
+
+      if (keyStorage === 'file' && tls && !tls.dhParams) {
+        errors.push('A server needs a DH parameters file');
+      }
+
+      if (iface.sharedSecretKey) {
+        errors.push('A server authenticates clients by certificate; shared secret keys are for site-to-site');
+      }
+
+      const server = iface.server;
+      if (!server?.subnet || !getIPv4Network(server.subnet)) {
+        errors.push('Client subnet must be an IPv4 network such as 10.23.0.0/24');
+      }
+
+      (server?.pushRoutes || []).forEach((route) => {
+        if (!isCidr(route)) {
+          errors.push(`Invalid push route ${route}`);
+        }
+      });
+
+      (server?.nameServers || []).forEach((nameServer) => {
+        if (!isValidIPAddress(nameServer)) {
+          errors.push(`Invalid name server ${nameServer}`);
+        }
+      });
+
+      if (server?.domainName && !isValidDomain(server.domainName)) {
+        errors.push(`Invalid domain name ${server.domainName}`);
+      }
+
+      if (server?.maxConnections !== undefined && (server.maxConnections < 1 || server.maxConnections > 4096)) {
+        errors.push('Max connections must be between 1 and 4096');
+      }
+
+      const clientNames = new Set<string>();
+      (server?.clients || []).forEach((client) => {
+        const label = `Client ${client.name || '?'}`;
+
+        if (!client.name || !/^[\w.@-]+$/.test(client.name)) {
+          errors.push(`${label}: Name must be the common name of the client certificate`);
+        } else if (clientNames.has(client.name)) {
+          errors.push(`Duplicate client ${client.name}`);
+        }
+        clientNames.add(client.name);
+
+        if (client.ip && !isIPv4InSubnet(client.ip, server?.subnet || '')) {
+          errors.push(`${label}: Address ${client.ip} must be inside the client subnet`);
+        }
+
+        if (!client.ip && client.subnets.length === 0 && client.pushRoutes.length === 0 && !client.disabled) {
+          errors.push(`${label}: Set an address, a network or a push route, or disable the client`);
+        }
+
+        [...client.subnets, ...client.pushRoutes].forEach((prefix) => {
+          if (!isCidr(prefix)) {
+            errors.push(`${label}: Invalid network ${prefix}`);
+          }
+        });
+      });
+      break;
+    }
+
+    case 'client':
+      if (!tls) {
+        errors.push('A client needs TLS with the CA certificate of the server');
+      }
+
+      if (iface.sharedSecretKey) {
+        errors.push('A client authenticates by certificate; shared secret keys are for site-to-site');
+      }
+
+      if (!iface.remoteHosts || iface.remoteHosts.length === 0) {
+        errors.push('A client needs at least one remote host');
+      }
+      break;
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+// ============================================================================
+// DHCP Server Validation
+// ============================================================================
+
+export function validateDhcpServer(server: Partial<DhcpServer>): ValidationResult {
+  const errors: string[] = [];
+
+  if (!server.name || !isValidPolicyName(server.name)) {
+    errors.push('Name may only contain letters, digits, "-" and "_"');
+  }
+
+  if (!server.subnets || server.subnets.length === 0) {
+    errors.push('At least one subnet is required');
+  }
+
+  const subnetIds = new Set<number>();
+
+  (server.subnets || []).forEach((subnet) => {
+    const prefix = `Subnet ${subnet.subnet}`;
+
+    if (!subnet.subnet || !isValidIPv4(subnet.subnet) || !subnet.subnet.includes('/')) {
+      errors.push(`${prefix}: Subnet must be an IPv4 network such as 192.168.1.0/24`);
+      return;
+    }
+
+    if (subnet.subnetId !== undefined) {
+      if (!Number.isInteger(subnet.subnetId) || subnet.subnetId < 1) {
+        errors.push(`${prefix}: Subnet ID must be a positive number`);
+      } else if (subnetIds.has(subnet.subnetId)) {
+        errors.push(`${prefix}: Subnet ID ${subnet.subnetId} is already used`);
+      }
+      subnetIds.add(subnet.subnetId);
+    }
+
+    if (subnet.defaultRouter && !isIPv4InSubnet(subnet.defaultRouter, subnet.subnet)) {
+      errors.push(`${prefix}: Default router must be an address inside the subnet`);
+    }
+
+    subnet.nameServers.forEach((nameServer) => {
+      if (!isValidIPAddress(nameServer) || nameServer.includes('/')) {
+        errors.push(`${prefix}: Invalid name server ${nameServer}`);
+      }
+    });
+
+    if (subnet.domainName && !isValidDomain(subnet.domainName)) {
+      errors.push(`${prefix}: Invalid domain name`);
+    }
+
+    if (subnet.lease !== undefined && (!Number.isInteger(subnet.lease) || subnet.lease < 60)) {
+      errors.push(`${prefix}: Lease time must be at least 60 seconds`);
+    }
+
+    subnet.ranges.forEach((range) => {
+      if (!isIPv4InSubnet(range.start, subnet.subnet) || !isIPv4InSubnet(range.stop, subnet.subnet)) {
+        errors.push(`${prefix}: Range ${range.id} must lie inside the subnet`);
+      } else if (ipv4ToNumber(range.start) > ipv4ToNumber(range.stop)) {
+        errors.push(`${prefix}: Range ${range.id} starts after it stops`);
+      }
+    });
+
+    const names = new Set<string>();
+    const addresses = new Set<string>();
+    const macs = new Set<string>();
+
+    subnet.staticMappings.forEach((mapping) => {
+      if (!isValidPolicyName(mapping.name)) {
+        errors.push(`${prefix}: Static mapping name ${mapping.name} may only contain letters, digits, "-" and "_"`);
+      } else if (names.has(mapping.name)) {
+        errors.push(`${prefix}: Duplicate static mapping ${mapping.name}`);
+      }
+
+      if (!isIPv4InSubnet(mapping.ipAddress, subnet.subnet)) {
+        errors.push(`${prefix}: Static mapping ${mapping.name} address must be inside the subnet`);
+      } else if (addresses.has(mapping.ipAddress)) {
+        errors.push(`${prefix}: ${mapping.ipAddress} is mapped more than once`);
+      }
+
+      if (!isValidMACAddress(mapping.macAddress)) {
+        errors.push(`${prefix}: Static mapping ${mapping.name} has an invalid MAC address`);
+      } else if (macs.has(mapping.macAddress.toLowerCase())) {
+        errors.push(`${prefix}: ${mapping.macAddress} is mapped more than once`);
+      }
+
+      names.add(mapping.name);
+      addresses.add(mapping.ipAddress);
+      macs.add(mapping.macAddress.toLowerCase());
+    });
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+// ============================================================================
+// DNS Forwarding Validation
+// ============================================================================
+
+export function validateDnsForwarding(forwarding: Partial<DnsForwarding>): ValidationResult {
+  const errors: string[] = [];
+
+  if (!forwarding.listenAddresses || forwarding.listenAddresses.length === 0) {
+    errors.push('At least one listen address is required');
+  }
+
+  (forwarding.listenAddresses || []).forEach((address) => {
+    if (!isValidIPAddress(address) || address.includes('/')) {
+      errors.push(`Invalid listen address ${address}`);
+    }
+  });
+
+  if (!forwarding.allowFrom || forwarding.allowFrom.length === 0) {
+    errors.push('At least one allowed client network is required');
+  }
+
+  (forwarding.allowFrom || []).forEach((network) => {
+    if (!isValidIPAddress(network) || !network.includes('/')) {
+      errors.push(`Allowed network ${network} must be a prefix such as 192.168.1.0/24`);
+    }
+  });
+
+  if (forwarding.cacheSize !== undefined && (!Number.isInteger(forwarding.cacheSize) || forwarding.cacheSize < 0)) {
+    errors.push('Cache size must be zero or a positive number of entries');
+  }
+
+  const upstreams = new Set<string>();
+  (forwarding.nameServers || []).forEach((upstream) => {
+    if (!isValidIPAddress(upstream.address) || upstream.address.includes('/')) {
+      errors.push(`Invalid name server ${upstream.address}`);
+    } else if (upstreams.has(upstream.address)) {
+      errors.push(`Name server ${upstream.address} is listed more than once`);
+    }
+    upstreams.add(upstream.address);
+
+    if (upstream.port !== undefined && !isValidPort(upstream.port)) {
+      errors.push(`Name server ${upstream.address}: invalid port ${upstream.port}`);
+    }
+  });
+
+  const domains = new Set<string>();
+  (forwarding.domainOverrides || []).forEach((override) => {
+    if (!override.domain || !isValidHostname(override.domain)) {
+      errors.push(`Invalid domain ${override.domain}`);
+    } else if (domains.has(override.domain.toLowerCase())) {
+      errors.push(`Domain ${override.domain} is overridden more than once`);
+    }
+    domains.add((override.domain || '').toLowerCase());
+
+    if (override.servers.length === 0) {
+      errors.push(`Domain ${override.domain}: at least one server is required`);
+    }
+
+    override.servers.forEach((server) => {
+      if (!isValidIPAddress(server) || server.includes('/')) {
+        errors.push(`Domain ${override.domain}: invalid server ${server}`);
+      }
+    });
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateStaticHostMapping(
+  host: Partial<StaticHostMapping>,
+  existing: StaticHostMapping[] = []
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!host.hostName || !isValidHostname(host.hostName)) {
+    errors.push('Invalid host name');
+  }
+
+  if (!host.address || !isValidIPAddress(host.address) || host.address.includes('/')) {
+    errors.push('Address must be an IPv4 or IPv6 address');
+  }
+
+  const aliases = new Set<string>();
+  (host.aliases || []).forEach((alias) => {
+    if (!isValidHostname(alias)) {
+      errors.push(`Invalid alias ${alias}`);
+    } else if (alias.toLowerCase() === host.hostName?.toLowerCase() || aliases.has(alias.toLowerCase())) {
+      errors.push(`Alias ${alias} is listed more than once`);
+    }
+    aliases.add(alias.toLowerCase());
+  });
+
+  // A name may only resolve through one mapping, whether as host name or alias
+  existing
+    .filter((other) => other.hostName !== host.hostName)
+    .forEach((other) => {
+      const taken = [other.hostName, ...other.aliases].map((name) => name.toLowerCase());
+      [host.hostName || '', ...(host.aliases || [])].forEach((name) => {
+        if (taken.includes(name.toLowerCase())) {
+          errors.push(`${name} is already mapped by ${other.hostName}`);
+        }
+      });
+    });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+// ============================================================================
+// VRRP Validation
+// ============================================================================
+
+export function validateVrrpGroup(group: Partial<VrrpGroup>, existing: VrrpGroup[] = []): ValidationResult {
+  const errors: string[] = [];
+
+  if (!group.name || !isValidPolicyName(group.name)) {
+    errors.push('Name may only contain letters, digits, "-" and "_"');
+  }
+
+  if (!group.vrid || !Number.isInteger(group.vrid) || group.vrid < 1 || group.vrid > 255) {
+    errors.push('VRID must be between 1 and 255');
+  }
+
+  if (!group.interface || !isValidInterfaceName(group.interface)) {
+    errors.push('Invalid interface');
+  }
+
+  if (!group.virtualAddresses || group.virtualAddresses.length === 0) {
+    errors.push('At least one virtual address is required');
+  }
+
+  (group.virtualAddresses || []).forEach((address) => {
+    if (!isValidIPAddress(address) || !address.includes('/')) {
+      errors.push(`Virtual address ${address} needs a prefix length, e.g. 192.0.2.1/24`);
+    }
+  });
+
+  if (group.priority !== undefined && (group.priority < 1 || group.priority > 255)) {
+    errors.push('Priority must be between 1 and 255');
+  }
+
+  if (group.preemptDelay !== undefined && (group.preemptDelay < 0 || group.preemptDelay > 1000)) {
+    errors.push('Preempt delay must be between 0 and 1000 seconds');
+  }
+
+  if (group.advertiseInterval !== undefined && (group.advertiseInterval < 1 || group.advertiseInterval > 255)) {
+    errors.push('Advertise interval must be between 1 and 255 seconds');
+  }
+
+  if (group.authentication) {
+    if (!group.authentication.password) {
+      errors.push('Authentication password is required');
+    } else if (group.authentication.type === 'plaintext-password' && group.authentication.password.length > 8) {
+      errors.push('Plaintext passwords are limited to 8 characters');
+    }
+  }
+
+  // Keepalived refuses two instances with one VRID on the same interface
+  existing
+    .filter((other) => other.name !== group.name)
+    .forEach((other) => {
+      if (other.vrid === group.vrid && other.interface === group.interface) {
+        errors.push(`VRID ${group.vrid} is already used on ${group.interface} by group ${other.name}`);
+      }
+    });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+export function validateVrrpSyncGroup(syncGroup: Partial<VrrpSyncGroup>, vrrp: VrrpConfig): ValidationResult {
+  const errors: string[] = [];
+
+  if (!syncGroup.name || !isValidPolicyName(syncGroup.name)) {
+    errors.push('Name may only contain letters, digits, "-" and "_"');
+  }
+
+  if (!syncGroup.members || syncGroup.members.length === 0) {
+    errors.push('At least one member group is required');
+  }
+
+  (syncGroup.members || []).forEach((member) => {
+    if (!vrrp.groups.some((group) => group.name === member)) {
+      errors.push(`Group ${member} does not exist`);
+    }
+
+    const owner = vrrp.syncGroups.find((other) => other.name !== syncGroup.name && other.members.includes(member));
+    if (owner) {
+      errors.push(`Group ${member} is already in sync group ${owner.name}`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+// ============================================================================
+// WAN Load Balancing Validation
+// ============================================================================
+
+export function validateWanInterfaceHealth(
+  health: Partial<WanInterfaceHealth>,
+  existing: WanInterfaceHealth[] = []
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!health.interface || !isValidInterfaceName(health.interface)) {
+    errors.push('Invalid interface name');
+  } else if (existing.some((other) => other.interface === health.interface)) {
+    errors.push(`Interface ${health.interface} already has a health check`);
+  }
+
+  if (!health.nexthop || (health.nexthop !== 'dhcp' && !isValidIPv4(health.nexthop))) {
+    errors.push('Next hop must be an IPv4 address or "dhcp"');
+  }
+
+  if (health.failureCount !== undefined && (health.failureCount < 1 || health.failureCount > 10)) {
+    errors.push('Failure count must be between 1 and 10');
+  }
+
+  if (health.successCount !== undefined && (health.successCount < 1 || health.successCount > 10)) {
+    errors.push('Success count must be between 1 and 10');
+  }
+
+  const numbers = new Set<number>();
+  (health.tests || []).forEach((test) => {
+    if (numbers.has(test.number)) {
+      errors.push(`Duplicate test number ${test.number}`);
+    }
+    numbers.add(test.number);
+
+    if (test.type === 'user-defined') {
+      if (!test.testScript) {
+        errors.push(`Test ${test.number}: A user-defined test needs a script`);
+      }
+    } else if (!test.target || !isValidIPv4(test.target) || test.target.includes('/')) {
+      errors.push(`Test ${test.number}: Target must be an IPv4 address`);
+    }
+
+    if (test.respTime !== undefined && (test.respTime < 1 || test.respTime > 30)) {
+      errors.push(`Test ${test.number}: Response time must be between 1 and 30 seconds`);
+    }
+
+    if (test.ttlLimit !== undefined && (test.ttlLimit < 1 || test.ttlLimit > 254)) {
+      errors.push(`Test ${test.number}: TTL limit must be between 1 and 254`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Check a rule against the rest of the configuration; every uplink it uses
+ * must have a health check
+ */
+export function validateWanRule(rule: Partial<WanRule>, wan: WanLoadBalancing): ValidationResult {
+  const errors: string[] = [];
+
+  if (!rule.number || !Number.isInteger(rule.number) || rule.number < 1 || rule.number > 9999) {
+    errors.push('Rule number must be between 1 and 9999');
+  } else if (wan.rules.some((other) => other.number === rule.number)) {
+    errors.push(`Rule ${rule.number} already exists`);
+  }
+
+  if (!rule.inboundInterface || !isValidInterfaceName(rule.inboundInterface)) {
+    errors.push('Inbound interface is required');
+  }
+
+  if (!rule.exclude && (!rule.interfaces || rule.interfaces.length === 0)) {
+    errors.push('At least one uplink is required');
+  }
+
+  const healthChecked = new Set(wan.interfaces.map((health) => health.interface));
+  (rule.interfaces || []).forEach((iface) => {
+    if (!healthChecked.has(iface.name)) {
+      errors.push(`Uplink ${iface.name} has no health check`);
+    }
+
+    if (iface.name === rule.inboundInterface) {
+      errors.push(`Uplink ${iface.name} is also the inbound interface`);
+    }
+
+    if (iface.weight !== undefined && (iface.weight < 1 || iface.weight > 255)) {
+      errors.push(`Uplink ${iface.name}: Weight must be between 1 and 255`);
+    }
+  });
+
+  if (rule.protocol && !(VYOS_FEATURES.WAN_RULE_PROTOCOLS as readonly string[]).includes(rule.protocol)) {
+    errors.push(`Protocol must be one of: ${VYOS_FEATURES.WAN_RULE_PROTOCOLS.join(', ')}`);
+  }
+
+  (['source', 'destination'] as const).forEach((side) => {
+    const match = rule[side];
+
+    if (match?.address && !isValidFirewallAddress(match.address, 'ipv4')) {
+      errors.push(`Invalid ${side} address ${match.address}`);
+    }
+
+    if (match?.port) {
+      if (rule.protocol !== 'tcp' && rule.protocol !== 'udp') {
+        errors.push(`A ${side} port needs protocol tcp or udp`);
+      } else if (!match.port.split(',').every(isValidPortRange)) {
+        errors.push(`Invalid ${side} port ${match.port}`);
+      }
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+// ============================================================================
+// QoS Validation
+// ============================================================================
+
+// Multipliers to bit/s; the *bps units are bytes per second
+const QOS_RATE_UNITS: Record<string, number> = {
+  '': 1,
+  bit: 1,
+  kbit: 1e3,
+  mbit: 1e6,
+  gbit: 1e9,
+  tbit: 1e12,
+  bps: 8,
+  kbps: 8e3,
+  mbps: 8e6,
+  gbps: 8e9,
+  tbps: 8e12,
+};
+
+/**
+ * A rate in bit/s, resolving percentages against the parent rate. Undefined
+ * for unparseable rates, `auto`, and percentages without a parent.
+ */
+export function parseQosRate(rate: string, parentRate?: number): number | undefined {
+  const match = rate.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(%|[kmgt]?(?:bit|bps))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = parseFloat(match[1]);
+  const unit = match[2] || '';
+
+  if (unit === '%') {
+    return parentRate !== undefined && value <= 100 ? (parentRate * value) / 100 : undefined;
+  }
+
+  return value * QOS_RATE_UNITS[unit];
+}
+
+/**
+ * Sum of the guaranteed bandwidth of every class, including the default one.
+ * Null when the rates cannot be compared, e.g. absolute rates under an auto policy.
+ */
+export function getQosBandwidthUsage(policy: Pick<QosPolicy, 'bandwidth' | 'classes' | 'defaultClass'>): QosBandwidthUsage | null {
+  const settings = [...policy.classes, policy.defaultClass];
+  const parent = parseQosRate(policy.bandwidth);
+
+  if (parent === undefined) {
+    // Without a known policy rate only percentages add up
+    if (policy.bandwidth !== 'auto' || !settings.every((entry) => /^\d+(\.\d+)?%$/.test(entry.bandwidth.trim()))) {
+      return null;
+    }
+    return { guaranteed: settings.reduce((sum, entry) => sum + parseFloat(entry.bandwidth), 0), available: 100, unit: '%' };
+  }
+
+  const rates = settings.map((entry) => parseQosRate(entry.bandwidth, parent));
+  if (rates.some((rate) => rate === undefined)) {
+    return null;
+  }
+
+  return { guaranteed: rates.reduce((sum: number, rate) => sum + rate!, 0), available: parent, unit: 'bit' };
+}
+
+export function validateQosPolicy(policy: Partial<QosPolicy>): ValidationResult {
+  const errors: string[] = [];
+  const classes = policy.classes || [];
+
+  if (!policy.name || !isValidPolicyName(policy.name)) {
+    errors.push('Policy name may only contain letters, digits, hyphens and underscores');
+  }
+
+  const parent = policy.bandwidth ? parseQosRate(policy.bandwidth) : undefined;
+  if (!policy.bandwidth || (policy.bandwidth !== 'auto' && (parent === undefined || policy.bandwidth.includes('%')))) {
+    errors.push('Bandwidth must be a rate such as 100mbit, or auto');
+  }
+
+  const validateSettings = (label: string, settings: Partial<QosClassSettings>) => {
+    const rateParent = parent ?? 100;
+
+    if (!settings.bandwidth || parseQosRate(settings.bandwidth, rateParent) === undefined) {
+      errors.push(`${label}: Bandwidth must be a rate such as 10mbit or a percentage such as 30%`);
+    }
+
+    if (settings.ceiling) {
+      const ceiling = parseQosRate(settings.ceiling, rateParent);
+      const guaranteed = settings.bandwidth ? parseQosRate(settings.bandwidth, rateParent) : undefined;
+
+      // Under an auto policy a percentage and an absolute rate cannot be compared
+      const comparable = parent !== undefined || settings.ceiling.includes('%') === settings.bandwidth?.includes('%');
+
+      if (ceiling === undefined) {
+        errors.push(`${label}: Ceiling must be a rate or a percentage`);
+      } else if (guaranteed !== undefined && comparable && ceiling < guaranteed) {
+        errors.push(`${label}: Ceiling cannot be below the guaranteed bandwidth`);
+      }
+    }
+
+    if (settings.priority !== undefined && (!Number.isInteger(settings.priority) || settings.priority < 0 || settings.priority > 7)) {
+      errors.push(`${label}: Priority must be between 0 and 7`);
+    }
+
+    if (settings.queueType && !(VYOS_FEATURES.QOS_QUEUE_TYPES as readonly string[]).includes(settings.queueType)) {
+      errors.push(`${label}: Queue type must be one of: ${VYOS_FEATURES.QOS_QUEUE_TYPES.join(', ')}`);
+    }
+  };
+
+  const ids = new Set<number>();
+  classes.forEach((qosClass) => {
+    const label = `Class ${qosClass.id}`;
+
+    if (
+      !Number.isInteger(qosClass.id) ||
+      qosClass.id < VYOS_FEATURES.QOS_CLASS_ID_MIN ||
+      qosClass.id > VYOS_FEATURES.QOS_CLASS_ID_MAX
+    ) {
+      errors.push(`${label}: Class must be between ${VYOS_FEATURES.QOS_CLASS_ID_MIN} and ${VYOS_FEATURES.QOS_CLASS_ID_MAX}`);
+    } else if (ids.has(qosClass.id)) {
+      errors.push(`Duplicate class ${qosClass.id}`);
+    }
+    ids.add(qosClass.id);
+
+    validateSettings(label, qosClass);
+
+    if (qosClass.matches.length === 0) {
+      errors.push(`${label}: At least one match is required`);
+    }
+
+    const names = new Set<string>();
+    qosClass.matches.forEach((match) => {
+      if (!match.name || !isValidPolicyName(match.name)) {
+        errors.push(`${label}: Invalid match name ${match.name || ''}`);
+      } else if (names.has(match.name)) {
+        errors.push(`${label}: Duplicate match ${match.name}`);
+      }
+      names.add(match.name);
+
+      const endpoints = [match.source, match.destination];
+      if (!match.protocol && !match.dscp && !endpoints.some((endpoint) => endpoint?.address || endpoint?.port)) {
+        errors.push(`${label}: Match ${match.name} has no criteria`);
+      }
+
+      if (match.dscp && !isValidDSCP(match.dscp) && !/^[a-z]+\d*$/i.test(match.dscp)) {
+        errors.push(`${label}: Invalid DSCP ${match.dscp}`);
+      }
+
+      (['source', 'destination'] as const).forEach((side) => {
+        const endpoint = match[side];
+
+        if (endpoint?.address && !isValidFirewallAddress(endpoint.address, match.family)) {
+          errors.push(`${label}: Invalid ${side} address ${endpoint.address}`);
+        }
+
+        if (endpoint?.port && !isValidPort(endpoint.port)) {
+          errors.push(`${label}: Invalid ${side} port ${endpoint.port}`);
+        }
+      });
+    });
+  });
+
+  if (policy.defaultClass) {
+    validateSettings('Default class', policy.defaultClass);
+  } else {
+    errors.push('The default class needs a bandwidth');
+  }
+
+  // Only meaningful once every rate parses
+  if (errors.length === 0) {
+    const usage = getQosBandwidthUsage(policy as QosPolicy);
+
+    if (!usage) {
+      errors.push('With bandwidth auto, class bandwidths must be percentages');
+    } else if (usage.guaranteed > usage.available) {
+      errors.push(
+        usage.unit === '%'
+          ? `Classes guarantee ${usage.guaranteed}% of the bandwidth, more than 100%`
+          : `Classes guarantee ${formatQosRate(usage.guaranteed)}, more than the policy bandwidth of ${formatQosRate(usage.available)}`
+      );
+    }
+  }
+
+  (policy.interfaces || []).forEach((name) => {
+    if (!isValidInterfaceName(name)) {
+      errors.push(`Invalid interface ${name}`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * bit/s in the largest unit that keeps the value at or above 1, e.g. 1.5mbit
+ */
+export function formatQosRate(bits: number): string {
+  const units: [string, number][] = [
+    ['gbit', 1e9],
+    ['mbit', 1e6],
+    ['kbit', 1e3],
+  ];
+  const [unit, size] = units.find(([, size]) => bits >= size) || ['bit', 1];
+  return `${parseFloat((bits / size).toFixed(2))}${unit}`;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// Tokens the VyOS shell takes verbatim, without quoting
+const PLAIN_CONFIG_TOKEN = /^[\w.:/@+-]+$/;
+
+const CONTROL_CHARACTERS = /[\x00-\x1f\x7f]/;
+
+/**
+ * Single-quote a value for the shell. A quote can't be escaped inside single
+ * quotes, so each one closes the string, adds \' and reopens it: 'it'\''s'
+ */
+function quoteConfigValue(value: string): string {
+  if (CONTROL_CHARACTERS.test(value)) {
+    throw new VyOSError(`Configuration value contains control characters: ${JSON.stringify(value)}`, 'VALIDATION_ERROR');
+  }
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+export function sanitizeConfigValue(value: string): string {
+  // Quote anything the shell would split or expand
+  return PLAIN_CONFIG_TOKEN.test(value) ? value : quoteConfigValue(value);
+}
+
+export function formatConfigValue(value: string): string {
+  // Leaf values are always quoted so they read back as values, not node names
+  return quoteConfigValue(value);
+}
+
+export function formatConfigPath(parts: string[]): string {
+  // Quote anything that is not a plain token so values survive the shell verbatim
+  return parts.map(sanitizeConfigValue).join(' ');
+}
+
+export function parseIPAddress(address: string): { ip: string; cidr?: number } {
+  const parts = address.split('/');
+  return {
+    ip: parts[0],
+    cidr: parts[1] ? parseInt(parts[1], 10) : undefined,
+  };
+}
+
+export function formatIPAddress(ip: string, cidr?: number): string {
+  return cidr !== undefined ? `${ip}/${cidr}` : ip;
+}
+
+/**
+ * Compare a version from `show version` (1.3.8, 1.5-rolling-..., 2025.01.01-...)
+ * against a minimum release. Unknown versions count as current.
+ */
+export function isVyOSVersionAtLeast(version: string | undefined, minimum: string): boolean {
+  const match = version?.match(/^(\d+)\.(\d+)/);
+  if (!match) {
+    return true;
+  }
+
+  const [major, minor] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+  const [minMajor, minMinor] = minimum.split('.').map((part) => parseInt(part, 10));
+
+  // Date-based rolling releases are newer than any numbered one
+  if (major >= 2000) {
+    return true;
+  }
+
+  return major > minMajor || (major === minMajor && minor >= minMinor);
 }